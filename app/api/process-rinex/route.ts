@@ -1,627 +1,184 @@
 import { type NextRequest, NextResponse } from "next/server"
-
-// Constants for GNSS calculations
-const SPEED_OF_LIGHT = 299792458 // m/s
-const GPS_L1_FREQUENCY = 1575.42e6 // Hz
-const EARTH_RADIUS = 6371000 // meters
-
-// RINEX file parsing utilities with robust error handling
-function parseRinexObservation(content: string) {
-  const lines = content.split(/\r?\n/)
-  const observations = []
-  let headerComplete = false
-  let currentEpoch = null
-  let epochData = []
-  let observationTypes = []
-  let rinexVersion = 2
-
-  console.log(`Processing observation file with ${lines.length} lines`)
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i]
-
-    // Skip empty lines
-    if (!line.trim()) continue
-
-    // Parse header information
-    if (!headerComplete) {
-      // Check RINEX version
-      if (line.includes("RINEX VERSION")) {
-        const versionMatch = line.match(/^\s*(\d+\.\d+)/)
-        if (versionMatch) {
-          rinexVersion = Number.parseFloat(versionMatch[1])
-          console.log(`RINEX version: ${rinexVersion}`)
-        }
-      }
-
-      // Parse observation types for RINEX 2.x
-      if (line.includes("# / TYPES OF OBSERV")) {
-        const numObs = Number.parseInt(line.substring(0, 6).trim())
-        observationTypes = []
-        const obsLine = line.substring(6, 60).trim()
-        observationTypes = obsLine.split(/\s+/).filter((type) => type.length > 0)
-        console.log(`Found ${numObs} observation types:`, observationTypes)
-      }
-
-      // Parse observation types for RINEX 3.x
-      if (line.includes("SYS / # / OBS TYPES")) {
-        const parts = line.trim().split(/\s+/)
-        if (parts[0] === "G") {
-          // GPS observations
-          const numObs = Number.parseInt(parts[1])
-          observationTypes = parts.slice(2, 2 + numObs)
-          console.log(`Found GPS observation types:`, observationTypes)
-        }
-      }
-
-      if (line.includes("END OF HEADER")) {
-        headerComplete = true
-        console.log("Header parsing complete")
-        continue
-      }
-      continue
-    }
-
-    // Parse epoch data based on RINEX version
-    if (rinexVersion >= 3) {
-      // RINEX 3.x format
-      if (line.startsWith(">")) {
-        // Save previous epoch
-        if (currentEpoch && epochData.length > 0) {
-          observations.push({
-            epoch: currentEpoch,
-            satellites: epochData,
-          })
-        }
-
-        // Parse new epoch
-        const parts = line.trim().split(/\s+/)
-        currentEpoch = {
-          year: Number.parseInt(parts[1]) || 2024,
-          month: Number.parseInt(parts[2]) || 1,
-          day: Number.parseInt(parts[3]) || 1,
-          hour: Number.parseInt(parts[4]) || 0,
-          minute: Number.parseInt(parts[5]) || 0,
-          second: Number.parseFloat(parts[6]) || 0,
-          flag: Number.parseInt(parts[7]) || 0,
-          numSats: Number.parseInt(parts[8]) || 0,
-        }
-        epochData = []
-      }
-      // Satellite observation line
-      else if (line.length > 3 && /^[A-Z]\d{2}/.test(line.trim())) {
-        const satId = line.substring(0, 3)
-        const obsLine = line.substring(3)
-        const values = obsLine.trim().split(/\s+/)
-
-        const satObs: any = { satellite: satId }
-
-        // Map observation types to values
-        for (let j = 0; j < Math.min(observationTypes.length, values.length); j++) {
-          const obsType = observationTypes[j]
-          const value = Number.parseFloat(values[j]) || 0
-
-          if (obsType.startsWith("C") || obsType === "P1" || obsType === "P2") {
-            satObs.pseudorange = value
-          } else if (obsType.startsWith("L") || obsType === "L1" || obsType === "L2") {
-            satObs.carrierPhase = value
-          } else if (obsType.startsWith("D") || obsType === "D1" || obsType === "D2") {
-            satObs.doppler = value
-          } else if (obsType.startsWith("S") || obsType === "S1" || obsType === "S2") {
-            satObs.snr = value
-          }
-        }
-
-        // Set reasonable defaults if not found
-        if (!satObs.pseudorange) satObs.pseudorange = 20000000 + Math.random() * 5000000
-        if (!satObs.carrierPhase) satObs.carrierPhase = Math.random() * 1000
-        if (!satObs.doppler) satObs.doppler = (Math.random() - 0.5) * 2000
-        if (!satObs.snr) satObs.snr = 35 + Math.random() * 15
-
-        epochData.push(satObs)
-      }
-    } else {
-      // RINEX 2.x format
-      // Check for epoch line (starts with year or space + year)
-      if (/^\s*\d{2}\s+\d{1,2}\s+\d{1,2}\s+\d{1,2}\s+\d{1,2}/.test(line)) {
-        // Save previous epoch
-        if (currentEpoch && epochData.length > 0) {
-          observations.push({
-            epoch: currentEpoch,
-            satellites: epochData,
-          })
-        }
-
-        // Parse epoch header
-        const parts = line.trim().split(/\s+/)
-        let year = Number.parseInt(parts[0])
-        if (year < 80) year += 2000
-        else if (year < 100) year += 1900
-
-        currentEpoch = {
-          year,
-          month: Number.parseInt(parts[1]) || 1,
-          day: Number.parseInt(parts[2]) || 1,
-          hour: Number.parseInt(parts[3]) || 0,
-          minute: Number.parseInt(parts[4]) || 0,
-          second: Number.parseFloat(parts[5]) || 0,
-          flag: Number.parseInt(parts[6]) || 0,
-          numSats: Number.parseInt(parts[7]) || 0,
-        }
-        epochData = []
-
-        // Parse satellite list if present in the same line
-        if (parts.length > 8) {
-          for (let j = 8; j < parts.length && j < 8 + currentEpoch.numSats; j++) {
-            if (parts[j] && parts[j].length >= 3) {
-              epochData.push({
-                satellite: parts[j].substring(0, 3),
-                pseudorange: 20000000 + Math.random() * 5000000,
-                carrierPhase: Math.random() * 1000,
-                doppler: (Math.random() - 0.5) * 2000,
-                snr: 35 + Math.random() * 15,
-              })
-            }
-          }
-        }
-      }
-      // Observation data lines for RINEX 2.x
-      else if (currentEpoch && line.length > 10 && /^\s*[\d\-.]/.test(line)) {
-        // Parse observation values
-        const obsValues = []
-        for (let pos = 0; pos < line.length; pos += 16) {
-          const valueStr = line.substring(pos, pos + 14).trim()
-          if (valueStr) {
-            obsValues.push(Number.parseFloat(valueStr) || 0)
-          }
-        }
-
-        // If we have satellites without observation data, add the values
-        if (epochData.length > 0 && obsValues.length > 0) {
-          const satIndex = epochData.length - 1
-          if (epochData[satIndex]) {
-            if (obsValues[0] && observationTypes[0]) {
-              if (observationTypes[0].startsWith("C") || observationTypes[0] === "P1") {
-                epochData[satIndex].pseudorange = obsValues[0]
-              }
-            }
-            if (obsValues[1] && observationTypes[1]) {
-              if (observationTypes[1].startsWith("L") || observationTypes[1] === "L1") {
-                epochData[satIndex].carrierPhase = obsValues[1]
-              }
-            }
-            if (obsValues[2] && observationTypes[2]) {
-              if (observationTypes[2].startsWith("D") || observationTypes[2] === "D1") {
-                epochData[satIndex].doppler = obsValues[2]
-              }
-            }
-            if (obsValues[3] && observationTypes[3]) {
-              if (observationTypes[3].startsWith("S") || observationTypes[3] === "S1") {
-                epochData[satIndex].snr = obsValues[3]
-              }
-            }
-          }
-        }
-      }
-    }
-  }
-
-  // Add final epoch
-  if (currentEpoch && epochData.length > 0) {
-    observations.push({
-      epoch: currentEpoch,
-      satellites: epochData,
-    })
-  }
-
-  console.log(`Parsed ${observations.length} epochs`)
-  return observations
+import { createObservationAnalysis } from "@/lib/gnss/analysis"
+import { generateDemoResults } from "@/lib/gnss/demo"
+import { collectLines } from "@/lib/gnss/ingest/lines"
+import { type UploadedFile, readUpload } from "@/lib/gnss/ingest/upload"
+import { RinexParseError } from "@/lib/gnss/rinex/diagnostics"
+import { mergeNavigationFiles, parseRinexNavigation } from "@/lib/gnss/rinex/navigation"
+import { streamRinexObservation } from "@/lib/gnss/rinex/observation"
+import { analysisOptionsSchema } from "@/lib/gnss/schema"
+import type {
+  ApiError,
+  ObservationStreamSummary,
+  ParseDiagnostic,
+  ReceivedFile,
+  RinexNavigationFile,
+} from "@/lib/gnss/types"
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : "Unknown error"
 }
 
-function parseRinexNavigation(content: string) {
-  const lines = content.split(/\r?\n/)
-  const ephemeris = []
-  let headerComplete = false
-  let currentSat = null
-  let satData: any = {}
-  let lineCount = 0
-  let rinexVersion = 2
-
-  console.log(`Processing navigation file with ${lines.length} lines`)
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i]
+// Parser diagnostics and detected files travel with the error so the dashboard can point at the cause
+function errorResponse(
+  code: string,
+  message: string,
+  status: number,
+  diagnostics?: ParseDiagnostic[],
+  files?: ReceivedFile[],
+) {
+  return NextResponse.json<ApiError>({ error: message, code, diagnostics, files }, { status })
+}
 
-    // Skip empty lines
-    if (!line.trim()) continue
+function parseErrorDiagnostics(error: unknown) {
+  return error instanceof RinexParseError ? error.diagnostics : undefined
+}
 
-    if (!headerComplete) {
-      // Check RINEX version
-      if (line.includes("RINEX VERSION")) {
-        const versionMatch = line.match(/^\s*(\d+\.\d+)/)
-        if (versionMatch) {
-          rinexVersion = Number.parseFloat(versionMatch[1])
-          console.log(`Navigation RINEX version: ${rinexVersion}`)
-        }
-      }
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData()
 
-      if (line.includes("END OF HEADER")) {
-        headerComplete = true
-        console.log("Navigation header parsing complete")
-      }
-      continue
+    // Demo mode needs no files and always answers with clearly marked synthetic data
+    if (formData.get("mode") === "demo") {
+      return NextResponse.json(generateDemoResults())
+    }
+
+    // Files may arrive in either slot or in the combined list; their content decides how they are used
+    const files = ["obsFile", "navFile", "files"]
+      .flatMap((key) => formData.getAll(key))
+      .filter((entry): entry is File => entry instanceof File)
+    // Strict mode rejects files with any parse error instead of analyzing what could be read
+    const parseOptions = { strict: formData.get("strict") === "true" }
+    // Atmospheric delay models, weighting and cut-offs; fields the form leaves out take their defaults
+    const analysisOptions = analysisOptionsSchema.safeParse(
+      Object.fromEntries(
+        ["ionosphere", "troposphere", "weighting", "elevationMask", "minCn0"].map((key) => [
+          key,
+          formData.get(key) ?? undefined,
+        ]),
+      ),
+    )
+    if (!analysisOptions.success) {
+      const fields = analysisOptions.error.issues.map((issue) => issue.path.join(".")).join(", ")
+      return errorResponse("INVALID_OPTIONS", `Invalid analysis options: ${fields}`, 400)
     }
 
-    // Parse satellite ephemeris
-    if (rinexVersion >= 3) {
-      // RINEX 3.x format
-      if (line.length > 3 && /^[A-Z]\d{2}/.test(line.trim())) {
-        // Save previous satellite
-        if (currentSat && Object.keys(satData).length > 0) {
-          ephemeris.push({
-            satellite: currentSat,
-            ...satData,
-          })
-        }
-
-        // Parse new satellite
-        currentSat = line.substring(0, 3)
-        const parts = line.trim().split(/\s+/)
-
-        satData = {
-          toc: {
-            year: Number.parseInt(parts[1]) || 2024,
-            month: Number.parseInt(parts[2]) || 1,
-            day: Number.parseInt(parts[3]) || 1,
-            hour: Number.parseInt(parts[4]) || 0,
-            minute: Number.parseInt(parts[5]) || 0,
-            second: Number.parseFloat(parts[6]) || 0,
-          },
-          clockBias: Number.parseFloat(parts[7]) || 0,
-          clockDrift: Number.parseFloat(parts[8]) || 0,
-          clockDriftRate: Number.parseFloat(parts[9]) || 0,
-        }
-        lineCount = 0
-      }
-    } else {
-      // RINEX 2.x format
-      if (line.length > 2 && /^\s*\d{1,2}\s/.test(line)) {
-        // Save previous satellite
-        if (currentSat && Object.keys(satData).length > 0) {
-          ephemeris.push({
-            satellite: currentSat,
-            ...satData,
-          })
-        }
-
-        // Parse satellite number and time
-        const parts = line.trim().split(/\s+/)
-        const satNum = Number.parseInt(parts[0])
-        currentSat = `G${satNum.toString().padStart(2, "0")}`
-
-        let year = Number.parseInt(parts[1])
-        if (year < 80) year += 2000
-        else if (year < 100) year += 1900
-
-        satData = {
-          toc: {
-            year,
-            month: Number.parseInt(parts[2]) || 1,
-            day: Number.parseInt(parts[3]) || 1,
-            hour: Number.parseInt(parts[4]) || 0,
-            minute: Number.parseInt(parts[5]) || 0,
-            second: Number.parseFloat(parts[6]) || 0,
-          },
-          clockBias: Number.parseFloat(parts[7]) || 0,
-          clockDrift: Number.parseFloat(parts[8]) || 0,
-          clockDriftRate: Number.parseFloat(parts[9]) || 0,
-        }
-        lineCount = 0
-      }
+    if (files.length === 0) {
+      return errorResponse("MISSING_FILES", "An observation file and a navigation file are required", 400)
     }
 
-    // Parse ephemeris data lines (both versions)
-    if (currentSat && line.trim().length > 0 && !/^[A-Z]\d{2}/.test(line.trim()) && !/^\s*\d{1,2}\s/.test(line)) {
-      const values = line
-        .trim()
-        .split(/\s+/)
-        .map((v) => Number.parseFloat(v) || 0)
-
-      if (lineCount === 0) {
-        satData.iode = values[0] || 0
-        satData.crs = values[1] || 0
-        satData.deltaN = values[2] || 0
-        satData.m0 = values[3] || 0
-      } else if (lineCount === 1) {
-        satData.cuc = values[0] || 0
-        satData.e = values[1] || 0
-        satData.cus = values[2] || 0
-        satData.sqrtA = values[3] || Math.sqrt(26560000)
-      } else if (lineCount === 2) {
-        satData.toe = values[0] || 0
-        satData.cic = values[1] || 0
-        satData.omega0 = values[2] || 0
-        satData.cis = values[3] || 0
-      }
-
-      lineCount++
+    // Unpack gzip, .Z, zip and Hatanaka layers; a zip may hold both the observation and the navigation file
+    const uploads: UploadedFile[] = []
+    try {
+      for (const file of files) uploads.push(...(await readUpload(file)))
+    } catch (unpackError) {
+      return errorResponse("UNREADABLE_UPLOAD", errorMessage(unpackError), 422)
+    }
+
+    // Every navigation file is used: RINEX 2 keeps GLONASS ephemeris in a file of its own and RINEX 3 files may come
+    // one per system. GPS-style files go first, as the merged header is theirs.
+    const observationUpload = uploads.find((upload) => upload.kind === "observation")
+    const navigationUploads = [
+      ...uploads.filter((upload) => upload.kind === "navigation"),
+      ...uploads.filter((upload) => upload.kind === "glonass-navigation"),
+    ]
+    const received = uploads.map((upload): ReceivedFile => ({
+      name: upload.name,
+      kind: upload.kind,
+      used: upload === observationUpload || navigationUploads.includes(upload),
+    }))
+
+    if (!observationUpload || navigationUploads.length === 0) {
+      const missing = []
+      if (!observationUpload) missing.push("RINEX observation file")
+      if (navigationUploads.length === 0) missing.push("RINEX navigation file")
+      return errorResponse(
+        "MISSING_FILES",
+        `No ${missing.join(" and no ")} found among the uploaded files`,
+        400,
+        undefined,
+        received,
+      )
     }
-  }
-
-  // Add final satellite
-  if (currentSat && Object.keys(satData).length > 0) {
-    ephemeris.push({
-      satellite: currentSat,
-      ...satData,
-    })
-  }
-
-  console.log(`Parsed ${ephemeris.length} satellite ephemeris records`)
-  return ephemeris
-}
-
-// Generate realistic results even with limited parsing
-function generateRealisticResults(observations: any[], ephemeris: any[]) {
-  // If we have limited real data, generate realistic synthetic data
-  const numEpochs = Math.max(50, observations.length)
-  const satelliteIds = new Set<string>()
-
-  // Collect actual satellite IDs
-  observations.forEach((obs) => {
-    obs.satellites.forEach((sat: any) => {
-      satelliteIds.add(sat.satellite)
-    })
-  })
-
-  // Add some common GPS satellites if we don't have enough
-  const commonSats = ["G01", "G02", "G03", "G04", "G05", "G06", "G07", "G08", "G09", "G10"]
-  commonSats.forEach((sat) => satelliteIds.add(sat))
-
-  const satellites = Array.from(satelliteIds).slice(0, 12) // Limit to 12 satellites
-
-  // Generate position data with realistic PDOP calculation
-  const positions = []
-  for (let i = 0; i < numEpochs; i++) {
-    const numVisibleSats = 4 + Math.floor(Math.random() * 8) // 4-12 satellites
-    const avgElevation = 30 + Math.random() * 45 // 30-75 degrees
 
-    // Calculate PDOP based on satellite geometry
-    let pdop = 1.5 + (12 - numVisibleSats) * 0.3 // Base PDOP
-    pdop += (60 - avgElevation) / 20 // Elevation factor
-    pdop += Math.random() * 0.5 // Random variation
-
-    // Add some high PDOP events for spoofing detection
-    if (i === 15 || i === 32 || i === 41) {
-      pdop += 4 + Math.random() * 3
+    // Basic validation
+    if (observationUpload.preview.length < 100) {
+      return errorResponse("EMPTY_OBSERVATION_FILE", "Observation file appears to be too small or empty", 400)
     }
 
-    pdop = Math.max(1.0, Math.min(15.0, pdop))
-
-    const x = 4000000 + Math.sin(i * 0.1) * 100 + (Math.random() - 0.5) * 50
-    const y = 3000000 + Math.cos(i * 0.1) * 100 + (Math.random() - 0.5) * 50
-    const z = 5000000 + Math.sin(i * 0.05) * 50 + (Math.random() - 0.5) * 25
-
-    positions.push({
-      epoch: i,
-      x,
-      y,
-      z,
-      pdop,
-      accuracy: Math.max(1, pdop * 0.8 + Math.random()),
-      numSats: numVisibleSats,
-    })
-  }
-
-  // Detect position jumps
-  const positionJumps = []
-  for (let i = 1; i < positions.length; i++) {
-    const prev = positions[i - 1]
-    const curr = positions[i]
-    const distance = Math.sqrt(
-      Math.pow(curr.x - prev.x, 2) + Math.pow(curr.y - prev.y, 2) + Math.pow(curr.z - prev.z, 2),
-    )
-
-    if (distance > 100) {
-      positionJumps.push(i)
+    if (navigationUploads.some((upload) => upload.preview.length < 100)) {
+      return errorResponse("EMPTY_NAVIGATION_FILE", "Navigation file appears to be too small or empty", 400)
     }
-  }
 
-  // Add some artificial jumps for demonstration
-  if (positionJumps.length === 0) {
-    positionJumps.push(16, 33, 42)
-    // Modify positions to show jumps
-    if (positions[16]) {
-      positions[16].x += 200
-      positions[16].y += 150
-    }
-    if (positions[33]) {
-      positions[33].x -= 180
-      positions[33].z += 100
-    }
-    if (positions[42]) {
-      positions[42].y += 220
-      positions[42].z -= 80
+    // Ephemeris comes first so observation epochs can be analyzed while the observation file is still being read
+    let navigationFile: RinexNavigationFile
+    try {
+      const contents = await Promise.all(navigationUploads.map((upload) => collectLines(upload.lines())))
+      navigationFile = navigationUploads
+        .map((upload, i) =>
+          parseRinexNavigation(
+            contents[i],
+            parseOptions,
+            upload.kind === "navigation" ? "navigation" : "glonass-navigation",
+          ),
+        )
+        .reduce(mergeNavigationFiles)
+    } catch (parseError) {
+      return errorResponse(
+        "NAVIGATION_PARSE_FAILED",
+        `Navigation file could not be parsed: ${errorMessage(parseError)}`,
+        422,
+        parseErrorDiagnostics(parseError),
+      )
     }
-  }
-
-  const pdopValues = positions.map((p) => p.pdop)
-  const highPdop = positions.filter((p) => p.pdop > 6).map((p) => p.epoch)
 
-  // Generate satellite health data
-  const satelliteHealth = satellites.map((satId) => {
-    const baseHealth = 0.3 + Math.random() * 0.7
-    let health = baseHealth
-
-    // Make some satellites suspicious
-    if (satId === "G02" || satId === "G04") {
-      health *= 0.4 // Make these satellites suspicious
+    const { ephemeris, glonassEphemeris } = navigationFile
+    if (ephemeris.length === 0 && glonassEphemeris.length === 0) {
+      return errorResponse(
+        "NO_EPHEMERIS",
+        "No ephemeris records could be read from the navigation file",
+        422,
+        navigationFile.diagnostics,
+      )
     }
 
-    return {
-      sv: satId,
-      health: Math.max(0.1, health),
-      snr: 30 + Math.random() * 20,
-      elevation: 15 + Math.random() * 75,
-      azimuth: Math.random() * 360,
+    const analysis = createObservationAnalysis(navigationFile, analysisOptions.data)
+    let observationFile: ObservationStreamSummary
+    try {
+      observationFile = await streamRinexObservation(observationUpload.lines(), analysis.addBlock, parseOptions)
+    } catch (parseError) {
+      return errorResponse(
+        "OBSERVATION_PARSE_FAILED",
+        `Observation file could not be parsed: ${errorMessage(parseError)}`,
+        422,
+        parseErrorDiagnostics(parseError),
+      )
     }
-  })
 
-  // Generate signal data
-  const signalData = positions.map((_, i) => ({
-    epoch: i,
-    avgSnr: 40 + Math.sin(i * 0.1) * 5 + Math.random() * 3,
-    doppler: Math.sin(i * 0.2) * 1000 + Math.random() * 100,
-    carrierPhase: Math.sin(i * 0.15) * 0.5 + Math.random() * 0.1,
-  }))
-
-  // Calculate threat metrics
-  const flaggedEpochs = [...new Set([...highPdop, ...positionJumps])]
-  const unhealthySats = satelliteHealth.filter((s) => s.health < 0.5).length
-
-  let spoofingProbability = 0
-  spoofingProbability += flaggedEpochs.length * 5
-  spoofingProbability += positionJumps.length * 20
-  spoofingProbability += unhealthySats * 15
-  spoofingProbability += Math.random() * 10
-  spoofingProbability = Math.min(95, Math.max(5, spoofingProbability))
-
-  let threatLevel: "LOW" | "MEDIUM" | "HIGH" | "CRITICAL"
-  if (spoofingProbability < 25) threatLevel = "LOW"
-  else if (spoofingProbability < 50) threatLevel = "MEDIUM"
-  else if (spoofingProbability < 75) threatLevel = "HIGH"
-  else threatLevel = "CRITICAL"
-
-  // Generate anomalies
-  const anomalies = [
-    {
-      type: "Position Jump",
-      severity: positionJumps.length > 2 ? "High" : positionJumps.length > 0 ? "Medium" : "Low",
-      count: positionJumps.length,
-      description: "Sudden position discontinuities detected",
-    },
-    {
-      type: "High PDOP",
-      severity: highPdop.length > 10 ? "High" : highPdop.length > 5 ? "Medium" : "Low",
-      count: highPdop.length,
-      description: "Poor satellite geometry periods",
-    },
-    {
-      type: "Satellite Health",
-      severity: unhealthySats > 3 ? "High" : unhealthySats > 1 ? "Medium" : "Low",
-      count: unhealthySats,
-      description: "Satellites showing suspicious behavior",
-    },
-    {
-      type: "Signal Anomalies",
-      severity: "Medium",
-      count: Math.floor(spoofingProbability / 20),
-      description: "Irregular signal characteristics detected",
-    },
-  ]
-
-  // Generate recommendations
-  const recommendations = []
-  if (threatLevel === "CRITICAL") {
-    recommendations.push("🚨 CRITICAL THREAT: Immediately cease reliance on GNSS positioning")
-    recommendations.push("Switch to alternative navigation methods (INS, visual navigation, etc.)")
-  } else if (threatLevel === "HIGH") {
-    recommendations.push("⚠️ HIGH THREAT: Exercise extreme caution with GNSS data")
-    recommendations.push("Cross-reference position with alternative navigation aids")
-  }
+    const diagnostics = [...observationFile.diagnostics, ...navigationFile.diagnostics]
 
-  if (positionJumps.length > 0) {
-    recommendations.push(`Investigate position jumps at epochs: ${positionJumps.join(", ")}`)
-  }
-
-  if (unhealthySats > 0) {
-    const suspiciousSats = satelliteHealth
-      .filter((s) => s.health < 0.5)
-      .map((s) => s.sv)
-      .join(", ")
-    recommendations.push(`Monitor suspicious satellites: ${suspiciousSats}`)
-  }
-
-  recommendations.push("Log all anomalies and report to relevant authorities")
-  recommendations.push("Consider implementing additional GNSS authentication measures")
-
-  return {
-    threatLevel,
-    spoofingProbability: Math.round(spoofingProbability),
-    flaggedEpochs,
-    positionJumps,
-    highPdop,
-    pdopValues,
-    satelliteHealth,
-    positionData: positions,
-    signalData,
-    anomalies,
-    recommendations,
-    processingInfo: {
-      totalEpochs: numEpochs,
-      totalSatellites: satellites.length,
-      avgSatellitesPerEpoch: Math.round(satellites.length * 0.8 * 10) / 10,
-      dataQuality: satellites.length >= 8 ? "Good" : satellites.length >= 6 ? "Fair" : "Poor",
-    },
-  }
-}
-
-export async function POST(request: NextRequest) {
-  try {
-    const formData = await request.formData()
-    const obsFile = formData.get("obsFile") as File
-    const navFile = formData.get("navFile") as File
-
-    if (!obsFile || !navFile) {
-      return NextResponse.json(
-        { error: "Both observation (.24o) and navigation (.24n) files are required" },
-        { status: 400 },
+    if (observationFile.epochCount === 0) {
+      return errorResponse(
+        "NO_OBSERVATIONS",
+        "No observation epochs could be read from the observation file",
+        422,
+        diagnostics,
       )
     }
 
-    console.log(`Processing files: ${obsFile.name} (${obsFile.size} bytes), ${navFile.name} (${navFile.size} bytes)`)
-
-    // Read file contents
-    const obsContent = await obsFile.text()
-    const navContent = await navFile.text()
+    const results = analysis.finish(observationFile)
 
-    console.log(`File contents read: obs=${obsContent.length} chars, nav=${navContent.length} chars`)
-
-    // Basic validation
-    if (obsContent.length < 100) {
-      return NextResponse.json({ error: "Observation file appears to be too small or empty" }, { status: 400 })
-    }
-
-    if (navContent.length < 100) {
-      return NextResponse.json({ error: "Navigation file appears to be too small or empty" }, { status: 400 })
+    if (results.positionData.length === 0) {
+      return errorResponse(
+        "NO_POSITION_SOLUTIONS",
+        "No epoch had four or more satellites with both observations and matching ephemeris",
+        422,
+        diagnostics,
+      )
     }
 
-    // Simulate processing delay
-    await new Promise((resolve) => setTimeout(resolve, 2000))
-
-    try {
-      // Parse RINEX files
-      const observations = parseRinexObservation(obsContent)
-      const ephemeris = parseRinexNavigation(navContent)
-
-      console.log(`Parsed: ${observations.length} observations, ${ephemeris.length} ephemeris records`)
-
-      // Generate results (will work even with limited parsing)
-      const results = generateRealisticResults(observations, ephemeris)
-
-      return NextResponse.json(results)
-    } catch (parseError) {
-      console.error("Parsing error:", parseError)
-      // If parsing fails, generate synthetic results for demonstration
-      const syntheticResults = generateRealisticResults([], [])
-      return NextResponse.json(syntheticResults)
-    }
+    return NextResponse.json({ ...results, processingInfo: { ...results.processingInfo, files: received } })
   } catch (error) {
-    console.error("Error processing RINEX files:", error)
-    return NextResponse.json(
-      {
-        error: `Processing failed: ${error instanceof Error ? error.message : "Unknown error"}`,
-      },
-      { status: 500 },
-    )
+    return errorResponse("PROCESSING_FAILED", `Processing failed: ${errorMessage(error)}`, 500)
   }
 }
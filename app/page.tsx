@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { type DragEvent, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -9,73 +9,280 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
-import { Upload, AlertTriangle, CheckCircle, XCircle, Satellite, MapPin, Radio, TrendingUp } from "lucide-react"
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from "recharts"
-
-interface SpoofingResults {
-  threatLevel: "LOW" | "MEDIUM" | "HIGH" | "CRITICAL"
-  spoofingProbability: number
-  flaggedEpochs: number[]
-  positionJumps: number[]
-  highPdop: number[]
-  pdopValues: number[]
-  satelliteHealth: Array<{
-    sv: string
-    health: number
-    snr: number
-    elevation: number
-    azimuth: number
-  }>
-  positionData: Array<{
-    epoch: number
-    x: number
-    y: number
-    z: number
-    accuracy: number
-    pdop: number
-  }>
-  signalData: Array<{
-    epoch: number
-    avgSnr: number
-    doppler: number
-    carrierPhase: number
-  }>
-  anomalies: Array<{
-    type: string
-    severity: string
-    count: number
-    description: string
-  }>
-  recommendations: string[]
-  processingInfo: {
-    totalEpochs: number
-    totalSatellites: number
-    avgSatellitesPerEpoch: number
-    dataQuality: string
-  }
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Switch } from "@/components/ui/switch"
+import {
+  Upload,
+  AlertTriangle,
+  CheckCircle,
+  XCircle,
+  Satellite,
+  MapPin,
+  Radio,
+  TrendingUp,
+  FileWarning,
+} from "lucide-react"
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  ReferenceLine,
+  Legend,
+} from "recharts"
+import { analysisResultSchema, apiErrorSchema } from "@/lib/gnss/schema"
+import type {
+  AnalysisOptions,
+  AnalysisResult,
+  EpochTimestamp,
+  FileKind,
+  HeaderTime,
+  IonosphereModel,
+  ObservationEvent,
+  ObservationEventKind,
+  ObservationHeader,
+  ParseDiagnostic,
+  ReceivedFile,
+  ReferencePosition,
+  SatelliteHealth,
+  TroposphereModel,
+  WeightingScheme,
+} from "@/lib/gnss/types"
+
+const formatValue = (value: number | null, digits: number, unit: string) =>
+  value === null ? "n/a" : `${value.toFixed(digits)}${unit}`
+
+const formatHeaderTime = (time: HeaderTime | null) =>
+  time
+    ? `${time.year}-${String(time.month).padStart(2, "0")}-${String(time.day).padStart(2, "0")} ` +
+      `${String(time.hour).padStart(2, "0")}:${String(time.minute).padStart(2, "0")}:` +
+      `${time.second.toFixed(0).padStart(2, "0")} ${time.timeSystem}`
+    : "n/a"
+
+const formatEpochTime = (time: EpochTimestamp) => `${time.utc.substring(0, 19).replace("T", " ")} UTC`
+
+// Epochs without a value of a primary observable, by reason; "none" when it was always there
+const formatMissing = (counts: SatelliteHealth["missing"]["pseudorange"]) =>
+  counts["blank-field"] + counts["not-in-header"] === 0
+    ? "none"
+    : `${counts["blank-field"]} blank, ${counts["not-in-header"]} not in header`
+
+// Chart axis label: UTC time of day of an epoch
+const epochTimeOfDay = (entry: { time: EpochTimestamp }) => entry.time.utc.substring(11, 19)
+
+// Origin of the east, north and up offsets shown on the position charts
+function formatReference(reference: ReferencePosition) {
+  const origin = reference.source === "approximate-position" ? "header approximate position" : "median solution"
+  const place = `${reference.latitude.toFixed(6)}°, ${reference.longitude.toFixed(6)}°`
+  const grid = reference.mgrs ? ` (MGRS ${reference.mgrs})` : ""
+  return `Offsets from the ${origin} at ${place}, ${reference.orthometricHeight.toFixed(1)} m above mean sea level${grid}`
+}
+
+const EVENT_LABELS: Record<ObservationEventKind, string> = {
+  "power-failure": "Power failure",
+  "antenna-moving": "Antenna moving",
+  "new-site": "New site",
+  "header-change": "Header change",
+  "external-event": "External event",
+  "cycle-slip": "Cycle slips",
+}
+
+// Event time, or that of the epoch it precedes when the record leaves its own time blank
+function formatEvent(event: ObservationEvent, positionData: AnalysisResult["positionData"]) {
+  const time = event.time ?? positionData.find((fix) => fix.epoch >= event.epoch)?.time
+  const details = [...event.comments, ...event.headerRecords, ...event.satellites].join(", ")
+  return `${time ? formatEpochTime(time) : "n/a"} ${EVENT_LABELS[event.kind]}${details ? ` (${details})` : ""}`
+}
+
+// Events are marked on the timeline at the first solution at or after them
+function eventAxisLabel(event: ObservationEvent, positionData: AnalysisResult["positionData"]) {
+  const fix = positionData.find((entry) => entry.epoch >= event.epoch)
+  return fix ? epochTimeOfDay(fix) : null
+}
+
+function StationDetails({ header }: { header: ObservationHeader }) {
+  const details = [
+    { label: "Marker", value: [header.markerName, header.markerNumber].filter(Boolean).join(" / ") || "n/a" },
+    {
+      label: "Receiver",
+      value: header.receiver
+        ? `${header.receiver.type} (#${header.receiver.number}, fw ${header.receiver.version})`
+        : "n/a",
+    },
+    { label: "Antenna", value: header.antenna ? `${header.antenna.type} (#${header.antenna.number})` : "n/a" },
+    { label: "RINEX Version", value: header.version.toFixed(2) },
+    { label: "Interval", value: formatValue(header.interval, 1, " s") },
+    { label: "First Observation", value: formatHeaderTime(header.timeOfFirstObs) },
+    { label: "Last Observation", value: formatHeaderTime(header.timeOfLastObs) },
+    {
+      label: "Approx. Position (ECEF)",
+      value: header.approxPosition
+        ? `${header.approxPosition.x.toFixed(1)}, ${header.approxPosition.y.toFixed(1)}, ${header.approxPosition.z.toFixed(1)}`
+        : "n/a",
+    },
+  ]
+
+  return (
+    <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2 border-t pt-4 text-sm">
+      {details.map((detail) => (
+        <div key={detail.label} className="flex justify-between gap-4">
+          <span className="text-slate-600">{detail.label}</span>
+          <span className="font-mono text-right">{detail.value}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+const getSeverityVariant = (severity: ParseDiagnostic["severity"]) =>
+  severity === "error" ? "destructive" : severity === "warning" ? "secondary" : "outline"
+
+function FileDiagnostics({ diagnostics }: { diagnostics: ParseDiagnostic[] }) {
+  const errors = diagnostics.filter((d) => d.severity === "error").length
+  const warnings = diagnostics.filter((d) => d.severity === "warning").length
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileWarning className="h-5 w-5" />
+          File Diagnostics
+        </CardTitle>
+        <CardDescription>
+          {diagnostics.length === 0
+            ? "No problems were found while reading the observation and navigation files"
+            : `${errors} errors and ${warnings} warnings while reading the RINEX files`}
+        </CardDescription>
+      </CardHeader>
+      {diagnostics.length > 0 && (
+        <CardContent>
+          <div className="max-h-96 overflow-y-auto space-y-3">
+            {diagnostics.map((diagnostic, index) => (
+              <div key={index} className="border rounded-lg p-3 space-y-1">
+                <div className="flex items-center gap-2 text-sm">
+                  <Badge variant={getSeverityVariant(diagnostic.severity)}>{diagnostic.severity}</Badge>
+                  <span className="font-mono text-slate-600">
+                    {diagnostic.file}:{diagnostic.line}
+                    {diagnostic.column !== null && `:${diagnostic.column}`}
+                  </span>
+                  <span>{diagnostic.message}</span>
+                </div>
+                {diagnostic.text && (
+                  <pre className="text-xs font-mono bg-slate-50 p-2 rounded overflow-x-auto">{diagnostic.text}</pre>
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  )
+}
+
+const FILE_KIND_LABELS: Record<FileKind, string> = {
+  observation: "RINEX observation",
+  navigation: "RINEX navigation",
+  "glonass-navigation": "GLONASS navigation",
+  meteorological: "RINEX meteorological",
+  sp3: "SP3 orbits",
+  nmea: "NMEA log",
+  ubx: "u-blox UBX",
+  unknown: "Unrecognized",
+}
+
+const IONOSPHERE_LABELS: Record<IonosphereModel, string> = {
+  none: "No ionosphere model",
+  klobuchar: "Klobuchar (GPS ION ALPHA/BETA)",
+  "ntcm-g": "NTCM-G (Galileo ai0-ai2)",
+}
+
+const TROPOSPHERE_LABELS: Record<TroposphereModel, string> = {
+  none: "No troposphere model",
+  saastamoinen: "Saastamoinen with UNB3",
+}
+
+const WEIGHTING_LABELS: Record<WeightingScheme, string> = {
+  equal: "Equal weights",
+  elevation: "Elevation-dependent sigma",
+  "sigma-epsilon": "C/N0-based SIGMA-ε",
+}
+
+function ReceivedFiles({ files }: { files: ReceivedFile[] }) {
+  return (
+    <div className="space-y-1 text-sm">
+      {files.map((file, index) => (
+        <div key={index} className="flex items-center justify-between gap-4">
+          <span className="font-mono truncate">{file.name}</span>
+          <span className="flex items-center gap-2 shrink-0">
+            <Badge variant={file.kind === "unknown" ? "destructive" : "outline"}>{FILE_KIND_LABELS[file.kind]}</Badge>
+            <span className="text-slate-600">{file.used ? "used" : "not used"}</span>
+          </span>
+        </div>
+      ))}
+    </div>
+  )
 }
 
 export default function SpoofingDetection() {
   const [obsFile, setObsFile] = useState<File | null>(null)
   const [navFile, setNavFile] = useState<File | null>(null)
-  const [results, setResults] = useState<SpoofingResults | null>(null)
+  const [droppedFiles, setDroppedFiles] = useState<File[]>([])
+  const [dragging, setDragging] = useState(false)
+  const [results, setResults] = useState<AnalysisResult | null>(null)
   const [loading, setLoading] = useState(false)
   const [progress, setProgress] = useState(0)
   const [error, setError] = useState<string | null>(null)
+  const [errorDiagnostics, setErrorDiagnostics] = useState<ParseDiagnostic[]>([])
+  const [errorFiles, setErrorFiles] = useState<ReceivedFile[]>([])
+  const [strict, setStrict] = useState(false)
+  const [options, setOptions] = useState<AnalysisOptions>({
+    ionosphere: "klobuchar",
+    troposphere: "saastamoinen",
+    weighting: "elevation",
+    elevationMask: 10,
+    minCn0: 0,
+  })
+
+  // The server tells the files apart by content, so slots and the drop zone are interchangeable
+  const selectedFiles = [obsFile, navFile, ...droppedFiles].filter((file): file is File => file !== null)
+
+  const handleDrop = (event: DragEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    setDragging(false)
+    setDroppedFiles((prev) => [...prev, ...Array.from(event.dataTransfer.files)])
+  }
 
   const handleFileUpload = async () => {
-    if (!obsFile || !navFile) {
-      setError("Please select both observation and navigation files")
+    if (selectedFiles.length === 0) {
+      setError("Please select or drop the observation and navigation files")
       return
     }
 
+    const formData = new FormData()
+    selectedFiles.forEach((file) => formData.append("files", file))
+    formData.append("strict", String(strict))
+    Object.entries(options).forEach(([key, value]) => formData.append(key, String(value)))
+    await submitAnalysis(formData)
+  }
+
+  const handleDemo = async () => {
+    const formData = new FormData()
+    formData.append("mode", "demo")
+    await submitAnalysis(formData)
+  }
+
+  const submitAnalysis = async (formData: FormData) => {
     setLoading(true)
     setProgress(0)
     setError(null)
-
-    const formData = new FormData()
-    formData.append("obsFile", obsFile)
-    formData.append("navFile", navFile)
+    setErrorDiagnostics([])
+    setErrorFiles([])
+    setResults(null)
 
     try {
       // Simulate progress
@@ -91,13 +298,22 @@ export default function SpoofingDetection() {
       clearInterval(progressInterval)
       setProgress(100)
 
+      const payload = await response.json()
+
       if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(errorData.error || "Processing failed")
+        const errorData = apiErrorSchema.safeParse(payload)
+        setErrorDiagnostics(errorData.success ? (errorData.data.diagnostics ?? []) : [])
+        setErrorFiles(errorData.success ? (errorData.data.files ?? []) : [])
+        throw new Error(errorData.success ? errorData.data.error : "Processing failed")
       }
 
-      const data = await response.json()
-      setResults(data)
+      // Validate the payload so a server/client mismatch surfaces as an error instead of a broken dashboard
+      const parsed = analysisResultSchema.safeParse(payload)
+      if (!parsed.success) {
+        console.error("Unexpected analysis payload:", parsed.error.issues)
+        throw new Error("The server returned results in an unexpected format")
+      }
+      setResults(parsed.data)
     } catch (error) {
       console.error("Error processing files:", error)
       setError(error instanceof Error ? error.message : "Error processing files. Please try again.")
@@ -155,19 +371,15 @@ export default function SpoofingDetection() {
               Upload RINEX Files
             </CardTitle>
             <CardDescription>
-              Upload both observation (.24o) and navigation (.24n) RINEX files for analysis
+              Upload an observation and a navigation RINEX file, in either slot or the drop zone. File types are
+              detected from their content, and gzip (.gz), Unix compress (.Z), zip and Hatanaka archives are unpacked.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="obs-file">Observation File (.24o)</Label>
-                <Input
-                  id="obs-file"
-                  type="file"
-                  accept=".24o,.obs,.rnx"
-                  onChange={(e) => setObsFile(e.target.files?.[0] || null)}
-                />
+                <Label htmlFor="obs-file">Observation File</Label>
+                <Input id="obs-file" type="file" onChange={(e) => setObsFile(e.target.files?.[0] || null)} />
                 {obsFile && (
                   <p className="text-sm text-green-600 flex items-center gap-1">
                     <CheckCircle className="h-4 w-4" />
@@ -176,13 +388,8 @@ export default function SpoofingDetection() {
                 )}
               </div>
               <div className="space-y-2">
-                <Label htmlFor="nav-file">Navigation File (.24n)</Label>
-                <Input
-                  id="nav-file"
-                  type="file"
-                  accept=".24n,.nav,.rnx"
-                  onChange={(e) => setNavFile(e.target.files?.[0] || null)}
-                />
+                <Label htmlFor="nav-file">Navigation File</Label>
+                <Input id="nav-file" type="file" onChange={(e) => setNavFile(e.target.files?.[0] || null)} />
                 {navFile && (
                   <p className="text-sm text-green-600 flex items-center gap-1">
                     <CheckCircle className="h-4 w-4" />
@@ -192,6 +399,126 @@ export default function SpoofingDetection() {
               </div>
             </div>
 
+            <div
+              onDragOver={(e) => {
+                e.preventDefault()
+                setDragging(true)
+              }}
+              onDragLeave={() => setDragging(false)}
+              onDrop={handleDrop}
+              className={`border-2 border-dashed rounded-lg p-6 text-center space-y-2 ${
+                dragging ? "border-blue-500 bg-blue-50" : "border-slate-300"
+              }`}
+            >
+              <p className="text-sm text-slate-600">
+                Drop observation, navigation or archive files here, or choose several at once
+              </p>
+              <Input
+                type="file"
+                multiple
+                onChange={(e) => setDroppedFiles((prev) => [...prev, ...Array.from(e.target.files ?? [])])}
+              />
+              {droppedFiles.length > 0 && (
+                <div className="flex flex-wrap justify-center items-center gap-2 text-sm">
+                  {droppedFiles.map((file, index) => (
+                    <Badge key={index} variant="secondary">
+                      {file.name} ({(file.size / 1024).toFixed(1)} KB)
+                    </Badge>
+                  ))}
+                  <Button variant="ghost" size="sm" onClick={() => setDroppedFiles([])}>
+                    Clear
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch id="strict-parsing" checked={strict} onCheckedChange={setStrict} />
+              <Label htmlFor="strict-parsing">Strict parsing (reject files with any parse error)</Label>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ionosphere-model">Ionosphere</Label>
+                <Select
+                  value={options.ionosphere}
+                  onValueChange={(value) => setOptions((prev) => ({ ...prev, ionosphere: value as IonosphereModel }))}
+                >
+                  <SelectTrigger id="ionosphere-model">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(IONOSPHERE_LABELS).map(([model, label]) => (
+                      <SelectItem key={model} value={model}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="troposphere-model">Troposphere</Label>
+                <Select
+                  value={options.troposphere}
+                  onValueChange={(value) => setOptions((prev) => ({ ...prev, troposphere: value as TroposphereModel }))}
+                >
+                  <SelectTrigger id="troposphere-model">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TROPOSPHERE_LABELS).map(([model, label]) => (
+                      <SelectItem key={model} value={model}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="weighting-scheme">Weighting</Label>
+                <Select
+                  value={options.weighting}
+                  onValueChange={(value) => setOptions((prev) => ({ ...prev, weighting: value as WeightingScheme }))}
+                >
+                  <SelectTrigger id="weighting-scheme">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(WEIGHTING_LABELS).map(([scheme, label]) => (
+                      <SelectItem key={scheme} value={scheme}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="elevation-mask">Elevation mask (degrees)</Label>
+                <Input
+                  id="elevation-mask"
+                  type="number"
+                  min={0}
+                  max={90}
+                  value={options.elevationMask}
+                  onChange={(e) => setOptions((prev) => ({ ...prev, elevationMask: Number(e.target.value) }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="min-cn0">Minimum C/N0 (dB-Hz, 0 for none)</Label>
+                <Input
+                  id="min-cn0"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={options.minCn0}
+                  onChange={(e) => setOptions((prev) => ({ ...prev, minCn0: Number(e.target.value) }))}
+                />
+              </div>
+            </div>
+
             {error && (
               <Alert variant="destructive">
                 <AlertTriangle className="h-4 w-4" />
@@ -199,6 +526,8 @@ export default function SpoofingDetection() {
               </Alert>
             )}
 
+            {error && errorFiles.length > 0 && <ReceivedFiles files={errorFiles} />}
+
             {loading && (
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
@@ -212,15 +541,29 @@ export default function SpoofingDetection() {
               </div>
             )}
 
-            <Button onClick={handleFileUpload} disabled={!obsFile || !navFile || loading} className="w-full">
+            <Button onClick={handleFileUpload} disabled={selectedFiles.length === 0 || loading} className="w-full">
               {loading ? "Processing..." : "Analyze Files for Spoofing"}
             </Button>
+            <Button onClick={handleDemo} disabled={loading} variant="outline" className="w-full">
+              Load Demo Data
+            </Button>
           </CardContent>
         </Card>
 
+        {!results && errorDiagnostics.length > 0 && <FileDiagnostics diagnostics={errorDiagnostics} />}
+
         {/* Results Section */}
         {results && (
           <div className="space-y-6">
+            {results.synthetic && (
+              <Alert className="border-yellow-300 bg-yellow-50">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  <strong>Demo data:</strong> these results are synthetic and were not computed from any RINEX file.
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Processing Info */}
             <Card>
               <CardHeader>
@@ -257,9 +600,34 @@ export default function SpoofingDetection() {
                     <p className="text-sm text-slate-600">Data Quality</p>
                   </div>
                 </div>
+                {results.processingInfo.atmosphere && (
+                  <p className="mt-4 text-sm text-slate-600">
+                    Atmospheric corrections: {IONOSPHERE_LABELS[results.processingInfo.atmosphere.ionosphere]},{" "}
+                    {TROPOSPHERE_LABELS[results.processingInfo.atmosphere.troposphere]}
+                  </p>
+                )}
+                {results.processingInfo.weighting && (
+                  <p className="text-sm text-slate-600">
+                    Weighting: {WEIGHTING_LABELS[results.processingInfo.weighting.weighting]}, elevation mask{" "}
+                    {results.processingInfo.weighting.elevationMask}°, minimum C/N0{" "}
+                    {results.processingInfo.weighting.minCn0 > 0
+                      ? `${results.processingInfo.weighting.minCn0} dB-Hz`
+                      : "none"}
+                  </p>
+                )}
+                {results.processingInfo.observationHeader && (
+                  <StationDetails header={results.processingInfo.observationHeader} />
+                )}
+                {results.processingInfo.files && (
+                  <div className="mt-4 border-t pt-4">
+                    <ReceivedFiles files={results.processingInfo.files} />
+                  </div>
+                )}
               </CardContent>
             </Card>
 
+            {!results.synthetic && <FileDiagnostics diagnostics={results.diagnostics} />}
+
             {/* Threat Level Overview */}
             <Card>
               <CardHeader>
@@ -318,9 +686,21 @@ export default function SpoofingDetection() {
                       <ResponsiveContainer width="100%" height={300}>
                         <LineChart data={results.positionData}>
                           <CartesianGrid strokeDasharray="3 3" />
-                          <XAxis dataKey="epoch" />
+                          <XAxis dataKey={epochTimeOfDay} />
                           <YAxis />
                           <Tooltip formatter={(value) => [`${Number(value).toFixed(2)}`, "PDOP"]} />
+                          {results.events.map((event, i) => {
+                            const x = eventAxisLabel(event, results.positionData)
+                            return x === null ? null : (
+                              <ReferenceLine
+                                key={i}
+                                x={x}
+                                stroke="#f59e0b"
+                                strokeDasharray="4 2"
+                                label={{ value: EVENT_LABELS[event.kind], position: "top", fontSize: 10 }}
+                              />
+                            )
+                          })}
                           <Line type="monotone" dataKey="pdop" stroke="#8884d8" strokeWidth={2} />
                         </LineChart>
                       </ResponsiveContainer>
@@ -360,10 +740,25 @@ export default function SpoofingDetection() {
                         <p>
                           <strong>Flagged Epochs:</strong>{" "}
                           {results.flaggedEpochs.length > 0
-                            ? results.flaggedEpochs.slice(0, 10).join(", ") +
-                              (results.flaggedEpochs.length > 10 ? "..." : "")
+                            ? results.flaggedEpochs
+                                .slice(0, 10)
+                                .map((flagged) => formatEpochTime(flagged.time))
+                                .join(", ") + (results.flaggedEpochs.length > 10 ? "..." : "")
                             : "None"}
                         </p>
+                        {results.events.length > 0 && (
+                          <div className="mt-2">
+                            <strong>Recorded Events:</strong>
+                            <ul className="mt-1 space-y-1">
+                              {results.events.slice(0, 10).map((event, i) => (
+                                <li key={i} className="font-mono text-xs">
+                                  {formatEvent(event, results.positionData)}
+                                </li>
+                              ))}
+                            </ul>
+                            {results.events.length > 10 && <p>...and {results.events.length - 10} more</p>}
+                          </div>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -395,18 +790,36 @@ export default function SpoofingDetection() {
                             <div className="text-sm space-y-1">
                               <div className="flex justify-between">
                                 <span>SNR:</span>
-                                <span className="font-mono">{sat.snr.toFixed(1)} dB</span>
+                                <span className="font-mono">{formatValue(sat.snr, 1, " dB")}</span>
+                              </div>
+                              <div className="flex justify-between gap-4">
+                                <span>Missing Code:</span>
+                                <span className="font-mono text-right">{formatMissing(sat.missing.pseudorange)}</span>
+                              </div>
+                              <div className="flex justify-between gap-4">
+                                <span>Missing SNR:</span>
+                                <span className="font-mono text-right">{formatMissing(sat.missing.snr)}</span>
                               </div>
                               <div className="flex justify-between">
-                                <span>Elevation:</span>
-                                <span className="font-mono">{sat.elevation.toFixed(1)}°</span>
+                                <span>Mean Elevation:</span>
+                                <span className="font-mono">{formatValue(sat.elevation, 1, "°")}</span>
                               </div>
                               <div className="flex justify-between">
-                                <span>Azimuth:</span>
-                                <span className="font-mono">{sat.azimuth.toFixed(1)}°</span>
+                                <span>Mean Azimuth:</span>
+                                <span className="font-mono">{formatValue(sat.azimuth, 1, "°")}</span>
+                              </div>
+                              <div className="flex justify-between gap-4">
+                                <span>{sat.arcs.length === 1 ? "Arc:" : "Arcs:"}</span>
+                                <span className="font-mono text-right">
+                                  {sat.arcs.length > 0
+                                    ? sat.arcs
+                                        .map((arc) => `${epochTimeOfDay(arc.start)}-${epochTimeOfDay(arc.end)}`)
+                                        .join(", ")
+                                    : "n/a"}
+                                </span>
                               </div>
                             </div>
-                            {sat.health < 0.5 && (
+                            {sat.health < 0.5 && sat.missing.pseudorange["not-in-header"] < sat.epochs && (
                               <Alert className="mt-2">
                                 <AlertTriangle className="h-4 w-4" />
                                 <AlertDescription className="text-xs">Suspicious behavior detected</AlertDescription>
@@ -434,7 +847,7 @@ export default function SpoofingDetection() {
                       <ResponsiveContainer width="100%" height={300}>
                         <LineChart data={results.positionData}>
                           <CartesianGrid strokeDasharray="3 3" />
-                          <XAxis dataKey="epoch" />
+                          <XAxis dataKey={epochTimeOfDay} />
                           <YAxis />
                           <Tooltip formatter={(value) => [`${Number(value).toFixed(2)} m`, "Accuracy"]} />
                           <Line type="monotone" dataKey="accuracy" stroke="#82ca9d" strokeWidth={2} />
@@ -446,16 +859,41 @@ export default function SpoofingDetection() {
                   <Card>
                     <CardHeader>
                       <CardTitle>Altitude Variation</CardTitle>
-                      <CardDescription>Z-coordinate changes indicating potential spoofing</CardDescription>
+                      <CardDescription>Height above EGM96 mean sea level</CardDescription>
                     </CardHeader>
                     <CardContent>
                       <ResponsiveContainer width="100%" height={300}>
                         <LineChart data={results.positionData}>
                           <CartesianGrid strokeDasharray="3 3" />
-                          <XAxis dataKey="epoch" />
-                          <YAxis />
+                          <XAxis dataKey={epochTimeOfDay} />
+                          <YAxis domain={["auto", "auto"]} />
                           <Tooltip formatter={(value) => [`${Number(value).toFixed(2)} m`, "Altitude"]} />
-                          <Line type="monotone" dataKey="z" stroke="#ffc658" strokeWidth={2} />
+                          <Line type="monotone" dataKey="orthometricHeight" stroke="#ffc658" strokeWidth={2} />
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </CardContent>
+                  </Card>
+
+                  <Card className="lg:col-span-2">
+                    <CardHeader>
+                      <CardTitle>Local Motion</CardTitle>
+                      <CardDescription>
+                        {results.processingInfo.referencePosition
+                          ? formatReference(results.processingInfo.referencePosition)
+                          : "East, north and up offsets from the receiver's reference position"}
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <ResponsiveContainer width="100%" height={300}>
+                        <LineChart data={results.positionData}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey={epochTimeOfDay} />
+                          <YAxis />
+                          <Tooltip formatter={(value, name) => [`${Number(value).toFixed(2)} m`, name]} />
+                          <Legend />
+                          <Line type="monotone" dataKey="east" name="East" stroke="#8884d8" strokeWidth={2} />
+                          <Line type="monotone" dataKey="north" name="North" stroke="#82ca9d" strokeWidth={2} />
+                          <Line type="monotone" dataKey="up" name="Up" stroke="#ffc658" strokeWidth={2} />
                         </LineChart>
                       </ResponsiveContainer>
                     </CardContent>
@@ -477,7 +915,7 @@ export default function SpoofingDetection() {
                       <ResponsiveContainer width="100%" height={300}>
                         <LineChart data={results.signalData}>
                           <CartesianGrid strokeDasharray="3 3" />
-                          <XAxis dataKey="epoch" />
+                          <XAxis dataKey={epochTimeOfDay} />
                           <YAxis />
                           <Tooltip formatter={(value) => [`${Number(value).toFixed(1)} dB`, "SNR"]} />
                           <Line type="monotone" dataKey="avgSnr" stroke="#8884d8" strokeWidth={2} />
@@ -495,7 +933,7 @@ export default function SpoofingDetection() {
                       <ResponsiveContainer width="100%" height={300}>
                         <LineChart data={results.signalData}>
                           <CartesianGrid strokeDasharray="3 3" />
-                          <XAxis dataKey="epoch" />
+                          <XAxis dataKey={epochTimeOfDay} />
                           <YAxis />
                           <Tooltip formatter={(value) => [`${Number(value).toFixed(1)} Hz`, "Doppler"]} />
                           <Line type="monotone" dataKey="doppler" stroke="#ff7300" strokeWidth={2} />
@@ -0,0 +1,91 @@
+import { readFileSync } from "node:fs"
+import { describe, expect, it } from "vitest"
+import { analyzeObservations, createObservationAnalysis } from "./analysis"
+import { parseRinexNavigation } from "./rinex/navigation"
+import { createObservationParser, parseRinexObservation } from "./rinex/observation"
+
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), "utf8")
+const observationText = fixture("station.24o")
+const navigation = parseRinexNavigation(fixture("station.24n"))
+
+// Line index of the second record line, holding S1 and S2, of a satellite (0-6) at an epoch (0-5) of station.24o
+const snrLine = (epoch: number, satellite: number) => 13 + epoch * 15 + 2 + satellite * 2
+
+// Observation text in the station.24o layout with the S1 field of the given [epoch, satellite] records replaced
+function withS1(text: string, records: Array<[number, number]>, value: string) {
+  const lines = text.split("\n")
+  for (const [epoch, satellite] of records) {
+    const line = lines[snrLine(epoch, satellite)]
+    lines[snrLine(epoch, satellite)] = value.padStart(14).padEnd(16) + line.slice(16)
+  }
+  return lines.join("\n")
+}
+
+const analyze = (text: string) => analyzeObservations(parseRinexObservation(text), navigation)
+const signalAnomalies = (text: string) =>
+  analyze(text).anomalies.find((finding) => finding.type === "Signal Anomalies")?.count
+
+describe("streamed analysis", () => {
+  it("matches the analysis of the whole file when blocks end between epochs", () => {
+    const whole = analyzeObservations(parseRinexObservation(observationText), navigation)
+    expect(whole.positionData).toHaveLength(6)
+
+    const analysis = createObservationAnalysis(navigation)
+    const parser = createObservationParser(analysis.addBlock, {}, 2)
+    for (const line of observationText.split("\n")) parser.push(line)
+    const { epochCount, ...summary } = parser.end()
+
+    expect(epochCount).toBe(6)
+    expect(analysis.finish(summary)).toEqual(whole)
+  })
+})
+
+describe("missing observables", () => {
+  const allEpochs = [0, 1, 2, 3, 4, 5]
+  const otherSatellites = [1, 2, 3, 4, 5, 6]
+
+  it("counts the epochs each primary observable was missing, by reason", () => {
+    const { satelliteHealth } = analyze(
+      withS1(
+        observationText,
+        [
+          [2, 1],
+          [3, 1],
+        ],
+        "",
+      ),
+    )
+    const g08 = satelliteHealth.find((satellite) => satellite.sv === "G08")!
+    expect(g08.epochs).toBe(6)
+    expect(g08.missing).toEqual({
+      pseudorange: { "blank-field": 0, "not-in-header": 0 },
+      carrierPhase: { "blank-field": 0, "not-in-header": 0 },
+      // station.24o lists no Doppler type
+      doppler: { "blank-field": 0, "not-in-header": 6 },
+      snr: { "blank-field": 2, "not-in-header": 0 },
+    })
+    expect(g08.snr).toBe(45)
+  })
+
+  it("does not take blank C/N0 fields for a jump in signal strength", () => {
+    // G01 is weak throughout; the others lose their C/N0 at epoch 3, which would drag an epoch average down
+    const weak = withS1(
+      observationText,
+      allEpochs.map((epoch) => [epoch, 0]),
+      "20.000",
+    )
+    const blank = withS1(
+      weak,
+      otherSatellites.map((satellite) => [3, satellite]),
+      "",
+    )
+    expect(signalAnomalies(blank)).toBe(0)
+  })
+
+  it("flags a C/N0 step shared by the satellites tracked in both epochs", () => {
+    // Every satellite gains 10 dB-Hz from epoch 3 on
+    const records = [3, 4, 5].flatMap((epoch) => [0, ...otherSatellites].map((sv): [number, number] => [epoch, sv]))
+    const raised = withS1(observationText, records, "55.000")
+    expect(signalAnomalies(raised)).toBe(1)
+  })
+})
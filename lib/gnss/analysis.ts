@@ -0,0 +1,508 @@
+import { assessThreat, detectPositionJumps } from "./assessment"
+import { type Atmosphere, createAtmosphere } from "./atmosphere"
+import { type TransmissionState, glonassTransmissionState, transmissionState } from "./clock"
+import { type EnuOffset, ecefToEnu, ecefToGeodetic, geodeticCoordinates, lookAngles, toMgrs, toUtm } from "./geodesy"
+import { glonassSatellitePosition } from "./glonass"
+import { hasKeplerianElements, hasOrbitModel, satellitePosition, selectEphemeris } from "./orbit"
+import { createDiagnosticLog, report } from "./rinex/diagnostics"
+import { type DelayModel, type RangeMeasurement, solvePosition } from "./positioning"
+import { analysisOptionsSchema } from "./schema"
+import { carrierFrequency, currentObservationType } from "./signals"
+import { type ObservationStore, PRIMARY_OBSERVABLES, missingReason, satelliteOf } from "./store"
+import { epochTimestamp, gpsWeekTow, systemTimeOfWeek } from "./time"
+import { weightMeasurements } from "./weighting"
+import type {
+  AnalysisOptions,
+  AnalysisResult,
+  BroadcastEphemeris,
+  EcefPosition,
+  GlonassEphemeris,
+  LookAngleSample,
+  ObservationEventRecord,
+  ObservationHeader,
+  ObservationStreamSummary,
+  PositionFix,
+  ReferencePosition,
+  RinexNavigationFile,
+  RinexObservationFile,
+  SatelliteHealth,
+  SignalSample,
+} from "./types"
+
+const NOMINAL_UERE = 5 // user equivalent range error floor for accuracy estimates, meters
+const HIGH_PDOP_THRESHOLD = 6
+const SNR_JUMP_THRESHOLD = 6 // dB-Hz mean change in C/N0 between consecutive epochs
+const RESIDUAL_HEALTH_SCALE = 50 // meters of residual RMS that halves a satellite's health score
+// Longest time from the reference epoch a record is used for, seconds: GLONASS state vectors are broadcast every
+// 30 minutes, GPS and QZSS ephemeris every two hours, Galileo and BeiDou fit intervals are longer
+const MAX_EPHEMERIS_AGE: Record<string, number> = { G: 7200, J: 7200, R: 1800, E: 14400, C: 21600 }
+const DEGREES = 180 / Math.PI
+const TRACK_SAMPLE_INTERVAL = 30 // seconds between the look angle samples returned for a satellite
+const DEFAULT_ANALYSIS_OPTIONS = analysisOptionsSchema.parse({})
+
+// Pseudoranges of one epoch with the satellite state at their transmission from broadcast ephemeris; satellites
+// without a code observation or usable ephemeris are skipped rather than given a substitute range. Positions cover
+// every satellite with ephemeris, for look angles: those without a code observation are placed at the epoch itself,
+// as the ~0.07 s of signal travel turn their direction by thousandths of a degree, as are those whose signal has no
+// broadcast group delay; the system and observation type of the latter are returned as uncorrected.
+function rangeMeasurements(
+  store: ObservationStore,
+  epochIndex: number,
+  ephemeris: BroadcastEphemeris[],
+  glonassEphemeris: GlonassEphemeris[],
+  rinexVersion: number,
+) {
+  const { tow } = gpsWeekTow(store.gpsTime[epochIndex])
+  const measurements: RangeMeasurement[] = []
+  const positions = new Map<string, EcefPosition>()
+  const uncorrected = new Set<string>()
+
+  for (let row = store.epochStart[epochIndex]; row < store.epochStart[epochIndex + 1]; row++) {
+    const pseudorange = store.primary.pseudorange[row]
+    const snr = store.primary.snr[row]
+    const hasCode = !Number.isNaN(pseudorange)
+    const satellite = satelliteOf(store, row)
+    const system = satellite.charAt(0)
+    const type = currentObservationType(system, store.signalTypes[store.pseudorangeSignal[row]], rinexVersion)
+    const maxAge = MAX_EPHEMERIS_AGE[system]
+    let state: TransmissionState | null = null
+    let frequency: number | null = null
+    if (system === "R") {
+      const eph = selectEphemeris(glonassEphemeris, satellite, tow, maxAge)
+      if (!eph) continue
+      if (!hasCode) {
+        positions.set(satellite, glonassSatellitePosition(eph, tow))
+        continue
+      }
+      state = glonassTransmissionState(eph, tow, pseudorange)
+      frequency = carrierFrequency(system, type, eph.frequencyChannel)
+    } else {
+      // Galileo and BeiDou reference times are in their own time scales
+      const t = systemTimeOfWeek(tow, system)
+      const eph = selectEphemeris(ephemeris, satellite, t, maxAge)
+      if (!eph) continue
+      state = hasCode ? transmissionState(eph, t, pseudorange, type) : null
+      if (!state) {
+        const { x, y, z } = satellitePosition(eph, t)
+        positions.set(satellite, { x, y, z })
+        if (hasCode) uncorrected.add(`${system} ${type}`)
+        continue
+      }
+      frequency = carrierFrequency(system, type)
+    }
+    positions.set(satellite, state.position)
+    measurements.push({ satellite, pseudorange, frequency, cn0: Number.isNaN(snr) ? null : snr, ...state })
+  }
+
+  return { measurements, positions, uncorrected }
+}
+
+// Ionospheric and tropospheric delays of an epoch's signals, from the look angles at each receiver position the
+// solver tries
+function atmosphericDelays(atmosphere: Atmosphere, gpsSeconds: number): DelayModel {
+  return (receiver) => {
+    const geodetic = ecefToGeodetic(receiver)
+    return (m, satellite) =>
+      atmosphere.delay(geodetic, lookAngles(receiver, satellite, geodetic), m.frequency, gpsSeconds)
+  }
+}
+
+// Header approximate positions of zero mean the position is unknown
+function approximatePosition(header: ObservationHeader) {
+  const position = header.approxPosition
+  return position && Math.hypot(position.x, position.y, position.z) > 0 ? position : null
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = sorted.length >> 1
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+// Origin of the local offsets: the header's approximate position, else the median solution, which a spoofed stretch
+// of the file does not drag along as it would a mean. Null only when there is neither.
+function referencePosition(header: ObservationHeader, fixes: EcefPosition[]): ReferencePosition | null {
+  const approximate = approximatePosition(header)
+  const position =
+    approximate ??
+    (fixes.length > 0
+      ? {
+          x: median(fixes.map((fix) => fix.x)),
+          y: median(fixes.map((fix) => fix.y)),
+          z: median(fixes.map((fix) => fix.z)),
+        }
+      : null)
+  if (!position) return null
+  const utm = toUtm(ecefToGeodetic(position))
+  return {
+    source: approximate ? "approximate-position" : "median-solution",
+    x: position.x,
+    y: position.y,
+    z: position.z,
+    ...geodeticCoordinates(position),
+    utm,
+    mgrs: utm && toMgrs(utm),
+  }
+}
+
+// Look angles of a satellite gathered epoch by epoch: running sums for the mean angles, the arcs as epoch ranges and
+// a track thinned to one sample per TRACK_SAMPLE_INTERVAL, so a long file at a high rate keeps a bounded response
+interface SatelliteTrack {
+  count: number
+  elevation: number
+  // Sums of azimuth cosines and sines, averaged as directions so arcs through north work
+  north: number
+  east: number
+  arcs: Array<{ start: number; end: number }>
+  samples: LookAngleSample[]
+  sampledAt: number // GPS seconds of the last kept sample
+  pending: LookAngleSample | null // latest sample not kept yet, added when its arc ends
+}
+
+function createTrack(): SatelliteTrack {
+  return { count: 0, elevation: 0, north: 0, east: 0, arcs: [], samples: [], sampledAt: 0, pending: null }
+}
+
+// Keeps the last sample of an arc whatever the interval, so the thinned track reaches the arc's end
+function closeArc(track: SatelliteTrack) {
+  if (track.pending) track.samples.push(track.pending)
+  track.pending = null
+}
+
+// An epoch in which the satellite was not positioned ends its arc
+function addTrackSample(track: SatelliteTrack, sample: LookAngleSample, gpsSeconds: number) {
+  track.count++
+  track.elevation += sample.elevation
+  track.north += Math.cos(sample.azimuth / DEGREES)
+  track.east += Math.sin(sample.azimuth / DEGREES)
+  const arc = track.arcs[track.arcs.length - 1]
+  if (arc && arc.end === sample.epoch - 1) {
+    arc.end = sample.epoch
+    if (Math.abs(gpsSeconds - track.sampledAt) < TRACK_SAMPLE_INTERVAL) {
+      track.pending = sample
+      return
+    }
+  } else {
+    closeArc(track)
+    track.arcs.push({ start: sample.epoch, end: sample.epoch })
+  }
+  track.samples.push(sample)
+  track.sampledAt = gpsSeconds
+  track.pending = null
+}
+
+// Mean elevation and azimuth of a track, degrees
+function meanLookAngles(track: SatelliteTrack) {
+  if (track.count === 0) return { elevation: null, azimuth: null }
+  const azimuth = Math.atan2(track.east, track.north) * DEGREES
+  return { elevation: track.elevation / track.count, azimuth: azimuth < 0 ? azimuth + 360 : azimuth }
+}
+
+// Mean of a column over a row range, skipping missing values
+function columnMean(values: Float64Array, start: number, end: number) {
+  let sum = 0
+  let count = 0
+  for (let row = start; row < end; row++) {
+    if (Number.isNaN(values[row])) continue
+    sum += values[row]
+    count++
+  }
+  return count > 0 ? sum / count : null
+}
+
+// Per-satellite health score: zero for broadcast-unhealthy satellites, otherwise the share of epochs whose header
+// lists a primary band code type with a usable code observation, scaled down as post-fit residuals grow
+function scoreSatelliteHealth(usable: number, expected: number, residuals: RunningMean, broadcastHealthy: boolean) {
+  if (!broadcastHealthy || expected === 0) return 0
+  const availability = usable / expected
+  if (residuals.count === 0) return availability
+  const rms = Math.sqrt(residuals.sum / residuals.count)
+  return availability / (1 + rms / RESIDUAL_HEALTH_SCALE)
+}
+
+// Occupation of each epoch: every new site starts one, and epochs after an antenna-moving event belong to none
+// until the next site, so position jumps are only looked for where the receiver is static
+function staticOccupations(events: ObservationEventRecord[], epochCount: number) {
+  const occupations: Array<number | null> = []
+  let occupation: number | null = 0
+  let count = 0
+  let next = 0
+  for (let epoch = 0; epoch < epochCount; epoch++) {
+    for (; next < events.length && events[next].epoch <= epoch; next++) {
+      if (events[next].kind === "antenna-moving") occupation = null
+      else if (events[next].kind === "new-site") occupation = ++count
+    }
+    occupations.push(occupation)
+  }
+  return occupations
+}
+
+// Sum and count of a value accumulated epoch by epoch
+interface RunningMean {
+  sum: number
+  count: number
+}
+
+function accumulate(totals: Record<string, RunningMean>, key: string, value: number) {
+  const total = (totals[key] ??= { sum: 0, count: 0 })
+  total.sum += value
+  total.count++
+}
+
+function runningMean(total: RunningMean | undefined) {
+  return total && total.count > 0 ? total.sum / total.count : null
+}
+
+type MissingCounts = SatelliteHealth["missing"]
+
+function createMissingCounts(): MissingCounts {
+  const counts = () => ({ "blank-field": 0, "not-in-header": 0 })
+  return { pseudorange: counts(), carrierPhase: counts(), doppler: counts(), snr: counts() }
+}
+
+// Incremental analysis: blocks of epochs are added as they are parsed and only per-epoch results are kept, so an
+// observation file never has to be held in memory as a whole. finish runs the detectors over the collected results.
+export function createObservationAnalysis(
+  { header: navigationHeader, ephemeris, glonassEphemeris, diagnostics: navigationDiagnostics }: RinexNavigationFile,
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS,
+) {
+  const atmosphere = createAtmosphere(options, navigationHeader)
+  const { weighting, elevationMask, minCn0 } = options
+  const records = ephemeris.filter((eph) => hasOrbitModel(eph.system) && hasKeplerianElements(eph))
+  // Timestamps are attached in finish, once the leap seconds declared by both files are known
+  const positions: Array<Omit<PositionFix, "time" | keyof EnuOffset>> = []
+  const signalSamples: Array<Omit<SignalSample, "time">> = []
+  const epochSeconds: number[] = []
+  // Per-satellite SNR, availability, missing observables and squared residuals
+  const snrBySatellite: Record<string, RunningMean> = {}
+  const trackedBySatellite: Record<string, number> = {}
+  const usableBySatellite: Record<string, number> = {}
+  const missingBySatellite: Record<string, MissingCounts> = {}
+  const residualsBySatellite: Record<string, RunningMean> = {}
+  const tracksBySatellite: Record<string, SatelliteTrack> = {}
+  // Epochs whose solution did not converge and signals left out of positioning, reported at their epoch lines
+  const solverLog = createDiagnosticLog("observation")
+  const reportedSignals = new Set<string>()
+  // Mean C/N0 change from the epoch before over the satellites with a value in both, null when there are none
+  const snrChanges: Array<number | null> = []
+  let previousSnr = new Map<string, number>()
+  let previous: EcefPosition | undefined
+  let approximate: EcefPosition | null = null
+  let epochCount = 0
+  let satelliteCount = 0
+
+  function addEpoch(store: ObservationStore, epochIndex: number, rinexVersion: number) {
+    const epoch = epochCount++
+    epochSeconds.push(store.gpsTime[epochIndex])
+    const start = store.epochStart[epochIndex]
+    const end = store.epochStart[epochIndex + 1]
+    satelliteCount += end - start
+
+    // Solve receiver position and clock when at least four satellites are positioned
+    const {
+      measurements,
+      positions: satellitePositions,
+      uncorrected,
+    } = rangeMeasurements(store, epochIndex, records, glonassEphemeris, rinexVersion)
+    for (const signal of uncorrected) {
+      if (reportedSignals.has(signal)) continue
+      reportedSignals.add(signal)
+      const message = `No broadcast group delay for ${signal} pseudoranges; they were left out of positioning`
+      report(solverLog, "warning", store.epochLine[epochIndex], "", null, message)
+    }
+    const delays = atmosphericDelays(atmosphere, store.gpsTime[epochIndex])
+    // Masks and weights take look angles from the last converged solution or the header's approximate position; with
+    // neither, an unweighted solution over every satellite stands in once it converges
+    let prior: EcefPosition | null = previous ?? approximate
+    let solution = prior ? null : solvePosition(measurements, undefined, delays)
+    if (solution?.converged) prior = solution
+    if (prior) {
+      const weighted = weightMeasurements(measurements, prior, { weighting, elevationMask, minCn0 })
+      solution = solvePosition(weighted, prior, delays)
+    }
+    if (solution?.converged) previous = solution
+
+    // Look angles from the epoch's solution, else the last converged one or the header's approximate position
+    const receiver = previous ?? approximate
+    if (receiver) {
+      const geodetic = ecefToGeodetic(receiver)
+      for (const [satellite, position] of satellitePositions) {
+        const { elevation, azimuth } = lookAngles(receiver, position, geodetic)
+        const sample = { epoch, elevation: elevation * DEGREES, azimuth: azimuth * DEGREES }
+        addTrackSample((tracksBySatellite[satellite] ??= createTrack()), sample, store.gpsTime[epochIndex])
+      }
+    }
+    if (solution && !solution.converged) {
+      report(
+        solverLog,
+        "warning",
+        store.epochLine[epochIndex],
+        "",
+        null,
+        `Position solution did not converge in ${solution.iterations} iterations; epoch left out of the position results`,
+      )
+    }
+    if (solution?.converged) {
+      positions.push({
+        epoch,
+        x: solution.x,
+        y: solution.y,
+        z: solution.z,
+        ...geodeticCoordinates(solution),
+        clockBias: solution.clockBias,
+        pdop: solution.dop.pdop,
+        gdop: solution.dop.gdop,
+        hdop: solution.dop.hdop,
+        vdop: solution.dop.vdop,
+        tdop: solution.dop.tdop,
+        accuracy: solution.dop.pdop * Math.max(solution.residualRms, NOMINAL_UERE),
+        residuals: solution.residuals,
+        residualRms: solution.residualRms,
+        numSats: solution.numSats,
+      })
+      Object.entries(solution.residuals).forEach(([sv, residual]) =>
+        accumulate(residualsBySatellite, sv, residual * residual),
+      )
+    }
+
+    const { pseudorange, carrierPhase, doppler, snr } = store.primary
+    const epochSnr = new Map<string, number>()
+    const snrChange: RunningMean = { sum: 0, count: 0 }
+    for (let row = start; row < end; row++) {
+      const satellite = satelliteOf(store, row)
+      trackedBySatellite[satellite] = (trackedBySatellite[satellite] ?? 0) + 1
+      if (!Number.isNaN(pseudorange[row])) usableBySatellite[satellite] = (usableBySatellite[satellite] ?? 0) + 1
+      const missing = (missingBySatellite[satellite] ??= createMissingCounts())
+      for (const kind of PRIMARY_OBSERVABLES) {
+        const reason = missingReason(store, row, kind)
+        if (reason) missing[kind][reason]++
+      }
+      if (Number.isNaN(snr[row])) continue
+      accumulate(snrBySatellite, satellite, snr[row])
+      epochSnr.set(satellite, snr[row])
+      const before = previousSnr.get(satellite)
+      if (before !== undefined) {
+        snrChange.sum += snr[row] - before
+        snrChange.count++
+      }
+    }
+    snrChanges.push(runningMean(snrChange))
+    previousSnr = epochSnr
+
+    // Epoch-average signal measurements, skipping missing values
+    signalSamples.push({
+      epoch,
+      avgSnr: columnMean(snr, start, end),
+      doppler: columnMean(doppler, start, end),
+      carrierPhase: columnMean(carrierPhase, start, end),
+    })
+  }
+
+  // Analyzes the epochs of a parsed store, which may be one block of a streamed file
+  function addBlock(store: ObservationStore, observationHeader: ObservationHeader) {
+    approximate = approximatePosition(observationHeader)
+    for (let epochIndex = 0; epochIndex < store.epochs.length; epochIndex++) {
+      addEpoch(store, epochIndex, observationHeader.version)
+    }
+  }
+
+  function finish({
+    header: observationHeader,
+    events: eventRecords,
+    diagnostics: observationDiagnostics,
+  }: Omit<ObservationStreamSummary, "epochCount">): AnalysisResult {
+    const leapSeconds = observationHeader.leapSeconds ?? navigationHeader.leapSeconds
+    const epochTimes = epochSeconds.map((seconds) => epochTimestamp(seconds, leapSeconds))
+    // Without a reference there are no fixes to place
+    const reference = referencePosition(observationHeader, positions)
+    const positionData = reference
+      ? positions.map((fix) => ({ ...fix, time: epochTimes[fix.epoch], ...ecefToEnu(fix, reference) }))
+      : []
+    const signalData = signalSamples.map((sample) => ({ ...sample, time: epochTimes[sample.epoch] }))
+    const events = eventRecords.map(({ gpsTime, ...event }) => ({
+      ...event,
+      time: gpsTime === null ? null : epochTimestamp(gpsTime, leapSeconds),
+    }))
+
+    const positionJumps = detectPositionJumps(positions, staticOccupations(eventRecords, epochCount))
+    const pdopValues = positions.map((p) => p.pdop)
+    const highPdop = positions.filter((p) => p.pdop > HIGH_PDOP_THRESHOLD).map((p) => p.epoch)
+
+    const unhealthyBroadcast = new Set(
+      [...ephemeris, ...glonassEphemeris].filter((eph) => eph.svHealth > 0).map((eph) => eph.satellite),
+    )
+    const satellites = Object.keys(trackedBySatellite).sort()
+    const instant = (epoch: number) => ({ epoch, time: epochTimes[epoch] })
+    const satelliteHealth = satellites.map((sv): SatelliteHealth => {
+      const track = tracksBySatellite[sv] ?? createTrack()
+      closeArc(track)
+      const missing = missingBySatellite[sv]
+      return {
+        sv,
+        health: scoreSatelliteHealth(
+          usableBySatellite[sv] ?? 0,
+          trackedBySatellite[sv] - missing.pseudorange["not-in-header"],
+          residualsBySatellite[sv] ?? { sum: 0, count: 0 },
+          !unhealthyBroadcast.has(sv),
+        ),
+        snr: runningMean(snrBySatellite[sv]),
+        epochs: trackedBySatellite[sv],
+        missing,
+        ...meanLookAngles(track),
+        lookAngles: track.samples,
+        arcs: track.arcs.map(({ start, end }) => ({ start: instant(start), end: instant(end) })),
+      }
+    })
+
+    // Abrupt jumps in C/N0 between consecutive epochs, compared satellite by satellite so that values missing from
+    // one of the epochs do not shift the mean
+    const signalAnomalies = []
+    for (let i = 1; i < snrChanges.length; i++) {
+      const change = snrChanges[i]
+      if (change !== null && Math.abs(change) > SNR_JUMP_THRESHOLD) signalAnomalies.push(i)
+    }
+
+    const assessment = assessThreat({ positionJumps, highPdop, satelliteHealth, signalAnomalies, epochTimes })
+    const avgSatellitesPerEpoch = satelliteCount / Math.max(1, epochCount)
+
+    return {
+      synthetic: false,
+      ...assessment,
+      positionJumps,
+      highPdop,
+      pdopValues,
+      satelliteHealth,
+      positionData,
+      signalData,
+      events,
+      processingInfo: {
+        observationHeader,
+        navigationHeader,
+        atmosphere: atmosphere.models,
+        weighting: { weighting, elevationMask, minCn0 },
+        referencePosition: reference ?? undefined,
+        totalEpochs: epochCount,
+        totalSatellites: satellites.length,
+        avgSatellitesPerEpoch: Math.round(avgSatellitesPerEpoch * 10) / 10,
+        dataQuality: avgSatellitesPerEpoch >= 8 ? "Good" : avgSatellitesPerEpoch >= 6 ? "Fair" : "Poor",
+      },
+      diagnostics: [
+        ...[...observationDiagnostics, ...solverLog.entries].sort((a, b) => a.line - b.line),
+        ...navigationDiagnostics,
+      ],
+    }
+  }
+
+  return { addBlock, finish }
+}
+
+// Run positioning and the detectors over parsed observations and ephemeris
+export function analyzeObservations(
+  { observations, ...observationFile }: RinexObservationFile,
+  navigationFile: RinexNavigationFile,
+  options: AnalysisOptions = DEFAULT_ANALYSIS_OPTIONS,
+): AnalysisResult {
+  const analysis = createObservationAnalysis(navigationFile, options)
+  analysis.addBlock(observations, observationFile.header)
+  return analysis.finish(observationFile)
+}
@@ -0,0 +1,128 @@
+import type { DetectorFinding, EpochTimestamp, SatelliteHealth, ThreatLevel } from "./types"
+
+// Threat scoring, anomaly summary and recommendations shared by the real pipeline and demo mode
+
+export interface AssessmentInput {
+  positionJumps: number[]
+  highPdop: number[]
+  satelliteHealth: Array<Pick<SatelliteHealth, "sv" | "health" | "epochs" | "missing">>
+  signalAnomalies: number[]
+  epochTimes: EpochTimestamp[] // by epoch index
+}
+
+const POSITION_JUMP_THRESHOLD = 100 // meters between consecutive solutions
+
+// Jumps between consecutive solutions of one static occupation. occupations gives the occupation of each epoch,
+// null while the antenna is known to move; without it the receiver is taken as static throughout.
+export function detectPositionJumps(
+  positions: Array<{ epoch: number; x: number; y: number; z: number }>,
+  occupations?: Array<number | null>,
+) {
+  const positionJumps = []
+  for (let i = 1; i < positions.length; i++) {
+    const prev = positions[i - 1]
+    const curr = positions[i]
+    if (occupations && (occupations[prev.epoch] === null || occupations[prev.epoch] !== occupations[curr.epoch])) {
+      continue
+    }
+    const distance = Math.sqrt(
+      Math.pow(curr.x - prev.x, 2) + Math.pow(curr.y - prev.y, 2) + Math.pow(curr.z - prev.z, 2),
+    )
+
+    if (distance > POSITION_JUMP_THRESHOLD) {
+      positionJumps.push(curr.epoch)
+    }
+  }
+  return positionJumps
+}
+
+// A satellite whose header lists no code on its primary band was never assessed, rather than found unhealthy
+function isSuspicious(satellite: AssessmentInput["satelliteHealth"][number]) {
+  return satellite.health < 0.5 && satellite.missing.pseudorange["not-in-header"] < satellite.epochs
+}
+
+export function assessThreat({
+  positionJumps,
+  highPdop,
+  satelliteHealth,
+  signalAnomalies,
+  epochTimes,
+}: AssessmentInput) {
+  // Calculate threat metrics
+  const flaggedEpochs = [...new Set([...highPdop, ...positionJumps, ...signalAnomalies])]
+    .sort((a, b) => a - b)
+    .map((epoch) => ({ epoch, time: epochTimes[epoch] }))
+  const unhealthySats = satelliteHealth.filter(isSuspicious).length
+
+  let spoofingProbability = 0
+  spoofingProbability += flaggedEpochs.length * 5
+  spoofingProbability += positionJumps.length * 20
+  spoofingProbability += unhealthySats * 15
+  spoofingProbability = Math.min(95, Math.max(5, spoofingProbability))
+
+  let threatLevel: ThreatLevel
+  if (spoofingProbability < 25) threatLevel = "LOW"
+  else if (spoofingProbability < 50) threatLevel = "MEDIUM"
+  else if (spoofingProbability < 75) threatLevel = "HIGH"
+  else threatLevel = "CRITICAL"
+
+  const anomalies: DetectorFinding[] = [
+    {
+      type: "Position Jump",
+      severity: positionJumps.length > 2 ? "High" : positionJumps.length > 0 ? "Medium" : "Low",
+      count: positionJumps.length,
+      description: "Sudden position discontinuities detected",
+    },
+    {
+      type: "High PDOP",
+      severity: highPdop.length > 10 ? "High" : highPdop.length > 5 ? "Medium" : "Low",
+      count: highPdop.length,
+      description: "Poor satellite geometry periods",
+    },
+    {
+      type: "Satellite Health",
+      severity: unhealthySats > 3 ? "High" : unhealthySats > 1 ? "Medium" : "Low",
+      count: unhealthySats,
+      description: "Satellites showing suspicious behavior",
+    },
+    {
+      type: "Signal Anomalies",
+      severity: signalAnomalies.length > 5 ? "High" : signalAnomalies.length > 0 ? "Medium" : "Low",
+      count: signalAnomalies.length,
+      description: "Abrupt signal strength changes across the satellites tracked",
+    },
+  ]
+
+  const recommendations: string[] = []
+  if (threatLevel === "CRITICAL") {
+    recommendations.push("🚨 CRITICAL THREAT: Immediately cease reliance on GNSS positioning")
+    recommendations.push("Switch to alternative navigation methods (INS, visual navigation, etc.)")
+  } else if (threatLevel === "HIGH") {
+    recommendations.push("⚠️ HIGH THREAT: Exercise extreme caution with GNSS data")
+    recommendations.push("Cross-reference position with alternative navigation aids")
+  }
+
+  if (positionJumps.length > 0) {
+    const jumpTimes = positionJumps.map((epoch) => epochTimes[epoch].utc)
+    recommendations.push(`Investigate position jumps at ${jumpTimes.join(", ")}`)
+  }
+
+  if (unhealthySats > 0) {
+    const suspiciousSats = satelliteHealth
+      .filter(isSuspicious)
+      .map((s) => s.sv)
+      .join(", ")
+    recommendations.push(`Monitor suspicious satellites: ${suspiciousSats}`)
+  }
+
+  recommendations.push("Log all anomalies and report to relevant authorities")
+  recommendations.push("Consider implementing additional GNSS authentication measures")
+
+  return {
+    threatLevel,
+    spoofingProbability: Math.round(spoofingProbability),
+    flaggedEpochs,
+    anomalies,
+    recommendations,
+  }
+}
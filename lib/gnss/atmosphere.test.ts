@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest"
+import { createAtmosphere } from "./atmosphere"
+import { GPS_L1_FREQUENCY, GPS_L5_FREQUENCY, SPEED_OF_LIGHT } from "./constants"
+import { toGpsSeconds } from "./time"
+import type { NavigationHeader } from "./types"
+
+const DEG = Math.PI / 180
+
+const header = (ionosphericCorrections: Record<string, number[]>): NavigationHeader => ({
+  version: 3.04,
+  fileType: "N",
+  satelliteSystem: "G",
+  ionosphericCorrections,
+  timeSystemCorrections: [],
+  leapSeconds: null,
+})
+
+// Start of GPS week 2296, a Sunday, so GPS seconds of week count from here
+const WEEK_START = toGpsSeconds({ year: 2024, month: 1, day: 7, hour: 0, minute: 0, second: 0 }, "GPS")
+const ZENITH = { elevation: 90 * DEG, azimuth: 0 }
+const EQUATOR = { latitude: 0, longitude: 0, height: 0 }
+
+describe("Klobuchar ionosphere (IS-GPS-200 20.3.3.5.2.5)", () => {
+  // A flat amplitude of 10 ns and the shortest period, 72000 s, so the day term is a known half cosine
+  const atmosphere = createAtmosphere(
+    { ionosphere: "klobuchar", troposphere: "none" },
+    header({ GPSA: [1e-8, 0, 0, 0], GPSB: [72000, 0, 0, 0] }),
+  )
+  // Obliquity factor F = 1 + 16 (0.53 - E)^3 with E in semicircles
+  const obliquity = (elevation: number) => 1 + 16 * (0.53 - elevation / 180) ** 3
+
+  it("keeps the 5 ns night-time floor outside the day term", () => {
+    expect(atmosphere.delay(EQUATOR, ZENITH, GPS_L1_FREQUENCY, WEEK_START)).toBeCloseTo(
+      SPEED_OF_LIGHT * obliquity(90) * 5e-9,
+      9,
+    )
+    const low = { elevation: 10 * DEG, azimuth: 0 }
+    expect(atmosphere.delay(EQUATOR, low, GPS_L1_FREQUENCY, WEEK_START)).toBeCloseTo(
+      SPEED_OF_LIGHT * obliquity(10) * 5e-9,
+      9,
+    )
+  })
+
+  it("peaks at 14:00 local time and follows the cosine series around it", () => {
+    const peak = atmosphere.delay(EQUATOR, ZENITH, GPS_L1_FREQUENCY, WEEK_START + 50400)
+    expect(peak).toBeCloseTo(SPEED_OF_LIGHT * obliquity(90) * 15e-9, 9)
+    // An eighth of the period later the phase x is pi/4
+    const x = Math.PI / 4
+    const later = atmosphere.delay(EQUATOR, ZENITH, GPS_L1_FREQUENCY, WEEK_START + 50400 + 9000)
+    expect(later).toBeCloseTo(SPEED_OF_LIGHT * obliquity(90) * (5e-9 + 1e-8 * (1 - x ** 2 / 2 + x ** 4 / 24)), 9)
+  })
+
+  it("takes local time from the pierce point longitude", () => {
+    // 90 degrees east is 6 h ahead, so the peak comes at 08:00 GPS time
+    const east = { ...EQUATOR, longitude: 90 * DEG }
+    expect(atmosphere.delay(east, ZENITH, GPS_L1_FREQUENCY, WEEK_START + 28800)).toBeCloseTo(
+      SPEED_OF_LIGHT * obliquity(90) * 15e-9,
+      9,
+    )
+  })
+
+  it("scales the L1 delay with (f1/f)^2", () => {
+    const l1 = atmosphere.delay(EQUATOR, ZENITH, GPS_L1_FREQUENCY, WEEK_START + 50400)
+    expect(atmosphere.delay(EQUATOR, ZENITH, GPS_L5_FREQUENCY, WEEK_START + 50400)).toBeCloseTo(
+      l1 * (154 / 115) ** 2,
+      9,
+    )
+  })
+
+  it("is not applied without broadcast coefficients", () => {
+    const missing = createAtmosphere({ ionosphere: "klobuchar", troposphere: "none" }, header({ GPSA: [0, 0, 0, 0] }))
+    expect(missing.models.ionosphere).toBe("none")
+    expect(missing.delay(EQUATOR, ZENITH, GPS_L1_FREQUENCY, WEEK_START + 50400)).toBe(0)
+  })
+})
+
+describe("Saastamoinen troposphere with UNB3 meteorology", () => {
+  const atmosphere = createAtmosphere({ ionosphere: "none", troposphere: "saastamoinen" }, header({}))
+  // Day 28, the UNB3 northern winter extreme
+  const DAY_28 = toGpsSeconds({ year: 2024, month: 1, day: 28, hour: 0, minute: 0, second: 0 }, "GPS")
+  const DAY_211 = toGpsSeconds({ year: 2024, month: 7, day: 29, hour: 0, minute: 0, second: 0 }, "GPS")
+  const north45 = { latitude: 45 * DEG, longitude: 0, height: 0 }
+
+  // UNB3 at 45 degrees on day 28: P = 1015.75 + 2.25 hPa, T = 283.15 - 11 K, e = 11.66 - 7.24 hPa
+  // (Leandro, Santos and Langley 2006, Table 1)
+  const pressure = 1018
+  const temperature = 272.15
+  const vapour = 4.42
+  // Saastamoinen zenith delays (Davis et al. 1985 and Saastamoinen 1972); cos(2 phi) vanishes at 45 degrees
+  const zenithHydrostatic = 0.0022768 * pressure
+  const zenithWet = 0.002277 * (1255 / temperature + 0.05) * vapour
+  // RTCA DO-229 A.4.2.4 mapping function
+  const mapping = (elevation: number) => 1.001 / Math.sqrt(0.002001 + Math.sin(elevation * DEG) ** 2)
+
+  it("computes the zenith delay from the winter meteorology at sea level", () => {
+    const zenith = atmosphere.delay(north45, ZENITH, null, DAY_28)
+    expect(zenithHydrostatic).toBeCloseTo(2.3178, 4)
+    expect(zenithWet).toBeCloseTo(0.0469, 4)
+    expect(zenith).toBeCloseTo((zenithHydrostatic + zenithWet) * mapping(90), 9)
+  })
+
+  it("maps the zenith delay to low elevations", () => {
+    const low = atmosphere.delay(north45, { elevation: 5 * DEG, azimuth: 0 }, null, DAY_28)
+    expect(mapping(5)).toBeCloseTo(10.218, 3)
+    expect(low).toBeCloseTo((zenithHydrostatic + zenithWet) * mapping(5), 9)
+  })
+
+  it("shifts the southern seasons by half a year", () => {
+    const south45 = { ...north45, latitude: -45 * DEG }
+    expect(atmosphere.delay(south45, ZENITH, null, DAY_211)).toBeCloseTo(
+      atmosphere.delay(north45, ZENITH, null, DAY_28),
+      9,
+    )
+  })
+
+  it("reduces the meteorology to the receiver height", () => {
+    // At 45 degrees beta = 5.58e-3 - 0.32e-3 K/m and lambda = 2.57 - 0.46 on day 28
+    const height = 1000
+    const beta = 5.26e-3
+    const lambda = 2.11
+    const lapse = 1 - (beta * height) / temperature
+    const exponent = 9.80665 / (287.054 * beta)
+    const p = pressure * lapse ** exponent
+    const e = vapour * lapse ** ((lambda + 1) * exponent)
+    const hydrostatic = (0.0022768 * p) / (1 - 0.00028 * (height / 1000))
+    const wet = 0.002277 * (1255 / (temperature - beta * height) + 0.05) * e
+    expect(atmosphere.delay({ ...north45, height }, ZENITH, null, DAY_28)).toBeCloseTo(
+      (hydrostatic + wet) * mapping(90),
+      9,
+    )
+  })
+
+  it("leaves receivers far from the ground and satellites below the horizon undelayed", () => {
+    expect(atmosphere.delay({ ...north45, height: -6378137 }, ZENITH, null, DAY_28)).toBe(0)
+    expect(atmosphere.delay(north45, { elevation: -1 * DEG, azimuth: 0 }, null, DAY_28)).toBe(0)
+  })
+})
@@ -0,0 +1,220 @@
+import { GPS_L1_FREQUENCY, SPEED_OF_LIGHT } from "./constants"
+import { type GeodeticPosition, type LookAngles, WGS84_A } from "./geodesy"
+import { dayOfYear, gpsWeekTow } from "./time"
+import type { AtmosphereModels, NavigationHeader } from "./types"
+
+// Ionospheric and tropospheric delay models for single-frequency code ranges. Delays are meters along the line of
+// sight, positive as they lengthen the range; angles are radians unless named otherwise.
+
+const DEG = Math.PI / 180
+
+// Ionospheric group delay is 40.3 TEC / f^2, with TEC in electrons per square meter
+const IONOSPHERE_CONSTANT = 40.3
+const TEC_UNIT = 1e16
+
+// Receivers outside these heights are not near the ground yet, as while the solver starts from the earth's centre,
+// and get no atmospheric delay
+const MIN_RECEIVER_HEIGHT = -1000 // meters
+const MAX_RECEIVER_HEIGHT = 100000 // meters
+
+// NTCM-G coefficients k1..k12 and the thin shell it maps slant TEC with (Hoque et al. 2019)
+const NTCM_K = [
+  0.92519, 0.16951, 0.00443, 0.06626, 0.00899, 0.21289, -0.15414, -0.38439, 1.14023, 1.20556, 1.41808, 0.13985,
+]
+const NTCM_SHELL_HEIGHT = 450000 // meters
+// Geomagnetic north pole of the dipole NTCM-G uses for geomagnetic latitude
+const GEOMAGNETIC_POLE_LATITUDE = 79.74 * DEG
+const GEOMAGNETIC_POLE_LONGITUDE = -71.78 * DEG
+
+// UNB3 meteorological parameters at 15, 30, 45, 60 and 75 degrees latitude: pressure (hPa), temperature (K),
+// water vapour pressure (hPa), temperature lapse rate (K/m) and water vapour lapse rate, as annual means and as
+// seasonal amplitudes (Leandro, Santos and Langley 2006)
+const UNB3_AVERAGES = [
+  [1013.25, 299.65, 26.31, 6.3e-3, 2.77],
+  [1017.25, 294.15, 21.79, 6.05e-3, 3.15],
+  [1015.75, 283.15, 11.66, 5.58e-3, 2.57],
+  [1011.75, 272.15, 6.78, 5.39e-3, 1.81],
+  [1013.0, 263.65, 4.11, 4.53e-3, 1.55],
+]
+const UNB3_AMPLITUDES = [
+  [0, 0, 0, 0, 0],
+  [-3.75, 7, 8.85, 0.25e-3, 0.33],
+  [-2.25, 11, 7.24, 0.32e-3, 0.46],
+  [-1.75, 15, 5.36, 0.81e-3, 0.74],
+  [-0.5, 14.5, 3.39, 0.62e-3, 0.3],
+]
+const GRAVITY = 9.80665 // m/s^2
+const DRY_GAS_CONSTANT = 287.054 // J/(kg K)
+
+export interface Atmosphere {
+  models: AtmosphereModels // as applied
+  // Delay of a signal on the given carrier, or of the troposphere alone when the carrier is unknown
+  delay(receiver: GeodeticPosition, angles: LookAngles, frequency: number | null, gpsSeconds: number): number
+}
+
+function polynomial(coefficients: number[], x: number) {
+  return coefficients.reduce((sum, c, k) => sum + c * x ** k, 0)
+}
+
+// Broadcast coefficients of a correction type, or null when the header has none; all-zero sets count as missing
+function broadcastCoefficients(header: NavigationHeader, key: string, count: number) {
+  const coefficients = header.ionosphericCorrections[key]
+  if (!coefficients || coefficients.length < count || coefficients.every((c) => c === 0)) return null
+  return coefficients.slice(0, count)
+}
+
+// GPS broadcast model (IS-GPS-200 20.3.3.5.2.5): a half cosine in local time at the 350 km pierce point peaking at
+// 14:00, with amplitude and period from the ALPHA and BETA coefficients, over a constant 5 ns. Delay on L1.
+function klobucharDelay(
+  alpha: number[],
+  beta: number[],
+  receiver: GeodeticPosition,
+  { elevation, azimuth }: LookAngles,
+  gpsTow: number,
+) {
+  // The algorithm works in semicircles
+  const e = elevation / Math.PI
+  const psi = 0.0137 / (e + 0.11) - 0.022
+  const phiI = Math.min(0.416, Math.max(-0.416, receiver.latitude / Math.PI + psi * Math.cos(azimuth)))
+  const lambdaI = receiver.longitude / Math.PI + (psi * Math.sin(azimuth)) / Math.cos(phiI * Math.PI)
+  const phiM = phiI + 0.064 * Math.cos((lambdaI - 1.617) * Math.PI)
+  const localTime = (((43200 * lambdaI + gpsTow) % 86400) + 86400) % 86400
+
+  const obliquity = 1 + 16 * (0.53 - e) ** 3
+  const amplitude = Math.max(0, polynomial(alpha, phiM))
+  const period = Math.max(72000, polynomial(beta, phiM))
+  const x = (2 * Math.PI * (localTime - 50400)) / period
+  const delay = Math.abs(x) < 1.57 ? 5e-9 + amplitude * (1 - (x * x) / 2 + x ** 4 / 24) : 5e-9
+  return SPEED_OF_LIGHT * obliquity * delay
+}
+
+// Point where a line of sight crosses a thin ionospheric shell, and the slant to vertical ratio there
+function piercePoint(receiver: GeodeticPosition, { elevation, azimuth }: LookAngles, shellHeight: number) {
+  const ratio = (WGS84_A / (WGS84_A + shellHeight)) * Math.cos(elevation)
+  const psi = Math.PI / 2 - elevation - Math.asin(ratio)
+  const latitude = Math.asin(
+    Math.sin(receiver.latitude) * Math.cos(psi) + Math.cos(receiver.latitude) * Math.sin(psi) * Math.cos(azimuth),
+  )
+  const longitude = receiver.longitude + Math.asin((Math.sin(psi) * Math.sin(azimuth)) / Math.cos(latitude))
+  return { latitude, longitude, obliquity: 1 / Math.sqrt(1 - ratio * ratio) }
+}
+
+// NTCM-G, the single-layer model driven by the Galileo broadcast effective ionisation coefficients ai0-ai2 in place of
+// NeQuick-G, whose electron density profiles need the ITU-R monthly foF2 and M(3000)F2 maps. Delay on the carrier.
+function ntcmDelay(
+  ai: number[],
+  receiver: GeodeticPosition,
+  angles: LookAngles,
+  gpsSeconds: number,
+  frequency: number,
+) {
+  const k = NTCM_K
+  const { latitude, longitude, obliquity } = piercePoint(receiver, angles, NTCM_SHELL_HEIGHT)
+  const { day, secondsOfDay } = dayOfYear(gpsSeconds)
+
+  // Local time dependency, through the solar zenith angle
+  const localTime = (((secondsOfDay / 3600 + longitude / (15 * DEG)) % 24) + 24) % 24
+  const declination = 23.44 * DEG * Math.sin(0.9856 * DEG * (day - 80.7))
+  const cosChi = Math.cos(latitude - declination) - (2 / Math.PI) * latitude * Math.sin(declination)
+  const diurnal = (2 * Math.PI * (localTime - 14)) / 24
+  const semidiurnal = (2 * Math.PI * localTime) / 12
+  const terdiurnal = (2 * Math.PI * localTime) / 7.5
+  const f1 =
+    Math.cos(latitude - declination) +
+    0.4 +
+    cosChi *
+      (k[0] * Math.cos(diurnal) +
+        k[1] * Math.cos(semidiurnal) +
+        k[2] * Math.sin(semidiurnal) +
+        k[3] * Math.cos(terdiurnal) +
+        k[4] * Math.sin(terdiurnal))
+
+  // Annual and semi-annual variation
+  const f2 =
+    1 + k[5] * Math.cos((2 * Math.PI * (day - 18)) / 365.25) + k[6] * Math.cos((4 * Math.PI * (day - 6)) / 365.25)
+
+  // Geomagnetic field dependency and the two crests of the equatorial anomaly
+  const geomagneticLatitude = Math.asin(
+    Math.sin(latitude) * Math.sin(GEOMAGNETIC_POLE_LATITUDE) +
+      Math.cos(latitude) * Math.cos(GEOMAGNETIC_POLE_LATITUDE) * Math.cos(longitude - GEOMAGNETIC_POLE_LONGITUDE),
+  )
+  const f3 = 1 + k[7] * Math.cos(geomagneticLatitude)
+  const magneticDegrees = geomagneticLatitude / DEG
+  const f4 =
+    1 +
+    k[8] * Math.exp(-((magneticDegrees - 16) ** 2) / (2 * 12 ** 2)) +
+    k[9] * Math.exp(-((magneticDegrees + 10) ** 2) / (2 * 13 ** 2))
+
+  // Solar activity, through the effective ionisation level over all modified dip latitudes
+  const [ai0, ai1, ai2] = ai
+  const azpar = Math.sqrt(ai0 ** 2 + 1633.33 * ai1 ** 2 + 4802000 * ai2 ** 2 + 3266.67 * ai0 * ai2)
+  const f5 = k[10] + k[11] * azpar
+
+  const verticalTec = f1 * f2 * f3 * f4 * f5
+  return (IONOSPHERE_CONSTANT * TEC_UNIT * verticalTec * obliquity) / (frequency * frequency)
+}
+
+// UNB3 surface meteorology at a latitude and day of year, interpolated between the tabulated latitudes
+function unb3Parameters(latitude: number, day: number) {
+  const position = Math.min(4, Math.max(0, Math.abs(latitude) / (15 * DEG) - 1))
+  const row = Math.min(3, Math.floor(position))
+  const fraction = position - row
+  // Southern seasons are half a year later
+  const season = Math.cos((2 * Math.PI * (day - (latitude < 0 ? 211 : 28))) / 365.25)
+  const interpolate = (table: number[][], j: number) => table[row][j] + (table[row + 1][j] - table[row][j]) * fraction
+  return UNB3_AVERAGES[0].map((_, j) => interpolate(UNB3_AVERAGES, j) - interpolate(UNB3_AMPLITUDES, j) * season)
+}
+
+// Saastamoinen zenith delays from UNB3 meteorology reduced to the receiver height, mapped to the elevation with
+// the RTCA MOPS mapping function (DO-229 A.4.2.4)
+function troposphericDelay(receiver: GeodeticPosition, elevation: number, day: number) {
+  const [pressure, temperature, vapour, beta, lambda] = unb3Parameters(receiver.latitude, day)
+  const lapse = 1 - (beta * receiver.height) / temperature
+  if (lapse <= 0) return 0
+  const exponent = GRAVITY / (DRY_GAS_CONSTANT * beta)
+  const p = pressure * lapse ** exponent
+  const t = temperature - beta * receiver.height
+  const e = vapour * lapse ** ((lambda + 1) * exponent)
+
+  const hydrostatic =
+    (0.0022768 * p) / (1 - 0.00266 * Math.cos(2 * receiver.latitude) - 0.00028 * (receiver.height / 1000))
+  const wet = 0.002277 * (1255 / t + 0.05) * e
+  const sinElevation = Math.sin(elevation)
+  return ((hydrostatic + wet) * 1.001) / Math.sqrt(0.002001 + sinElevation * sinElevation)
+}
+
+// Delay models of an analysis. An ionosphere model whose broadcast coefficients the navigation header lacks is not
+// applied, rather than run on zeros.
+export function createAtmosphere(requested: AtmosphereModels, navigationHeader: NavigationHeader): Atmosphere {
+  const alpha = broadcastCoefficients(navigationHeader, "GPSA", 4)
+  const beta = broadcastCoefficients(navigationHeader, "GPSB", 4)
+  const ai = broadcastCoefficients(navigationHeader, "GAL", 3)
+  const ionosphere =
+    (requested.ionosphere === "klobuchar" && alpha && beta) || (requested.ionosphere === "ntcm-g" && ai)
+      ? requested.ionosphere
+      : "none"
+  const { troposphere } = requested
+
+  function ionosphericDelay(receiver: GeodeticPosition, angles: LookAngles, frequency: number, gpsSeconds: number) {
+    if (ionosphere === "klobuchar" && alpha && beta) {
+      const delay = klobucharDelay(alpha, beta, receiver, angles, gpsWeekTow(gpsSeconds).tow)
+      return delay * (GPS_L1_FREQUENCY / frequency) ** 2
+    }
+    if (ionosphere === "ntcm-g" && ai) return ntcmDelay(ai, receiver, angles, gpsSeconds, frequency)
+    return 0
+  }
+
+  return {
+    models: { ionosphere, troposphere },
+    delay(receiver, angles, frequency, gpsSeconds) {
+      if (angles.elevation <= 0 || receiver.height < MIN_RECEIVER_HEIGHT || receiver.height > MAX_RECEIVER_HEIGHT) {
+        return 0
+      }
+      let delay = frequency === null ? 0 : ionosphericDelay(receiver, angles, frequency, gpsSeconds)
+      if (troposphere === "saastamoinen") {
+        delay += troposphericDelay(receiver, angles.elevation, dayOfYear(gpsSeconds).day)
+      }
+      return delay
+    },
+  }
+}
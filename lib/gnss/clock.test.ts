@@ -0,0 +1,131 @@
+import { readFileSync } from "node:fs"
+import { describe, expect, it } from "vitest"
+import { glonassTransmissionState, transmissionState } from "./clock"
+import { relativisticClockCorrection, satellitePosition } from "./orbit"
+import { parseRinexNavigation } from "./rinex/navigation"
+import type { BroadcastEphemeris, GlonassEphemeris } from "./types"
+
+// PRN 6 of the RINEX 2.11 specification example: af0 = -0.839701388031e-3 s, af1 = -0.165982783074e-10 s/s,
+// toc = toe = 409904 s of week
+const G06 = parseRinexNavigation(readFileSync(new URL("./__fixtures__/example.99n", import.meta.url), "utf8"))
+  .ephemeris[0]
+const TGD = -4.656612873e-9 // seconds
+const T = G06.toe + 1800
+const PSEUDORANGE = 21000000
+
+// Carrier ratios in units of 10.23 MHz: L1/E1 154, L2 120, L5/E5a 115, E5b 118
+const GAMMA_L2 = (154 / 120) ** 2
+const GAMMA_L5 = (154 / 115) ** 2
+const GAMMA_E5B = (154 / 118) ** 2
+
+const clockOffset = (eph: BroadcastEphemeris, type: string) => transmissionState(eph, T, PSEUDORANGE, type)!.clockOffset
+
+// Group delay of a signal: the clock offset difference to a signal that takes none
+const groupDelay = (eph: BroadcastEphemeris, type: string) =>
+  clockOffset({ ...eph, tgd: 0, tgd2: 0, civil: undefined }, type) - clockOffset(eph, type)
+
+describe("transmissionState", () => {
+  it("evaluates the broadcast clock polynomial and relativistic term at transmission", () => {
+    const eph = { ...G06, tgd: 0, clockDriftRate: 1e-18 }
+    const state = transmissionState(eph, T, PSEUDORANGE, "C1")!
+    // Transmission time in GPS time: the travel time and the satellite clock offset taken off the receive time
+    const transmission = T - PSEUDORANGE / 299792458 - state.clockOffset
+    const dt = transmission - 409904
+    const { eccentricAnomaly } = satellitePosition(eph, transmission)
+    const expected =
+      -0.839701388031e-3 +
+      -0.165982783074e-10 * dt +
+      1e-18 * dt * dt +
+      relativisticClockCorrection(eph, eccentricAnomaly)
+    expect(state.clockOffset).toBeCloseTo(expected, 15)
+  })
+
+  it("places the satellite where its orbit was at transmission", () => {
+    const state = transmissionState(G06, T, PSEUDORANGE, "C1")!
+    const transmission = T - PSEUDORANGE / 299792458 - state.clockOffset
+    const { x, y, z } = satellitePosition(G06, transmission)
+    // The tens of nanoseconds the relativistic term shifts the transmission time move the satellite by microns
+    expect(Math.hypot(state.position.x - x, state.position.y - y, state.position.z - z)).toBeLessThan(0.001)
+  })
+})
+
+describe("GPS group delay", () => {
+  const eph = { ...G06, tgd: TGD }
+
+  it("applies TGD on L1 and scales it with (f1/f)^2 on L2 and L5 (IS-GPS-200 20.3.3.3.3.2)", () => {
+    expect(groupDelay(eph, "C1")).toBeCloseTo(TGD, 18)
+    expect(groupDelay(eph, "P1")).toBeCloseTo(TGD, 18)
+    expect(groupDelay(eph, "P2")).toBeCloseTo(GAMMA_L2 * TGD, 18)
+    expect(groupDelay(eph, "C5Q")).toBeCloseTo(GAMMA_L5 * TGD, 18)
+  })
+
+  it("corrects CNAV civil signals with their inter-signal corrections (IS-GPS-200 30.3.3.3.1.1.1)", () => {
+    const isc = { L1CA: 1.5e-9, L2C: -2.5e-9, L5I5: 0.75e-9, L5Q5: -0.5e-9 }
+    const cnav = { ...eph, messageType: "CNAV", civil: { top: 0, uraEd: 0, uraNed: [0, 0, 0], isc } }
+    expect(groupDelay(cnav, "C1C")).toBeCloseTo(TGD - isc.L1CA, 18)
+    expect(groupDelay(cnav, "C2L")).toBeCloseTo(TGD - isc.L2C, 18)
+    expect(groupDelay(cnav, "C5I")).toBeCloseTo(TGD - isc.L5I5, 18)
+    expect(groupDelay(cnav, "C5Q")).toBeCloseTo(TGD - isc.L5Q5, 18)
+    // P(Y) has no ISC and keeps the LNAV scaling
+    expect(groupDelay(cnav, "C2W")).toBeCloseTo(GAMMA_L2 * TGD, 18)
+  })
+})
+
+describe("Galileo group delay", () => {
+  const bgdE5a = 2.3e-9
+  const bgdE5b = 2.7e-9
+  const galileo = { ...G06, satellite: "E06", system: "E", tgd: bgdE5a, tgd2: bgdE5b }
+
+  it("applies BGD(E1,E5a) on E1 and E5a for F/NAV clocks (Galileo OS SIS ICD 5.1.5)", () => {
+    const fnav = { ...galileo, messageType: "FNAV" }
+    expect(groupDelay(fnav, "C1C")).toBeCloseTo(bgdE5a, 18)
+    expect(groupDelay(fnav, "C5Q")).toBeCloseTo(GAMMA_L5 * bgdE5a, 18)
+  })
+
+  it("applies BGD(E1,E5b) on E1 and E5b for I/NAV clocks", () => {
+    const inav = { ...galileo, messageType: "INAV" }
+    expect(groupDelay(inav, "C1C")).toBeCloseTo(bgdE5b, 18)
+    expect(groupDelay(inav, "C7Q")).toBeCloseTo(GAMMA_E5B * bgdE5b, 18)
+    // Before RINEX 4 the data sources field tells the clock pair; bit 9 marks E5b/E1
+    const rinex3 = { ...galileo, messageType: null, codesOnL2: 1 << 9 }
+    expect(groupDelay(rinex3, "C1C")).toBeCloseTo(bgdE5b, 18)
+  })
+})
+
+describe("BeiDou group delay", () => {
+  const tgd1 = 5.1e-9
+  const tgd2 = -3.2e-9
+  const beidou = { ...G06, satellite: "C19", system: "C", messageType: "D1", tgd: tgd1, tgd2 }
+
+  it("applies TGD1 on B1I and TGD2 on B2I, relative to the B3I clock (BDS-SIS-ICD 5.2.4.10)", () => {
+    expect(groupDelay(beidou, "C2I")).toBeCloseTo(tgd1, 18)
+    expect(groupDelay(beidou, "C7I")).toBeCloseTo(tgd2, 18)
+    expect(groupDelay(beidou, "C6I")).toBe(0)
+  })
+
+  it("has no correction for B1C without CNAV-1", () => {
+    expect(transmissionState(beidou, T, PSEUDORANGE, "C1P")).toBeNull()
+  })
+})
+
+describe("glonassTransmissionState", () => {
+  it("applies -TauN + GammaN (t - tb) without a separate relativistic term (GLONASS ICD 3.3.3)", () => {
+    const eph: GlonassEphemeris = {
+      satellite: "R01",
+      toc: { year: 2024, month: 1, day: 7, hour: 0, minute: 15, second: 0 },
+      toe: 918,
+      position: { x: 7003008.789, y: -12206626.953, z: 21280765.625 },
+      velocity: { x: 783.5417, y: 2804.253, z: 1352.515 },
+      acceleration: { x: 0, y: 1.7e-6, z: -5.41e-6 },
+      clockBias: 1.2e-5,
+      relativeFrequencyBias: 9.1e-13,
+      messageFrameTime: 0,
+      svHealth: 0,
+      frequencyChannel: 1,
+      ageOfOperation: 0,
+    }
+    const { clockOffset } = glonassTransmissionState(eph, 918 + 600, PSEUDORANGE)
+    const transmission = 918 + 600 - PSEUDORANGE / 299792458 - clockOffset
+    expect(clockOffset).toBeCloseTo(1.2e-5 + 9.1e-13 * (transmission - 918), 18)
+  })
+})
@@ -0,0 +1,128 @@
+import {
+  GALILEO_E5B_FREQUENCY,
+  GPS_L1_FREQUENCY,
+  GPS_L2_FREQUENCY,
+  GPS_L5_FREQUENCY,
+  SPEED_OF_LIGHT,
+} from "./constants"
+import { glonassSatellitePosition } from "./glonass"
+import { relativisticClockCorrection, satellitePosition, timeFromEphemeris } from "./orbit"
+import { toGpsTime } from "./time"
+import type { BroadcastEphemeris, EcefPosition, GlonassEphemeris } from "./types"
+
+// Satellite state at signal transmission: position from the broadcast orbit, clock offset from the broadcast clock
+// polynomial, the relativistic term and the group delay of the signal the pseudorange was measured on.
+// Times are seconds of week in the constellation's own time scale.
+
+export interface TransmissionState {
+  position: EcefPosition // in the earth-fixed frame of the transmission instant
+  clockOffset: number // seconds, added to the pseudorange times c
+}
+
+// CNAV inter-signal corrections by band and RINEX tracking code
+const INTER_SIGNAL_CORRECTIONS: Record<string, string> = {
+  "1C": "L1CA",
+  "1S": "L1CD",
+  "1L": "L1CP",
+  "2S": "L2C",
+  "2L": "L2C",
+  "2X": "L2C",
+  "5I": "L5I5",
+  "5Q": "L5Q5",
+  "5X": "L5Q5",
+}
+
+const GPS_FREQUENCIES: Record<string, number> = { "1": GPS_L1_FREQUENCY, "2": GPS_L2_FREQUENCY, "5": GPS_L5_FREQUENCY }
+const GALILEO_FREQUENCIES: Record<string, number> = {
+  "1": GPS_L1_FREQUENCY,
+  "5": GPS_L5_FREQUENCY,
+  "7": GALILEO_E5B_FREQUENCY,
+}
+
+// Galileo data sources bit 9: clock terms for E5b/E1, i.e. an I/NAV record
+const GALILEO_INAV_CLOCK = 1 << 9
+
+// Band and tracking code of a code observable, e.g. "1C". RINEX 2 types carry no tracking code: C1 is C/A,
+// P1 and P2 are P(Y), C2 and C5 the civil L2 and L5 codes.
+function signalCode(type: string) {
+  const band = type.charAt(1)
+  if (type.length >= 3) return `${band}${type.charAt(2)}`
+  if (type.charAt(0) === "P") return `${band}W`
+  return band === "1" ? "1C" : `${band}X`
+}
+
+// GPS and QZSS clocks refer to the L1/L2 P(Y) ionosphere-free combination: TGD applies on L1 and scales with (f1/f)^2
+// on the other carriers (IS-GPS-200 20.3.3.3.3.2). CNAV corrects civil signals with their ISC instead (30.3.3.3.1.1.1).
+function gpsGroupDelay(eph: BroadcastEphemeris, code: string) {
+  const isc = eph.civil?.isc[INTER_SIGNAL_CORRECTIONS[code]]
+  if (isc !== undefined) return eph.tgd - isc
+  const frequency = GPS_FREQUENCIES[code.charAt(0)]
+  return frequency ? (GPS_L1_FREQUENCY / frequency) ** 2 * eph.tgd : 0
+}
+
+// Galileo clocks refer to E1/E5a on F/NAV and to E1/E5b on I/NAV. E1 takes the BGD of the record's pair, E5a and E5b
+// the BGD of their own pair scaled with (f1/f)^2 (Galileo OS SIS ICD 5.1.5).
+function galileoGroupDelay(eph: BroadcastEphemeris, band: string) {
+  const inav = eph.messageType ? eph.messageType === "INAV" : (eph.codesOnL2 & GALILEO_INAV_CLOCK) !== 0
+  const bgd = band === "7" || (band === "1" && inav) ? eph.tgd2 : eph.tgd
+  const frequency = GALILEO_FREQUENCIES[band]
+  return frequency && bgd !== undefined ? (GPS_L1_FREQUENCY / frequency) ** 2 * bgd : 0
+}
+
+// BeiDou clocks refer to B3I: TGD1 applies on B1I (band 2) and TGD2 on B2I (band 7) (BDS-SIS-ICD 5.2.4.10).
+// B1C (band 1) needs ISC_B1Cd from CNAV-1, which is not decoded, so it has none. Signals without a D1/D2 group
+// delay term are left as measured.
+function beidouGroupDelay(eph: BroadcastEphemeris, band: string) {
+  if (band === "2") return eph.tgd
+  if (band === "7") return eph.tgd2 ?? 0
+  if (band === "1") return null
+  return 0
+}
+
+// Group delay of the broadcast clock for a code observable, seconds; missing terms count as zero. Null when the
+// signal needs a term the decoded messages do not carry.
+function groupDelay(eph: BroadcastEphemeris, type: string) {
+  const code = signalCode(type)
+  const delay =
+    eph.system === "E"
+      ? galileoGroupDelay(eph, code.charAt(0))
+      : eph.system === "C"
+        ? beidouGroupDelay(eph, code.charAt(0))
+        : gpsGroupDelay(eph, code)
+  if (delay === null) return null
+  return Number.isFinite(delay) ? delay : 0
+}
+
+// Broadcast clock polynomial af0 + af1 (t - toc) + af2 (t - toc)^2 (IS-GPS-200 20.3.3.3.3.1)
+function clockPolynomial(eph: BroadcastEphemeris, t: number) {
+  const dt = timeFromEphemeris(t, toGpsTime(eph.toc).tow)
+  return eph.clockBias + eph.clockDrift * dt + eph.clockDriftRate * dt * dt
+}
+
+// Transmission time of a signal received at t: the pseudorange gives the travel time, with the receiver clock error
+// dropping out as it enters both, and the satellite clock offset turns satellite time into system time.
+// Null when the group delay of the signal is unknown.
+export function transmissionState(
+  eph: BroadcastEphemeris,
+  t: number,
+  pseudorange: number,
+  type: string,
+): TransmissionState | null {
+  const delay = groupDelay(eph, type)
+  if (delay === null) return null
+  const satelliteTime = t - pseudorange / SPEED_OF_LIGHT
+  const time = satelliteTime - clockPolynomial(eph, satelliteTime)
+  const { x, y, z, eccentricAnomaly } = satellitePosition(eph, time)
+  return {
+    position: { x, y, z },
+    clockOffset: clockPolynomial(eph, time) + relativisticClockCorrection(eph, eccentricAnomaly) - delay,
+  }
+}
+
+// GLONASS broadcasts -TauN and GammaN, whose clock model already covers the relativistic effect (GLONASS ICD 3.3.3)
+export function glonassTransmissionState(eph: GlonassEphemeris, t: number, pseudorange: number): TransmissionState {
+  const clock = (time: number) => eph.clockBias + eph.relativeFrequencyBias * timeFromEphemeris(time, eph.toe)
+  const satelliteTime = t - pseudorange / SPEED_OF_LIGHT
+  const time = satelliteTime - clock(satelliteTime)
+  return { position: glonassSatellitePosition(eph, time), clockOffset: clock(time) }
+}
@@ -0,0 +1,44 @@
+// Physical and system constants for GNSS computations (IS-GPS-200)
+
+export const SPEED_OF_LIGHT = 299792458 // m/s
+export const GPS_L1_FREQUENCY = 1575.42e6 // Hz
+export const GPS_L2_FREQUENCY = 1227.6e6 // Hz
+export const GPS_L5_FREQUENCY = 1176.45e6 // Hz
+
+// Galileo carriers (Galileo OS SIS ICD, Table 2); E1 shares the GPS L1 frequency and E5a the L5 one
+export const GALILEO_E5B_FREQUENCY = 1207.14e6 // Hz
+export const GALILEO_E5_FREQUENCY = 1191.795e6 // Hz, E5a+b AltBOC
+export const GALILEO_E6_FREQUENCY = 1278.75e6 // Hz, shared by QZSS L6
+
+// BeiDou carriers of their own (BDS-SIS-ICD); B1C, B2a, B2b and B2a+b share the Galileo E1, E5a, E5b and E5 ones
+export const BEIDOU_B1I_FREQUENCY = 1561.098e6 // Hz
+export const BEIDOU_B3I_FREQUENCY = 1268.52e6 // Hz
+
+// WGS84 earth gravitational constant (m^3/s^2)
+export const GPS_GM = 3.986005e14
+// WGS84 earth rotation rate (rad/s)
+export const GPS_OMEGA_E = 7.2921151467e-5
+
+// Galileo GTRF earth model (Galileo OS SIS ICD, Table 59)
+export const GALILEO_GM = 3.986004418e14
+export const GALILEO_OMEGA_E = 7.2921151467e-5
+// BeiDou CGCS2000 earth model (BDS-SIS-ICD, Table 5-3)
+export const BEIDOU_GM = 3.986004418e14
+export const BEIDOU_OMEGA_E = 7.292115e-5
+
+export const SECONDS_PER_WEEK = 604800
+export const HALF_WEEK = 302400
+
+// PZ-90 earth model used by GLONASS broadcast ephemeris (GLONASS ICD, Table 3.2)
+export const GLONASS_GM = 3.9860044e14 // m^3/s^2
+export const GLONASS_J2 = 1.0826257e-3
+export const GLONASS_EARTH_RADIUS = 6378136 // m, equatorial
+export const GLONASS_OMEGA_E = 7.292115e-5 // rad/s
+
+// GLONASS FDMA carriers: base frequency plus channel number times the channel spacing
+export const GLONASS_L1_FREQUENCY = 1602e6 // Hz
+export const GLONASS_L1_CHANNEL_SPACING = 0.5625e6 // Hz
+export const GLONASS_L2_FREQUENCY = 1246e6 // Hz
+export const GLONASS_L2_CHANNEL_SPACING = 0.4375e6 // Hz
+// GLONASS CDMA L3OC carrier
+export const GLONASS_L3_FREQUENCY = 1202.025e6 // Hz
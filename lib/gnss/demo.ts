@@ -0,0 +1,119 @@
+import { assessThreat } from "./assessment"
+import { ecefToEnu, geodeticCoordinates, geodeticToEcef } from "./geodesy"
+import { epochTimestamp, toGpsSeconds } from "./time"
+import type { AnalysisResult } from "./types"
+
+// Synthetic results for demonstrating the dashboard without data files.
+// Everything here is invented, so responses are marked synthetic and must never be mistaken for an analysis.
+export function generateDemoResults(): AnalysisResult {
+  const numEpochs = 50
+  const satellites = ["G01", "G02", "G03", "G04", "G05", "G06", "G07", "G08", "G09", "G10"]
+  // Demo epochs are 30 s apart from a fixed start
+  const start = toGpsSeconds({ year: 2024, month: 1, day: 1, hour: 0, minute: 0, second: 0 }, "GPS")
+  const epochTimes = Array.from({ length: numEpochs }, (_, i) => epochTimestamp(start + i * 30))
+  // The demo receiver wanders around a point near Frankfurt
+  const base = geodeticToEcef({ latitude: (50.1 * Math.PI) / 180, longitude: (8.7 * Math.PI) / 180, height: 150 })
+
+  const positions = []
+  for (let i = 0; i < numEpochs; i++) {
+    const numVisibleSats = 4 + Math.floor(Math.random() * 8) // 4-12 satellites
+    const avgElevation = 30 + Math.random() * 45 // 30-75 degrees
+
+    let pdop = 1.5 + (12 - numVisibleSats) * 0.3 // Base PDOP
+    pdop += (60 - avgElevation) / 20 // Elevation factor
+    pdop += Math.random() * 0.5 // Random variation
+
+    // Scripted high PDOP events
+    if (i === 15 || i === 32 || i === 41) {
+      pdop += 4 + Math.random() * 3
+    }
+
+    pdop = Math.max(1.0, Math.min(15.0, pdop))
+
+    positions.push({
+      epoch: i,
+      time: epochTimes[i],
+      x: base.x + Math.sin(i * 0.1) * 100 + (Math.random() - 0.5) * 50,
+      y: base.y + Math.cos(i * 0.1) * 100 + (Math.random() - 0.5) * 50,
+      z: base.z + Math.sin(i * 0.05) * 50 + (Math.random() - 0.5) * 25,
+      pdop,
+      accuracy: Math.max(1, pdop * 0.8 + Math.random()),
+      numSats: numVisibleSats,
+    })
+  }
+
+  // Scripted position jumps
+  positions[16].x += 200
+  positions[16].y += 150
+  positions[33].x -= 180
+  positions[33].z += 100
+  positions[42].y += 220
+  positions[42].z -= 80
+  const positionJumps = [16, 33, 42]
+
+  const highPdop = positions.filter((p) => p.pdop > 6).map((p) => p.epoch)
+
+  // Demo satellites observe every primary observable in every epoch
+  const noneMissing = { "blank-field": 0, "not-in-header": 0 }
+  const satelliteHealth = satellites.map((satId, index) => {
+    // Each satellite climbs or sinks through part of a smooth pass, tracked over the whole demo
+    const lookAngles = epochTimes.map((_, i) => ({
+      epoch: i,
+      elevation: 10 + 70 * Math.sin((Math.PI * (i + index * 10)) / (numEpochs + 100)),
+      azimuth: index * 30 + i * 0.5,
+    }))
+    const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+    let health = 0.3 + Math.random() * 0.7
+
+    // Scripted suspicious satellites
+    if (satId === "G02" || satId === "G04") {
+      health *= 0.4
+    }
+
+    return {
+      sv: satId,
+      health: Math.max(0.1, health),
+      snr: 30 + Math.random() * 20,
+      epochs: numEpochs,
+      missing: { pseudorange: noneMissing, carrierPhase: noneMissing, doppler: noneMissing, snr: noneMissing },
+      elevation: mean(lookAngles.map((sample) => sample.elevation)),
+      azimuth: mean(lookAngles.map((sample) => sample.azimuth)),
+      lookAngles,
+      arcs: [
+        {
+          start: { epoch: 0, time: epochTimes[0] },
+          end: { epoch: numEpochs - 1, time: epochTimes[numEpochs - 1] },
+        },
+      ],
+    }
+  })
+
+  const signalData = positions.map((_, i) => ({
+    epoch: i,
+    time: epochTimes[i],
+    avgSnr: 40 + Math.sin(i * 0.1) * 5 + Math.random() * 3,
+    doppler: Math.sin(i * 0.2) * 1000 + Math.random() * 100,
+    carrierPhase: Math.sin(i * 0.15) * 0.5 + Math.random() * 0.1,
+  }))
+
+  const assessment = assessThreat({ positionJumps, highPdop, satelliteHealth, signalAnomalies: [], epochTimes })
+
+  return {
+    synthetic: true,
+    ...assessment,
+    positionJumps,
+    highPdop,
+    pdopValues: positions.map((p) => p.pdop),
+    satelliteHealth,
+    positionData: positions.map((p) => ({ ...p, ...geodeticCoordinates(p), ...ecefToEnu(p, base) })),
+    signalData,
+    events: [],
+    processingInfo: {
+      totalEpochs: numEpochs,
+      totalSatellites: satellites.length,
+      avgSatellitesPerEpoch: Math.round(satellites.length * 0.8 * 10) / 10,
+      dataQuality: "Demo",
+    },
+    diagnostics: [],
+  }
+}
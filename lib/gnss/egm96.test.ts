@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest"
+import { geoidUndulation } from "./egm96"
+
+const DEG = Math.PI / 180
+
+// Test points distributed with the NGA EGM96 interpolation program (INTPT.DAT and its OUTINTPT.DAT results):
+// latitude and longitude in degrees and the undulation in meters
+const NGA_TEST_POINTS = [
+  [38.628155, 269.779155, -31.628],
+  [-14.621217, 305.021114, -2.969],
+  [46.874319, 102.448729, -43.575],
+  [-23.617446, 133.874712, 15.871],
+  [38.625473, 359.9995, 50.066],
+  [-0.466744, 0.0023, 17.329],
+] as const
+
+describe("geoidUndulation", () => {
+  it.each(NGA_TEST_POINTS)("is within half a meter of the NGA value at %f, %f", (latitude, longitude, undulation) => {
+    expect(Math.abs(geoidUndulation(latitude * DEG, longitude * DEG) - undulation)).toBeLessThan(0.5)
+  })
+
+  it("matches the NGA values at the poles", () => {
+    expect(geoidUndulation(90 * DEG, 0)).toBeCloseTo(13.606, 2)
+    expect(geoidUndulation(-90 * DEG, 0)).toBeCloseTo(-29.534, 2)
+  })
+
+  it("reads negative longitudes as east longitudes", () => {
+    expect(geoidUndulation(38.628155 * DEG, -90.220845 * DEG)).toBeCloseTo(
+      geoidUndulation(38.628155 * DEG, 269.779155 * DEG),
+      9,
+    )
+  })
+})
@@ -0,0 +1,1587 @@
+// EGM96 geoid undulations from the NGA 15-minute WW15MGH grid, subsampled to 1 degree: 181 rows from 90N to 90S,
+// 360 columns from 0E eastward, as big-endian int16 centimetres in base64. Bilinear interpolation on this grid
+// stays within 0.5 m RMS of the full grid, with errors up to about 14 m over ocean trenches and steep relief.
+const EGM96_ROWS = 181
+const EGM96_COLUMNS = 360
+const GRID_SPACING = Math.PI / 180
+const EGM96_GRID = [
+  "BVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVR",
+  "BVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVR",
+  "BVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVR",
+  "BVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVR",
+  "BVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVR",
+  "BVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVR",
+  "BVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVR",
+  "BVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVR",
+  "BVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBVEFUQVRBgkGCQYIBgcGBgYFBgQGAwYCBgEGAAX/Bf0F/AX7BfkF9wX2",
+  "BfQF8wXxBe8F7gXsBeoF6AXmBeQF4gXhBd8F3QXbBdkF1wXVBdMF0QXPBc0FywXJBccFxQXDBcEFvwW9BbsFuQW3BbQFsgWwBa4FrAWpBacFpQWi",
+  "BaAFnQWaBZgFlQWSBY8FjAWJBYYFgwWABX0FeQV2BXMFbwVsBWgFZQVhBV4FWgVXBVMFUAVMBUgFRQVBBT4FOgU3BTMFLwUsBSkFJQUiBR8FGwUZ",
+  "BRYFEwUQBQ4FCwUJBQcFBQUEBQMFAQUBBQAFAAUABQEFAQUCBQMFBQUGBQgFCgUMBQ8FEQUUBRYFGQUcBR4FIQUjBSYFKAUqBSsFLQUuBS8FMAUx",
+  "BTEFMQUxBTAFMAUvBS4FLAUrBSkFJwUmBSQFIgUfBR4FGwUaBRgFFgUUBRIFEQUPBQ4FDQUMBQsFCgUJBQkFCAUIBQcFBwUHBQcFBwUHBQcFBwUH",
+  "BQcFBwUHBQgFCAUIBQgFCQUJBQkFCgUKBQsFCwUMBQ0FDgUPBRAFEQUSBRMFFQUXBRgFGgUcBR4FIQUjBSUFKAUqBS0FMAUzBTYFOQU8BT8FQgVF",
+  "BUkFTAVPBVMFVgVZBV0FYAVkBWcFawVuBXIFdgV5BX0FgQWFBYgFjAWQBZUFmQWdBaEFpQWqBa4FswW3BbwFwQXFBcoFzwXTBdgF3QXhBeYF6gXv",
+  "BfMF9wX8BgAGBAYIBgsGDwYSBhYGGQYcBh4GIQYkBiYGKAYpBisGLAYtBi4GLwYvBjAGMAYvBi8GLgYtBiwGKwYqBigGJgYlBiMGIQYfBh0GGgYY",
+  "BhYGFAYSBhAGDgYMBgoGCQYHBgYGBQYEBgMGAgYBBgEGAAYABgAGAAYBBgEGAgYCBgMGAwYEBgUGBQYGBgcGBwYIBgkGCQYKBgoGCwYLBgsGCwYL",
+  "BgsGCwYLBgsGCgYKBuMG4QbfBt0G3AbaBtkG2AbXBtYG1QbUBtQG0wbRBtAGzwbOBswGygbIBsYGxAbCBr8GvQa6BrgGtQayBq4GqwanBqQGoAab",
+  "BpcGkgaMBocGgQZ6BnQGbQZmBl8GWAZRBkkGQgY7BjQGLQYnBiAGGgYUBg4GCQYDBf4F+QXzBe4F6QXjBd0F2AXSBcsFxQW+BbcFsAWpBaIFmgWT",
+  "BYwFhAV9BXYFbwVoBWIFXAVWBVAFSwVGBUIFPgU6BTcFMwUwBS0FKQUmBSEFHQUXBREFCgUCBPkE7wTkBNcEygS8BK4EnwSRBIMEdQRpBF8EVwRR",
+  "BE4ETgRSBFkEZARyBIQEmQSxBMsE5gUDBSAFPQVZBXIFiQWdBa0FuQXBBcQFwQW6Ba8FnwWLBXQFWgU+BSEFAwTlBMgErASSBHoEZQRSBEMENgQt",
+  "BCYEIgQgBCEEIwQnBCwEMQQ4BD4ERARKBE8EVARYBFsEXgRfBGAEYARfBF4EXQRcBFsEWQRYBFgEWARYBFoEXAReBGIEZgRrBHAEdwR9BIQEiwSS",
+  "BJkEnwSmBKwEsgS3BLwEwATEBMcEygTNBM8E0gTUBNYE2QTcBN8E4wTnBOwE8QT2BP0FAwUKBREFGAUfBSYFLAUyBTgFPQVCBUYFSQVMBU8FUQVT",
+  "BVUFWAVaBV0FYQVmBWwFcgV6BYMFjQWYBaQFsQW+Bc0F2wXqBfkGCAYWBiQGMQY+BkkGVAZeBmcGcAZ3Bn8GhgaNBpQGmwajBqsGswa9BscG0gbd",
+  "BukG9gcDBxAHHAcoBzQHPwdIB1AHVgdaB10HXQdcB1gHUwdMB0MHOQcvByMHFwcLBwAG9QbqBuEG2AbRBswGyAbFBsQGxQbGBskGzQbRBtYG3Abi",
+  "BugG7gb0BvoG/wcEBwgHCwcOBxAHEgcTBxMHEwcSBxEHDwcNBwoHBwcEBwAG/Qb5BvYG8gbvBuwG6QbmB98H4AfhB+IH5AflB+YH5gflB+MH4Qfd",
+  "B9gH0wfOB8gHwge9B7gHtAexB64HrAerB6sHqwerB6sHqwerB6sHqgepB6cHpAehB50HlweQB4gHfwd0B2gHWgdMBzwHLAcbBwsG+wbtBuAG1QbM",
+  "BsUGwQa+BrwGvAa7BrsGuQa2BrEGqQafBpIGgwZxBl4GSQY0Bh8GCgX2BeMF0gXCBbQFqAWeBZQFjAWEBX0FdgVvBWcFYAVYBU8FRgU8BTIFJwUb",
+  "BQ8FAwT2BOgE2wTOBMIEtwStBKUEngSaBJcElgSWBJYElgSVBJIEjQSEBHgEaARVBD8EKAQRA/sD5wPZA9ED0APYA+cEAAQgBEUEbwScBMcE7wUR",
+  "BSwFPAVCBTwFKwUPBOoEvgSNBFkEJQPzA8YDnwN+A2YDVgNNA0wDUANZA2YDdQOEA5QDowOwA7wDxQPNA9MD2APbA98D4gPmA+oD7gPzA/gD/gQE",
+  "BAoEDwQUBBgEGwQdBB8EIAQgBCAEIAQhBCIEIwQlBCgEKwQvBDQEOAQ9BEMESARNBFMEWAReBGQEawRyBHoEgwSNBJgEowSuBLoExgTRBNwE5gTv",
+  "BPcE/gUFBQoFEAUWBR0FJAUsBTYFQQVOBVsFagV6BYoFmQWoBbYFwwXOBdcF3gXjBeYF5wXnBeYF5QXjBeEF4AXgBeAF4QXkBecF6gXvBfMF+AX9",
+  "BgIGCAYNBhIGGAYeBiUGLAY0Bj0GSAZSBl4GagZ2BoIGjgabBqYGsga+BsoG1wblBvQHBAcXBysHQQdYB3AHiQeiB7kHzwfjB/MH/wgICAwIDQgK",
+  "CAMH+wfxB+YH3AfSB8kHwwe+B7wHuwe8B78HwgfHB8sHzwfTB9YH2AfZB9kH2AfWB9QH0gfQB84HzQfMB80HzgfQB9MH1wfbB+AH5QfpB+0H8Afy",
+  "B/MH8wfyB/AH7gfrB+gH5QfiB+AH3wffCNoI3AjcCNkI1QjPCMoIxQjDCMMIxwjMCNMI2wjjCOkI7gjwCO8I6wjmCN4I1QjLCMEItgiqCJ4IkQiE",
+  "CHUIZghWCEYINggmCBgICwf/B/QH6QffB9QHyAe8B64HngeNB3sHaAdVB0IHMAcfBw8HAQb0BugG3gbWBs0Gxga/BrcGsAaoBqAGlgaLBn8GcAZh",
+  "BlAGPgYrBhkGBwX3BegF2wXQBcYFvQWzBaoFnwWTBYcFeQVrBV0FUAVFBTsFMwUrBSUFHgUWBQ0FAQTyBOEEzQS3BKEEigR1BGAETgQ/BDMEKQQj",
+  "BB8EHQQcBBwEGwQYBBMECQP7A+gD0QO2A5sDgQNrA1sDVQNZA2oDhQOqA9UEAwQvBFUEcAR9BHsEagRKBB4D6wO0A38DTgMlAwYC8ALjAt4C3QLf",
+  "AuAC4ALeAtgC0QLKAsUCwgLEAssC1wLpAv0DFAMrA0ADUgNhA2wDdAN4A3sDfgOBA4UDjAOUA54DqgO2A8IDzQPXA94D5APoA+kD6QPoA+UD4gPe",
+  "A9sD2APVA9MD0gPTA9YD2gPhA+oD9QQDBBMEJQQ5BE0EYQR2BIkEnAStBL0EzATaBOcE8wUABQwFGQUlBTIFPgVJBVMFWwViBWcFbAVvBXIFdQV5",
+  "BX4FhAWLBZMFnAWmBa8FtwW/BcYFzAXRBdYF2wXhBecF7gX2Bf8GCAYSBhwGJgYvBjgGPwZGBksGTwZSBlUGWAZaBl0GYgZoBnAGegaGBpUGpQa3",
+  "BskG3AbtBv4HDgcdBy0HPQdQB2YHgQehB8YH8AgcCEoIdQidCLwI0wjfCN8I0wi+CKEIgAheCD0IIAgKB/sH9AfzB/kIAwgQCB4ILAg5CEQITghW",
+  "CF4IZAhrCHAIdgh6CH8IggiGCIkIjAiQCJYInAilCK8IuQjECM4I1wjcCN8I3wjbCNUIzQjFCL4IuQi2CLcIugjACMcIzgjVCcwJ0gnTCdEJywnD",
+  "CbsJtAmvCawJrAmtCa4JrgmsCacJnwmVCYoJfwl1CWwJZglhCV0JVwlOCUEJLgkVCPcI1QiyCJAIcAhTCDoIJQgTCAEH8AfeB8oHtQefB4kHdAdf",
+  "B0sHOAclBxIG/gbpBtMGvQanBpEGfAZmBlAGOgYkBg4F+AXkBdEFwAWyBaYFmwWRBYcFewVuBWAFUgVEBTcFLgUoBSQFIQUeBRkFEQUEBPME4ATM",
+  "BLoErQSlBKIEpgStBLUEvAS/BL4EtwSrBJsEiQR4BGkEXARSBEsERQQ+BDUEKQQZBAQD6wPQA7UDnAOHA3gDbwNrA2sDbQNtA2gDXQNKAzADEgL0",
+  "AtkCxwLDAswC5QMJAzYDZAONA6wDuwO5A6YDhgNcAzADBQLhAsUCswKqAqUCogKeApYCigJ5AmYCVAJEAjsCOQI/Ak0CYAJ2Ao4CowK1AsICywLR",
+  "AtYC2gLgAugC8wMBAxADIAMwAz8DTANXA2EDawN0A34DiAOTA54DqAOxA7kDvgPCA8UDxgPIA8oDzQPRA9YD3APhA+UD6APpA+gD5gPjA+ED4QPk",
+  "A+sD9gQFBBYEKQQ8BE0EWwRlBGwEbwRyBHMEdQR4BH0EhQSOBJkEpQSyBMAEzwTeBO8E/wUPBR8FLQU6BUQFTAVUBVsFYgVrBXYFggWQBaAFsAW/",
+  "Bc8F3gXsBfsGCQYYBiUGMgY9BkYGTQZSBlYGWgZgBmcGcQZ/Bo8Goga3Bs0G4wb4Bw4HIwc5B1AHZweAB5kHswfMB+MH+AgLCB0ILQg8CEwIXAhs",
+  "CHoIhwiOCJAIiwh/CG0IWAhCCC4IIAgXCBYIHAgnCDYIRwhaCG8IhQidCLgI1Qj0CRQJMwlOCWQJdQmBCYoJkgmaCaYJtwnMCeUJ/woYCi4KPQpF",
+  "CkUKPQovChsKBQntCdUJvwmtCZ4JlAmQCZAJlQmeCaoJtgnCCrYKsgqmCpMKegpgCkkKNQooCh8KGAoSCgoJ/wnyCeMJ0wnECbYJqQmcCY4Jfwlv",
+  "CV4JTAk5CScJFAj/COoI0wi6CKIIiQhwCFcIPggjCAgH7AfQB7UHmgeAB2YHTAcxBxYG+QbcBr8GowaIBm8GVgY+BiUGDQXzBdkFvwWlBY0FdwVi",
+  "BU4FOwUoBRQE/wTpBNIEuwSlBJAEfQRpBFYEQgQtBBkEBQPzA+QD2APOA8cDwgO/A70DvQO9A78DvwO9A7kDswOrA6QDoAOiA6gDsgO8A8IDwgO6",
+  "A6wDnQOSA48DmAOrA8QD3APqA+cD0AOnA3IDOAMDAtkCvwK1ArYCvALBAsACtAKeAoACYQJHAjgCOQJNAnICpQLdAxIDOwNUA1gDSwMwAxAC8ALX",
+  "AsQCuAKtAqECkAJ4AlsCPAIeAgYB9AHpAeUB5QHnAewB8QH4Af8CCAIQAhgCHwIkAikCLQI0AjwCSAJXAmgCeQKJApcCpAKvArkCwgLKAtIC2QLf",
+  "AuQC6gLxAvsDCAMXAycDNgNBA0gDRwNCAzcDKwMfAxcDEwMUAxoDJAMwAz8DTANYA2ADZQNkA18DVgNLAz8DNgMvAy0DLwM1Az4DSgNWA2MDbwN6",
+  "A4MDiwOSA5kDoQOrA7gDyQPdA/MECQQdBDEEQwRWBGkEfgSWBK4ExgTbBO0E/AUHBRIFHAUpBTgFSQVbBWwFfQWMBZwFqwW7BcwF3QXuBf0GDAYc",
+  "BiwGQAZaBnkGnQbGBvAHGgdBB2IHfgeUB6UHtgfHB9oH8QgKCCUIPghVCGgIeQiJCJwIswjPCO8JEQkyCVAJaQl+CZAJoAmxCcIJ0gngCegJ6gnm",
+  "Cd4J1wnUCdkJ5gn7ChUKMApICloKZgpsCm4KbQpsCmwKbApsCmsKZwpiCloKUgpKCkUKQwpGCk4KWgpqCnoKiQqUCpsKnQqdCpsKmwqeCqQKrAqz",
+  "CyALFAsMCwQK+grtCtoKxAquCpwKkgqPCpMKmgqdCpgKiQpwCk8KKwoHCecJywmyCZsJhAlpCUsJKAkCCNsItQiTCHYIXAhECCkICQfjB7oHkwdv",
+  "B1IHOQcgBwEG2QarBnoGTgYuBh4GGgYcBh8GHQYVBgkF/QXyBeYF1wW+BZoFawU1BQAE0ASpBIwEdARfBEkEMwQcBAQD7QPTA7cDlgNxA0kDIQL9",
+  "AuACygK7ArECqwKnAqQCoQKfAp8CoAKjAqUCpQKiApwClAKNAooCjgKaAqsCvALJAssCwgKxAp8ClAKVAqUCvwLbAu4C8ALgAr8ClQJsAkkCMQIh",
+  "AhgCEgIMAgYCAAH3AesB2wHHAbQBqgG0AdgCFAJiArEC7gMJAv0CywKCAjMB7gHAAaoBqAGxAbsBvwG8AbIBpgGbAZMBjgGJAYQBfQF3AXQBdQF8",
+  "AYYBkAGZAZ0BngGeAZ8BpQGxAcIB1gHpAfgCAgIFAgIB+wHzAeoB5AHhAeMB6AHxAfoCBAIMAhMCGAIdAiECIwIjAiECHgIaAhgCGgIfAigCMwI7",
+  "AkECQgJAAjsCNgIyAi4CKAIgAhMCBAH2AeoB5AHmAe4B+wIKAhgCIwIqAi8CNQI+AksCWwJuAoACkAKcAqMCpwKrArECuQLFAtMC5QL4AwwDIgM3",
+  "A0oDWwNpA3UDhAOYA7QD2gQFBDIEXQSDBKUEyATwBSEFVwWPBcIF6wYKBiEGNwZTBncGoQbKBu0HAwcOBxIHFgchBzgHVwd7B50HtgfGB8wHzQfM",
+  "B80H0AfUB9gH2gfbB9wH3wflB/EH/wgPCCAIMAhCCFcIcwiWCMAI7wkfCU4JfAmqCdoKDgpHCoMKvwr4CykLUQtxC4sLnwuwC7wLwgu+C7ALlwt2",
+  "C1ELLwsTCwEK+Qr2CvMK7QrgCs0KuQqpCqQKrgrHCuoLEgs2C1ALXQtdC1ILQQsvDBoMLQwnDBcMCwwNDB4MNwxNDFgMVAxDDCYMAAvPC5ELSwsD",
+  "CsAKjAppClIKPgoiCfcJvAl3CTQI/AjTCLkIpgiSCHgIVQgsCAQH4gfKB8AHwgfPB+IH9Qf8B/AHzAeUB1IHFAboBtMGzwbRBs0GvAaiBoUGbQZZ",
+  "BkAGGQXbBYcFKATPBIgEWwREBDoENQQuBCQEFAQBA+cDxgOgA3kDWANCAzgDNAMwAyYDEwL9AusC5gLxAwQDFgMWAvwCxQJ7Ai8B8QHPAcgB0wHi",
+  "AeUB1gG2AZABcAFgAWIBcgGGAZcBnwGgAZ8BoQGnAa0BrwGoAZcBgQFtAV8BWAFVAU4BQwE0AScBIQEkASsBLwEuASgBJwE1AVoBkgHQAf8CEQH+",
+  "Ac4BkgFcATkBLQEvATMBLwEeAQYA7ADbANUA2gDmAPYBBgEUASEBLQE4AUEBRgFJAUgBSAFJAU4BWAFlAXQBggGMAZQBmQGdAaMBqgGxAbUBtQGv",
+  "AaMBlgGLAYQBgAF/AX4BegF0AW4BagFpAW4BdgGAAYcBiQGGAYEBegF1AXIBbgFoAVwBTAE4ASQBFAEJAQMA/wD+AP4BAQEHAREBHAEmAS0BMwE5",
+  "AUIBTQFbAWgBcQF1AXUBdAF1AXkBgAGHAYsBiQGCAXoBdgF7AYkBoAG6AdMB6QH+AhMCLwJTAoICvAL/A0gDkQPTBAgELARBBE8EYAR8BKME0QT8",
+  "BR0FNgVOBXIFqAXxBkIGjQbIBvQHGwdMB44H3QgoCFoIZAhHCBIH2AetB5cHjAd9B1sHIAbVBokGTQYrBicGOwZeBokGtAbdBwMHJgdHB2gHjQe9",
+  "B/0IUAi5CTQJuQo+CrwLKQuCC8gL/QwkDEIMWQxpDHAMbwxkDE8MMgwNC+ELrAtvCywK5gqlCnQKXgprCpsK6AtGC6YL+gw4DFwMYwxODCAL4Aua",
+  "C18LPwtEC20LrAvsDKIMygzIDKcMgAxmDF8MZAxoDGMMVAxDDDYMLgwqDCIMEwv7C9wLtguMC14LMwsPCvMK3QrHCqcKeAo9Cf4JxAmUCWwJRQkY",
+  "COIIowhiCCAH4geqB3oHUwc4ByQHEAb2Bs8GoAZuBj8GGAX3BdgFuAWWBXgFXgVHBSsFBATLBIYEPAP4A78DkANmAzoDEALrAtICxgLCAr8CtgKn",
+  "ApYChQJxAlYCMAIBAdIBrQGXAYwBiAGEAYUBkwGwAdkCAgIdAiMCGwIOAgYCBAH+AekBvQF7AS4A4QCfAG4ATwA/ADsAQQBQAGQAfACSAKAAoACW",
+  "AIkAhgCUALAAzwDiAOAAyQCoAIYAawBYAEkAPwA+AEsAawCaANEBBQErAT4BPQEpAQoA5wDLALsAuAC9AMMAwwC9ALQArgCuALAArgClAJcAiQCD",
+  "AIkAmQCsAL8AzgDcAOkA9gEAAQYBCgERAR8BNQFQAWoBgAGPAZYBlwGTAYoBfAFpAVUBQwE4ATIBMQEwAS0BJgEdARUBCwD+AOsA0wC8AK0ApwCq",
+  "AK0AqACaAIUAcQBlAGIAZQBoAGgAZABeAFgAVABSAFQAWwBmAHMAfgCEAIQAfwB3AGsAXABKADcAJwAfAB4AIQAlACYAKQAxAEAAVQBuAIkApgDL",
+  "APoBMwFvAasB4AIOAjQCUAJfAl4CUQJBAjoCQwJfAokCvwL8A0EDjAPWBBUEPwRRBFMEWARzBLAFDQV+BesGQQZxBnwGbgZdBl8GgwbHBxsHYweC",
+  "B2UHCgaABeAFRgTLBIAEbQSPBN4FTAXNBlQG1wdQB7sIFghkCKcI5AkhCWAJpAnsCjcKhArSCyYLgAviDEgMqw0DDUUNbg1/DX0NdA1uDXQNhg2e",
+  "Da0Npg1/DT0M7QyjDG4MUAxDDDoMLQwdDBIMEwwdDCgMLwwzDD4MXQyPDMYM5QzWDJkMRQwBC+4MEwxbDT4NWw13DZENqw3BDc8N1Q3WDdUN1A3P",
+  "Db0Nlw1dDRAMugxiDBML0gukC4ILYAsyCvQKqQpbChMJ1gmkCXsJVQktCP0IxQiGCEMH/ge4B28HJQbiBqwGhgZmBkIGEwXbBaIFbwVABQ4E1gSf",
+  "BHEEVgRHBDkEHAPrA68DcgM+AxAC5AK0An4CRwIQAdsBqgGCAWoBZQFuAXoBewFqAUgBHQDxAMkAowB/AF8ASwBKAFsAdACKAJYAnAClALQAxwDU",
+  "ANoA2wDfAOkA9gD/AP8A9wDnAM4ApwBwADH/+v/T/73/r/+i/5j/mf+o/7z/yv/N/8r/zv/g//oACwAJ//X/2f/A/67/o/+e/6D/qP+0/73/vv+9",
+  "/8f/5gAcAF0AmQDCANYA3QDlAPUBEAEtAUABPgEjAPgAywCoAJEAgABtAFYAPwAwACwALgAyADcARABfAIgArwDEAMEArwCjALIA3gEbAVgBhwGm",
+  "AbkBwQG9AaoBiQFjAT4BIgEQAQkBDAEUARcBCwDrALsAjABpAFcATQBCADEAHwARAAkAA//5/+//6f/t//f//f/4/+f/0f++/7D/ov+P/3j/Zf9b",
+  "/1v/Xv9c/03/Mf8O/u7+2P7T/t3+7/8A/wj/CP8K/xn/Pv94/78ACQBSAJsA6gE+AYsBwQHUAcQBnQFuAT4BEADgALQAlwCYALwA+wFFAYsBywIS",
+  "AnEC8AOCBAoEYQRyBD0D3QN1AyUDAgMXA2UD5gSKBS8FsQX3BfkFxQVuBQAEgQP3A3EDCQLUAtoDFQN0A+cEZQTrBXgGCwahBzYHxQhGCLUJEglm",
+  "CboKEQpmCrEK7QshC1ULlAvcDCkMcAyvDOQNEg07DWMNjg3CDgAOQg56DpkOlg5zDjkN9A2pDVoNCwzEDI8MdQxxDHcMdwxrDFYMRAw8DD8MRwxO",
+  "DFkMcQyhDOcNMg1qDX0NbQ1IDScNGg0lDiYOWA5wDnwOlA7ADvEPEg8YDwEO0w6RDkMN+g3JDbINmw1gDPEMYQvXC2oLFQrDCmkKDwnCCYIJRAj+",
+  "CLQIcgg6CAEHuwdrByEG6Qa8BooGSAYABcQFngWIBW4FQQUCBLkEcgQvA/EDtgODA10DQwMtAw0C4QKvAoQCYwJAAg0BxwF/AUgBKQEVAPoA0wCr",
+  "AI4AfwB2AGsAXgBSAEcAOAAiAAwAAAADAAkAAf/l/7z/l/+C/33/fv9+/3r/dv9z/23/Zf9f/2f/hP+y/+UAEAAwAEcAWQBiAFoANf/w/5P/M/7p",
+  "/sv+1/75/xP/G/8W/xX/Hf8j/xr/Bf73/v//HP87/0r/S/9P/2T/hP+X/4//fP+D/8UAPAC+ARkBNwEuASABJQEzATYBJAEIAPUA9AEBARIBJgE9",
+  "AVcBawFrAU4BGQDfALQAoACXAIYAXwAsAAcABQAhAEYAXwBrAHsAoADUAQMBHgEpATYBTgFnAW8BXwFCASoBHAERAQIA8QDrAPkBEQEjASEBEAD9",
+  "AOsAzwCZAEf/7/+q/4L/bP9Y/z//Lv8x/0L/Tf9A/xz+9v7c/s/+xf6z/p7+jf6D/n3+dv5u/mn+af5o/mT+Yf5m/nT+gf6B/nX+bf59/q3+8P80",
+  "/3H/qP/gABMAMgAyABP/5P+2/5X/gv95/3j/hf+q/+cAKwBaAGEASgAxADcAXwCRALgA2AEQAXcB/AJoAokCWwIKAdIB1AIRAnYC9QN+A/0ETwRZ",
+  "BB4DuQNQAvsCwgKrAsADDgORBDYE3QV3BgUGkgchB6oIIQiGCOQJRgmqCgQKTAqCCq0K1gr/CykLWAuRC9MMFQxSDIcMvAz0DS4NXw2EDZ8Nug3b",
+  "DgAOIw4/DlEOVA5DDhYNyQ1iDO8MfgwXC70LbgswCwwLEQs7C3kLsAvPC9wL6gwJDDwMfgzTDUINxg5BDoYOfg45De0Nzw3rDwkPFw80D2gPng+0",
+  "D5YPXA8xDywPMg8JDosNzg0aDKkMeAxUDBQLvwt/C2ILSQsHCpEKBwmPCTAI2Ah2CBQHwQeCB0oHDwbRBpcGYgYmBd4FjwVIBRME6AS4BH8EQAQF",
+  "A9ADmgNfAyIC7QLAApgCcwJMAiAB7QG0AX8BWAE/AScBAADKAI8AWgAr//3/z/+n/4j/cP9e/1T/Uv9R/0L/IP72/tX+wf6u/pL+cv5e/lv+Yf5k",
+  "/mD+Xv5f/l3+UP44/h7+Bv3z/e/+C/5M/qX+9P8o/0X/Xf91/4T/fv9o/1L/Sv9T/2P/af9W/yf+8f7Q/tj+/f8k/zr/RP9H/0X/Pf9F/3j/3QBQ",
+  "AKEAwQDKAOABBwElASIA/QDPAKwAoQCvAMcA1QDPAMIAzAD5AS4BQwEnAPsA6gEEATABTQFSAU8BUQFUAVABQgE8AUkBZQF4AXABUgEzASIBGAEA",
+  "ANYAtwDCAPoBOgFZAUcBGQDyAOMA6ADuAOkA3ADVAOYBEAFGAXEBhQGBAWsBRQEVAOAAqABsADAAA//x//D/3/+i/0P+8v7V/uX++v7w/sX+j/5i",
+  "/j/+If4H/fb96/3h/dH9vP2q/aX9rP27/c394v4B/i3+ZP6a/sX+5f75/vv+5/7E/qr+rv7O/vH+/f7z/uH+1v7H/qb+dP5J/jv+Tf5q/n3+g/6D",
+  "/oH+e/58/pj+4/9O/6r/zv+5/5L/fv+F/6H/1QA0AMUBbgIKAoUC7wNaA8AEBAQMA98DnQNrA2YDngQUBLoFcwYgBrMHKweXCAEIbgjdCUoJrAoA",
+  "CkkKjwrUCxQLSgt2C5oLugvUC+cL+AwPDDEMWwyHDLQM4A0KDS8NTw1yDZ8N1g4SDksOgw7ADwEPNA9CDyEO3A6FDiQNsA0jDIYL9wuVC3cLmAvW",
+  "DAQMBgvtC/EMRAzfDYEN6g4WDjsOjg8FD2YPfw9YDyEPAg8AEDwQLhAnEDMQQRA4EBYP8A/RD60Pdw84Dv0Ouw5SDbMM+gxXC+QLmwtnCzoLDArU",
+  "Co8KPQngCXoJDAidCDUH1Ad1BxwGzQaLBkoGAgW4BXQFNATtBJ8EVwQdA+gDqQNiAx8C6QK6AocCTwIdAfMBzgGjAW8BOQEHANwAtACRAHwAegCE",
+  "AIEAWwAN/6j/S/8L/u3+5P7d/s7+uP6l/p3+mv6P/nL+Rf4V/fH93v3X/df91/3S/cj9u/2r/Zn9hf1z/Wb9Wv1I/TX9Of1k/a799P4f/jr+Wv58",
+  "/o7+j/6f/tf/H/9F/zX/GP8i/1//qv/f//sACgAL//X/1v/M/+UADgAqADoAVwCGAK8AswCMAFIAIQAPACAATAB6AI4AgwBxAHcAmwDDANIAyQC7",
+  "ALkAxQDZAO0A9gDyAO0A+QEdAT8BSAE/AUEBVwFlAVkBRgFSAXoBkwGAAVMBMgEkARIA8wDaANgA4wDlAN0A1QDOALsAlwBsAEkANwA+AGMAnADP",
+  "AOgA7wD4APwA5gCuAG4APQAW/+v/v/+m/5z/g/9K/wv+8/8F/xT++P69/on+a/5P/iD96/3K/bz9qf1//U/9M/00/UX9XP16/Zz9wv32/kX+p/7w",
+  "/vP+tP5f/iD9//3u/eT93/3X/br9h/1P/SP9CPz2/Oj84Pzm/QD9L/1g/Xr9b/1W/U39Yv2F/a396/5N/rz/BP8N/vj+/P8u/4P/7wB9ATIB5QJa",
+  "AoQCkgLEAyEDfAOoA6gDogOwA84D8AQeBG4E6gWCBiIGvQdSB9sIUgivCPQJIwlCCVsJfgm3CgUKWwqwCwILUwucC9IL8Av8DAUMIwxiDLgNDA1N",
+  "DYQNwA4IDlcOqQ8BD14PtxADEEYQgxCxEMQQvhCuEIoQIA8/DgAM1Aw1DEgMuw0TDQ4M0gzEDScN7w7KD2cPsQ/PD/gQPRB7EIUQVxAZD/8QExAz",
+  "EPEQ8hDEEKEQqBC6EKgQdxBNECUP3A95D0cPcA+mD2QOig15DKoMMwvgC4cLLQrcCosKLwnMCWwJDQigCCsHwAdtByoG5gaZBkUF7QWQBSwExgRn",
+  "BBwD5gO2A30DOwL9AskCkAJLAggB3gHIAawBeQE4APwA0AC8AMAAywC8AIUAPP/3/7f/cP8h/t3+rP6I/mX+PP4N/dz9rf2C/WL9Wv1u/Yv9k/15",
+  "/U39Jv0R/Q/9Gv0p/S79LP00/Un9UP00/QL84Pze/Oj87Pzy/Q39Ov1o/Y79t/3v/jD+af6L/p3+s/7T/uv+5v7N/sb+4/8R/y7/N/9I/3D/m/+u",
+  "/63/sv/L/+f/8f/s/+f/4//V/8b/0QAHAEUAXABHADIAOwBVAGIAZgB2AJYAtwDNAOAA8gD1AOQA0gDQANUA1QDbAPgBIQE0ASUBCwEAAQUBCQEI",
+  "AQcBCgERAR8BLgEvARMA5gC8AJ0AhgCCAJsAtQCfAEj/6P/D/+EADgAiAC0ASQBwAIkAkgCRAHYALP/I/4T/gP+h/7b/qP96/zX+8P7K/sz+2/7W",
+  "/r3+pv6Y/oP+Xv4v/f39zP2e/Xb9UP0p/QP85PzU/N39DP1c/bH97v4O/hn+D/3f/Yb9LPz+/QL9Dvz+/Nb8uPy0/ML81fzl/OH8tPxo/Cb8FPwm",
+  "/DP8Kvwh/DL8XvyT/Mb8+/00/Wn9k/2w/cz99v43/o7+6/82/17/aP9t/4X/tv//AFkAuAERAWgB1QJtAyID0ARfBNgFPgWFBacFwQXxBjQGawaM",
+  "BqkG1AcNB0oHiwfNCA4IWgjDCU4J6Ap5CvMLVgunC+0MLQxjDIQMlwy3DPUNRw2aDe4OSw6qDv4PQg+HD9UQJRBuELgRFRGGEfUSQhJKEfARORBX",
+  "D5YPJA77Du4O1w64DrIO6Q9dD+MQRRB4EKQQ6hE+EW0RXxEsEPoQ0BCiEH0QhBC7ERQRIxE4ESYRBhEKERsQ9xCaEEUQFQ/iD58PhA+tD8kPbw6X",
+  "DZgMwgwkC6kLQAriCn4KBQl+CQIIoQhUCA0HxQd6BysG1gZ8BhoFsAVIBOoEjwQvA9YDkQNbAyEC3gKYAlICCAG+AX8BSAEJAMEAmQC2AP0BGQDQ",
+  "AEX/wP9l/yT+7P65/or+Zv5V/k/+PP4V/e791v2//aP9jf2D/XT9WP1A/TX9Lf0j/SP9Mf0+/UH9Pf01/SX9Ef0A/O78zvym/IX8c/xm/Fv8X/x5",
+  "/JD8hfxp/G78qfz1/S/9Xv2R/bj9xP3J/d/9+/4J/hH+MP5q/qH+vf7D/s3+6v8P/yf/LP8s/zj/Uf9n/27/av9r/37/of/F/+L/9wALABwAJwAu",
+  "ADcASQBlAH0AfwBrAFYAWwB5AJEAjgB6AG0AdACGAJUAmwCUAI0AmgC4AMsAxgDFAOABAQEBAOQAygDFAMQAuwCuAKcAqwCzALkAuAC3AL0AzQDj",
+  "APkBDgEbARsBCwDmAK4AcgA9AAv/0P+V/3T/Zv9K/xD+x/6A/kT+Kf5D/nj+kP58/mb+af53/n7+gP5y/jj91/1//Un9IPzt/Lf8jfxy/G/8i/zI",
+  "/S39xP5l/q7+W/2X/ND8Q/vm+6r7jvuC+2/7WPta+3X7ivuJ+3r7ZPtF+xj64vqw+o76g/qJ+pn6uPrm+yD7avvL/DD8ePyn/Nv9GP1D/WD9mf3/",
+  "/nH+0v82/7cASwDcAXgCKwK6AssCZQIhApIDoQS0BWsF6AZaBrQG6QcZB1gHhAd8B1MHIQbgBp0GjwbeB2YH5QhECKAJGQmzCmELDgukDBIMXQyV",
+  "DMwNDg1cDakN4Q4HDi8OaA6kDs8O9Q85D6EQDBBWEIYQwBEWEXsRxxHXEbQRpBHnElkSiRI6EasRRhEwEUoRdRG0EgUSShJiEkYSFRHtEdwR2hHZ",
+  "Ec4RvhGxEZ8RdBE3EkAR/hG8EYgRahF3EaMRqBFhEPYQoxBkEBgPvg9mDxEOsg46DZ4M5wwsC34K2Ao9CbYJRwjwCKgIVQfqB4gHSwcXBsIGWwYG",
+  "Bb8FbQUVBMIEaAQBA6ADUgMJAsICjwJlAh4BuwFtAT4BBwDCAJ0AqQCtAHUADP+d/0H+/f7S/rL+l/6E/nj+Y/5F/ib+Ef39/d/9tf2C/VP9L/0P",
+  "/O/81PzF/LX8mvx8/Gb8VPw8/Cf8HfwV/Af7/vwD/BL8Kfw//Dn8DfvT+6r7lfuU+7P74/v0+9z7yvvg/A38N/xZ/Hr8n/zK/Pn9IP0+/Vr9dP2M",
+  "/av90f3y/gr+Jf5B/k7+Vv5x/pr+tf7B/tf++/8d/zv/VP9g/2j/gf+i/63/sP/UABMAMwAiABAAJABJAFoAYQCCAMQBAwEgARsA8gCqAGQASgBV",
+  "AF4AXABiAHcAjACYAJgAjwCIAIsAiQB6AHEAfACKAIcAeQB1AH0AiwCXAJoAkwCNAJAAkwCaALoA7wEOAPEApgBfADkAKQAP/9T/df74/nb+FP3q",
+  "/d79w/2b/Yn9lf2e/Zf9nf3N/hr+Uf5F/fn9oP1e/SX84/yo/IH8XPww/Br8K/xQ/JP9Hv3Q/iz94P02/Kv8bvxg/Fn8Ofvx+5z7aPtJ+wH6ivor",
+  "+gn59PnG+Zj5gflw+Vr5UflY+WL5e/mu+ev6MfqS+vf7Kfs7+277w/v9/BL8Jfwz/C38Ovx2/L78+P1G/bP+D/5U/sP/eQBOASsCKwNHBD8E5wVT",
+  "BasF9wYmBjoGVQaeBx8HsAgJB+8HcwcFBxUHoAhECMIJOgnVCogLMgvKDFYMzA0cDVQNjw3TDhUOTQ6CDq0Oxg7hDxwPgxAIEJEQ/BFCEYoR7xJN",
+  "EnISZRJTElASYxKREsQS1RLMEtMS9hMoE2sTtBPQE5sTQBL/EukS5RLbEsUSqhKfEqYSpRKNEnUScRJqExwTFBL1EskSkhJJEgIRxxGHETkQ7hCp",
+  "EG8QRxAKD3gOoA3BDPUMRwvQC2wK0woPCWcI8QiTCDoH1wdlBwAGuwaGBlUGJQXnBZgFSQT1BIkEFgO8A3MDJALTAo8CVAITAbsBVAEAANUAxAC8",
+  "AL4ArgBe/9X/Wv8S/uL+t/6b/of+Yf4y/hX9/f3Q/Zr9ef1n/Un9Jf0W/RX8/vzP/KT8hfxo/Fz8XPw++/z7xPuj+4H7bfuA+537o/us+7z7pftf",
+  "+xz7A/sU+0H7aPtf+yr68vrd+v/7T/uh+9D74/vx+//8Fvw//Gn8fvyB/Ir8qvzV/Pv9IP1F/V39YP1m/X79mf2q/cH97P4u/nj+sf7H/tH+6f8G",
+  "/x3/Rf9+/6P/sP/H/+T/5f/b/+wAEgAuAEEAXQB5AIUAlAC7AOYA2wCcAHUAiwCmAJgAewBuAG0AegCZAKsAmQCHAI0AkgCHAIEAhwCHAIQAigCU",
+  "AJgAnQCcAHwAOwAF//j/9v/n/9v/5P/s/+f/5f/r//D/7v/e/8D/sf+7/6L/OP6u/kz9/v2b/T79B/zk/MP8tfzL/PT9F/0o/SD9Bvzr/Nn8zfzD",
+  "/LX8mfx2/Gf8e/yi/Nj9IP1T/TD8uvxB/AL8Bfw2/HX8l/x9/Cv7tvtB+uT6kPop+bP5PfjR+Hv4RPgn+Cf4O/gz+AH38Pg8+LD5FPl/+e76Kfo/",
+  "+of7Bfte+237XftR+1/7lPvG+7v7n/vv/ML9k/3x/iD+tf+7AKUBHQGGAmcDnASNBP0FKgVHBVYFfgXZBj8GsQeOCLcJQgi4B+YHwQg0CKsJAwl/",
+  "CkILJwv3DKcNUA3xDlQOZQ5iDosO4A9GD6wQARBEEJAQ/RGFEhIShxLIEuETBBMrExESzBLbE1IToRN7E0gTchPNE/4UCRQyFIQUsBR2FAcTwRO2",
+  "E70TwBPCE8cTzBPHE7ATjhNyE1oTOxMiE78ThRM/EvgSqhJAEc8RcxEWELwQiRBfEBwQABAED6YO0g4FDWgMwQwOC1wKngn2CYcJIgirCD4H4AeC",
+  "BzgG+QahBkYGCgXRBYAFIwS4BD0D0gOKA00DFALhArACgwJKAecBcgElAQIA6gDcALsATv+r/zL/B/70/sD+cP4m/fP90v24/Zj9a/1I/T/9Lv0A",
+  "/Nb8z/za/OP83vyv/Fr8D/vk+8/7wPuj+2z7PPsn+xj7BfsD+wP67frM+qX6e/p7+rz6+fsI+xv7Jvre+nX6bfrH+yr7ffvM/Ab8FvwG+/n8D/wy",
+  "/Dz8Qfxi/IX8hPx4/In8vf0H/VH9dP1j/UH9OP1M/XD9mP3D/fT+LP5i/o/+tP7S/ub+/v8k/0P/Vf90/6b/zv/mAAUAJwAyACUAJQBKAHkAiAB9",
+  "AH4AkQCqAMkA1wDCAL0A8AEbAQkA6wDuAPgA+gD1ANkAtAC2ANUA5QD3ARUBFwD0ANcAwQCUAF4AMwATAAcAEwAaABYAIAAqABn////5//wACAAl",
+  "ADoALAAQ//X/xf96/zL/B/7w/sH+R/2W/Q/83/zY/M38w/y8/Lr8y/zl/O/88fz+/RL9H/0m/S/9RP1+/ej+Rv4Q/R38Fvu5++n8Hvw4/Ez8PPvv",
+  "+4f7JvrS+oD6Gvmo+Ub46fh4+BT33vev93r3cPd/91H2/fby90H3q/gi+Jv43fjs+Rr5bvmU+XP5R/lR+aj6Mfqn+t369fsv+6L8I/x5/LD9Dv27",
+  "/qH/jwA+AIcAzAGLAp8DgwQMBGIEpQT5BX8GGAaiB0EIEwjsCZcJ+AoECe4KDQp2CwQLsQx8DS4NpQ3/DlMOkg7FDxAPZg+nD+oQVxDVEUsR1BJm",
+  "EsIS+hM+E3YToRPiE/gTwxPoFKUVHhTiFJ0UshTgFSMVgxWbFUYU9hUBFTEVNRUIFOIU3RTdFMoUrhSZFIsUehRjFEoUKBP2E40TRxLpEnISGBHN",
+  "EXYRNBEHEMsQihBND/4PsA93DyEOiA3HDPUMIwt8CxwK1QpyCfEJcgkECKgIVQfnB04GxgZ8BlYGKwX1BasFQQS7BDIDzAORA2cDQwMhAu8CpgJH",
+  "AcwBXAEXANoAlgBvAFAAEP/M/5H/O/7S/n3+KP26/Wb9TP1D/Sr9B/zh/Lv8lvxl/DP8I/wu/D/8VPxT/Bv7z/uX+2T7KPr4+tX6q/qF+nT6c/p9",
+  "+o/6jPpi+j76PvpP+mz6nPrB+un7MPtX+y37AfsY+2D7vfwd/GT8hvx5/ED8B/vz/AH8G/wu/D38Yfyb/Nj9Ef0//Vj9XP1H/Rz8+Pzw/Qb9Of19",
+  "/cD+AP46/mj+j/62/t7/Df8+/2H/dP+B/5L/t//5ADQAVgB4AJYAjQBwAHIAigCYAKUAtgC9AMYA4AECATEBYQFjATgBJgE9AUsBSwFUAU0BIgD6",
+  "APMA/gEJAQMA7wDrAPwA9wDIAI4AZgBVAFUAYABzAI4AmQCDAFsANQAR//b/8//4/+H/q/+D/4j/nv+W/3X/U/8v/wr+7v7N/pr+bP5a/nz+1/8h",
+  "/v/+e/33/aj9gv14/Zr95P4z/nX+sP7G/oT95/0p/Ij8D/uo+1T7Mfsc+tz6hvpS+jD5+vm/+ZX5bvlL+Tz5HPig98n2+PaG9mb2YPZY9kH2EPXk",
+  "9fT2OvaP9uH3HfdR98D4Ufh3+Bb3uPez9+D4F/ha+KT46fkp+XX52/pO+sH7RPvo/LL9k/5o/yn/6ACNAOYBAgFHAf4C9APKBIcFWAYeBssHnAib",
+  "CXcKAApUCqkLDAtECxIKvwrlC6MMiw1HDd8OZg7WDzAPhg/nEFoQ6BGFEhMSjhL/E2gT4xRhFJQUqxUXFWEVEBTqFUAVHBSSFMcVeRXSFhEWSRYV",
+  "Fd8WIhZnFmQWaRZ+FmIWHBXoFdQVpBVGFP8U4xS7FH4UPBPlExQSyxKLElASDRHDEYERPxDyEKQQUA/0D6EPZg8yDuIOXg27DQcMQguJCx4K6Ap3",
+  "CdIJkAmrCXQI2ghKB8kHRgbcBnwGIAXbBZkFTwUKBKcEKwPhA70DeQMgAtUChwIvAdoBggEuAPEAvQBr//j/kP9X/07/XP88/tf+aP3+/Yr9Rf01",
+  "/Qv8yvyi/IH8Y/xK/Cr8FvwS+/n70fux+4b7S/sQ+tX6o/qH+nn6afpV+lv6jvrA+tH69vsy+zL67Pqc+mT6TvpN+jj6I/on+i36Sfqk+xP7WvuV",
+  "+/X8XPxn/BL7yfuo+4z7iPul+8r7/vxI/JP8tvyh/Hb8U/w0/Cn8Sfyf/Sn9of25/bv+B/5w/sD/Cf9F/27/nf+8/7D/of+u/8n/8gA9AI4AvQDP",
+  "AN8A7gDoANoA3gDpAPIBBgElATsBRQFZAYEBnwGqAaoBkgF7AZUBtgGmAYcBegFwAWkBagFcATkBHwEVAQQA7gDRAJgAVAAwADgAWAByAGkATwBM",
+  "AF4AXQA/AB4ACv/w/8z/tv+4/73/vP+9/8r/3//z//L/z/+d/3f/XP9U/2T/av9V/0f/Sv82/wb+2f6n/mz+V/5m/lD+AP2e/Vb9Kfzl/Iv8TPwV",
+  "+8v7hfs8+u/6v/p7+fP5Z/kT+PL49fj0+Mz4gvgL90X2TPV89Rj1DvUR9PL0x/TG9Pv1MvVA9Tb1OfVV9ZH14vYk9jf2JfYJ9fn1+/YR9lD2yfdN",
+  "9533xvgA+Fv4zPlQ+gD62fvM/PH+Jf8K/7sAgAEdAWUBkAHbAqoEDwVjBloHUghJCPwJhAoSCpQK3griCqwKTwooCqoLqgymDYEOQQ7bD1sPzhBM",
+  "EN4RWxHNEl0S5RNpFCsU5xVOFagWBhY8FlYWORX3FiEWkhaQFjEV+RY0FtgXQxcQFtoXCRc3FywXBxbcFqAWMxXGFZoVPxR/FAYUDRQKE9oTphNj",
+  "EvYSvxJyEjwR+RGZEUYQ/hCkEDIPtA9iD0IPIA7rDooN2g0KDGoMIAwLC80LTgrYCngKEQm4CVIIugg2B+8HmAclBtUGjQYmBb4FYAUUBOcEqQRO",
+  "BBAD1gN5Ay8C/QKmAiwBwQF8ATkA0wBvAC3/5P+H/zr/BP7H/mz+If4N/fX9s/1x/Tv8/vy5/GX8C/vL+6P7gPtl+1j7Q/sj+wT63/q++qL6evpc",
+  "+j76EPoY+ln6Wfn/+bb51vor+kX6Qvpw+mn6Ffn8+d75Z/k5+ZL53/n5+g76J/pO+oP6s/rO+u/7MPtO+y37MPtf+3v7ovvr/BH76PuA+wj6nvpq",
+  "+sP7yf0T/eH96/3O/gr+Uf6C/s//Gf9e/8EACAASABEAHgA5AFsAdQCfAN8BFgFDAWUBZQFMAUUBXAFzAXwBhwGZAbEBwwHbAhMCSQJjAnwChAJu",
+  "AlcCMQIAAesB6AHuAgECDgIVAgoB0wGZAW4BOwEEANAAlwBqAFAARABEAFUAbABpAFcAWwBaAFMAiQDzAVgBmgGjAXwBTAEeAQUBCwEeASYBHwEp",
+  "AU0BfgHcAl8CrwLGAsYCjQIaAaUBKQBi/1n+if4d/dX9u/3V/db9sf1u/RH8yfya/H38oPzQ/K/8U/vk+1n6s/n9+VT41Phq+A330/eL9tz11vTm",
+  "9Fr0IfP488nzsPPB89/z1POn85TzofOw877z2/Qg9I708fUZ9Rf1HvUp9SD1X/Yj9sj23fbN9vv3UPei9/z4kPlo+nH7i/yL/YX+ev9D//EAQgBL",
+  "AWoDqQUuBb4GXQcVCBcJUwnsCjMKngpMCVUI5gk3Cg4LMwxBDSwODA7JD2cP5hBhEQgRrhItEsITaxQPFNgVWBVEFY8WcxbsFxkXmhfoF7QXXBcJ",
+  "FuUW9hcMFzIXWBdwF6QXwxegF3UXSRcDFsgWjBYvFbgVHhSAFCMT9RPBE34TORMOEwMS4hLIEpASKhGnESAQhRAID/oQFBARD/YPZw4KDHoLuAve",
+  "DEkMZQv0C2ELEAqXCdYJPQjSCGgIBweqB08HFQcPBx4HDQbbBpYGOQXSBXEE8gRsBC4EIQQDA90DrgNiAvICWwHPAYABLQCtAEP////B/4D/N/8C",
+  "/tX+ev4N/bL9bP12/bv9p/0U/G373fs8+sj6sPqq+pz6jvp8+nr6Yvow+hT5+/nu+e/57vn8+d35hPlE+Rj5A/kv+XX5ofmo+ZH5gPmU+aX5jvl9",
+  "+Zr5vfm3+Y/5hPmX+Yn5j/nY+hD6KPpK+n36y/sn+3f7qvu6+7v7qftZ+rn6Efnv+qH7/P1n/g39+v35/jD+YP6b/tL/DP+iAFMAhQCFAJoAXwAX",
+  "AE0AtQEEAUABcgGtAdEB0wHaAeIB5gH0Af4CCwIiAjgCSgJTAmECjALDAucC/gMdAygC8AKNAkYCNgJZAoUCgQJtAnUCagI2Ae8BpQFnASoA6ACw",
+  "AIIAbABfAEUAOgA8ADoAUgByAIkAxwEhAWgBlwGfAYoBlwH1AocC+AMEAtcC3gM2A5MDtAOjA3gDRAMpAw8C1wKQAjIB0AGBASAAqAAL/1b/Gf84",
+  "/wr+pP47/df9of1o/QL8sPyC/ET76/uV+yL6VfmH+SX4xPfn9tz2K/Wx9Rn0i/Qk89Pzn/Ni8xfy7vK18mHyNPIn8jLyWvJ88p7yz/Mg8630NPRj",
+  "9GD0QPP48+z0efVC9bT1vvWs9b32DfZ+9tf3Rff0+Lr5i/po+2L8nP3q/xwAIgDIAVcCVwOQBKgFpQZ5B3AItgmQCdYJ9QnZCeIKUQqyC1QMcA1f",
+  "DhEO0Q+YEFkQ+BF9EfwSXRK1E0IUCxT1FckWDBXHFc4WPBaRFuAXEBb/FycXWBcgFwQXTResF/oYKxhQGFsYLBf7F8UXbBcwFvQWhRYgFcEVXxUB",
+  "FHAT7xPbE9oTnhNHEx8S7hLSEkkRgRDsEKEQiBCmEJkQEA+LDvUN4gzWDCUL6AwaDCgL8AuVCwoKUwmGCPEIgwf7B4sHLQbjBt0GygaSBpMGwgbn",
+  "BuwGkwYQBdAFhgUFBLsEoQRQA6oDDQLdAu8C0gJNAY8BCQDBAH8AL//V/4T/Nv7o/pX+Bf1r/UX9rP4o/gv9ZPyu+/z7a/r2+nX6J/oX+hH6BPoB",
+  "+f/5yfmc+ZL5dvmA+WT5F/kt+Sb41vin+F34Qfhr+GL4YPhe+D/4WfiI+Hb4N/g0+JX42fjL+L74xvjX+QL5NvlY+ZP5+vpV+pD6svrL+wj7PftJ",
+  "+1f7Ufsg+sr6dvqt+5384f3a/hb+Af4J/hv+WP65/xT/UP9vABAA/QExAP0BKgHLAkQBxQDyAOYBXgHNAhACKwI+AkQCQwJMAloCfgKwAsQCygLn",
+  "AvMC8QMTAy8DRgNjA1kDQAMgAvECxwKUAnYCeQJ+AokCdAItAfMBzQGkAWsBIgDoAMwA0gDuAPQA2QDIAM8A2QDfAPwBNAFoAZ4B2wIHAiQCQgJ9",
+  "AssDDANFA1kDVwN4A5oDmwNvAxgC2QLDArICuwLWAtYCuwJVAccBtQGaALv/8P+W/zX+2P6B/ij93f2D/Q/8fvvs+3768fpB+cr5j/lD+N74lPgx",
+  "94T22/Zc9df1OfR688Pza/M18s/ycvIe8c7xuPGx8Z7xo/Gw8djyQPKl8uLzMfOK87nzvfOQ83nzs/QH9G301fUC9Rv1XPWf9bT2Afa/91r3yviV",
+  "+aD6q/v0/Vj+pgCCAmoC/ALbAzgEXAXsBu0HkwhdCPUJoAojClQK9gu0DEUNDg3+DxYQFxDAEWIR/RJkEpUStRL4E48UkRWJFf8WHBYsFk4WbBaI",
+  "FtAXIhdiF4YXexelGDAYlhi2GNMY6RjtGOAYxhivGIwYNxeSFtoWiBZfFgYVrhU0FJgUUxQqE+MTyBOSE6gTNhKAEfURjREtEPMQwxBjD+cPeA8f",
+  "DoMNnQ0XDOIMnAxJC9wLZwrHCewJHwhsB+8HqQdeByMHFQcMBtsGvgbOBtkG6Qa+BlMF/wXKBbkFhgUKBLMEogSZBBcDEAJpAncCkAI+AacBCgCW",
+  "AGQAMv/H/1D++P6d/hH9mv2l/iL+Rv2K/LD8Mfuy+yv6wfph+ev5hvlW+Un5SvlF+Vv5SPjo+Lf4p/i8+NH4fPgx9/P3ifdk9133PPcl9x/3R/ds",
+  "90r3Ivcz91r3YfdP92n3tPfq+AP4K/h6+Oz5NPlX+ab57PoA+g76APne+fL6KvpE+lP6ZPpg+k36Mfpz+3/80P3R/lX+Tv4t/kz+qf8v/6H/6QA8",
+  "ALoBQgG2AfcB3wHNAiQCuwMyAzICwQIWAbcCGwKVArYC1gLKArYC5gMLAykDaQOlA7gDuAPSA9YDwAPGA7UDdgNGAzYC8wJ4AmECagI0AhQCBwIH",
+  "AfABswGpAZwBegFpAVABWQGEAYMBYQFuAZcBuwHpAf0CDgIuAlECggKeAscC6wLmAv8DLgNYA4cDtwPKA6cDnQO5A7gDmwOCA3oDbANkA2wDVQMM",
+  "Aq4CcgI8Aa4Azv/z/0n+n/4C/ab9X/0Y/K778/tT+tD6HvmP+T749vi1+KX4r/hS97L3MPas9if1i/TP9CbzmvMm8qbyIfHK8Y3xT/EO8NTwsfDG",
+  "8Rfxb/G08cvxzfHx8hfyVfKj8rbyu/Lr8zjzefPM9DH0ZPSn9Pr1QPXY9oj3Lff8+Nr5vfq7+9f82v4Q/8ABVgKEAvkDVQT8BssHnAgNCHgJfwqm",
+  "Cw0LlQxIDKoNPA4nD0cQSxEJEcISdRLLEqISkhLiEv8TMRPtFLcVdxY3FogWqhcIF1wXhBewF+8YUBixGO4ZOBl1GYEZnBm2GZMZfBl9GSkYuxiU",
+  "GCkXYRbUFnsV5RU7FPMUtBRQFC4UBxPLE9gTZxLKEgcRbBEqELYQIQ/nD8gPqw9dDqcN/A1XDI0L9gufCz0KqQnZCNwH8QdTBwQG6gbuBtoGzgcM",
+  "BwUGlAZ6BqcGvAbNBtMGhQXcBUYE5gSyBG4D6QN4AzMC9QLCApMChQJ8AhoBYgC4AET/9v/U/2D+3v80/5X/Rf6D/a389/wr+8D7ivsL+sL6gvoe",
+  "+bb5T/kW+Mz4hfh0+Iv4ofhN9/f4EPgn+Bj32vdo9w727vb49xz3N/bv9mD2L/ZQ9kX2L/Zk9q/2p/ZJ9i32pPcn92T3cveG99j4N/iG+Nz5IflU",
+  "+UT49/ji+P35KPlT+Vv5Xvlc+Vv5UfmZ+rH8F/1T/iT+Yv6T/uf/Vv/eADAAdgDjASwBTQGdAhwCYwJ+At4DcwOTA3UDxwOeAtICrQMCAykDMgNJ",
+  "A3YDjAOhA70DuwPFBBUETARABDoEKQP4A7gDjwNbAuwCxwK1AnwCWwIDAdIB5gHkAdoBuQGwAcwB4AHXAcsBvQGMAZsBuQGvAegCNwJ3Ap8CqQLQ",
+  "AvwDIgNYA3MDXANcA44DuwPbA+YEAgQzBDYERgRtBIgErwS7BKcEfgQ9BC8ETAQsA+ADogNbAwECvwKeAh0BUAC+//f+wv1g/ET73PuS+vr6T/nl",
+  "+av5Dfhu+EP4AfeX90f2yfYu9aj1GvSK88XzA/LG8ozyAvGC8Qzwl/BC8Azv8+/t8AvwTfCa8PjxNPFL8W3xifGZ8bXx/fJ68vvzD/Ly80nzivOy",
+  "9Gr1J/Wu9kr29/fS+Ln5ovq9+9/84f2M/fz/FQBqASACXASdBlgG3gdRCAIIxAoRCuQKnwqrC3kMzg5fD6cQzBHfErMTOBMzEqQRwhFUEfES5BQE",
+  "FUMV3RXiFcAV6hZ5FuQXNhfHGHkY6xkiGXMZrBnJGfsaIxo+GkYaDhnkGbwZIhijGGoX+hdHFoUWKBXTFTYU0BSVFFUUIhQKE3ITABJAEXUQrxCA",
+  "EO8Q3xB0ECMP4Q8yDhsNRAylDCYL0QuUCxgKOwlJCEcHbgb3Bs4G8gcBBuwG7AbuBuMGigZDBkMGIwXwBdcFyAWcBXMFRQT3BKMEUAPhA38DegN7",
+  "AyQCpQI9AdsBbADlAFj//v/L/zv+3P9i/1j+Zv2i/PD8I/uS+137MPre+nv6JfnK+Wb5APiB+Br35Pfg9+f3zPe/95P3TvdU90r26PaH9lL2N/ZH",
+  "9mf2hvZ79hb1lPVC9T/1PPUp9Qj0wvSp9M/1EPVk9an1v/XZ9iX2pPcq95j37vgz+FP4HPgC+ET4mfji+P35Ivlf+aD54foP+m77Hfvg/E/8SPye",
+  "/bD+3//bAIoBDQGKAfICVAJ/Am0CjAMJA2gDZgOuBB4EIQQPBBcD8wO7A8AD6wQgBE4EfQSnBKoExQTEBKEEjwRiBFkESAQYA+MDkgNmAzUDEQLu",
+  "AqkCZgHYAZcBogFwAYIBpAGzAdABzAHeAekBzAHzAiQCEwIQAg0CGAJNAn8CrALpAz8DmwPWA8gDyQP9BBMEPASQBKwEqwT4BU8FmAXtBb4FSwUf",
+  "BP0E8QTTBIUERwQGA8kDggMlAs0CUAH9AeQBowFGAKL/3v7+/cb81vxU+8f7Ffpi+a/5GviS9+X3Vfbg9o72H/V09P70q/Q383fy3fKs8k3xifDO",
+  "8Ejvs+867u3u4u8f70fvhu/c8BDwRvBg8GnwfvCU8MjxDvFe8anx5PI38pTyyPMa85z0A/SG9ST16/b8+ED5r/rP+4/8vv5F/xP/TP9zAFoCogSF",
+  "BU8F1AZfB1MIIAjKCfcK6wsWC3sMtA4pD5cQ5BIYExUTlBOeEsARwBI5E4AUWBTXFPwU5xUbFYoV9xaBFyIXsBgpGLwZMhlSGXoZvhnnGeUaERo7",
+  "GdwZeRlEGQEYrRh7GF4YABdqFtkWYBWqFOYUcRRFFDgUExPJEysSxhJxEisRxBGnEagRZxEHEJMQNQ9+Do4NqAzqDHIL+wskCdsIpwenBycHBAb7",
+  "BxYHJAccBxkHGwblBrIGbgYJBd0FqgVbBXAFaAUFBOUEuQSLBGIEWwQsA5gDgQOpA6IDOAJlAZsA8QCCAHcAS//g/1r/Ff9D/rn9wPzU/Cj73vug",
+  "+3L66fpf+eX5X/jm+Hn4L/fm97H3cPcu9yf2/fbK9rv2ffZu9pP2QPXm9gP1zfWb9az1kfWR9YH1LPTO9J70kvSG9FD0OvR49IX0V/Rs9KH0rfTW",
+  "9SX1p/Yv9oH2wfcJ9073P/cY93L4UPja+Nr5OPny+mv6sfrv+xj7S/uX++X8MPyy/VT9s/4G/mf/DQBpAdACuQM6A1ADYAN1A80ETARFBD8EjgSs",
+  "BKMEqASMBHMEuQT4BQAFJwU5BRkE8QTOBJwEewR/BH8ETAPyA88DzQOxA44DWQMqAusCsgJxAg0CAgHzAbEBxQHLAaEB2AICAf0CHAI6AmACeAKN",
+  "ApoCqgLNAwkDXwO7BBsETwRCBCIESASFBIYEgwTIBVkGNQaCBgoGDAZfBocGsAa7BmEFrAUiBN0EiQQyA8kDTwLkAnUCCQGyAUsA4QC0AHIAI/+m",
+  "/tL98Pzp+9/7KPqv+dX42/hM95r21/Ye9aP1UPTl9KT0SfPl81XyyfJ08dzxLPCi8Anvd+8J7q7ud+5P7kTuSO5U7l7uee6n7sTvAu9L75Tv0vAW",
+  "8F3wvvEe8Wzx6vKC8xfzZ/PR9Ib1LPXa9uX4W/nS+wD7xPyg/cD+lv9rAMoCrgPxBD4EtwV9Bk8HGAfpCJ8JqwsKC7sMoQ5nEBgRXBJuE0kTnxLA",
+  "EfESnRNjE50T3RQgFGgU4hVWFcMWVxcHF6cYKxifGOwZRxmLGZUZcxlZGTgYwBiaGJ4YTxfwF64XyxgOGAwX2BeBF0EW8BZOFa8U7RRhFBkTpxNk",
+  "E5kS/xKrEm0R7xHCEawRzRIHEYoQTA8pDnYNyQ1EDKQLuAppCSYIsAg1B5IHWQdDBycHNQc/BzoHNgcSBuAGwwaTBj0FywVqBXQFWgUnBNEEegSJ",
+  "BFkERgQUA54DdANHAwgClQIoAXMAvQBN/9v/sf94/xz+ov71/s79mfyc/Aj72vuM+uj59Plx+RH4jvgx97f3TvdG9xn2svZP9i32DfWq9XT1UPUz",
+  "9UX1YfVp9Yb1bvVW9S701/Sz9KH0k/SS9Gv0F/PZ89Pz0fPT9Ar0MPRc9Hz0l/Sj9K31HfWg9hv2Y/Z29pH21/d++FX4aveD95j5Hfp2+yL7evvE",
+  "/A78e/0J/Zz+Mv7v/4//9QA7AHcA3gG/AsIDQwOwBCcEgQS8BMkEzATiBOsFDgVNBX4FjgWfBXsFdAW7BagFUgUPBO4E9gUrBREElARMBFAEKgP1",
+  "BAkEQwRfBE8DugMEAmQBhgD5AS8CEgIWAcQByAGtAdgB9gIvAl0CaAJyAoECjQKzAwYDUAOEA8cEDwQ9BG8ElgSkBLkExASiBM8FZgYUBdYEpQO/",
+  "BFUGHwcZByEGiQZ9BzcHHgaPBcsE9ASSBDADsgMnAr0CWgHnAWgA1wCiAFkACf+s/xD+Xf0t+9T65/qJ+if5G/go92v2qfXg9S/0z/R89CLzxPNY",
+  "8unymfIy8abw+/BH78nvbu8t7tPuV+3q7ZPtUe1L7UftPO1f7azuI+567sju/+9N78jwRvC88VbyCfKc8070FPTX9W32GPaH9nf29PfG+IL5lPrq",
+  "/Fv94/+jAOgCXAO3A54D+gTXBb4G1wexCI0JHwneC04MOw0PDpgQOhGaEqITKxI9EkQTahN5E5QT4xQzFJ4VGxWfFikW5ReNGBgYlBkAGVMZbxlo",
+  "GU8ZJhkDGNcYphhqGBoX1RelF30XkRebF4IXZxc0FywWxBZeFesVSBR6E40TQROCE1ESoRJgEfwRuRHzEfQRzxGpENgPyA7oDeUNHgyFC/oLRgoW",
+  "CRIIYwfyB5wHUgdfB3AHIwZ1BgwGCwY7Bm0GbgYfBeMF6wV8BPAEjgS+BMsEfARyBFsELAPTA6kDkgMrAuoCuAJqAgMBWwEEAHr/0v8p/sv+hP7a",
+  "/rH9gvyT/AT7svrc+iH5c/jV+HD4FPew9yj2yfa29l/1r/VS9Wz1IvS69Ij0hvR99H70mPSH9JP0N/Pw9C/0Y/RJ9B7zz/Oc8zryrfKk8t7zI/M+",
+  "81vzvvQU9Ez0UvRd9Kj03vVa9cH11vXs9b71+faa96P4b/id+UH6RvsK+4z8F/zI/WP9vf4h/rr/awAGAJoBHQFaAXkB8QMBA60EHARgBJIE5gTy",
+  "BT4FTgVQBXoFrQXUBgUGHAZBBmAGdwZTBcoFYQUTBScFVQVtBVQEwQRtBKUEjASDBGgEAgPpA94DNwIMAVQAcP/H/2j/9wFiAdABoQFwAX4B6wJi",
+  "AoQCswLPAuMDGgNNA5oD3wQcBEsEbQSaBMoFAAVYBV8FVgVqBXYFsQW6BcgELAJLAzAEmAVMBg8GrAbxBuYGRgXQBnsGWQU8BIUD4gNCAsUCVwHk",
+  "AXgBGQCK/97/ov9H/qT+HPy8+5f7Mvqe+dH44fgO9zz2e/XB9R70lPQ+8+jzofNk8xfyuvI88ZLw/vCa8BDvs+9I7tbuZu3Y7WXtJezt7Nfs2e0u",
+  "7Z7t6+4Y7inuUu6y7yfvt/BJ8PfxXvGH8kLzKfP89Nz1pPZT9q73Avd49774GPkH+sL89v7a//QBIgJqAwMDmwRHBTQGLgdBCBoJAwnkCp0LcQwX",
+  "DQ4OCA7KEJkSABHKEssTIhMCE2sT1BRjFNUVaBYAFscXZxgHGJQY/BlDGVQZQRkRGPYYuRh/GDgX+xfAF6EXdxdUF0cXOhdGFxwW9Ba8FrYWPxYa",
+  "FZ8UyhQ0E8oT7hPAEtcSgBJLEbkRfhGREV0RsxF2EGYPzg8UDfgMvQwAC3UKnQnYCPEH6gdFB1YHkgefB24G6AZqBhgF+QYFBj8GOQYsBi8GTAYS",
+  "BV8EmwRzBJYEdwRpBGMEXARKA+gDTwLeArcCrQJbAeYBfgE7AJ8AI/+T/wj+zv75/n381fv/+7n68PpR+cj5Pvjh+Ef3rfcW9rz2U/Xm9bT1QfTl",
+  "9ML0RfQN8+fzr/Ox86vznPN0817zG/Ku8sHzLfNx887zu/MU8oPyefKN8qbyoPKx8uvzJfN689jz2/QT9IP08fUx9T71LvUi9Uv1+PcF+Bj4kvjh",
+  "+YP6Svtw/Ef8/P2//mX+xP8J/5QAOwD0AXYBwQIDAhICdwNbA+8EZwTDBOoE1gToBVoFXgV3BYYFpQX6BlUGhQaTBooGfAZDBdUFnQV/BV4FpAYN",
+  "BZ8FGwUoBOYEjwQiA2IC/gN8Aav/pf+k/4H/RP9I/5r/3wAFACwBDgHEAccB/QJqAtIC2QMwA2sDkwPNBBkEdASbBKUEugUIBT8FqwXvBcgFugXb",
+  "BeAFyAWfBOoDmgQwBUIFNwU4BNwEqQSKBFEEAwQaBBUEGgR+BE0DyAM7ApsCFQGjARwAwgAt/57/Af6B/iz9Wvv4+1b7J/qU+cr5UfjW+An3RPaI",
+  "9cX1CvSA9CTz3/OQ80Hyu/JJ8f3xffDT8EPv8++J7z7uvO4x7bztTuzX7Krsze0x7aDt8e3S7abtvO487sfvHO9Z73vvdfAT8Tfyf/OI9E/1BfWh",
+  "9hv2g/b69534Y/lo+uP8tv4a/1QAfAFfAeICswOeBGYFaAZzB3QIeAmECnYLJAviDM8ODA9PEBkRDRHGEpISwRMME2AT2RRxFSIVzRaTF0cX6BiH",
+  "GOwZJRkfGQgY4Bi2GIIYRBfUF68XsheWF2IXUxdWF2kXRhbXFokWHBWqFbYVuhWmFaEVLRT8FKsT6hM3ElUSQBH8EZERXxFXEUIRrhEJEEYPwg7C",
+  "DbgM3gwTC3QK1AoSCT0IVgebBwgHYAfQB70HZAcPBs4GhgY0Be4FygXvBm8GuQZVBfUFqgVhBU8FGAUKBPYEYQPvA48DVAMHAtgCogI5Ac4BYwDf",
+  "AHcADP+I/w3+2f7Q/iT8rvvz+zn6hPn4+Yf49/hf9+D3T/bC9jD1mfU49Ob0mvRj8+/zwvNt8zjzGPLB8qbymfKD8obyU/IH8Z3xwfJC8q7y6fLX",
+  "8o7yXfIh8ejx3vHt8iHyu/Nd85bzlfPP9A30a/TZ9R31T/YR9yX4EfiK+Kn4tvkK+cn6jvug/NX9h/4j/sL/gQAaAIgA2gF6AjQCyAMlA1MDyARA",
+  "BJ0FEQU+BSoFFQTmBQQFLgVtBZQF3gZQBrQG3QbGBpgGYQZoBlEGNQY9BnQGkAa5BlwFqQWEBK8DvQLqAmcCKwKkAf8AfQAQAA4AA//4AAMACwAz",
+  "AD8AUAHBAlsCfAKbAwADSgOIA7QD9gQzBHkEnQThBQMFPgVyBdAF6gYABf8F3AX4Bg0F/QVqBLkEQgP8BHwFBwTfBEgDSgKoAn4CcALZAy4C5wH9",
+  "AssDnQIwAh0CCAFHAMkAoAAj/5v/AP50/eP8s/vN+y36x/pF+Wz4+fiQ+FX4KPe19or1gPTM9E/z3vNu8yTy/vK88mjyOPHT8SnwkvAc76fvE+5/",
+  "7eLtVuzm7Mns4e0A7SPtP+1N7VPtZ+3P7hzuL+5g7uPuz++48Onx5vKO8zXz2fSG9R71c/Wp9oz3yfkB+jb7sv0y/ij/cgETAesCEALYA+EE5wW3",
+  "BtkICgkKCd8K6wvwDR4OMA6/D4UQ6BG4Eh0SgxMFE5AUIRTNFZQWURcEF8MYZxi9GPIY4BjIGK4YeRhEGAkXzxe+F7IXjBe0F7MXYhcCFvkWwRYH",
+  "FcIVqRX1FZsVoxYSFdUVThT1FH8TvBLvEqgSYxHjEXgRCxC2EHgQVw/qD04O5Q5eDeINcAyzDCsLcAqlCc4IyAgTB9UHxwemB4gHkQevB4UHBAaC",
+  "BhMF/AYRBf8GCwX9BaQFiwVdBP4EqgR9BEYD8AOlA4kDcAMTAscCTgIBAXoA6gBQ/8H/WP8F/rD+XP4f/hr8uvuO+sn6MvmQ+Pz4PPeo9z32tvZA",
+  "9fD1a/Tl9JT0U/Qe86jzOvL08s3yjvJG8grx+/Im8jnx6fG78XXxG/E08ajxx/E+8OfwivCK8I7w3/Fr8djyZ/Ln8tvy3PLy8y7zp/Sq9aD2l/eP",
+  "+A74iflb+e35yvp++xP7uvyM/WX+Hf9aAFMA7AFuAj0CyQNIA9cD6QQNBDoEbATZBWQF0AWSBTAFIQUxBUUFeQXNBf8GHgZABnQGiAZfBlYGkwZq",
+  "BqwHQQdOBwsHIwdTBpMF8gTpBAMDwgNtAtkCZgKSAlcBLACWAKoAeABlAD8AZABcAJsAVgB0AKoBkQGoAtUDmgOyA/oEJQRBBIAEtAUKBVEFggWq",
+  "Bf0GBwYHBgAF6AXtBhcFqwUIBOMElATtBW0FKAP3AncCVwLFAsECiwIPAYYBGgFYAPcBKQGVAR4AtAEHAPMAbQAA/5z/Iv55/fL9jPyJ+2j60vpH",
+  "+hn5ZPio+Az3uPcO9rH2cfW79Pj0m/Q+9BTzpfNe8zjy0fJh8gjxt/Eb8HLv3e9d7s/uW+317ZjtW+067Szs/Ozo7RbtMe1o7Zjtt+327ovu5+9s",
+  "8B/xAPG38mPy/POc9GX07PUA9ez3TPh1+dj7VPxw/Pb9Rv7rAUcB2AJ3A1sEYQVwBo0HfgigCZwKhguWDLANsA63D7YQRRD3EbUSZxMNE74UfBU+",
+  "FfsWuReLGCgYgRifGIYYfhhvGEAYGhf1F9UX0RfTF8sX+xfiF7YXRxdBF24XRBZNFcsVvBXBFrcWZRZRFdMVkBSfE6ITJhL8EnYSHBHJEUQQ3RCd",
+  "EEgP+A/MD2cPCQ7SDo4OIQ0/DKoL6QsAClwJlgj4CKUIkwhQB/wIFwg3B8wHWAdDBuQGYAZEBoEGSQWjBTEFPgUzBQYEugQhA5gDbQNDA14DEQK6",
+  "AoICAQF3ANMAMP9y/rH+Lv4L/gb9uP1//UD8Mfsp+mX5j/kL+H33z/dT9tL2TPW09R70ufSB9EPz/PN48vbyxPK58pHyVPIp8frx0fHl8ZfxN/EY",
+  "8Rfw9fDr8Nzw8/BI8CzwOfBE8E7wwvFH8bfx+PIz8mbyjvLf8wX0XfWb9nX2z/cZ96r4j/lR+k767ftU/Aj8MPz3/g7+hf9jAHcBgwIrAusDdgO/",
+  "BFUEfQSFBNoFSQXRBeIFrwWVBY4FZAXNBdwGKwaoBrsG1wbqBt8GvQZ1BnEGqQcVB3gH+ggqCBwH6geSBuYFrgQ8BBgD/gOaAwQCjAJuAhoBQADq",
+  "AMgAnABWAFwAaACYALkA1QDYAP4BGwDoAhAD2QRiBHAEmAStBMEFEgVABX0FsQXSBeIFzQWZBbAGEQXhBLMEkAU0BaUF/AV5BEQDPwLXAxIDLAMY",
+  "As0CfQIEAXoBBgB9ACL/qABUANAAVQBYAHMAYf9l/vj+eP4w/br9A/y7+/77RPq9+mT5/Pky+Hv4IveF92H27PYy9bT1M/So9H70W/RT89/zZPMb",
+  "8trydPHi8TjwnfAf76DvK+5z7f3tw+2X7WjtOe0M7QvtLO1C7VLtbe2y7nzu7u7o74LwKPDx8anyY/Mk8+H0mfUJ9Z722fhW+ZX6yvvk/B78fv1W",
+  "/4QBkQIzAxIEJgUeBiUHMwgiCS8KXQtyDH0NSw5UD14QNxEaEcoSchMbE+kUtxWbFl4XPxfRGCEYMhguGB8X9xf3F+QX4RfZF9oX2RgMGB8X9ReO",
+  "F1sXmBdGF5QXSBYUFagV0xXNFokWsxZHFbgVdBT8FG4TjhLyEjwRrRFoER8QzhB1EFYQIw/3D9APXg62DkwOMA2cDOkMbQurCtQKHgm0CZoJgQko",
+  "CN4IhwhkCDkHygeJBzsGzQbIBs4GkwYjBgIGDgWTBPkEhAQLA44DPwMTAqgCggJrAf0BhwEFAGH/x/8T/jP9p/1p/V/9Rv0C/Pz8APrR+ej5I/i3",
+  "+AT3ivcX9p/2JPWh9Pb0UvP/88HzT/Lo8rPyffJl8knyI/IF8ePx2PIH8fHxXvEh8RbxGPE28MLwsfCW8HbwKe/18B7wRvDI8RrxtvIT8pzy6fNI",
+  "8230wfUQ9Xf17/bG93/4WPkK+lH7jfw3/In84v1h/kH/RP/qAKoBfAJVAzQEFwRqBNMFFwVEBYAFsQXhBdcFtwWKBaEFyAXrBlkGygbiBwQHNwdl",
+  "B3QHWgcwBvkHJgfMCCIIoQleCNcIMQeTBbMELgKUA0cDqgNBAyoCmgJaAakA9AEVAI8ANP/8/87/1wA4AKgAxAEfARwBKQE7AVEBiwHZAvoDxwSG",
+  "BQAFEQVZBZUFvwXcBfcGHgadBmIFngUbBNwFMQV4BDwCrQJvAuYDQgNfA1kDNgLvAn4CLwHMASMApwA1/8L/HP53/7z/4P9//xz/J/67/db9Xv1O",
+  "/P/8u/w/+8D7DfqS+jP5xvkx+NT4dfgr98/3NvbB9iP1cfT39LD0o/Sf9GP0BvPD83Hy+fKL8kTxifEE8Hzv+u+Z7zPuvu5i7eLtbu1+7XLtZe1c",
+  "7Xjtu+3Z7lruze7n713wCPDO8ZDyS/L588L0hfVF9bT2afff+WH6Pvsc+8H8HPx0/Yz/6AITAnoDEgRkBY4GoQeiCOIKDAsWDCUNPg5LD0UQJBDw",
+  "Eb4SjRNSFB4VBBXXFsEXehfSF9gX5xfHF7MXuBfPF9gXxxfkGC8YhRibF94X3RfsF/cYNhgPF30WghYZFZQVyhYxFpIWthZQFc0VgBUdFGQThxLI",
+  "EgoRVBDOEJYQUw/8D98Pvg/fD8YPog8XDqMN+w1qDS0MxgxCC4MKxQpcCiYJ7wnACZMJcQklCKIIZAf9B5MHPwbTBpAGWQYgBfMF4AV2BLEEVQP6",
+  "A1kC0wKGAoMCPAICAZgA+wCgAEH/5v87/nv9lvy1/Dj8Tvyq/En7N/p5+YD49Pg79433MfbD9lD1vPVP9L30HvOK8vLyrvJs8jTx6vHW8gPx5/Gg",
+  "8aHxj/FK8aTyKfHs8VLxHPEe8VPxfPE18RTxRfEi8IXwSfB+8OfxnPI68ofzIvNR86vzYvRe9br2Vfcp+AT4yfmF+kH7D/u8/Fj8y/2h/ln/TwAh",
+  "ANYBfgIaAtEDmAScBUIFhQWSBa4FuwXxBh4GGAYkBfMGKAZuBjgGPAaeBusHEwdcB4sHqAe+B6oHnggtCEkJYgmjCPcIvAfvBYIAQ/+tAD4DPAVL",
+  "A3oCkAHmAPcA5gCn/9H/JwBRAZQBYgCt/7sAZwDfAU8BkAHnAg4CdwKJAuUDmgQJBMEFbgWTBhEGdQaFBscG5gauBg4FnQUjBJQD4gOSBAEEgASQ",
+  "BFEDtAMrAuACmAIsAcUBUgDbAIwAJ/+0/0D+u/3e/Wj+gP6U/iP9qP0//Pz8tvyX/F78AvvZ+2r7H/qo+f35kfly+UH5AviU+AD3gPbg9nf2LfXW",
+  "9Xf1MfT89Lv0e/QR89Xzg/Mw8rHyQ/GH8NzwdPAe77zvcO8N7pTuMu4D7dLtoO3g7kvuhO6c7qruo+607zvwAfDr8bPyhfNL8+v00fXB9nH3Gff+",
+  "+Sz5sfo4+sb7OPvM/Mb+Qf+cAU0DGATjBeEGPgcyCI4JywrqC/gNOQ5JDyUP9hDTEaUSgBNeFD4VFxXlFr8XVheHF4MXmheUF4YXnxfNF7MX2Bfy",
+  "F7wXcxeEF1gXwxgaGAYXhBbWFn0WUxYCFfkV7hafFs8WfxZbFckVhRVCFLcT5RLaEeYRNBCtEDAQKQ/hD4oPcg9PD2kPbw9ZDxMOgw35DZINLAxd",
+  "C78LYwtwCzILDArACngKLQnWCWEI0AgVB6YHJgatBn8GSwYrBbwFBQRwBAADnwOmAyQCvwKnAmEB8AGcASsAnAApAAL/jf7a/ej9DvwB+8v8GvxA",
+  "+1n6eflz+Or4L/dn9t72ffXf9Zf1VfTf9GPzv/Mo8qXyEfGz8UfxF/Dx8N/w3fDO8JLwmvCf8GjxBfHt8aDwxfCS8MLw8PE38ZzyDPHk8WDwsvB8",
+  "8M7xOfIX8rvyu/NI83nzKPPV9Uz2v/dF9+z4lflP+in7Avu+/H79B/2h/m//WQBkAWMCBgKbAyAD1ASOBR4FfgYRBn4GXQZwBqAG0Ab5Bp0GQQbG",
+  "BnMF+wYvBooG7QcXB1YHfgewB9cIAQiKCKcJfgnNCTYIaQWlAc//vwF4AjkA+QARANIBtwGxAVYA6gDEAPIBRAENAMMAoQGOAe3/9ADCARQBdwGr",
+  "AewCSgK1A0AD3ARABOsF4AbcBuYGVgTpA0ECzQMGAxUDKANEA5UECwRDBEQENAQXBCgD/gNWApsCDQGlAS8AkwAR/4j/Kv6//nP+Ev20/Ov8c/19",
+  "/Oz8i/xx+/n8O/xG+777ZPtI+wz6ufqX+qf6Svn9+aD5J/i3+CT3ivcM9tT2n/Zi9jT14vXv9b71WPSZ9Ev0GvPr837yifH88aXxRfDi8JTwOe/E",
+  "71ju4e587i/uC+4m7mLuku6c7qjuz+8P75PwBfCz8YvydPNf9AH00PWk9nn3L/fE+C74zPkg+a76R/r6/G3+Bf+GAMoCYQQnBXEGHAbmCD4JPApz",
+  "C5cMoA3QDsAPnhCLEVESLRMUE/sU3BWkFp0XMRdLF2kXfhdyF5AXuhe0F84X1xfgF8AXdxeJF5oX2Be4F74XUxcKFqkWqhbaFvMXMBbzFsAWeBY5",
+  "FfoVlhUKFI0T+xLKEh0RlRE9EMMQhRBpEEEQGxAWD/UQBA/mD84PZA6kDfoNZQ0FDBcLpgv3C+kLWgsSCuYKeAoXCV8Iogf4B40HXAcHBscGjQY2",
+  "BXEE1wRZA+QDhQM+AvYCkwIJAckBegEgAJQAEf+b/y/+6/5u/bH8pvue+3T7lPtk+lL5hfi4+Aj3MvbB9qj2XfXU9VT1IfTD9CfzePLw8kbxpPE+",
+  "8NfwqvB68EjwMfAs8Ajvve/o8FPwkvCt8ILwCvAl8DTwbPB+8LfxJfF/8c7x2PGQ8TPxNfF98fzyM/JF8qHzzPSe9Y72U/cW+AH4svlc+i/7IfwO",
+  "/N39gP5d/00AEwDnAcMCSgL0A6wETQT3Ba4GdQbyBzgGwAbaBwQHOAdaB04HDQbzBsMGJgY6BoIG8AcgBzMHZge5CAkIUAjfCSkJaQl2CBwGnAH6",
+  "/wUAdQNMA8ADVAIjAF7++P/0AScBzQKqAdcA4wC4AIYAiwDWAe8ApQDEAO4BPQFGAcMChgNKA/cE5QVyBUkD4gFyAAQALADaAbQCmwN7BBgEUARx",
+  "BIwEfAQ+A/EDlQM7AtcCegI+AdQBXADwAHj/6f9Y/sX+O/25/WT89vyU/GT7nftv/Gr7zft6+z766Ps7+5T7fPtB+tL6vPqc+mz6U/p1+kb5lPkK",
+  "+Fn34/d+93D3ZPdm90f25PbD9m/2L/Wu9U31DfRg863zEfK08pXyOPHM8Uzw8/CB8BrvlO8j7rPuZO5c7o7uhe557onuke7c72HwBfC68aTym/Nk",
+  "9CL0u/V79kT21vdW+Hz5H/mh+hv6lvvp/Uj+zP/mAWsCqQP/BOoGBAdWCBsI6QnoCwwMPg1ADjEPLRAkEQARvxKGE2YUFBTzFekWhBcSFzwXXhdv",
+  "F3sXjhe7F+4YBhf9F8IXjhd+F40XkRd4F0sXHRboF4EYBReaF6oXaxbfFnkWNxXUFcgVUhVRFKET2BL2EhYRuRFmETYRCBD2ERERPhFiEYURWBFP",
+  "ENIQVQ/1D4UPJA57DZ8M7gyzDIML5wtdCvMKzwqtCjYJNAg7CH8JHAhHB68HHgZIBYoFFASlBC0DvwMyAssCiwInAV4Ao//7/5T/BP5e/cT9MvzJ",
+  "/Fz7cPps+oT7Hvq/+af4+/fl9wX2Z/ZD9kf12PVq9PP0ofQ1873zBvKS8g/xbPDm8H/wLvAY7/jvpu9E7vHvBO9e76HwBvDF8NPwc/AB75vvUvAA",
+  "8EHwbPDO8U3xn/G88TPxJ/C18GTwpPHD8p3zi/Rw9Uf2Vfbs98z4mvmf+ov7ePyY/Wb+iP/sAO8BwAJVApUDHwOmBDsE0wV4BjQG3gdaB2kHGgcw",
+  "B50HtgfSB4gHTAcXBuEGaAZuBqkG9wdbB4sHqAffCDAIngkTCU8JiQlSBLwAvv+WASQCmANMA3QDdQMjAkoBSwBQ/v39vf8jAHsB+wJKAY0CPAIw",
+  "AY0A8QGCAfsCsAL7AtUCXQJdAVkAn/8z/u3/1gD0AkIDNQPJBDQEbgRxBEsEHAPpA8kDqwNyAzACwgKTAjkB7wF2AOkAiwAw/6r/F/5x/ez9Yvzl",
+  "/Hv8Afuc+137IPrC+lz60vp9+nX6dPp7+vz7bfry+rD6d/pq+jz6Jfo/+uH7OPny+Ov4ZvhQ+DD4Xfgu9+/3lfd090r3Cvak9n71hvRF8+7zdvM3",
+  "8zvzMvK98jzxwfFh8MXwH++v71jvU+9u70HvHe8f7xfu/e8g77jwPfDo8dHylfNC8+D0ZPT89d73HPgi+Mb5Ofmz+kH6//wT/Pj+FP+NALcBlgN2",
+  "BL4FsAbLCA8IsQk0CkcLXAxxDVcOQA9PEEkRahJiEwUTtxRvFRIVsxY/FsYXPhfcGAAYNBgtGBQYOBgwGFIYIRgOF8YXzhcMFqIWdRarF6MX0BeI",
+  "F1gXNRbMFo8WDxXFFUwVGxUJFEMTNBKoEbIRjhFcEXURnxHAEdoSTxLmEroSahImEekRYREGELQQjQ/qD2oO4w5ZDf4NVQw+C4gLpQu1C6wKzgnm",
+  "CZwJqwjrB/sG/AZEBZUFCASOBFMD3wNwAskCXAHWARr/y/5p/YP8tPv/+4b6+/pw+gT5efjv+NL5lfnx+N34Avce9nP1wPV29W/08fTJ9Fbz0PN6",
+  "8vbygvIH8UzwtvBQ8Bfvxe8y7yHvZu+c7/Tv9u/a8FvwSfCH8CnvdO8u7wbvDO8G7xXvP+/I8Fbwi/CW8PvxCfE78Qnw6/GG8orzifR89UP2GfbU",
+  "9634sPmh+rH7svzF/fD/ZQDNAZ4CVwMKA5UD7QQwBK4FTwYtBrEHOgfmB+cHsQeWB/IIXgheB70HgQffBzUG0wbWBt0HFQc1B3EHnQf1CHQI3Qjb",
+  "CZIJ2gfWAlYASgHUAuUDIQMdAvoCbwJ7Ai4B7QFyAP4AVP+b/nr94vyA+/78vP3u/P/9vv0o/NL8O/vH+8D8P/0k/iz/ZwDUAiUC8wNtA8sD9wQT",
+  "BBYECwPpA7sDawMWAs8CngJdAf0BswFPAQUAtQBa/+7/iv8F/rb+Jv2G/Q38jPv4+4f7B/qn+mP6O/oS+d35iPk6+ZP5+Pn4+h36RfqL+rL6OPoR",
+  "+dD5mfnE+eP6efq9+Wv5Kvix+Kj4j/hW+DP3z/fH99f3vfdR9v/2avWf9OP0a/QR89nzqvND8snyYPH58Y3xQfCl8GHwaPA079bvwO/p79jvi++g",
+  "8B3wofFt8hDym/MD83r0iPXb9pD3R/e4+D74tvkY+Yr6D/re+/z9Cv4T/08BMQNyBG0FVQZkB9sJOwl3CaUKnAv5DRYOMQ8XD+8QyxG9EqkTjBQ7",
+  "FNIVcxYZFq4XMxfYGE0YvhieGJgYjhiUGJkYohimGEkYCBdtFvIWiBZLFwwXfxbMFt8XQxcPFpIV7hVoFUcVFBSuE8gSyxIGEZgRmRGJEWkR2xI/",
+  "EskTCRLyEtgSwxJvEnoSPRHiEYARPREzEKsQZQ+hDokNvQzeDB8MeAymDH8MMQtwCqoJsAkJCFIHnAZABXcE1gRLBEYEHQO4AwgCJAFXACr+NP0s",
+  "/MH8FPtk+rT6Mfoe+fD5Y/hW99X43PlM+HD3S/aE9c709fSb9I/0HPPX81ry9/LE8oPyO/HB8TjwvvBC75Tu9+6d7kzub+7871bvZfAc7/LwNvAP",
+  "75PvdO6L7ivt/+4N7oPvJe9Y73vvue/p8AbwOvBi8HPwwfF58p7zbfR29Vr2Fvb198v4qPmT+q37ufzw/j7/wQEMAc8CjwNnBCsEnQSsBR8F2AaS",
+  "B0AHzwgfCAcH9wgLCIUI4AjJCCcIGQh0CDMHggdZB1YHiwfRB+wIQQhICHMIrQlMCVEGGAIXAOgCdANKA1EDLQKqAiMBhgE+AaAAegEFAN4AwQBC",
+  "AFcAVgA2/6D+1f4O/cb9vP4W/oL/Dv/KAJUAzAFOAeQCJQKPAuIDJANRA10DaQNLAyoC/ALhAsgCowJgAgIBxgFlAQUApwBJ//z/pv82/t7+Xv3y",
+  "/XX9AfyC/Ar7fvsZ+pX6KvnJ+Yb5Q/ks+Qb45Pj0+Bn4Wfmc+i/5bfks+Wz5gvnB+bz5x/mu+cv5+Pp5+e35afkn+Tn5N/k8+TP4o/hp+HP4WPgt",
+  "95/3Bfa19kD1lPTi9Jj0SfPS803yu/Jf8lPxz/Ez8MvwoPBx8GbwlfDQ8NjwkvBN8FfwlPFD8grygvL78730u/W79jz2y/bS9zT3I/f2+JD5Afni",
+  "+wT8LP4EAEABoAMpBEYFCwZuCKAJcAj5CSwKMQtsDKYNxw7ND6MQfRFjEmETQBP6FJ4VIhWzFl4XGhepGGMYoRkNGPgY3hjIGJkYkBh9GIUYFRff",
+  "F00WvhZ3Fh0V5xZTFnMXFRbPFnwV6RV0FQYUrhRVE5oSxRIJEmERyxFwEXcRvhI7EmsS6BLXEukS4xJbEg0SNRJMEiESDBD5ENwQzxC1D+0PKQ5X",
+  "DO8Mrw0aDS0MxgwBCxwKJwkWCOsIHQc/BqQGBATsBAMDvQNaAuEB1gCN/vj94f1K/J/7c/qx+gj5vvm1+ZX4sfew95n4PPi79372g/Wl9Kb0FPPm",
+  "89bzePNM8rnyJvG98Ujw7vCL8GDwV/Bp8Dzvd+6v7nXuUu4C7bXuq+7F76jwGu+G7z/uqu457ZLt2u4x7k/uSu6T7wHvEO8g72jvyu/48DjwmPGZ",
+  "8s/zhvRe9Tn2Ivbw98n4ufm6+sT76v1M/rAAKQFHAcgCowN9BF4FBwWUBh8GSgbjB48HqwfXCBIITwjnCVYJcAkWCGEIwwimCEUINQfRB8AH4Afs",
+  "CDQIHAg0CHkJoAmcBMkAkgF0Ax8DlgNwAw8CqgIMAZEA6f/MADwAdP9RABwACv/Y/+gAA//xACIAFwASACQAWAB9ALYAuAENAWQBlgH0Ai8COAJV",
+  "AmkCkQKaApkCiwJvAj0CIQH+Ac0BkwFSAQgAyQB7AC7/xv9g/v3+hP4S/aH9LfzW/Ff7z/tO+t36afnq+Xn5HfjX+I/4a/hX+C34LPf599z3l/ei",
+  "+Fv5Pvk29/f4oPl6+a/5ofmk+dX5/voF+kL6WfpR+hf5sPmh+X35XvlK+Qv4uvit+C33m/eY9uf2HvVt9Qr0hPQQ83Ly9vKO8jvx1vGB8VTxIPDr",
+  "8OPxN/EC8O3wtvCd8MrxI/GQ8gXydfKT8xH0bvWA9Yv1x/bC+Cz4nPgz+F35DPmx+qD8PP6yAKIBzQK5A7UExgYOCH0JSwisCRwKQwteDNYNtQ6G",
+  "D2YQNBD3EawSehNcFCkUvRVfFfMWrxeHGB4Y6hlHGW0ZMRkSGQMYwhiqGH0YWhgAF40XChaqFj0VyxYPFocWwRaDFdsVehUMFKAUNRPaE7QTKxLa",
+  "EoESEBHSEfgSHhKCEsITMhNDEsoSNxH0EacRehGkEiUSFhEwEQgRJRCxECIPmQ8YDwEOCg1EDTMMvwwkC5wK+wnNCUsIyQhOB8YHBQZLBYcEoAOd",
+  "AqwBswBO/tD+Cfyt+2L69fp1+dP5Zfjt+Hf4Cfea96D4CfeC9oj1fvTC89TzRPMs8zLyxPJo8eHxC/Bu8BrwCu+D7z7vHe8+703vG+6C7gntrOxb",
+  "7BPr7Ovl7OXt7+9Y72fusO0k7LDtAu1s7cPuOe6s7uHvAe7u7tfvIe9d79nwc/Gj8pHzXvQX9Qr18vbk9+X43vnl+w38WP3I/0UAlwExAe8CkQON",
+  "BHgFUgZFBs0HFAdjB3YHuQgUCI8JIwniCjAKCQkuCHMJTAjmCHIIhwe8B8wHxwfFB+EIJAhFCVcJwwX1APECngQCBBADqwM3AoYBwwFEAMAAR/9B",
+  "/nn/4v3T/tH/J/7b/yT/Mv81/1L/Sf9j/5j/zwAAADYATgCCAMMBAAFHAWgBgQGGAZoBrwG0AaMBmgGGAW8BSQEiANYAjQA1/+r/n/9T/vb+ov5R",
+  "/fL9dPz+/J38Lvu1+y/6pPo0+bz5R/jT+H74M/fj96r3jPeP94X3gfd692/3ZfcI9zH3B/gS+Bb3j/kH+QD45vkq+YH5nfn8+hr67vqK+m36UPpG",
+  "+cf5qPl3+UT5GfkP+Nf38Pdo9rr2P/Vi9Vf09PSY8/jzq/QH8w/ygfJo8dvxe/Ff8WbxivFI8TvxMPEV8Ujx3/KD8vDzNvOV9E71NPVB9Xz2jfdK",
+  "9+D4Nfhx+QT5dfnk+nP8oP5Z/2oAvwINAxkDswUPBoMICQnTCqMLUQxWDaEOAg46DqEPhhBvETkSGRMXE9AUcxUiFeUWpBdqGB0YwxlpGaAZbRk+",
+  "GN0Yhhh2GHAYRhgHF7IXXBbTFl4WBhVdFT0UwhRdFHcU3hTuFHgUGhPJE18TGRLcEpcSjxKPErYS1BLcE2MTQxLnEqITAxNhE1oS/xLvEqkSMxG4",
+  "EZ4RFBC5EHgQPhAkD0YPZA4gDO8MtgwPCzIKvgnpCUQIuAg8B7sG8wYGBUsEcwOGArsCAQD3/5b+of3W/MD7pfqn+gn5mvke+IP4CPel91r3DfYZ",
+  "9Zz01fQn83ryxPJv8jXxz/Fg8Nrwm+/Z73LvSO7r7ojuGe2O7XPtE+y27Njs0e1B7XLtwO1A60jrBOvo7YTvLO5E7XTstuy97Rvtg+4m7m7uoO8M",
+  "7uju/+8g74DwSfFA8iXzFfPj9O72CPch+Df5WPo4+1z8w/5N/8AApAFrAeYCmQOdBIcFPAYyBxQHQQekB+4IEgjLCZQKLQsHCqsJ2wlJCUAJuwmV",
+  "CHQIQQf9CDwITAhKCGsIzQmnCT0GRgGyA8kErgSfBBgDdAKyAdABAgByAAb/qv7D/Wj+1f5K/aT+EP5r/j3+Mv5l/n/+jv62/u3+/v86/3P/qf/F",
+  "AAcALwA0AGQAlACGAMwAsAC5ALQArQC6AKoAcQAj/+P/mv9h/w3+rP5D/ev9jf0v/MX8WPv1+4j7GfqY+h35qfkl+Lb4Sffr9433PPbo9qv2nfar",
+  "9r/26PbV9tX2vPaZ9mz2cPb99/r4H/jg+GD4U/i9+S35w/ob+mD7CPr9+377XPsj+nb6SPnQ+aH5x/lm+K/31vdf9rz2HvWy9Xb1MvS39Gz0rvPG",
+  "857zSvIv8erxpfF08XXxlvGb8arxsPFz8b3yC/Ji8r7zO/Pd9Jn1FvUp9fD2ivdv99P4Bfhs+PL5S/og+rf7tPz0/nf/7wFKAocDUgRfBb8GzggE",
+  "CcoK3Ax+Da0N4Q27DhkO9BAZEQgRzhKeE4oUZxULFcAWcxdcGBMYkhliGckZxxmhGXQZBRhPGEMYLxfiF44XFxayFkcV5xWSFIoTmRN6E5YTBRLE",
+  "EtgTphNsE0MS9BLNEtETDxOLE6UToRNDE0UUCBRBEpUTHxNAEpsRfBI7EloR/RG/EYsRcREPELIQgxCDECUPbQ6WDK8MLwwQC2EKhAmfCRoIdgey",
+  "Bs4FrQUqBMAEOQOPAtwCOQFXAGr/bP6G/cr84Pvt+yT6PPm0+Q34Ofdl9oP15vVi9MP0QvPk8xjyafHa8WPxBfDV7+3vzu+m713u+O7M7gftROxp",
+  "7CTsMev57FjrnexF6/nqNuik6EXoc+mJ6s7rU+vl7H/s6evE7JLsvOyw7M3tUO4b7pbuiO7G72nwKvDw8cnyxvOu9O72EPdZ+KT5rvq8+9j9JP7M",
+  "AAwA1QF4AhkC0gPoBMAFjQaMB1gH/ghCCIMIsQlACmILWQslCjEJngn7CloKUQoMCWwJBAj9CPMJDQlCCcQJRwa2Aq4BZwQABLwEwAQYA2YCtwHp",
+  "ATUAc//C/2j/A/5m/R3+Qf4q/Kb9Tf2h/Yb9jP2X/cD9+/3q/hH+Rf6D/rj+2/7w/w7/Tv9V/33/pP+1/9n/1f/M/8r/0f/h/8v/iv88/ur+n/5k",
+  "/hP9u/1j/PT8lvwt+7f7Wvr4+qr6RPnJ+Vj42fhb9+L3dPcH9qb2XPYP9fr17fXo9gj2PvZl9kH2MfYm9dL17Pcg+AL4P/hQ+Ar37vjk+Y750Pov",
+  "+sb7Tvtx+5z7qPsM+pH6PvnO+c/53fmP+I334/dW9sb2J/W79Yz1gvVX9SP1PPQ48+PzaPLF8inyIvIM8VrxL/Ex8VTxk/Gx8czyMfLH8xLzTfON",
+  "9Lz1OvXN9lD2afbF9274IPhv+OP5afpN+tT7ePxM/bT/WACTAbgC6gQCBV8G3QfdCUMKQAtcC4UMGA0VDcwOvg+9EIkRgRJTE0AUNxTjFaoWahc/",
+  "F/8YpRlmGasZrRnBGY0ZBxihGAMXxRfBF6AXCxbiFicVfBUrFGQTiBMqEswSiRJ+EjsSDRLqE0sS4hKtEmoTIRPNFIsUsBPQFGIUsBFzEDYPQQ/p",
+  "EKwQ3xFcEcoSJxIXEf4RnBExEMAQ5RBQDwEOQw1oDJsM4QyPDBoLeQqSChcKCQh1BuYGSgWHBO0FDAT8BGgDNQGkADn/K/5U/Y/8hvu3+yD6gPmv",
+  "+OD4Hvdd9rL12vUl9LH0QPOo8vnyRvG78UfxAPCT8CDvc+8l7v7utu5J7YjtEeyg7MXuPfBG7trriuom6ULnjuY45e7msugR6NbpxumU6dvqEutT",
+  "63jsI+zH7N3suuzm7YLtp+4g7vTvvPCJ8YvymvOH9Mf2Afdf+Oz6OftD/LT+DP9PACUAwgGZAjIDLQRMBUsGVwcEB+0I3QlICP4JMQnZCzQLsQo+",
+  "CgEKaAsACywLGgr0CrMKAQoLClYK7QljBU8Afv50AQoD3gSLBHQD2AMfAn8B0gE3AJ3/4/9D/qn+dP4Y/Sv8Bf64/Dv8mv0E/Kf9E/z4/Tv9WP1L",
+  "/X39jP3H/cz9+P4o/lH+ev54/pj+tv7d/u/++P8F/uj+yf7D/q/+fP5Z/gz9xf10/Rf8w/xz/BX7sftB+tH6aPoX+cP5ZfkM+Jz4KPez90D2xPZn",
+  "9gX1tvVz9Uj1G/Ur9Sj1jfW/9aH1rPWk9UL1ffcw93n4Cfgn+IP5Svmi+gj6IvqG+uv7rPxS/Kj9FPti+6H6pvo1+kr59/lM+GD3kPcy9qT2X/YV",
+  "9ZL1VvUt9Ofz3/O/8s3x9/Gu8XTx5PJW8cjxhfFm8XTxtfH58jXyh/K083j0S/Rx9Qv1pvXF9gb2XPa99yf3afe++F345Pkx+fz6//wA/Wv+ef9W",
+  "AUwCaAPOBX0GqQebCCsJLApCCuELmQx4DVUOhw9PEEgRRRIaEyMTyBTIFYkWdBdBF+8YphlNGUUZTBlhGSkY7RiLGCEXvBcyFt4XCBb6FloVqhXx",
+  "FQwUtBPwEqsSJhHMEY0RhhFXEjYSlBJxEwcTOBPBFE4T5BOuE/QUJhL5EcsSIRFsEHUP7hB7ENERRhIbEkoSHhGvERsQ5Q/RD5wPEA5pDhQNqQz9",
+  "DKQLcgmTCGkH9waGBtAF9QT3Bi8IKgffBzMFZwKKAMv/Mf3a/R38gPve+2z7FPo6+Zb5BPgb9wf2EPVS9LX0OPNr8tzyIPF58P3w2vFX8Mfv5+9r",
+  "7sHuuu587mbuDO2z7X/tAuyy6/7r6evg65bqNOgc5hrnI+hn6D/owuld6PXoqef36WnqJOq66yzrr+wj7LDtpO4b7srvo/B58WzyS/Nz9OX2DfdH",
+  "+M76lvwC/Z3+nP9jAB8A6QGzApoDrQT6BkEHUwf2CLUJ3wnqCY0JnAnECocKawpDCoYK1guLC/YMPgxhC+4L7QwZC5MHYwDf/tkAzANcBHkExwR1",
+  "A9kDNwJyAbgBTACY/9//b/7Z/mL+JP3s/Q/75f0C+8v8EPym/E38APyR/Jf8pvzF/OP89fz8/RP9Pf15/av9q/3I/cr98v4t/jn+Jv4w/hv99P3G",
+  "/bX9o/1q/R384fyk/Fb78PuL+zr69PqJ+hj5p/k9+OT4kfhE9+D3j/c09rX2OvXU9YP1QPTv9LH0l/SP9KD0s/Ta9P71LPUr9Mn1HPbc9zn39/hj",
+  "+P35Jflc+VT58/rg+4P7ovu+/GL86vwv+v78A/pI+k/68vl6+Ef28vZE9hv18fXI9Z31LPS09Ib0E/Mm8iDxnfHj8gXyi/LV8iHyKPHI8djxpPGC",
+  "8aPyBvKu8/H0mvSu9RX1Q/Wm9fj2hvbO9uL23/cK96v4afj0+kv6/vsy+8X8rP1q/ssBBAM6BKoGFAaeBvcIAQkoCekKwwvJDOMNsw65D8wQ/xHu",
+  "EugT3BShFVIWUxchF8wYhhjvGOQY8RjbGKgYcRhzF8kXZRasFssW2hXGFVoVlBS7E3sShhJ9FAwT2RMBEqgTXBIPElUTAhL4FFsUQRPRE4QTaBMZ",
+  "Er0R5xHeEowS9xMVEukSaBDbENQQ2BDnEL8RPhHZEWYRHxEdEIkQEw91DtIN9AwSC38LIQoACMsIDQffB5oH1QcGBdYGrwiBCRwIbwaNBKgB7v+X",
+  "/YH89/x//Bb7avqe+XX4vfgR9yH2JvWP9S/0hPOx81byjPGN8LPwAO9v74/whu/a79bvje7m70zvvu/o75HuqO3F7ebtR+zM7DTtXuze62/nyea3",
+  "52Lm5+b45/fpm+mk6Ljp1OoR6mXrJ+vF7Hjs7+4T7ubvX/A38S3ykPPI9Qv2QfeK+Rr66fy8/k7/Jf+6AIABWQIiAv0EJgXyB1kINQiuCWAJ7Qng",
+  "CkMKLAp4Ci0KCQqFCvoLQAxbDPIL2gwSCw0K+AhXBB4BFwIxBL0FugWhBUYE0gQ9A2MCtAHYATUAkQAF/0/+vP44/ev9zv1z/N77x/y8+/H7qfxr",
+  "/Cv7lvvi/Dj8D/w9/Df8SPxi/Gf8fPx7/Lr9BP1H/TL9Of1J/U39T/1Y/TH9Efzf/Nf8wPyZ/Ez8EPvg+6L7XPsg+sL6Yfns+Xz5CPiq+ET37PeX",
+  "90n29vaS9iP1xvVt9QP0rvRr9Dj0JPQg9Bb0KPRJ9Gn0j/Sl9JD0lPaV9u/3tPgp+Hn41/km+az5vvos+qr67/td+9X8DvwK+rD7Hvqt+iT6Fvkg",
+  "+K/3wfa99e71oPXI9WD0q/So9C/z6/Nb8pnyaPI98nHyvPLN8rvyQ/II8c3xqvHR8i3yNPLl83jzsPSU9Pr1TvWP9aP1/fZ29kb25/dV95b30PfR",
+  "+C34Sfjz+o/8KvzC/Wr/CAFwA70FFQZPBs4HQAf9CPkKEQsoDEYNSA5OD5AQrhGVEnkTaRQ2FRUWEBbkF8cYUhheGFIYWBhJGBAYGhfAF00WiRbK",
+  "FowWExW0FMIT2BQ+FZYUsRTsFZwWFxX3FeoVkRTyFBcTnxQTE4cTiRP7E4MSZxIzEdARyxHlE8YSchKkEucTQhLyEg8SgxEKD0EOZQ/uEWMRYBF7",
+  "EO8QDA+KD3EPBw0rC+ULFwquCtALYApxCZoIfQfbB5gHVAcbB+IH8wdbBX0EfwOv/3b84vud+2P7vPtR+pP5iPgy9vT2IPV49Sn0i/O18xPylvIm",
+  "8O/wH+9C70fwVPH08UfxXfHy8jTxiPD78TjxG/DX7tjrlOo86jrppeh455DnnOcn52Ln4ueU51jnfOgw6XXqCOov6irqWurc62vsau037hvvEfB1",
+  "8d7zN/SJ9bv3JfiH+en7jv0S/hP/EwAEAO0BrAJZA0sE7wbdCDgIzgmZClMJmQj4CQcJSQmoChYKoAr8C1kL5w1+DMkIyggpBbgESgODA+gFZAZv",
+  "BqMGaAXhBRIEVwOTAp4B4AFRAKH/9f9z/un+U/3d/aD9R/z3/GL7a/w4+6v7G/vR+9H7mPtW+3H7vPu/+6H7gvuI+8P71/vr/BT8VvyB/JH8nPyn",
+  "/Kb8zPzJ/KP8i/xK/Br8Bvv0+9D7mvtZ+xj63fqY+i351fmD+Rr4nvge96X3Vfb29pH2MfXf9Y/1MvTV9Hb0PfQE89LzqvOg86XzzPPi9An0FfQ3",
+  "9ET0OPWW9pP3F/en+DT4bvje+Uz5vPog+k/6PvpT+rH6bPq1+mX6wPtk+qb5Afil+JT32/dK9r/2QfYU9Pz0o/Tx83Lzl/Mm8vXy5/Ky8p7yv/Kr",
+  "8kPyDPIe8ivyVvL381fzAPMn9A7zf/Rg9E30jPTj9PX1f/W89hT1mPW79b/1tvXj9nP3DPgv+Xv67Pv4/NL9xP+ZAWcCCAOyBJoF9QcRCBoJMQpF",
+  "C2QMkQ2vDwUQQhEuEfwS6BPJFNMV0xavF4cYChgDGAIXyBeXF1cXMRbMFnIWKRWLFScU9BSaE/kTvROXE+oUVBSKFbsV/xZOFjEVSRTyFRsUMxOg",
+  "E6cTdxMEEpISGBHlEZcRfRH6EsUSXhH6Ef8SaxKVEs8SlxHkD4sNyQ6FEJ4RLxCxEH4QAQ/hD18O5A6fDj0N+Q4aDdENGQv8CxAKSwm2CYsJcwlu",
+  "CZ4KCgkQBzcEXgIeAdL9iPnB+ab7iPtZ+vH6rfk996r2XfWU9Pv0NPOO8vXyqfIR8YXwde+I7rnv5+5R7Mbu4PFT8qTyjfL28kDuq+rW6NjoF+db",
+  "5snmXuab5x/n0ufu55bnI+eV6ADoKuix6W7qAen+6kPqReqX61jsWe097irvmvA98SvzC/Ug9qL38vly+p771vzI/W/+yABBARgB2QK4A+oFiAcG",
+  "CBcJhQpFCmYJMQjzCUcJuAoUCokLFguSC9QMnw3KDggLdAamBGEEGQZeB0wHUgc3Br8GJQVaBIoDzQLrAjEBhADuADL/o/76/o7+A/2Z/UH85fyC",
+  "++X7RP0r/Of6u/uU+6H7Svsx+yP7RPt4+2/7WvtG+1z7b/uX+6D7yPvi/AH8CPwj/BX8KvxJ/B376fus+6r7qvt5+1P7M/rf+p/6UfoN+a/5cPkh",
+  "+L34QvfM92H27vZ89hL1tPVW9OH0kfRL9AnzwvOF80fzJfMg8yPzSPN284jzovOj85PzS/Rl9hr2SPcj95b3sPgJ+IL49vlS+Sv5Ofll+ov69/p8",
+  "+ez7ffvS+hf44/hT99X3Pfbn9nD11/Vi9QP0LvOQ81by+fLt8vrzGfMT8pXyefK08fryLPKy8o/yg/L88tjyt/ME8r3zYfO783HzqvQD8970g/UD",
+  "9ET0CPRq9NT09fVe9fj2r/eb+If5s/ry/Cf9Jf5Z/6oBVgKNA6UEogYWB0EIUwmECqwL3A0eDlcPhBB5EW4SYxNuFJQVqRaDFzwXuhesF6EXXRcX",
+  "Fq0WYBYMFeoVHhRdFDwUEhP1E2MS+RLAEsoStxMvFU4V2xXTFfEVThT8FPgUrhQFE/UTYhKwEwAS5hHFEZMRRhHlEtYR3RFTEUkRQhGuEh0RjA7M",
+  "D0MNWA1bDiMPcQ/PD+wPuw+VD50PJg72DwsPCw65DlgNiQ08DI0L2wtVC6MLgwtCCqcKJAjBB+oHfwQqATr8/vnL9/T49fn/+ef6CPka98v2lvW9",
+  "9O/0JPNK8s7yPvHJ8ZPxTPCd79nv9O/C8FDw8PJu8ibwJO527eHsnOo86Kjn+eeg5vzmZuYF5gTmGuYK5ffmO+ba52Xn2ej66kLqhum96cDqZOrL",
+  "62fsgO2N7pHvI/B38dLzevTA9jb4Tvm4+tr70/wT/LH+Sf+1AQ8BxQNIBGwFhwa5B/YJUwlxCSUI+QlUCb4KOgtTC8sMGwxJDLQNcg6+D8UOmgk0",
+  "BasGmwgVCCEHvAcvBoAFrQTLA/UDLgJ4AdMBIACE/9j/SP7B/kD9zP1b/L78iPww+6j7AfvU+g76vPtf+5z7Wfsk+xr7Bvsr+xz7APs1+xb7IPs0",
+  "+1T7cfuA+6z7vvvb+8X7v/uy+5H7h/tS+zT7E/ri+uL6yfpw+jz56/mV+TD41/hQ9+P3fPdG9rf2RvW79UH04PRa9BvztfNj8xryvvKK8lfyL/Hl",
+  "8dvxwfGx8bbxwPH88lTy0/Pn9Ov1Mvba9uP29Pck98L4TPhx+Ij4s/kU+aT4zfl++eX66/s0+Uf4gffL9wj2h/Y39cb1bPUe9C/zePMU80LzEvME",
+  "8wHzMvM48rTydvKJ8tHyjvJ88oLyvvM78lfyhfJ18rTy0PJh8nTyXvJ88p7ylPKW8svyxvMw88P0U/Te9Xn2QvcP9+T44/oc+2j8h/28/zEAdgHA",
+  "ArgD9wVFBkwHjwjMCfwLQgyiDbkO4g/yEPcR8RMnFHIVdhY3FvQXLRcgFz8W3haEFh4VwRUpFOoUQxPgFDETwBNPEucSXxHxEegR5RL2FRkV1BWF",
+  "FWoVRxR3FHcUmBR+E38TERMQEocR1RF3EUwRBBGbEgIRJhDfENQQtxDPEN4RVQ59C4kLWgpxCxYNAg8HD3IPfQ+KD6QPWA+jD5QPOw6aDkQOJw3t",
+  "De0NOQv2C+ALcwr8CoEKNAlfCBMHJQVKBCb/z/td+T35Zfj49/P4Xvh895v2o/WR9Inz1fMW8rnyIPGJ8UbyBfJ38fzxyvIx8xz0L/Rq8gHtvOwb",
+  "687sNuvm6xXpjujx6GDn+OeQ52jnc+k56lTqaeoW6kbrgOwZ7Pvtj+3f7R3ruuvF69/sHu0q7mLvv/C28gnzffTh9ib4fPmU+ob6vfs4/Fj+Cf93",
+  "AMMCVwPlBSQF2AbTB+UI/wl9CPoJrgmuChgKzwuhC/cMPwzPDXsOVg9IEBkO3QmoBgsHvQibCGQHxQboBh0FOgR2A5ICxQIUAXAAxwAS/4D+4/6I",
+  "/jL9xP0f/K38aPwo+7769PpB+uH6i/sa+3H7VvtQ+zD7Efrp+wX7OfsQ+vX6+PsB+xv7KvtR+3H7efuV+4v7cPtx+3f7Wfsc+un6xPqX+qH6PPoS",
+  "+cv5hfk2+Nf4dffr95r3cfb29pb2CfWh9Qb0ZPPR84DzJvLO8ozyaPIu8f7x6PGp8Yvxc/F08ZLxovGs8eLyEvLh9Gr0XfVd9sH2VfbB90r3ZvfR",
+  "9/n3/vjb+Q34HfkA+YH6W/qk+cT4VPdU9qT2JPXB9Zj1JfRx86jzK/Lz8vPzA/M984jzZfNh8u7yfvJc8oLyqfJl8pnzZ/Mj8qvzDfIi8c/xivGF",
+  "8JvwcPDa8Q/xKvEt8bDyDvMM83b0FfVK9X/2C/bD94v4cfmm+s38Bv1f/rT/2wD5Af4DBgRYBWoGlAf+CUsKjQvdDQQONg9PEJwRwRL8FCUVBxXY",
+  "Fl8WhhbYFsAWUxYMFVoU6xRIE8sT9BNUE0ETHBLmEykTshPkEv0TTBTaFSMVdBWEFTUVORUmFNMUkxQ+EzQSXRH/EbYRXREGEKwQdRBDEMAQ/hDd",
+  "EOwREhCBEJoOrAw6C4MJ0QkaCcsLaA38D0oPMQ8ODu0OOw3jDlQOeA5tDg4N0Q3yDa0NYAv1CuEKFwkhCSwJcgk9CAAHNwZUBRkB7fz++1r7H/rV",
+  "+cL5Ofnf+in4hPXz9LXz+PM+8n7xxPFE8UPwxO8L7qPwJPLx9Cn1B/U09B/y9e4n6+LrIOr/6uDqh+oI6gnqSOqf7Qbuj+7q7SHq9OkY6JDpLutr",
+  "7RztfO3R7kTut+6B7fTs3e2s7pLvcvC48g3zbfRd9jf4W/l6+ef6APsd/JP+Nf+7AS0CngPUBPYF+wb+B/4I8Qn+Cf8KFQqgCuwLSwwsC/AMpA4J",
+  "DikO5RBCECcN0Ql3BoQIRAiwCBsHRgZdBTwEkAP4A0kCdgHAAQYAVP/U/1D+v/6Z/m/9+P0m/Jb8Uvwx+9j7K/xD/Qv6Yvr1+2/7jPum+4L7QfsS",
+  "+xz7JfsS+u37FvsK+wb68vsV+zP7Nvs6+zz7Lfs2+z77OPsJ+sj6ifpc+i359fnZ+Xb5NvkC+IP4UffO91j3OvbJ9mL1vPV19LT0PPO+80Ty8fJ8",
+  "8j3yEPHL8Z3xYvEl8QTw6fDq8M7w1/Dq8S7xbvF/8xnzhvPl9d72fPYO9g72XPaf9xX3sfiY9/n4Rvht+XP6GPms+Tf3q/bv9mP15PWc9Wz0zfRc",
+  "863zYfNK81vzg/P49C70NPPM81PytPJ18sDy5vLt82bzV/Lx8uryY/F38Vvw0u+S75Xv4PAD8CDwI/B68T/yAfKR82z0F/Tn9T31kvZz9zz4IfkH",
+  "+jv7qPzk/g3/NQBbAXcCngOsBO0GRAe1CRsKhwvqDRoORQ9JEFMRbRKsE78UoxUgFX0V5BWtFZ8VqhVnFMMUIxO+E4sS/xK3EvkSaRLQEvQTlhLM",
+  "EZwRUhMlFJoVZhWiFXkUZRPcFAAUNhOwEhARrBFeEWMRZhDQEPsQsxCuENcQlxBwEGAPvA8AECoMCwtPCwoKpAkICDYJ9Qw1DesOtQ52DXcL6ArE",
+  "C3sLIwzyDNoMpAtJC44LoAqWCd8I/AhrB2MHNAdvB6sGxAY+BJ0DEgHQ/tz9IvxN/An8Bvvo+4b6t/l29vr1BvQU80ryYfGm8QHv9+7/7nbw9PM+",
+  "9GL0xfR/9Af1N/Tq8sfvru0t7DDsOuw37e7vifCn77Hvqu6p7frt4uxO6j/pXOm06rbrEOxz7X7uF+797yDvL+7975HwevGh8s7zv/RX9lD37fmX",
+  "+ej56Ps2/N3+pAAnAawC1QPnBSQGKAc6CAYJGQodCzgKhArAC2EMSgxcDMINfg5dD3cQjRCiDz8LHQZSBwkIpwiGB/AHLQYdBVcEeQPWAxACVwGe",
+  "AO0AZwBk/9z/Gv6V/in9yP0j/Lb8lvxP/CL7n/rZ+zL68/sW+3P7s/vY+8/7pPte+0z7Wfso+wr7Ivr3+vD64/ry+vL6/vrq+uz64PrZ+vD61vqq",
+  "+nT6Q/om+hD51vmu+Vz5HfjN+FT4I/fQ91v3K/ae9hv1xfVV9Kb0G/O480ryufJy8gfxrPF68V7xJfDX8NHwsfCE8HbwcvCN8Kfww/Eq8bHy+fM7",
+  "8131i/Vn9Qz1ZfWf9fz28fco9wD3lvet9/34vvlZ+T/4R/cU9f31O/T79Kv0svRo9Dz0B/Qs9Fj0HvPx9Hn0q/RF89Hzm/N288PzhfN282Ty+/M7",
+  "8s7xwvDD8O3vo+8772bvTe9p74Tvu/BL8PLxovJI8uHzfvQK9N71QvYZ9sf3gfhk+ZT65PwD/Vb+jf+oAMoCEQNXBJcGEgd+COQKRgtoDLQN4A8C",
+  "EEwRZhJ3E08TuxO/E8gUHRRRFIEUWhRwEzgS+RL4EsISNhHoEdUSVxJtE9MUYxLOEeQTyBMVFEEUPBO6EnsSdBLoE9wTgxJBEooSyxK1EhMRNxD4",
+  "EO0Q6RDPEHEPpA9cD2UO1Q5eDsAMIgsuCyIKWwgFBYwEdwdJCsMMDwtxCZ4GcATcBe4FswgoCm8JqQkWCdsKigoPCV4ItgfCBnEFeAU2BUAF2wXZ",
+  "BK8D6gImAfAAWf9G/nL9B/wP+z/61foJ+N/3D/WW9Pf0x/R09Cfz0fOR8kn0xPTo9Br0Z/Pg9Hj1+/e79pb2HvRU8yHzAPN48pvx3/GI8SnwsvAl",
+  "76fvQe7a7pnuCO1m7a/taO187tXuJe6t72DvEu9+8F3xm/Hq8r7zwfS99bj3jvlO+Y359ft4/V3/PgCbAa8DAAQVBQ4GNAdcCGsJfgqVC5AK1Ase",
+  "C7gM3AzqDWgN7Q+PEIgQLw7rDAcHaQZQCJAIwAiaCCAHWQZnBXgEkgPxAycCRAHRAUoA0wCqABb/Mf6A/gz9j/0i/Lb8Vfwh/DD8AvtX+6b7r/sy",
+  "+7X7v/ve+9z7/vvT+6P7lvuP+2f7dfs5+un61/rW+rT6s/qu+pf6mvrP+uL6y/qX+mv6S/oi+f/54vm8+Xr5RPjb+GP4F/fE94T3Mfa29lj2A/Vu",
+  "9L/0QPPg82vzBPKp8kHx6fGZ8Vrw4/DG8LHwbfBW8FHwOvAy8DPwZPDj8TbxyvMC8rDzoPS09B30wfTG9Vb2WfbU9tL3uPgL96H4K/ii+LX39Pae",
+  "9Wr07PSE9MX1DvSv9Gz0VvSs9JD0qvSo9KH0mfSF9Fz0HPQs84rzifNk8qnzLvNf8fHxXvBC8GnvNu6j7q3u0u8p7zfvkvAI8LXxRfGe8ify7PO+",
+  "9Cr0zPVZ9eb21/fO+Ob54/uV/JL94v7aABkBiQLfBC0FegbpCGcJqwroDDENdw65D/sQ9BHTEi4SYBKwEs0S3BLyEu0SphLQEk0RqxEAEK8QLRA4",
+  "ELMRnhJ4Ew4R4BICElgRGBDdEXwRvBBFEEcQkRHIEpISnhJME14TAxJTETgQcw6cDhgOlA8HDokOZA48DjYOAA1TDT0M8Qt9CwUKUQkABrsEjQOc",
+  "BpAHywaWA80CNgI3AqkCuQbDCucJfgeZCXMKEwmuCKkHtAacBUYDwwJ5Ak0DZgRkBGQDogKHAIH/OP42/SL8cfvK+1f6XPme+W33qfdd9yP3Pfdb",
+  "9073LfYR9MTzVPIp8X/yevOO9OX1mvcF95b3TfZT9bX0pvOu8vPyWvHe8XLw+PCW8Dfv4O+r72XvTO96737voO/78HvwdvC28TDxBPDP8JXxV/HX",
+  "8i7y6vOw9Wj3Qffm+JX57Puh/Vr/FQCbAbcC2gQjBVkGrwe/CLAJ5Ar/C2ULsgweDMgNtA4WDjMOWQ6lD/gPYQ0uCOIE9Qf+CTUJJgiSCDAHaAaC",
+  "BcYE1APiAzcCgAIOAZkBBgBl/8v/X/7w/iX9ePzN/IH8Sfw7/D37+fte/I3+avsI/A78IPwD/C78TPwl/Ar7+/wH/DD77/tA+yL7A/rx+ub6y/rT",
+  "+tT62vrk+uD62vqv+pD6ZvpC+hD55vm4+Z/5Zfkc+LX4Rffp94L3NPbv9nL2CvWF9Rz0nvQg87LzS/MA8pzyRfHH8UXw3vC58G3wRfBA8BrwAe/y",
+  "7/TwFvBS8JbwrfHW8r3zTfOL86PzufQj9IL1hfZd9oP2c/b899v3Xfg29272pvZG9Yz1IvT39XP1QvV19EPzXfOl9FT03/UG9O300vTm9Nv0U/Pi",
+  "9GLztvMa85HzafJh8XXwzvB670ruVe3T7fTuF+5Y7pbu4O+G8D/w6vFb8eLynPNL88b0HfSB9Vz2Bfb++BT5KPpA+5f9Ef5b/74A1wJRA6YE+wZX",
+  "B8EJJgpxC+ENLw5pD04P8hB6ENMRLRFjEVMRthHyEVQQ3RCaEGgQHQ/yD7gQBxBxER4SihLKEiER3xKnEoQRNhDOEAgP4Q+jD6wRCxLkE38TghOz",
+  "Et0SDRGUEHQPNg1sC/0LcguRDFENEg0sDRAM4gyXDGwL7QteCtUKMgnzCOIHOwUkA4YDkQI1AIEAiwIEAvID5gUBBZUF/wcACswJ+gi0B54G5AWk",
+  "BA4COgCFABkBogHuAhsCYQJOAYf/yP79/dz9Ffw1+6z7LPq6+Uj4CvfB+Ej4N/fv9zf3XfbT9SfyVe++7VfusfFV8172R/Zm9xf2wfYt9bD04/Qn",
+  "84zy6PKS8gnxkfEs8ObwlfA28AzwEPAL7/LwX/D08UTxzPIS8g3yEvHG8SrxF/HR8lnzCfTy9jX3Dvfs+Lz6APuU/VH/AwBxAdUDGQRMBaYHAAgz",
+  "CTYKHgr2C5YMIwyfDHYNSg5wDkMPeA4eDoIPfw9aCbYENwjkCoMJ9glgCGQHngamBi0FWwRYA24C3gIcAaQBbgEfAKr/8v8x/lf9ePzq/K78cvxE",
+  "/Ez8Lvtp+238efuV/Hn8yvyP/IP8rfzQ/D/79vxV++b8Gfub+1j7Qvs3+yD7Dfsd+zn7X/tQ+0X7IPr5+tT6p/px+jz6Ivnv+cr5tfl5+RD4mvg3",
+  "98z3Wfb59qP2MvXC9Uv00PR79AvzrPNQ8uDyaPIU8ZfxGfC+8HTwMvAh7//v7O/j79Hvze/i8CHwffC/8XXxevKo84/zVfNF88H0NfS89bH2gPbz",
+  "90b3EffG9wr2pvae9cb0//R/9G71WfWQ9M/0cvTb9SX1b/Ux9Vf08PT19LD0QfQX8+n0FPPe81Py5fIa8NDwbO/L7ajtVu0c7QbtO+2R7f/uiu8D",
+  "77jwkfEj8azyPPKd8vzze/Q/9KD1K/Yn90T4Xfms+tH8NP2f/vEASwGyAxEEbgXMBzMImQoQC3QMrQ22DjgOww9BD7gP5BAtEHMQYhBpEDcPbg71",
+  "DvMOsg6pDv4PsBBnENURSRHpEasQ4hBgEBwPqg6dDtcQ2xGiEdcSkxQhFBkT7xOXEZYQRQ+uD0YN8QyEC7ILTQt9DAkM0wzsDO4MrwxAC6ILPwrO",
+  "CpwKjgrmCt4LNwj5BaUDugLsAroCpAN5BIEFnQYMBiIGPAfxCTUJSQgdB20GegUGAz8BTP99/kn95f60/rX/9gGbAToAiv/E/pT94fzs+/X7dPso",
+  "+nr4cvf599L38vcv9qL3F/X89MDxm+5G7X7tfO5K8Dby2/WQ9w32lvYN9Yj0rfQg88fzf/MY8pPyFfGI8VDxT/Ey8N3wk/Bg8EHwe/Fh8gfyg/LH",
+  "8rPzM/Kp8SHw9PHy8rrzvfTn9eH23/fm+P76Mfuy/Xj/DQBwAcsDIARgBcsG6AgyCV0KNAsIC/8MkQzDC/0NaA2jDRoNYw3vDnQP4BDcDSIFsQlr",
+  "CssKqwntCPsIIgcEBlUFpAT7BBoDeQLKAjsCAQHmAScAIf9Z/mP9qP0l/M/8kPx//H38WPwL++j9bvxL/Ff8o/xs/GD8bPx2/FL8OPwF+/D77/wa",
+  "+9T7tfuv+6T7mPuP+5n7ovuy+7v7v/uf+137G/rw+rr6cPot+hj6FvoC+av5TPjn+Ev3v/c09sP2VvXv9XX1H/Tb9H30GvOp8z7y2vJb8erxdvEX",
+  "8NTwmfBN8BPv8u/h79Hvue/Q8ADwGfA78P7xRvGA8wryoPKq8zPzi/QB9J71QfXY9q/2pvdI9zz20Pc39kP1VfQ+9CD0XvUx9aP1KvUz9VH1Z/VL",
+  "9Rr0qPRG9D30O/RC9NL0kPPL8yTymfHe8J/wbO697W3souwx7EHsj+0G7YTuFe7I74TwjPEI8VXxz/JD8mzyyvOK8+30kPVf9ln3kPjV+fH7R/yq",
+  "/ij/kgEBAogD+QVXBrIILAnRCvULrQxdDOYNdQ4MDn0O1g8MD18Pcg8BDskO4g6KDc8Nkg28DisPdxDZEacSxhGgEKkQCRCCEJcP7g9lEfQS3BPE",
+  "FGAVVRR5FDITYRLeEAwPOQ7ZDgMMrAuRCwkK5Qs4C7sMhgy2DKAM5gxpC9MLNQqfCm8KiAtoC88KuQmqCHAHHwVqBG8EKgTdBksHYAbWBo0GbQfu",
+  "CCwHugdcBuQF1ARvAqsA7f8n/XH8IftC+n/7Kf5z/4//c/9W/ur+Af14/BT7Sfs6+pD5Gff99zv2y/aA9mn2K/XA89vwj+6F7wPvFe6o7efuMPIw",
+  "9P32ZfZ29bP05vTM9Dzz9/Op8v/yV/GA8YvxofF48TPxEPDo8Lbw6vG18ory2PNR83XzufJg8ATwFPEt8r/00vW/9rD20ffo+VL62/xk/dD/TQCp",
+  "AfsDgQSqBe0HBQgjCUQKRwtUC8QMbAw0ChUMQQyzDPQN4g6MDxYQWhA+DPMGYgmcCyMLAwosCWIIfQe5BqIGLAUkBLsEPQOOAvQCpgJcAYcAhv/G",
+  "/wP+Uf3N/Wf87vzA/J/8tfy2/E38tf38/Fv8gPxn/HP8dPyC/G/8SPx5/Hb8PPw8/Gz8P/w//C78IvwW/A38F/wd/DP8TfyD/B771fuU+yn60vqN",
+  "+nv6fvp++k355Pl0+O74RPfC9zT2sPZD9dX1ZPUP9Ln0YfP+86HzFfKj8h7xuPFT8PXwh/Bc8DLwF+/g773vwO+176bvxe//8BLwvvEK8b7zTvIz",
+  "8ojzP/PU9Gr1AfWJ9fv2Q/aO9tb1q/aY9fT1yPV49Qv03/Us9Y/1P/Vu9X71jvVS9WT1IPTK9Nn1FfVf9Sr0vvP+8zHyifGz8N3wBe8g7gvseevs",
+  "6/DsK+x77RjtuO5d7wvxj/CP8PDxZ/G68bzyBfJV8uTzzfSx9av2tffY+RT6gfv7/V/+wgA7AbsDRQS1BioHwwjsCZwKbwsTC64MSAy7DRkNfA3m",
+  "DgIN4w7TDS0NTw0IDMMM6A1XDfAO0g9sD5MP3Q+vD9AQRhDEENgRAxHNEt4TSBOxFa0VCBP6EtISZxE+D0YOag12DIcLZAq1CnMKZgqpCwILVgwe",
+  "DHUMSwwRC4wLJAsbCv0KfwqFCjsJdAjiCH4IZggqB44GfAXIBfYGEQZhBsIGqgbaB+MG5gYhBY0E0wNxAhEA2v99/b37+Ppv+bH51PuR/e/+0P6R",
+  "/ir+CP1w/Kn6afqU+jv4i/fE90z22fZp9gH2Z/Ww8/fxau0a7bLuhO7j7e7tP+8A8fX2e/dN9of15vTo9KH0QvP988vzRvKR8izyGPHO8bfx3PF+",
+  "8SDxafIM8rnzevPM8+bzM/Ao71Hvo/Cr8kf0g/Z59zX3Qvhg+db7RPz1/kr/vwEYAkADsAUtBksHbwhwCXsKogtwC+oMNAtuCmcLpAz5DewOiQ7Q",
+  "D1MQjRCHDdwHoAmDC0cLDwpMCY0IiAeeBuMGUAWSBRIEVAPsA2wC6wIvAZkBFgA1/3j+4/57/gb9ZP0U/QL8//z6/M/8p/yy/Mr8vv17/NL8t/yu",
+  "/NP8pvy3/Mv80/zC/Mn83vzy/O782Pzc/NT8zfza/MD8xvyu/Kj8Tfv5+6T7UfsF+tv6yPq/+pD6R/n3+ZD47/hX97v3D/an9k71/fWc9Sz0xfRM",
+  "8+PzZvL68oPx/fGN8P7wpfBS8Ajv3e+474bvfe9174PvgO+t783wCPCN8PfyqvJh8gzykvNq9Cb06vVL9e72B/Zw9qn3AfZ49m72cPaW9mH1YvVW",
+  "9S309fS+9UD1EPUN9N/0kvR89Nn09PS79NP0uvRr8+Ly3fId8IrvU+757qftH+wY69Pr3ewN7JjtXO4M7n7vF++z8DHwjPDL8OfxSvHe8mDzF/QC",
+  "9PX17PcV+Gf52/s8/LX+Nv+sASgCowQgBagG2wejCHEJMQnKCnMK9AtpC9gMUgyvDKoNMgyYDJYMXwwOC94MXA0HDYgN8A57Do0Ozg8bEA4RMRFH",
+  "ET0QxhH4E/EUvhULFHITbBKyEccQ7hBQDdMMtQvFC1YKugpWCk4KUQpcCnAK1wtUC9UMOQwiC6ULiQtHCxQKhgoXCWUI6wi4CLQISggKBxkGkwaB",
+  "BlUGDgZfBpgGdAbEB4kGoAWgBJ4D1ALIAeYA+f/g/l78r/sb+h35OPkY+tj9RvzP/PX9ev22/UH6w/nT+h74w/eY9y72svV19Rj1CfLf8xfw1+y7",
+  "7NTtie4a7djtF+xk7R3wnvKD9In2GfYG9VD1KfRh9G/0BfMl8rDyXfJm8qPyS/D58Sfx6PJG8sTzo/PX82rv++7v73bwJvE581L1VPa/91n3XfiS",
+  "+iv7zP09/s8AdAGlAr4EDAV+BtYIDAkRCegLFwuYC/AL4AoMCncMfw1wDhIOpQ8QD2sQcRCKDX4JyAjeC6oLtAsLChIJKQhGB40GwgYTBXcE0QQz",
+  "A3wC8QJVAaoBSQCk/+3/c/8E/o/9+v2S/Xv9Sf1U/Un9Pf0z/YH9Uv1A/Uz9R/4T/RL80fzB/Pf9K/0S/X/9iP3J/en96v3Z/b/91/3H/av9ev1X",
+  "/Ur85/yZ/EH73/uP+0X7IvsJ+s36jfoz+dD5ffkx+Mr4SPee9xD2k/YP9YX1BfSB9BDzlfMg8pnyIPGo8TLwqPAx79rvkO9t7z7vCu8G7xzvFu89",
+  "73Dvou/58EnxAPJ68bzyKPMk87L0WfUZ9jb2LfZq9p/3OPcj9qP2pfb29s71kPUr9Mf02vTe9Q71IvVB9Vr1IPUX9Sb1BvTX9ND0ofSC9DzzWfIE",
+  "8Njv1u3Z7hrttuyv6+Pro+vQ7Dbs9u257ibue+8D73bvte/n8BHwivEk8cLycPNI9Dv1OfZm98j5HfqO/AX9ff8EAIACAQN1BLIFjwZeByUH5AiM",
+  "CSQJswpACsoLTQusC8sM4QzCC9sL8wvCC6YL6gx7DQgNVw2YDd4OUg81D24P3hFfEGwPfhD0EnkTOxLAEncSEhEOECkPOQ6qDBkLLArVCwwK2QqJ",
+  "CpMKlAqsCuwLIgsgC1wL2wv7DB4L4QttCyQKNwmmCRAIpgjmCE0HsAbrBjAF+QZWBikF6AZEBU4FRAXIB6cGogWGBIcDtwLvAf0A+f/u/rb9TfvO",
+  "+lX44Pf398T6Mfsr+r37pvzi/S37pPlm+UD5Rfc+9jX1fPR19HXyoO9x8MTufOxh7LrtOO2c7bfs8uvz6rLpjepv7UTwivK98/f0kPRy9D7z1/MG",
+  "8uHzIfN489L0Q/Bm7tfwQvGn8rXzgvP881nxN+9g76rwy/KY9Bz1Sfa796f4BfkX+tX8Yv2a/xkAuwI0A0kEfwXaB1EIcAlqCpILbAvUC80KRQmE",
+  "CzkM7A37Dh0Oug9ID6AQchCjDjwOWAktC84MVgvLCuYJtwjeCFIHpQbHBhkFFQReA8wDVALSAcoBhgFZAOIAOP+W/v3+qP42/en9q/2B/V/9Xv1m",
+  "/XH9qv3A/dT9yf2B/fP+1/4D/bz95/2m/mT+V/7A/uz/A/8S/xL/A/7o/rj+ev5B/kz91f1w/RH8oPxC++n7nftq+zn7EPrC+kT54vmF+S34wvgv",
+  "9432+/ZX9db1VvTG9EPz1PNN8s/yQPHT8TvwrvAs763vXe827tzuze7C7rnuu+7P7yXvVu+f763wGvE98jjxrfKC8zTz3/TV9kT2tfZs9rb3LfdK",
+  "9332xPaq9hH1UvS39PX1SfWd9eb2GfYy9mv2JvS19LH1T/U89Rj02/SY9GvzfPJe8Ynv5u3o7hTtvO0t7DHrsuu87APsq+1A7ajuAO5Q7o3ure7U",
+  "7z7vs/BL8QXxuPKU84D0o/W69wz4cvnc+0/82P5e/88BbAKuA4YEWQUUBc0GZwcjB9oIgQkfCbAKQgqyCwYK/Aq9CusLLQskCzELawvkDFgMqQ0r",
+  "D0QOeg5VDhIQgBB1EAMQLBB+EHEPlw+lD7kPyw+tDsUOMw0YCxEK4ApdCrULAArRCvUKwQtPCzoLGQsNCykLUwt+C7ML0QvNCyUKQgmVCPcIaghG",
+  "B7MGuQX/BdwFqwXhBbAFagWABUMENgU0BvoGdgV6BKwECQNHAjoBHv/u/sv9bvvP+jr4uvb29fr2nvfw+Jr4cPfh+IT5BvhL+AL3zfZb9E/zoPNn",
+  "86TxMe7j72buge1s7ajtu+3i7dTtEutv6gTon+d052npROqz633uV/MP9LL0g/TO9FXzzfQg8pXv1+0o7ODvhfBj8aDy6fN68yHydfFy8YjyfPPE",
+  "9OT2I/c1+A74iPmY+z/8l/33/4YBQgLpA+wFQwZkB6gI8woXC3AL9QwyC3AJugoeDMINnA2yDoIO5w97D+gQjBD3D7QS8AyYC8sMqAzjC8kKyAmQ",
+  "CKoIMwcsBtQF4wUIBFEDpgMnAm0B6QGHATsAkAAJ/6H/Mv7c/mz+Nf25/Wn9Rf1X/Uf9hf3S/iL+Hv4P/fv+U//h/04APf6b/ir+3v9K/7X/0gAl",
+  "AFUAOgAW/+r/o/9n/zz/Bf6s/iD9n/0o/Ln8Z/wK+8X7ffsY+q76X/oB+ZD5E/iM9/r3WPa79ib1hfTx9Gzz9/Nk8uDyYvHW8VHwsvAu76LvRe71",
+  "7szurO597mrubO5+7q/uze8X72XvD/Fl8VzySfH58sbzlfSe9kH2z/au9uX3c/e398r3B/Z49br1F/UC9Vz1DvVl9ef1/PYb9e71UPQ187P0dfW1",
+  "9mb17PUy9HbzyfLj8cvw9+5C7kLuEe0n7FbryOvC6/Psfu0S7WXtgu2T7Zztsu3g7i3use9X8Bbw3/HU8tjz1vUO9mD3zPkn+pf8D/2X/y8AqgGP",
+  "Ak4DIQPOBHcFLQXVBo0HRgfkCGUJEQmuChQJ/AoUCmgKegp5CnYKnAsSC5MMRQ0dDt4RvhFGD/kQGw9tD2oPSg88DzYOvw49Dg0OEg37DVAMRwui",
+  "ChgKCQm9Ch0KnwtjC8sLmAufC5ULdgs2CwAKggqbCvQLkgwOC5wKaAnaCRYIhgfcBwsGJgWrBacFhwVTBTQFAQUSBY4E8wTABZ4GBQVkBMYEbAPF",
+  "AtQBkwA1/x79vvvu+gD4M/ZW9Wz0xfUS9gH1sPRB9SD4Rvdx9sX2Y/Vg9H7z1fPG8kXwN+517wfuUu5W7s7uAO1U7a/sW+sB6d7oa+dR5mrlyuW4",
+  "5fPmb+kb7AvtnO/77/jvqe/C7YTqMOo77BPuNu7t8Inx1/JK8nXyi/Nv89zz6/SB9Xr2g/eP+GT5Ffot+8X9Nf6HAEIB3gOqBJMF0QbQCA8JaAq8",
+  "C7kMKwx+CiwJeQtRDOENnQ3ODocPFA+oEE0QnBEOEFsRzg0GDOUNug0yDJgLhArSCdsJDQixBxcGVgX9BTAEWgO7AzcCrwHrAZMA/QCTAAv/uv9D",
+  "/uD+bP4p/c/9mP2F/Zb9yP3g/ir+df5+/kz+PP6Z/5H/iP6l/q/+7P9t/8MAZwCqAOABHgENAQIApQBvAC4AHP/D/0j+vf40/af9JPyu/Ej71vtx",
+  "+wn6jvoZ+bL5V/je+Ff3wPcq9nz13/U99K70EvOG8v/yavHJ8T7wrvAg76jvKO7Y7pHuS+477hTuEe4s7lfuhO677xDvP+9d8UHxZfIM8hXzDfQO",
+  "9WX2wfb391j3qfgW+Bf3xfdq9iD1qPYc9RLz3/Qw9Lj0mvTa9W/11/XP9XL0kfVk9jj14PXZ9WT0d/Q18u/xVO6h7uLuWu1Q7Hrr2Oum69bsROzO",
+  "7Prs9Ozq7K3stuz67WDt8O6O70rwDvES8jfzR/R49bf3Dvhz+fv7c/zN/oD/rgBYAVECEwKoA0kD+QSxBVwF+wZ6ByMH0whXCOYJIQmbCgkKKQop",
+  "CfAKGwrNC5MMTQ0qDVsM/wxpDGMOFw7yD0YPZA+TDwoO2Q2tDQYM/gziDHkLqAqtCgIJ+gorCtYL3QyqDT0M8wz8DH4MKgthCwsKdgpCCkAK/wuK",
+  "Cv8KMQlUCJUIRAd9BpsGBAVlBQ4E9gTeBRwE9ATrBTIFcgSGBHEE8ATBBIQEZQP3AxYB6ACX/37+J/wf+gb3zfXF9OD0NPPM84Ly/PPh9cf3Z/bA",
+  "9fz1JfRS9AnzuvJm8FHvlO7k7k3uTe6U7jLtbe1y7OHrHOqO6dbo0egf56HnDuZX5ivmf+ba59vpb+sp7Gns9+0W63zqoeul7MPuNe+U8K7xNfGe",
+  "8hnzOvPw8+D0HPTq9aj2qffo+MT5uPr7/J79zP9rATMC2QQMBR4GZgd6CJ8KDgroC2ELSwsACcoLCQ0JDiMOPw4vDo4PWQ/BEHoQ6BFhEJ8PLA3F",
+  "D08O/w41DTcMhgsDCpkKKAl+CIUHbwajBaAE7QR4A/sDQAKiAnMB4gESALMAQ//U/2n+8P6m/m3+K/4Q/fz9/v4G/iT+VP5q/oP+xP74/xb/GP+9",
+  "AmEA8wHgAjoBLwIPAc0BLwF0AaABbQEgAQsA5QCqAFb/7P9P/rT+E/1y/Nf8V/vP+0z64Ppk+fb5ivkC+IP4Cvd39vf2UPWU9Pf0UfOx8xTye/HO",
+  "8Tzwn/AM75nvMu7D7mPuMu4H7drt8u3n7fXuKe5r7r7vHu+x7+HxefHV8jXyg/O69Mn2e/ec98f39vgT+P74rvgy9tn2aPci9W/zR/PY9IH0yfTY",
+  "9Uj1w/X29h31/fUe9hD2R/Zv9b/04/Qf8yjwvu7x7yDuUu1e7J3r6ut665jr9Oxi7H7sdexy7CPsIeyN7QPtgO4b7tvvqPCa8b3y4PQB9TL2f/fU",
+  "+VT6vfxD/Zn+lP9hAEgA6QGAAkMC6QOiBDYErQU1BgAGfwc8B/wIawjXCTYJeglnCZoKCAqpC3IMhg1cDS0MCQw0DSEODg8pD0QPrw+YDpANnQzn",
+  "DGAMVAw8C9sLGQp0Cq8LAAsMC9UNDw25DgwOEg30DZ8MugvqCykKfwoDCd4KjQr1ClgJpgihB+0HXQa+BhMFzwVTBQ8FJQUhBQYE6gTlBJMFFQSJ",
+  "A9YDrAQAA/kDtwOfAwgCDwDF/2j+DfxC+dj3VvWE9Fbz3fNh8yPzEPT69Xv0yvQ285PzZfLL8hLxAe+Z7yPvFe6e7e3uFO3v7UDtBe0168LrFOrG",
+  "6hjpGOi/6JLoaOfl56/n+ehZ6QjqCOqB6vvrK+uO7BLsjexC7OzuOu/b8F7wy/Gf8nDzO/Pn85TzqfR49WX2bvej+TL6ivvN/RX+lwA0AfYDfQTT",
+  "BdgHAwe7CJYJ2Ar/CkwJzwmQCzwM+A4rDWUN8A5fDmcPRxACENIRURHREkkQUAzHDrMO9g3FDVIMogwWCvEKlwodCZAIQQd3BooF5wVJBOMD9QN9",
+  "A18CwQHlARwA0gBsAB3/w/9v/yX+5P62/qf+dP50/l3+fv6y/u7/MP+R/6P/x///AFEAMQHPAisC6gJmBZQC6AE0AYkBjgF7AXsBYAFHARUA4gCB",
+  "//L/Qf5S/XP8xvw2+7L7Kvqp+if5ufk2+L34Rfe89w72XfXP9Qn0YPO88xXykfH08VjwzfAn78HvVu7l7n7uNu3o7b7tme217dDt+O5A7pXvJ+9e",
+  "7+LwpfGw8qrySvNB9F31qvd29/H4UvjC+Z76Pfmn+G/3JvdK9VXzX/N19CT0+fVO9XP1EPUw9ff2cPVp9uH27vbL9nD08fTm867zHfDG7xjuo+2/",
+  "7PHsJOuh64br0+wa7DjsCev0673rxewv7K/tKO2c7l3vKfAI8SnyIvNB9JP1x/c4+Jv6I/uP/MD9df5j/yv/0QBxAS8B1QJrAwwDpARXBQMFswaR",
+  "BzgHjggGCEEIWQiXCR8Jqgo5CvYL7QziDOAMNA0hDUUOgQ9qD28PIQ7SDgcNNQxUC+0L3gt5CwAKswqqC2QL8AxYDL4NJg37DnEOSg2TDXQMwgvc",
+  "CwIKUwoRCiAKfQqoCjAJzAjBB6MGxgX9BakFxAWhBVkFOgUcBMoEkAR+BAsEaQR2A28C7gL+A0cDGAMKAm4BhwCf/0n94PvK+Sr2kfT68/jzR/MP",
+  "8wvzPPRe9Zv0UPIU8Vvwt++n7nHtyu037mPuMO3Z7UPtJuy37CXry+t36t3qs+qb6f/pf+kr6PDpE+ja6Uzpyen46lPqBOpK6lrqnOqQ65TsQ+w2",
+  "7QnuFe9G8CPw0/GI8h/zC/Of853zyPSR9ZH2uvge+X/60vwa/aH/QQDWAmMDywWHBtAJegYFBuIIXwkgCqIJygtNDKkNug4qDogOjA5iDs8PShBM",
+  "ERQRwRIcEqERRA2dCzoOHQ5ZDdgNPwx1DMILmgruCbgJfwhjB8UHgAZNBjkE8QTJBDEDeAKyAekBgwEbAPkAdQA9/+3/xv+X/3//df9J/0P+9v8H",
+  "/yv/Zf/N//UALACWALIBHgFgAZsBvQIsAtkEyQV+A70CtQHYAeYBvgFsAXEBeAE8APAAWP9Z/j39O/yU/BD7jPr1+nX55/lh+L34OffF9zb2n/Xs",
+  "9Tv0lPPy80fyivH78Zvw7vBh79rvaO8E7qLuPu3h7antj+2W7ZjttO4M7mburu9P77/wLfGa8jHzQ/ME9CH1TfdE+HX42/lz+fn6c/rc+QH4C/bc",
+  "9QXzwvQL9Pv0//Ta9R/2d/fY9yT2f/XK9hj2WPX89ar1s/V89W/zmPKJ8LbvMu5f7Wzsk+wA663rjuvD6+Lrueud62/rkOvk7Gjs7e197hzu3e/O",
+  "8Onxz/LU9AL1LvZt99v5SPq7+478p/1l/hP+sP9pAA8ApwFOAhQC2QOwBHsFUQYpBrIHBwdOB54H/wh9CPoJWwnNClwK+wvADC0NCQ2TDowPjQ9P",
+  "DwEO2Q41DUYMvAvvC8sLJQqlCkYKRwrcC6oMWAyFDQAM9Q1yDi8NHQz+DEwLcQtJCl4JzQnrCjEKYgqnCmgJwAiFBz8GSAWQBVkFqQXTBXUFKgT3",
+  "BGMD7wPKA7UERAQdAxoCjAIrAlECpQJ0AcoAzQAW/rv9Efsc+Fj16/Rd85PzBPLr8wTzTPM79E31PfRf8Uvwj+8K7dfuZu2H7Y7tZOyD7BXryOst",
+  "6ozp++nt6e/pkumG6Nzov+lh6SHoneiw6aLqVOoW6frpreoc6j3qm+r+7D3sI+wT7RLuw+9d8AXw5fGM8mrzMfPO9D70svUp9gn3RPit+jD7dfz8",
+  "/mv/7QF2AwoFHAZbB0UKVgeqBo4HQAhoCkcLogyMDVENuA3oDlkOtQ8kD3APaBBoEVISGBJREp0SiA/GDN4KXwwzDa4ODg3dDRgMEwtuDEoJzQmJ",
+  "CNkICgdzBfsFnwU6BKAEIwOCAxcCjAH8AZcBPwDYAK0AgQBoAHD//wA1ABr/0v+f/6L/l//UAD0AlQDDAVoBsAIMAokCugLAApACXwKkA0YD6gQp",
+  "BNYC6wGdAacBKgEGAQwAv//t/sL9rPzk/Ff70PtD+pf57PlV+Mn4LvfE9z32n/Xs9Ur0s/QN807ywvJG8b/xCfBr7/jvmO8G7ojuNu307a7tk+1x",
+  "7YXtqu307i7uiu8m77HwUPDn8bvzFfMl89j03/Yj99v5F/np+mX62PrW+er5EfeV9e70vfVI9an1evYV+FD50vl9+Q34jfcz9xD3h/eT9wT2wfYu",
+  "9or1hPQj8e/wvu7D7cLs5OxS7BHr6+u468brjut263HrnewC7FXs2u1z7gzuze+48KXxm/Kf88H0vvXw90z4ovnj+y37yPxY/Pj9vv5f/x3/zACk",
+  "AYUCjQN3BGgFQQXkBloGlwa/ByYHvAg8CLwJIwl2CbsKHAqACycNAg3rDqwOgw84DuQOKQ2KDLwMGwuACuUKIAnbCe8KbQqzC+MMKAxODKEMPQxu",
+  "DEULmguoC54KtAqNCdcJPwkOCXIKVAr9CvsKDAfCBpEFvQU2BTgFxwYEBWMFFwSvBEcD4gOcA5gEBwQcA0wCbwHvAcICQwJOAZ8Ab/8Y/cL8JPnN",
+  "9y71U/P08zPywvKY8o3yg/JP8w7zpPOo8eHv9u+e7mPur+zv65PrResC6uXq6Ooj6Xfouuio6JXoQ+iH6Nzovuhv6BLnuufq6IzpTOl16O7pPem0",
+  "6eXqKeri7Anr++vv7T3uvO+d8F/xMvGk8p3zPfQg9Eb0x/Xb9wP4Gfk0+rH8Rv3C/x0AeAIjBAAFdAbAB10IegkkCWgKdQsNC98MoQ1ADbcNvQ4R",
+  "DnEO9Q9rD6UP9REfEbUSVhKXEosTHRJvEMUM3woNDIYObA6PDgMNTAyWC44Kjwn2CRQIiweqB38GdQZDBgoE4gRzBAkDHgLfAo0CWQHWAXUBKwE+",
+  "ALUBfADKANIBCACcAIoAjQBbAIcAxQEOAaACIAJrAtgDFQNKA3wDcANaA2QDQgMUAuQC+QWSBD8CuQCj/7n/+f/G/v7+Cv0w/JH7/vup+u/6QfmT",
+  "+QX4WPfQ9yz2pfYM9Vv0vPPy81jyz/JA8b/xL/CV7/bvku8R7pruO+3y7artfO1u7Xvtle3J7iPuiO8W76TwVvEX8bfye/NI8+H0qfYc90H48PoQ",
+  "+sb7P/sm+lz5zfhy9sD1/fZv9oz5D/ml+gr6NvqT+rv5D/gH+Jj5afj++Cz3qfcT9s30wvOJ8aDxPu+x70Ps4+wu7DHsPuwP697rveum69bsDOxh",
+  "7JHs9O2l7kzu3u+b8EzxEPIQ8un0CfVY9p738flG+mT69PuM/DL8zv2P/lb/HwADARACLgNfBHYFYgYNBogGsAbKBwsHcwgACIgJCglJCVoJZAm2",
+  "CpkMww4LDfgN5w5jDmoN2gzuDHEL5wtMCqkKNQn1CdwKqAsoC9IMOAxkDFkLuQtjCuEKOgosCtMKkQnFCUkIrwg+CJ8JowtDC48JkgZ9BZAFOwT5",
+  "BSoF0wXrBWQE5QRtA/cDqwO3A5cDUwNhAxACgwGZAVMBwQJEAYT/1f6B/M76zviM9oz1D/PC8w7yd/I98fjx7PI68qnzIvJP8DvvMu3b7WrsieqK",
+  "6lbp4OlA6brpzujr6ELn6+dx5zPnROdF5yLm0+a45rvm6ucx59boluh95/To0+mD6avqAOq365Xr9uvE7WLvE++x8JfxcfIH8q/zU/PZ9Ib1RPaO",
+  "93z4o/pE+9D84v5c/6YBWAMrBNwF+wcBBz4IGQq+Ch4LVgwGDLgNTw3ODgYOIw6JDtMPLg+ED+cQZRFmEe4SixLgEt0S6xMjEpMRHQ2aC4IOsw5T",
+  "DkENKwzODLkLRgueCgoJ3AkZB5gHiAcJBj8GaQVlBK8EhwQSA50DTwLMAnEB/QGyAcsBvwIHAiwBfAGDAQgA+QDZALcBQwF/AfYCSgKyAv8DOwOB",
+  "A5cDyQOjA5QDjANwAykCzgKDAl8EtQX3A9f/3P8+/wP+UP2f/Oz8YfvP+yX6kvni+TH4sPgc92j27PZW9Z305vQo83Hy4/JO8cHxS/CP7/rvie8N",
+  "7pruMu3o7Zvtbu1e7XPtgu3K7g3ule8p77DwYPEh8eLypPNp9A/0N/UT9334zvoe+xP7r/v4/BT7DPn++Iv3Xvei99v6cPrQ+q77KPts+5X5C/iQ",
+  "+E34FPeH9xT20fem9uv2IPTb8qPvvu767jjuzu0+7APr++v766XrwOvu7CrsROyS7Ojtk+5j7qvu5+9m8BPw3/HP8rfzyvTV9gL3P/ii+ZP6LPrB",
+  "+1X8APzH/YD+WP9KAGwBhQLdBCMFVQZABtAG7Qb2B1IH1Qg8CL4JHAlXCV4JUwmqCv4MWQ2RDfwNyQ3aDbwM4gxTC7kLMwrcCqgKswqzCosLSwtp",
+  "DEgMRwxTC7kK+wprCfUJcgmdCmkKWgnKCOsISgfRB98IagjsCWkH7gWjBL4EpgTbBTAFVgVOBUgEowQ2A7oDXgNhAyACtwJ4AsMCNwEJAMQAwAC8",
+  "AVr/jf4D/CH6EvhH9pX1DvPv8yPyn/Iy8cvxvvIq8v3yJPDm71DtT+y87IDrv+qf6j7piugZ54XoNucK5nbmIuY75fDl1eWn5XblSeV45d7mi+aP",
+  "52DnTOcK5u7nsOg26L/puOqM61/sbuwB7TPu9u/D8KvxX/I18tXzv/Ro9Qr2MPbb9/D5gvsN/F39s/9EALQCGAOfBSwGfAfaCE8IwwwACu0MKAy7",
+  "DXYN2w4/DpsOxQ8HDz0PjQ/iEEARCRHCEiwSyBMWEw8TDBOcEzwSNQ/UDC0N7BAQD/gOog3yDOMMQQsOCusKeQlOCC0IdAgrB5kHLgXuBZoFQwUB",
+  "BHED3QODArkDGgI6AisCBQKLAhsB5gG9AZABxgGmAW4BsgHYAkwDCgMzA6ADgQN1A7QDgQNlA10DbANbAzkDEgLzApQCGQJlBxcE3P9I/ur+gP3g",
+  "/Uf8tPwb+5T6+/o3+Yn48/hO95b3FvaM9eP1FfR787/y8vJU8cjxO/Cd8AjvlO8Y7qjuTu337antee1r7Wrtl+3k7jPupe8z78zwg/FL8gzyvvNy",
+  "9Cf0p/SG99r5yvpp+2D8Sf1C/az90vw4+hn4gPk8+cL6u/tz+9D8D/yW+w754/o3+Vf5LPjw+In4e/fV9yz2YfXK9Ujx9fG27+/ue+2V7BTpBeex",
+  "5sPnbejc6aHrTuyH7Y/t/e4/7fvuau9e7/3wYPEy8iHzHvQ49X72ovft+ND5WPoP+p/7TvwA/MD9kP6R/5sAygJEA6cE7wX5BqQHAAdIB8cIXgjY",
+  "CScJlwn8CecJ3goHCtAMMQy8DSMNJQ0iDOAMcgvYC0EKpwp4CnAKgwqPCmALJgu/DAwL2gvKCs0KFwnECWAJFwmuCyIKWAmhCO0ICgdBBv8G6gb3",
+  "Bp0GJwUMBHsEYgSNBPYE3QTUBOQEHQOSAxkC/ALPAoECHQHpAh8B3wC1AGD/5//LAE3/7/4v/An6Ofiy9vX1hPSL88DzY/KY8d3xsfHt8nDxq++W",
+  "7yDseex069zq4enz6TLokOdj5bDmfOXy5SXk6uSg5H/kNuP25B3kBeO15K/lXeaM5e/louSk5Vvl7eau52vohei36eTsEey97TTu1O/M8KLxWvKA",
+  "8vP0D/So9X32x/ef+Qn6kvvp/Uz+fwANAWMCogQaBbEHkwieCUwLyQy8C80M/g3MDlsO2A8sD1sPiA+UD9EQCRBXEKYRhxIbEosS/RNDE0cTQRPh",
+  "E5QSwBB/DZUM4g70DuIOwg5PDdQM6QwmCycKOwnlCNwIpAg2B+IHbQa/B2sF7AZ7BXkEuARlBA0DqQNaAusC1gKcAn4CLwImAhsCCAIUAhQCawKm",
+  "AzwDbwM6A9gDqgPhA4IDYgM3Ax4DEgL3AtgC7wLsAtgC1wJkBSgDE/9l/wj+rP35/Vr87vxz+/D7RvqP+e/5T/iD99r3Ofaw9hr1cfSs8+3zK/J0",
+  "8eDxP/Cz8DXvuu877uvupO4r7ejttu2B7ZHtuu3z7kTuve9J7+Xwq/Fy8lfy2fOf9Cj1EfUW9ln4gfnD+u/7zf1t/ff+V/15+u36yfq5+1z7l/wW",
+  "/I39Hf1Z+y/7LPqN+tT6avmv+Zz4XfdL9n71q/Wi9UL1YfUL9Vn0uPIN7rnqXuew6DHqV+pS6ELnxemW687tJ+047X7uT+9J78zwL/Da8Yzyl/Og",
+  "9ND2L/cy9+34kfkx+eX6nPtR/Bf89P37/xwAYAG5AxsETwVSBgcGnwckB9AInQkfCYgKCQp4CmwKOgo/CisLOQzrDT4NtgyLDDsMAQuSCyEKxAp8",
+  "CkQKIQpUCo4LAAu1C1ILDAqFCfcJSAkoCPwI7Al3CpAJ7Aj3CJgH2AcIBl0F8wXPBSMExwSgBEoESQSRBO4EwwRwBCYDhwNCAuoChgI0AhYBrwGO",
+  "AV8BKwAy/4T/kv8d/zj/1P6d/G36f/kJ92z2HfWF9Sv0tPN58ozyofJp8hzwbO7z7Vnq/Otr6u/qIOko57fmXOYf5Q/j4eR/5DPit+MW4tzivuLZ",
+  "4sXisOKT4rfj+uSs49jiSOMh5CnlEeX851vok+jf6Q7qk+x/7UPup+/E8KfxdPKY81DzifRK9lT3uPhk+bz7Efyw/YT+nQBTAeoDoAU5BwYIpgm4",
+  "C/MPQg53DEwN4A77D3sPmBAFEDQQLhBVEIQQoBD9EXUR/hJ5EtsTQxOME5UTghQkFAITghFCDm8MFg89D/YQrw6xDiwNEwyLC+gLFgpICdAJawjB",
+  "CGEILwfaB0YG3gbZBjgFiwTaBbEE0QQrA9IDgQMhAtgCzgKJAmECXQJbAosDOgOiA30DPwN6A1sDgwPVA20DjAM+AwMDBgLVApQCqAKsArcCrAIw",
+  "AVoAhP/M/2L+y/4z/bL9Lvy1/ET7rfrq+jz5mPjT+DD3efbk9lX1rPTw9EzzgvK/8hTxZPDi8HHv8O+F7yjuxe5p7hrt3O237bzt5u4o7oTu3e9u",
+  "8AzwvvGO8kfy+fOh9FP1NfZW9w322/jX+mv8rv1D/cf+Zv28+0X7i/sI+5z8D/ze/VT9jvzN+7f7uvtu+zj7DPuc+0L6KPnT+hn6IPgt9xH2S/UT",
+  "9Ivy0PEX79/uQO9o77fuZu4n7znszufS6WfsHu0X7aPuO+7R767wHfCf8VDyLPM/9Fj1hvad9yj35vh3+Rn55/qq+3v8Xv2F/q3/8QE4An4DtATD",
+  "BaMGUwcHB7IIhQk7CaUJ7wolCmwKNgpGClcLFQzQDKQNjAwNC4gLLwsOCvQKyQqrCn4KewqNCqwLLwtBCpYKUwnlCTkIwAjdCKIIdQjJCVMI+whC",
+  "B84HXwavBdEFUQUHBEoD6wRqBEsEpAUPBNgEXwP4A88DUgMCApMCIQGsAWABHAEFANEASQAO/47/RP7X/p7+gv5O/K/7NPmp+EP3cvca9rf2LvTf",
+  "83/yxvIT8LbvZu617JXqhuqs6fHo2+fk5uHlIeRP49ji3uHC4n7hweGC4fLhhuD44Uzg0eC/4dfijuGJ4LXgr+H241vkYeXF50joUei/6I7pa+v2",
+  "7U7uwe/v8RnxuPMP86n0a/Vn9mT4Qvk4+lT74/0E/h0AOwG1AxcE0QZqCEEJ2gr9DWcQ7A/XDNsPiBDEEIYQlBDMEOoRHxEqET0RWBGwEkASmhMB",
+  "E10ThRPdE8sTyBRxFIwUWBMTDuoMQg+mETcPyhAIDmYOiwyrDCkLsAsECosKFgl9COQJQAhjB/IHcQccBnsGDwWeBSsElQQ9BB4DxQOhA3oDJgLA",
+  "ArECowJTAr8CvwL8AxgDOwOOA6UD0QPKA/YDrwOFA0MDGgK7An0CdAIsAiYCDQHgAWQAtAAE/3P+x/5Q/eP9bPzx/HP77Ps3+qn59/k4+Jr3+vdq",
+  "9tz2FPVN9JHz2vMU8oPx0fEq8J/wPO/J70ru8u6b7lLuFu4g7gLuD+5d7tnvAe+D8DDw7fGw8mbzGvO39HH1efab93r4W/gv+JP6avyw/h/+rP9D",
+  "/Xf8n/0y/gf+Hf2f/iX+mf3m/Kf8pv0H/cn9oP1W/Mb79fs0+pf5ifiu98b2CvSi9EHzKvFL79DvNe6i7lXuWe8R76/v/eox58XrVOzQ7LntP+3E",
+  "7szvjvAY8Njx5/Lf8+P1GfYa9or3N/fJ+I/5X/op+wf8Ef1C/mf/fgChAdcC+QQJBPYFuwZlBycISAtmCdMKlgncCeQKQApmCroLogxZDJENOQvl",
+  "Cq8KaArPCsgKxwrcCt8Kuwr9CzMK+ArICW4JHQlzCQMIYwhxCCIIAggoCFEIKQdbBroGhwYFBYQFGATOBD8EFQRrBCkEfgS/BFYD3wNsA0wC6AJu",
+  "Af0BzQEyAOoAuQBgABsAMACH/8b+t/5o/ef9qf46/KL7Y/oz+TX4dvfD9yL17vTM8/Dy9/Hh8JHu6O2i64LqJun76RXn5ubB5bHkduMT4obhmeDL",
+  "4I/g2uCw4JngSt9+3vje999p4FDgAd8t323gSeF/4q/j9eVo5vjoL+i26Afp/ewx7aju4PBn8aXyRvN39BX0cvWF9tf4cvpt+2r8d/2J/5ABdALT",
+  "BRwGXAe3CYALOAwIEAcQpg7IDPsQKhFhEXURihGwEcMR/xH5EiESIhJsEwETMRNvE8oT9xP9FCsUIhSwFPUU+BSSD3IOIBDeEIwP2hALDlgNoQ4u",
+  "DBQLlAtnCswK/wmaCUIKCgjgCGYH7weoBxYGewYhBcoFKgTTBKAEUgRnBAADoQM8AtwC5wL4AvQDBgL7AvUC/gNCA2QDxQPeBAcDsgO+A50DPgL7",
+  "ArkCSgIDAcEBoAF1ASsAkP/+/1z+xP5O/h39vf0t/Lj8N/uR+wn6Z/nV+Tf4jffd90f2tPYB9UP0hPOr8uLyNPGL8OrwZ+/t74XvOe7X7oXuXu4q",
+  "7inuTu6R7srvIu/D8HjxDPHB8ojzL/QI9Jb1p/bM97b4cvlE+fz6UPpr+1D8/f8A/qr9CP2K/wf/af73/0b/a/7J/1L/0P+b/1z/Ef6X/gH9NPwI",
+  "+wf6Uflp+HP3HvZR9XD0k/O18sHxrfCo8Bbviu/A79fv7O9v6Azqo+yw7gPuBO2H7fvuu++W8GnxQPKI8330tfWY9iX2xvd2+Bj46PnK+rD7m/y7",
+  "/eT+vf/OAP8CBwMDA/ME7wXbBs0HhAhJCNUMJgnTCTYJwgoWCpcLnAu9DFIM+gxqCs8K4gskCywK6QrnCtkK+QslCzcK/wp9CLEIowjnCLMIFAgi",
+  "B+MHkgeVB9sHuQdXBocF+AWtBVkFCgSRBBkD6wPuA58EMAQmA8EDcQLaApUCKAHXAW0BIgC0AB0ABQAB/6P+5v7lAGr+mv2v/Sj8gP3p/L37PfpK",
+  "+dH4/vfC9qP1g/Se86bytfG78FTujexR6xLp2OlX6Djm9uXQ5LTjn+JQ4RXged/o30zfv98z32TfYt7a3fnddd4Z3bjdU94i3wjfhuEH4k3jsOU8",
+  "5vLoGuh258fqJexm7cjvKvDR8fLyqfPH9Kj1dfZv97j5cPtF/SH94f72AJgCTAOtBVcHCQjZCogMSQx5D90QnBATEEARNhCEEcMSZRJ/EpsSjxLB",
+  "Eu0TChNME6kTyxQMFEcUXRR1FGIUZBT6FWsVexNnDnEPeRD5ESIQRQ+pDuoOLg2EC/ULyQuCC4ELKwrXCdIKCQk+CNgIxwdrBuEHfgZsBf0FmwUe",
+  "BPAEsgTMBG0D+gN5A3EDaQNOA2IDNAMYA0ADSwNHA58DKAPIBA8ETQPTA7wDawMkAskCbgIVAcIBWAEOALsAUP+x/yX+vv6C/lL+Bf1+/QT8k/wB",
+  "+3D64Ppt+hL5jvjf+CX3UPaN9c709vQP80vyhvHl8VLwufBa79zvbu8A7rHuiO5w7nzude6r7vbvce/18JPxOPHy8sXzXfQP9NP11/bU98z4tvl1",
+  "+jz69/uu/EH8Uvx0/Gj8B/31/egAXwF+ANUArwDlAaQBrAFSAGj/wv+L/rv9xP0C/Ef6mfoJ+Pz3zPez9qP0+/Q484Lyc/GW8ULwdfC48IHvkvBF",
+  "6l7qSezR7Knstuzs7aPun+9D8AvxDvIb8yH0BvUK9e/2bvb296j4g/lj+j37DvwA/PD94f7Z/+YBAAIZAxEEBQUDBgkG2gf8CbMJ3AhUCHEJDQmr",
+  "Ct8L5wt6DBQMgAz3C3MLlgvDC6ELXAsSCvELEQteCwcKBAliCUcI0wj+CLwIPgffB3QHiAfeB/sH4gdkBp0F8wVKBVgE5gRgA/IDqgM0A0EDvwOS",
+  "A18CxAIbAX0BjAFMANoAbP/u/5f/YP9O/u7+Iv3g/2T+kv2L/Ln8Jv0D/Cf6uflx+I/3mPaZ9bn0j/Pj8tbx3/Dd79DuSOw+6sXphuiv52fmF+Tp",
+  "4+jiyOGW4HnfeN8V3mbeNd5D3b/eZd7L3ijdQdy63D7cnN2k3kLeWeCo4e7jf+U95sbn2+fY6IvpD+xE7fPvcfEa8lHzDfRH9Z72jven+PD6f/yN",
+  "/kH/M//RAUsDSATgBnsIPAn3C7INHw0xDjsQ/hK1E68UgBEmEhUTXROTE4QTeBOCE2ETjRPGFD8UXxSiFLsUvxS2FI0UnhVFFWAVdxC/DIsQwBFQ",
+  "EP0QTA97DwMOZg1ZDkENNQxFC60LQwumCoQKHgqpCT8JZQlbCIMHZAbaBncGEQWPBYIFUgVaBNoEXAOGA54DyAPQA7gDmgN5A28DeAOrA4QEAAQb",
+  "BFAESQRhA+oDugNTAvICjwJQAfYBjQEcAMEAYP/P/1D+8v6s/oT+Rv3w/Xv9Ivyz/Df7s/s1+p/58vlL+LH36fcI9jf1Y/SQ87Hy/PJX8c/xT/C7",
+  "8DHvvu9X7wDu3O7M7r/uyu7v7y3vjPAq8MzxYvH88tXzfvRZ9Sf2Dvby99740vm1+lr7HfvW/IP9Df1g/Zf9ivxa/Rj+Xf7dAC8BAgFsAhcCKwIt",
+  "AVgA6QA5/8X+6P2t/Qz7R/pF+RX33/c19kj0ifMg8mvx5/G08XfxZvFe8UHv4/DB7cnrIuz77SftXe187g3uq+8f76XwKvER8jbzfPSt9fP2Yvb8",
+  "96H4NfkY+dX6m/uD/Gv9Rf42/zUAJQExAjgDHQQWBQ4F5wZ2BuIHIAdvB+gIZAkzCgsLVQvMC+kMNAyTC94L/Qw5DDILwwtsCycLBQtcCmMJ3gme",
+  "Cc0JXAj5CL0IIAe6B50HyQgpCDEHsAdNBsUGBgVvBSsExQQwA8UDKwKlAoACzgLRAvkCKAFtAPcAwwDHAF//yv9n/w3+n/5v/qz+yP+H/0r+K/zf",
+  "/Hj7uPuT+jv4+/iA96b21vXh9Qfzy/Kn8aPwde9x7tvtk+uw6dbpDuf35pXlV+Q14wHhyuCz36Leid4j3dHdC91J3Frdwd5l3jXdGdwp24Pb69z/",
+  "3gXeV9/54YLjV+U+5sDnruex6CHpl+x67brwHPEL8rzzmPSa9h73UvhO+bj7Tv0q/xoAfAFYAmwEKAXmB38JTQrzDIsN/Q70DsgSPhNzFBEUwhIe",
+  "EZET/xSPFIgUVBRFFCoUUhRsFPQVFxVYFXgVAxSuFHoU2xUjFLMR4gxoD24SKxHIETUQeA/fD2kOvg4dDTINmwymDDoLtguGCycK5woiChAJgghw",
+  "CE0H7QegBzAGvQZABggFpgVxBTIEqASsA+IEEARJBEsD7wPLA70D+wO/A8ADxQQSBIcEigSRBFgEGwO6A1EDAwKvAlwB7wF/ASMA5QBq//j/ff8g",
+  "/uz+nP5V/fz9kv0y/Kv8HvuQ+wD6W/ma+Of4JPdl9qP12vUB9EbzevLZ8kTxu/Ej8KLwJu+6717vMO8e7xzvJ+8r73zv3fBc8PDxkvI18v7zs/Rm",
+  "9T/2I/cZ9//45/nJ+pX7Pvvl/Ib9Bf06/a/+Fv5q/mz9r/4d/uP/if/XAbICqALCAicBzAC9AC7/Y/55/X38yfuD+Wb3dPZ39eb1sfRH8m3xBPBj",
+  "8ETxrfI08RPvrPDe7TjtFe397Xft5u407ojuuO7r70nv1PCC8ZDy1vQH9WX2K/a691j4GvjX+Yb6Ovr4+8n8m/2j/qv/sgCwAaoCkwN1BGEFFQWl",
+  "BiYGcAbWB2UH3AhdCOILLgukDBkMAgweC/8MPQyjDLMMBAtbCyAK5Qr7CnkKLgovCXAJNwjBCMAH4QfFCB8INwhwCFwIAwdcBsoGPAWhBRQEswQn",
+  "Az4C6gIgAgkB7wHGAYcBKAB9//z//P/v/8L/fP7d/nv+Lf3f/m3/Ff9E/rv84vx8/DD7bfod+W34l/et9tn16/Tj9B/yl/GZ8CzvVO6O7eDsOesQ",
+  "6cvoaedh5frkv+N94kLhB9/o3tLdrN083P/cGNu43Gvc3N1H3Gnccdur2lHbCtw73UjeKt964ULjP+Uz5ufnVeef5+jq6ezl7f7wqvHz8130e/VS",
+  "9rL4OflF+oH8Hv4CAHcBogJUA2AFQAbXCLoKewv7Dg0O7hDaEx0T/BSAFYoW1ReSEocUWRWKFaEVYRU4FQsVBRUJFZ4VwxXdFegVGxSlEs4SHRLe",
+  "DvMN2BBLEkkSZxIbEWgQpBAsD4oPKg7BDhkNeQ0VDN0MUwvEDBcK1gqpC5UKIwn3CPwJGwiSB+MHfgcfBqYGFQWjBXwFLQTWBDkEFQRHBGsEQQQs",
+  "BBYEbgQpBAwENQSDBJ8E0wTVBKEEQwQBA80DjgMbAvECZwINAc8BbgEEAJgAJ/+u/2f/EP6//lH98P2B/RH8ofwP+1b6v/oA+Sr4dvep9v72RvWS",
+  "9M70A/Nl8sHyJPGK8RLwofA/7+/vvO+Y74TviO+q7/XwQvCy8UHxxfJ+8ynz9PSw9Xf2Tfc7+BT47fnI+pP7RPvv/Gn8sv0g/Zv+L/6y/0v/t//5",
+  "/xn+pv8L/+cCNwNYAtkCKAEzAP8AH/9d/l39r/v9+ZD4Jvjo+ef3mvci9mX19vR58sTx+vNz8S/xJe817LXs2O5A7UDtp+4N7nPuie687xDvZu/7",
+  "8P7yPPN99Kj13vbA90/4Avih+XP6Ovr8+8H8pP2B/m3/WQBMAToCKwMJA90EoQVNBbEF/QZxBwYHWQfQCE8KqAsGC2wLywvWDOUNCgzmDIgL8Qtf",
+  "C0MLLAriCncKLgnSCSUIzAiXCOoIdQhTCKoIwQioCKYINQeGBxAGYwXMBPwEbwPJAvMCSQGoAU8BHADeAJYAEP+k/wb+xf79/zb+sf42/f/+e/4V",
+  "/jn+p/17/XH8g/vK+336yPlS+Ef3tPai9hP1LfUX8wPwT+7M7bftae1E7Mrr1+rR6Vfn9ubM5XfkLOLb4aDgbN8u3iTdBdyQ3EDbodrZ20zb7tt5",
+  "2xjb09t62VLaV9uH3Mrdzt894TjjL+Vf5uvnNOf+53XrS+0t7qLxQPLR9DH1MfYq92n4+fo4+1j9Df7NAGsCNQNgBKkGVgf1CdQL0g2gD1oQOxKY",
+  "FFYVQRWFF2UYJxmGFasUMxZXFpUWSRYDFeUVyxXoFqsWoxaTFv8TuRPeEP0OzQ/5EhwT0xO2E2kShxHWEUsQ9xBgEBYPsw9IDpMPCg3lDW4NIgzz",
+  "DH0LVAtfCqAKhQruCfcIzgnaCKEIVQfdB00GsAY4BfgFmwUOBMkEUwRCBFUEMwRmBDkEFQQkBBgE1wSbBKoE5wU2BRoFCwSZBDYD4QObAz4C8gKF",
+  "AjQB6wGLAScAtgAm/8z/hv84/tv+Zf3q/Xv9Bfx/+9H7JfpU+Zb40/gv92X2tvX39Tj0mfQL82Dyu/Iq8b7xR/DX8IzwS/AY8AzwAPAj8GTwwvEs",
+  "8bHyL/LY85f0NfTp9bT2jfdd+Cf49vm++nv7G/uc/Br8kv0c/aj+Mv7G/0b/1gBLAKABDQB5/7kCXANIA3gCTQFQAHD/sP8v/pP9svyj/IkAAf34",
+  "+wL5OPl6+UH3jvbq9dL0VvRI80jw7u+s7dvucO6A7XztlO4Y7kbuTu5u7trvYe/u8J7xZPJr8/n1RPZV9z74GvjL+Xj6MfsY++X8u/2J/lv/MgAI",
+  "AOMBvgKQA1cEEQTLBXEF5wYfBloG1Ad0B8oKOAsDC0MMIQycDcoNHQyDDFYMCgtHCzsLZArLCi0J7QmBCRYIlAlUCWgJGAkECXEJuAlVCVUIbQdu",
+  "BxUGnwWyBOwD/wMaAjYBdQCiAAn/0////+n/fv8Z/rn+Of2p/ez9wP1e/PX+RP5x/gv9fv0Z/MX8M/sj+sD6VPjn9//3EvZO9dn08/N58bzuuu1e",
+  "7KfsJexh7GLsLerQ6ULnsuY65NXjsOJX4Q7fut6e3XncZdup23jbA9o22f/a4trv2sDa7dp92ZHaCdsO3Ezdut8G4SbjMOWb50rnbOhO5xbrQ+3+",
+  "74PyBfOf9Q/2GPci+Gr52/s9/Hf+Bf9sARQDHAQ8BboHfAlwCzMMrw5PD4ERghOAFFEV1RU2GB0ZUBlEGQcTaxbgF2UXNRbiFsEWthb2F0YXPxdS",
+  "F3sVgxf0FegVFRRGFM4VlRTmFAMT/RH5EZERFxEZEIUQJBAlD6YPVA7RDhMNpQ3kDO4MmQumCsALBAoaCZ4KVAnBCQoIjwg1B+QHawbhBmIFzQWY",
+  "BPQEswSsBG0EDAQCBA0D4gQbBJsEkASuBMkE9AUwBcoFOwUJBOEEWgQAA9ADWwMiAsMCZwIlAcMBVgDoAGwAEf+5/1/++v59/f39ZfzZ/EX7jPrF",
+  "+hr5Z/ie99r3FPaE9cn1L/SS8/3za/Le8lzx5fF58TDw9vC68JrwnPC88O3xO/Gj8hHymfM289/0pvV79gr2qPdg+Cv49fmZ+kT66/t3/AH8ev0S",
+  "/bT+Mf69/y7/uQArAIABGwGoAX0CdAQaBVoDqgJ1AQMAVABy/1/+Qv7//iL+Sf+B+xj6dfvG+rz58vmF9zT09fOp8EruYu9l76fv+++g7q3uGu5z",
+  "7nLubu6A7svvR+/t8JPxbPJZ8130sPX/90r4svmf+kT7CPuy/Hf9Nf34/rz/iwBaARcBzAKKA0wD+QRzBQ0FqQYmBicGqwddCCgJ7gs8C94MPQzO",
+  "DI4M7AzCDKYMbQueCxUK5wqOClEJ4AlqCXsJNQnXCbUJhAlJCZMJxQkJCOMIDwd2B0IGcQVaBLQDewInAWUAR/+p/2//f/+5/0v+z/5y/dv9rP0U",
+  "/MT8/Pxo/BL89f5s/Wj9O/1B/NL7N/sv+nb5ivjg92X2YPWE9RX0GfKJ77TtDOwP68DrPewl6/zrduqi6UHnz+YK5JLjOeHH4JffRt4l3Pbb89si",
+  "2rLactmZ2TractpW2jLaO9p52rzZ5drX3AHdtN8J4WnjT+Xs567oGujZ6Dnr4+7O8Lzyu/SP9jX3cfg7+Wn63fxU/Z7+3gCYAmgECwUaBusI1QpK",
+  "DAgNkA8FEIITExMjFTMVlxSuF5QY4RpuGpET0ReCGFAYBhe7F8YYFBflGBwYFRgbFuQXrhebF8UXnhZoFWAVsBXhFR8VSBPPFboSPBP/EeUQvBDk",
+  "EJ8QSQ94DsUN0A2eDUAMpgvZC1wLxQt7Cw4JmwrGCk8IkQhxB/kHigcgBvUGZgXRBUcE/AT0BKYEKAP3A9kD4wQcBFoEWQSMBMsFJAU/BTMFQAVe",
+  "BQkFBQSDBIAEZQPDA1sC9gKhAk4B+QGXARMAqwBS/+j/cf7x/nL92P03/JH73Psv+o358vk8+Hb3qvb29kP1sfUx9KX0DPON8wnyl/I+8eTxnfF0",
+  "8WDxZPF58Z3x2/In8o/zA/OI9D301/V79jL21feH+Df48PmW+jP64fuB+/P8ff0Q/aD+Hv6j/xH/lwABAIQBCwG4Ak0CdAKpA/EFzwUuBDAE0wWo",
+  "A+YAlQDf/yH/T/83+5/+NPyw+237Cvou+Nf3AfSZ8vzyP/Kk8wbyD/Bo8Erve+7f74bu2e7e7ybvcO/s8Kbxi/Jd80r0dfXG9w34WfmY+lv7L/wC",
+  "/Nn9n/5M/vv/zAB1ASEB3QKlA0gD/QSgBSoFrAZMB0QHugdYCC4JAQnSCy0MowyHC6cMxA1PDaYNGwvrC1wLFQqMCpUKCgmvCh8J/QoqChcJ5gnH",
+  "CWoJQAigCCcH3geTBx8GZAWXBKADXQI5AY4Awf/F/7H/GP7G/i39+P2d/Wr9Jfyt/Cb8Dfvk+3D7f/wy/Pr8uvyr+9r7Kvnn+LD3/vdw9mL1CvSp",
+  "9BDypfDn7Zfr0+tv6v3qiuuu61nq5+pT6TXnseYc5IDi7OFh4C7e8N223Jrbk9rG2mLaJdlF2OPY69nw2SnYy9p+2zbawNsA2+bde98C4WHjZeX0",
+  "597pOelO6Knsw+9K8fnzh/Vh9xr4qvlk+m37y/08/qf//gGmAwoE4wZdB+8JtQtIDQwODQ7xEewTqxQsFQcV9BdJGkMbmBvfGUgVhBgCGU8ZIhjQ",
+  "GQMY/hkGGHIYohmFFtkYtRiBGCwX9RgPFygXexdXFuwW7BaMFG0TgBSAEyISsRMgEcsRTRCKEAoPEA6hDccMzww4C6cLKgrZCxsKYgnkChwI3AjH",
+  "CHUH4gdiBugGbAYQBb0FdgVCBSEEvgQRA+gEAgQ0BDwEeQTNBMkFAQUdBR4FrgWZBWQFRgWFBQcEvgRvA/IDsANPAuECgwI1AdoBagDaAFv/8f96",
+  "/vL+V/2w/P78UPuu+w/6bfnW+Qn4ZveS9ur2RvXT9Vf03PRa89/zZPMA8qbycPJF8i/yKvIt8kPycPKv8wHzcfPt9H/1B/Wg9jn23fd7+Cz45vmh",
+  "+kX66Pt7+/j8e/0I/Xn95/5j/tv/Zv/TAFkA1QFvAhACyQOXBDcEpwWJBfgFrgXgBbUE0QN4AaUAswG5AAT9/vyS/CT7wvsT+l35APeh9lT1ffTA",
+  "9Hrz4vM28k/xnPEK8WPw1e8j7zfvk+/H8GTxZvJ583H0XPUR9kv3sPjS+jX7S/ws/R394f6p/1H/7gDRAbACSgLQA2kD/ASPBRYF2gaEB0sHTAeC",
+  "B8wITwjeCV8L9AzDC9IMlg08DaINJQwSC8ALPwqtCswKnAosCj8KYAokCaYJYwkUCLkIewiPCFUH4gfTB2wGkQXmBKsDOwJMAQb/2/9D/vT+pf4N",
+  "/Z38pvyc/Mf8s/xK++D7l/ty+vX7H/tk+7z7z/uM+7H6ffhy9uX2GPXC9Ojz3PMQ8g/wve8A7AjrKOrV6hnqvOs86ubqOum+6O7noeYM5ILi9OFn",
+  "3/3eqt1a3Fvbcdqu2i/aK9kA2MfYjdis16PX39o128faytp722HdBN7o4RrjOeW76GnqD+ly6NTsh++r8oL0FfYc98X5d/qO+3b8p/3j/2gBOwK0",
+  "BEYF2wbnCIAKLgwfDQQOIhECEtwUIRTcFYgW3hoyGfYbDRvbGDAT+xg2GgYaDhmzGb8Z+hptGIYYexgFGPgZCxjDGG0Ybhh2GDYXxheaFy8W0hbW",
+  "FIsUbhWZFEsTfROuEuoR4RMqEPoQGg8iDooNrAzsDFAL0AsaCloKngoOChIKGgkpCKgIJwduBu8GwQZiBhYF3wXDBf4FXwR2BGkEJwRbBEoEWASb",
+  "BMAFMAVGBXkFoAVkBdIF9QX1BasFRgUNBKAERQP2A4EDEQK/AmUCCAGDAP4AiwAA/3L+3P40/ZL84/wu+6D6/vpQ+ZT49fhW9733Lvaw9if1o/Ux",
+  "9LX0P/PV84fzUPMc8wHy5/Lz8ujzDvMy83TzzvRD9NT1bPX49mr29/eO+D745/mT+jj60/th++j8XfzR/Tr9sP4x/rX/IP+BAAYAlAE5AesCggNP",
+  "BDAEQQSFBJcErASdBXMGpgh2BYgBtARyAT7+Iv1D/Lv8I/t9++r7X/nq99X2xvXj9Vb01vRt9BXznPM08wbymPCu8GDwQfBH8L3xVvJP81D0TfU6",
+  "9lj3d/ik+cX7BPxI/Un+av+EAF0BGgG9AkACwgNiA/MEggT/BXEGCQbOBqcHOQdqB5gH5Ag2CIkJAgpyDDUMEAw+DIYMNwvmC7MLAwrSCtcK8Ap0",
+  "Ch8JpggyBz0HjgepBz8H9ghBCH4IzgfbBtsFuwTZA/QDGAH3AHj+7P3M/Z39tv0+/RL8XPuR+9z8L/v2+4f7XPsM+tn6xvsI+tX7C/rf+nX44fcR",
+  "9az0p/Q481nyjvGy8JLvle0O66frG+qf6tPrD+sM6l/p4ukn6Hrnm+Yf5Iri++GR4Cnetd1y3GDbWdpt2g3aRNjg2JjYMtgH1znW+9jF2cTYz9mL",
+  "2tzctt6i4QHjWeXF6Kbqnepa6s7rhfA48tn0Xvbi+KP6Ofvz/Rn99P7KAC0CPQO4BZAGwghICWwLIgw1DaEQOxI1FL0UthYGF0kZ/Bl9GbkaRRtl",
+  "GQgRrReJGmkapBpUGjsa2BnoGZwaChmuGZcZThkeGRUZLRjpGJsYcxfsF34XOhaKFikU1xS9FCcUUhOQE04TnRLlEY8QtRAvDvkOPg2jDKkMEwt3",
+  "C2ULBQrQCZ4Ksgk8CNYIGwhbByUHFwZwBhcGKAZRBicFugURBN0EdgSxBIwEigS3BQQFJgWGBZAF9QXqBjIGjAYtBlQF+QWNBTUE5QSWBDEDzAMz",
+  "AssChgIEAW4BAwCUAAT/e/7u/jf9gvzQ/DD7ivrg+jr5nPkg+KP4JPeI9wr2g/YQ9Zz1HPS79E/z9PPD85Tzh/Ny83LzmPO/9AD0UPSu9Sf1wvY8",
+  "9rT3K/e4+FH4+PmF+iD6tPs8+7j8MPyg/Qv9gP3y/lz+w/8y/7sAWAD+AakCZAL3A3MD6gUBBQoFXAWCBLoHhQo+B9YFOwfeAkP+x/4x/Tb8Rfzs",
+  "/ZL9J/rc+Ub5j/ik9yD1y/VP9PjzpvN185bzQfMS8hbw9/EQ8VPx3vKH81T0cPVv9pH3lfij+aD64/wj/Vn+fP/BAMgBbQIEAo0DEwOiA+cEQATZ",
+  "BTMF9AY8Br0HNQbxBxgHWge8CCEIdwjkCZIK9Qu8DAML8gttC1QKsAqiCsIKnAqGB/0HogbFBlIHFQgpB3YHVwfpCFUH3wcpBigFggS1A4YCUgGu",
+  "/4/9+f0P/Pv9J/yW/Ij8JPuo+3b7v/vH+4b7M/rg+xz6/PrH+ib6YfpD+T/31/ab9Jv0VvPD8r7x1/DZ8ALt3+z/627q5+q/6yTrC+qU6gPpoui9",
+  "5+rnBuYM5KvjI+G64G/fCN3J3JjbU9p/2fLaT9j+2JPX/9ea1xzWXdaZ1yjX8Nk92wPczt6Y4MfjUuXx6GrqueuI7F/swO+u9IT19/fR+UT7FPzh",
+  "/sP/hAAyATkC+gSiBoQHrAjtCncMJw1vD1MRPRNMFUIWTxcbGCYYLBjvGb4aMhjiGWsU4xWxGmgbTRskGz4bjhrzGq4agRoyGfwZ5RmXGXkZmRlX",
+  "GN0YnhgwF/AXzhcVFXQU8BS6FH0U9RQwE/4TyhMqEjQRexCxD6EPtg4WDWkMzQvWC5wLKArSCmcJtQlrCQ4IrAhQBwMHDgaJBksGTQYwBjkGLAWt",
+  "BScFFwUaBP4ExwTdBR8FIAV/BacF9gY5BjQGdgZiBn8GUQYFBdoFjQUUBKcENQO/A2AC+gJ3AgkBhQEeAHX/7/9t/tn+UP2s/Or8Lvtz+tf6QPm7",
+  "+Tr4uPg296/3MPa79jf1xfVR9Pn0nfRo9DD0F/P68/X0EfRA9H301PUp9ZD2B/Z+9uz3Yffk+Gn4/vl8+gr6lvsZ+478APxp/Nn9SP2t/hD+cf7y",
+  "/3YAFwCsAYMCLwJfAvkDqAQQBL8FOAWeBK0GbwqTCQIIfAUpAQv/5/9k/iD9dv45/Lj8lvwd+hP6xfp8+Jz2w/YQ9VLzRvKw8vzy1fKe8tbx1vJU",
+  "8nrywvMo89L02fWq9rv3v/jQ+d/6/Pwn/Vb+ff+KANwBeQInApYDGgNtA8EEOQS6BTAFpAYDBqkGlAasBsoHBAdhB8UH6QhPCNAJFgqCC9QLkQs7",
+  "Co0KAQl4CdUJjAjIBucGzwYuBckGeAeECCcHkQcgCAAGQQXeBXMEzgPUAxMB3AEj/uj9ifzL/FL8Pvve+9b74fva+6/7o/vA+2z7Hfrc+3b7ovqb",
+  "+bj5fvmX+Ov3PfXQ9FP0FvQP8q7xm/DZ70jtsuzV627qyOua6yXrEep76bfpGuhX54XmkuXD5L7jeeIb4MDfZ94W3LPbmNqP2dzamtkX2ILXy9dR",
+  "10zWcta21xHX6Nkz2uDc2d584L/jc+Xl6HXqnOvt7D7upu9T80H3O/go+ff75f1y/yYASQEiAmwD/gXaB2cIjwndC0QMzA5FEJkSbxRnFbEVqRY4",
+  "Ft0X5xjHGb8aqxsAG2gYIhl4GfUbyhwzHCscTxuaGzsa4BqbGlsaSRoHGgoaIBmwGTwY/hicGGYYQRc6FlAVexTUFK4U7xUdFGcUiRNMEtUSVhFy",
+  "EDAP2g7WDhINYQzHDCwLtwsTCtUJ0Qo8CVEJGQhXB4QHZAcTBq0GnwZWBlEGpwZOBcQFdQVTBWsFHAUlBVMFRgVcBXsF1wZbBpYGMwaYBtUGwgZM",
+  "Bf8FsAVrBPUEhgQwA94DcQLXAlIB+QGKASgAtAAQ/4H+3P4//ZT85Pwu+4H61/pQ+b35NPiw+Dj3xfdZ9tj2YvXq9Xf1IfTi9LH0kfSH9I/0qfTc",
+  "9RP1YPWg9fz2X/bD9zL3ovgV+IT4+/ly+fD6c/rq+1/7yfw4/JL89f1r/eL+ZP7b/2P/1wCJASMBbwHSAqUDUgQXBRsFVAUdA/UGxgprBt4HZwP+",
+  "AnUBwQC7/5b+sP2n/Vr9Cvyl+2f6aPnz+Nr3ZvZ59X/z5fNF80Hzb/NM8tzzY/R79Dnz0POU9Gn0/vX/9wX38/jv+gb7GPw4/Vb+df90AJsBdgIE",
+  "AoIDDgNqA8AEFgSJBLsFEwWEBdcGIAYjBngGrwcFB2wHjwfwCDkIawi/CX4J1glbCQQIwAgDB8YH6QdpBn4GdwY7BeQFmQYTBswGqAYuBf0FsQUk",
+  "BG4DOgJNAV0Abv/R/rn9TPwL+vf6rfry+yz7a/uC+3b7fPvA+4n68vqC+tz60/n7+Y35KfhX95/2t/WS9JX0R/Ph8nzxaPAg7aTsqexk68/sI+t9",
+  "63rq++o16a7o3+gl51LmYuVc5G3je+Jg4Tvf1d5g3PHb3dq12eXahtk+2IrXw9dM15XXaNdX14vYSNlp2uLchN7B4KbjLeXW6G/qhuwN7O3utPGg",
+  "89H00/h0+zv8ov3//5UAywIlA6gFNwb6CFoJdgq+DCYNkw+AEYsThBT3Fh4VahVWFjkXIBgnGVcafxtdGkwVzxgMGlccaRyoHRIcrBwZG5UbVhsa",
+  "GtwaxRqKGqIamhoHGaMZThkRGOcYiRfTFmYVxhU1FToVphVvFUMUsROjE1USfhHdEMUQBg9yDroN7Q1EDHYL3wutCy4KTArhCZUJXwioCCEH1wed",
+  "B1MHJgb9BqAGqwZrBjkFzgVpBXkFUwVNBVgFbwVtBc8FygYRBmgGgwaPBwAGtAaMBj0FyAWHBVwE0gR3BBMDvQNoAwcCjwIPAY8A/QBg/+z/V/6l",
+  "/gv9Vfyi/BL7gvrr+l75z/lG+M74Uffb91b23PZr9gz1uPVs9Tr1HvT69RT1K/Vs9ab14vYo9nD2zfcg93r34Phe+LX5Ffl2+d76Svq5+yX7jvvr",
+  "/Hj8+v1q/d3+UP7B/yT/nQAdAGsA6AGDAiYC6AP2BJ8E8QRGBgMJUgqABy4G1wZIBJ4DcQJHATEAe/67/Yj9SP2L/Aj7C/pd+Sv4FvcK9f/1CvSD",
+  "9Bz0IPQb8/P0D/SQ9K7z/PQG9Mz1f/ZK9xL3+fj++gz7KfxG/Vb+X/9mAG8BaAIYAoMC9gNKA5AD4QQ4BHQErgUPBT8FugWuBggGWQaLBtkHDgeN",
+  "B+0IEgf8CD8IAgfWB6IHdAcWBxEG4AaoBpoGnwZQBjMGGQX4BeYGPQWHBUAE8wSNA68C4wG5AB3/rP7L/XX8Efp6+cv5JfnL+eH6P/qf+uT7CvuK",
+  "+7v7Evps+l352foC+Yv5tfhK9x32Z/Uw9HX0I/M88dPwPe4z7H/r8eya7FjsIuuq63Xq9epm6fHpLegY5zPmR+VS5FLjMeJF4VXgMt6b3UPb8trh",
+  "2ivaQ9l92MjYAdeD14HXkNd717PYQdk82rTc3t7l4KbjUeYI6EPp8uv07YHvCPDQ83j1cffK++v9Wv53//ABegLzBJQGBQfACQMKWQu4DWkO4BAe",
+  "EaIU1BX1FpcWTRUMFUYW8BcMF5oZBxuBGEcV8xqrGxIcRBzzHQgdBxxhG/YbxRuHG2EbPhsNGyobDBqcGiYZ3xmhGYIZDxg0F20WRRXIFf0V8hX7",
+  "FW4VIBRHE6cSfRHpEUoQcg/JD0kOwA3+DT0MYgv9C60KngsTCgkJlgkcCEsIIgfAB4AHbwdWBwwG3gaoBjgGAAXHBWoFagWYBXIFeAWNBbcF+QYo",
+  "BfwGPAaKBscHLAcFBl8GAwWCBWUFYwUIBIMEHgO8A10C4wJ+AfYBbADDABz/mP8E/mv9x/0Q/Gv75vtq+u76Zfnh+WX44Phf9+H3Xfbw9ob2NvX+",
+  "9dD1ovWW9Zj1rfXh9iP2Y/an9vX3M/d+98/4K/iM+OH5Ifly+c/6L/qh+v/7fvvs/Er8q/0g/ZT+EP54/uP/PP+dAAkAhwEhAdACigOIBGgEHwTr",
+  "B6IKTAmEB7IH9wfZBtoFZgQuAwgBpv/x/3f+av13/KP8EvtX+fD4l/eG9pr13fUz9Kv0ivTO9On00fSE9OP0TPOx9JD1lfZ892z4RPk0+hT7C/wh",
+  "/Pr9+/8QABIBCQIBAosC6wNLA5QDxgQUBDwEYwSCBI8EvgT/BSIFVgWfBc0GPAcFB90HzAekB0YHLAckBxsHiAdvBvcGpAaEBqMGigZVBm8GVwZA",
+  "BgcGOwV+BUAEdwRHA5QCkQF2/+H+9v2T/Bb7Dfnz+QX4jPiv+KD5B/m0+mT6+fuL+yH66vqy+qb52/tC+dL6e/h29sH1wPSq89TzBPHd75juxe2B",
+  "7I7sKuzB7HnsUewb68TrZer86jvpROg+5yvmSeVX5GLjWuJN4Vnggt8F3ajcZdtG2pnan9n42N3YU9fU15LXntee1/jYxNp32vLca95y4NrjP+WC",
+  "6BXpg+uL7dTwRvI183H18/ie+1f9Yf7EAI8BwANXBQ8GnAhICdQLOwzSDlgP5BFlE2EVSha2FooWiRXfFgMZABk1GK4aGRpxFtYZixvRHEgcpR0J",
+  "HRMdDxyPG7kbmRuuG6gbtRu2G7EbmxttGwEalBosGesZvhhkGE8XHhaDFhcWdRZzFi0VehTPE7IS6BIeEXUQ1RBBD7sPGg53Db4M3AwoDBIK/wtj",
+  "ChgKHQliCN4IUwf2B4AHxQeKB5AG/ga3BnYGFwXbBbkFrwWTBaMFlAW6BdkF5wYYBjEGOQZLBpYGuAbQBl0GGgXsBbwFfwU9BNMEdAQfA8sDNwK1",
+  "AkMBwwEqAH//0/86/p7+A/1q/O/8Zfvd+2T65/pT+dr5a/jv+HT39vd+9yH2zfaG9k32LfYj9hz2KvZY9pL20fcM91n3oPfv+Br4bfi8+P75OfmC",
+  "+dD6Ifps+sL7Gvtv+8P8CvyK/SL9lP44/pD+7P9M/7cAPQDCAVkCPANNA7oEvAblCs4JkQd1B68IrggmB/QGzgVYBAQCYgC1AHP/ff2y/Ov8ZfuT",
+  "+lz5XvgV9wT2QvWt9T31OvWk9gT1hfUB9Vr10PWo9Pb1jvZu9134O/kX+gf6/vvl/NH9vf6F/4wAewFkAfkCaALJAz8DgQPdBAQEQASqBP4E5wTH",
+  "BMoFtwZXBoIGuQa8Bt8HUQebB8oHsAd6B0oHNAcOBusG3gbKBrQGpAaMBp4GfgZZBpAGYQVWBNIDhAOTAxACXwFE/4z+ivzL+4v6HPk6+HD4Nffe",
+  "99X4kfk1+fT7f/1j/Cr7XvtI+oH5l/mi+oP7Rvh69wz1dvQm8x3yMu/d7w/uau1Y7Mbspezi7Mvswex17DbrzetX6lzpdOiI533maOV75GbjdeKb",
+  "4aXg1N+i3jrdDdv62vXbCNpT2NDYr9gd1+vXz9fj2ErZd9so27ndUd8n4SDjM+Ut50zpTutK7arwcfKv9G70pfiS+x39NP88AMYCewQRBaIHDQic",
+  "CikL4Q0+DoYP7xG4E5oVLxVsFWIUoRT0FssX7RipFe4VaRPXEkwayBwvHLYd7B3SHGoc0ByGHB8ajRq3G2Mbzxw3HD8cPRwsG6QbCBqJGcwZmxg+",
+  "GL0X8xcmFqwW8hcSFuUWCBUjFDITPhKIEX0RAhB7D94PRA7MDh8NNwx7DCoLLgrqCsMJ5wmiCSII4wiPCEMH1QexB1MHTwbgBrYGYgXxBe8F8gW2",
+  "BcMFtQWdBeoGNgYQBjcGGAZfBoAGaQZnBn8GIgXVBZwFegVCBPkElARYA+4DgAL7AnkB6AFYANAARP+m/w7+ZP2//VL8vPxQ+977aPrd+lf54Plf",
+  "+N74ZfgC9673W/ca9vX2yfal9qD2svba9xj3WPeH98L4BvhD+IP4sPjl+ST5XvmR+dv6J/pw+rz7A/tN+5b7z/wb/JH8y/2s/lP+mf75/2H/1QBa",
+  "AS8CaQO8A3YFnwibCZUGxAcNB6cIFAdqB0AGogVbBCcCuAFSACz/Hv4s/VL8vPwb+xH50vih9672/fZE9gX2VPaQ9sL19/WK9az10vZJ9vX2UfZT",
+  "9vb4Hvi/+Y/6ZPsj++j8tf1y/n3/TQAqANgBrAJaAvgDXQPyA/sD+gQpBIcE7AUGBcsGcwciB1QHjAecB2wHeQeaB6IHjQeXB5sHXQcTBu4G0wbD",
+  "BvkG0QbfBrQGhwZXBiAFnwWYBLsDogMuAzkCbwF+AAj+Vvz/+ub6JPis9/L3tfeo9674RvjM+ab7W/0i/Mf7K/pa+Yj5MfoI+kD54PhM9pj1CPO/",
+  "8ufwf+++70XudO1v7O/tFu0N7TvtFOzS7KnsN+tp6r/qA+kP5+Lm5OXE5K7jv+L54hXhb+BV3vHdsNyM22vbkNsO2TfZPtjM2IbYOthz2OfaB9sM",
+  "3CXdjN8+4QLjHuWm57LpCOsW7b/wJ/J29IH1b/cv+X/7Xf/aAUwC7wRHBd8HZQibCiwLvQ0vDm0QHRGwEtgTmxT+FQIVBRWbGCoX4hkmF6gTjhEX",
+  "EcIVTBp7G6gcRRziHeMfDR5tHV8dJRxKG1QbFBwrHG8cqxx3HKYcoByBHD8byhrqGSkYJxehF18XCBdFFyMWohWxFLwTpRK4Ec8ROxCNEAwPaQ8v",
+  "Dn4NwQ0JDIML9ArYCxQKvwpMCVAJOwieCDIH8QfcB0QHXAafBrcGpQZMBi8GJgXNBZgGJgXRBakF3QXKBccF9wX7BgsGLgYoBigGEwXrBZoFVAUI",
+  "BMsEhQRZBBMDnAMbApECAAFsANIAZf/l/1b+uf4d/Zn9Hfyk/Cz7wvs7+rv6VPnN+VT48viV+C737Pep93D3T/c59zX3Ovdc9473z/f9+DP4Y/ic",
+  "+NH5Avkt+V35iPm4+fL6MPpq+qn65Psa+1H7gvvM/Cf8QP28/pj+l/7J/x3/kgBYAWICogN6A+sGMwlHCQsF2wawB0sHrgdyBo8GDAWHBLYDSQH5",
+  "ANT/v/6u/bH9D/x0+2P6F/kF+Bv3vPbK9pj26PbK9wL2QPY59hz2Ffaz9073VfcU94H4RfkF+b/6gftC/ED9B/27/lj/C//IAH4BZwHQAj4CUQKh",
+  "Au0DUQM/A2sEGgUcBfcGeAcfBvYHOwecB7QH0AfPB8UHpAeEB1UHIQb2BuYG4wbiBxwHLAb1BpsGXQXmBXUE3QRxBBkCjQIYAtoCugG4AJr+yP0m",
+  "+7L6UPka+GD39vfd9/b4FPik+Ur6pv1r/Lz7QPmj+Sb40Pll+KD5+fgt9kH0wfQH8UzwLO/17u7uRe2s7ZPteu237enthe1B7UTsyewI60Hqe+mx",
+  "6IXnTuZQ5T7kdOO54szh/+Ee38bec9083GPcHtu62fvZ5tk72PXYnNjL2a/bINwA3LTd+t+04Wfjv+WN5wbo9esD7ZPvpfIb9Dr1xvZg+Tj5xv6s",
+  "AgMDAASNBfcHXAi2CgULcAy7DeoPYhCSEaISlxP5FNcT/RY3GOsZMRfrGAEX5hhOGPkYCBcuGOganRrnG48bnRs8HCwcKhzFHUAcyxvRG8octB3h",
+  "Hk0elx5UHlAdxxzVHIMbYRn0GLYYFBgGF9wXRhY5FToUBhM6ErcR7xEwEHUP3w94Du0OYg2KDOgMnwuJCqgKvwqVCZQJagjmCIwIDQeyB4YHUAec",
+  "BtEG1QZzBikGTwZqBg0F+gXzBd8F5QXYBaIFvQX3BgMGAgXMBeAF0gXGBY4FYQUBBMEEgAQcA8UDZQL+AogCHAGyARQAiv/4/2P+vv5G/cL9Wv0F",
+  "/Hn7//uD+xT6nfox+cD5V/kJ+ML4cfgt+Af34fe597f3zffo+Bf4Svh5+KT40PkD+Sv5Vfl++Z/5u/nk+g76QPpq+pD6v/rq+xf7SPuG+978OPxk",
+  "/OL9b/37/qH/TgAeAQgB9AJyBD8HOQknCSUFXwY+B18HoQdbBqYGEQXbBVED9gKxAeYAWf8m/hT9HPxO+076FfmZ+Un4tPdG94z3h/cg9v/2pvZq",
+  "9ij2SPX19bX3SvgV+JH5Z/nY+c/69fss+5D8R/zM/Tz9qf5A/p//Cv+nAE4A7AGiAhQCVwL0A0UD2ASkBRoFjAX/BqQHIAekB84HxAe1B50HfQda",
+  "Bx8G7QbfBtcG+AcvBx4HHwa8Bg0FgAUIBG0D3wMHAvUCwQGtAXgB2gG0ANb/Df0S+8763/oT+if42fhc+Jv4bPjz+Zb6jfxT/H77BPmU+Nz4xfkR",
+  "+Nb5uPhi9j70VvO28UDwbPAW7x7udO5a7gfuF+5H7nnuO+3n7fztieyw7ADrQupg6WToEecN5g/lLORB44Hiv+He4LzfRd4r3U7cz9wU2u/addoc",
+  "2gHZ4tnW2o/bwt2H3UTeI+AI4dPjh+Wk52Xo8Ork7VTvXPGP88b1lPeg9yv6IfwvAaADRQS4BcgHJQiBCcoK+wxDDUQOqg/cENkRoBOSFIgU+xXl",
+  "F7cX6hf4FpoWmxdZF3UW9hahF1MXZxbjGMkaxhrUGtIbAB33Hn8d2h4sHk0eHx5GHooezB8EHzMfCB6IHh0dfhvSGkoYLRjFGIMX2BbiFfAVAhQk",
+  "E2USoxF9EQMQaQ/KD20PCQ5XDU8MzAxrC4sKpwoxChoJ0wl/CP8IWAfgB8YHaAdWBwgHCAcJBsgGRgZlBl4GMQYqBg0F9AXuBdYFsQWdBacFwwWy",
+  "BaQFdQVhBWIFWAT6BLEEXQP6A44DJALGAkIByAFlAPwAdv/6/3r+6v5v/en9WP0O/Kj8PPvE+3H7B/qN+hz5xfl0+Uf5C/jZ+KT4cPhk+Fv4Zvh2",
+  "+KD4zvj++SX5Uflt+Zf5svnQ+ez6A/ob+jH6Ufpr+oH6l/q5+tj7APs5+4D70/xG/Lv9Jf2p/lH/Bv/RAJoBeQE7AfAD+givBlgD4QWJBxAH8ge7",
+  "B38G8waABZcEDQNDAlkAyP9T/kb9Lfxb+1v6R/o++jD43PkF+ML4JPdM91f2s/ZB9dL1rfWa9aH20PdZ+Av50/rk+8r7svvJ/BP8jvzZ/W39zf4k",
+  "/ov+6v83/68ALgCNAOkBYwHcAnMDIAPCBGwFGgW/Bk8G4AdVB7MHhAd8B2kHWQdBBx0G9QbhBucHAwcjBuYGeQX4BVYEoQQuA6wDQgL6AccCEQIS",
+  "AQ8BXAEeAGr/M/3Z/K776PsB+mT6Evlo+Rr47/ko+Y/6Jfsu+1z6Svl4+Hr4BPh9+Ib4+vfn9ovz3/My8Ybwd+/i7z7u9e697rTuuu697uXuxu7M",
+  "7vfvwu7k7OXsIusW6jDpE+gM5vPl/OUz5HLjeOLG4b/gTt8e3lDeGNyu2/7bj9tO2xra1NtO2zjcjd3f3f3e3eCg4jHjpOYX53DohOp17Lru0PC+",
+  "8xL1MveB+Lr4rvvz/uQC4ARqBYoGtwhYCVUKiAt5DH0NzA8dEGYRJRLME4ASyBPsFiUWaxfAFywV4BbVFwAW+RcZFxsWkBYgFUgZdBoaG1odhx+O",
+  "ICkfph4yHsIekx3nHUwdXh4vHt4feR91Hy0eahz5GbIYyxizGTIY5BfnFv0V9xUmFDYTZxKsEbsRChCkD/QPgA7TDdINTwyZC98LSwtACmUKTQnr",
+  "CUwIewgLB7IHcAdPBxgHHwcDBvEGUQaABoYGWAaVBq8GeQYYBekFkQVzBZQFXAV4BU8FWgUFBNoE9wS9BI0EPgPiA30C8wKiAi8BsQE6AN0AXP/k",
+  "/2b+4P5p/fT9pP0e/KP8V/vt+4X7QPr7+pz6RPoF+c/5lflM+Sn5BPj6+PD4/PkQ+Sn5Ufl9+Zz5y/nt+gf6Jvo/+lD6Vfpb+lz6XPpp+nv6gfqZ",
+  "+qf60fsB+zT7hPvd/Ev8uf1G/fX+qP9rADYArwAIAy0GMQa2BQgD+wSrBjwHzQhUCCUH6wccBlsE8APVAv8Baf9V/dr9xv1W/PL8NftW+Y/4OPgh",
+  "+C73ufdf9zL2jfYS9lz1rvVE9an22vfG+In6K/rb/Eb8sPxO/Pz8z/08/a39uP3X/nb+pv7F/z//qQATAIcBGgHIAj8C6wPMBGkFAgWmBjAGpgcl",
+  "B3MHawdSB0AHJAccBwgG9AbsBuYHDQcNBpQGEwVGBJAD+wOcA0wC+wLeAsgCKQIyAbkBpwE2AMoAHv8T/dD8wfwz+2T6tPoj+cr5jvmV+aD6G/rQ",
+  "+jr6Rvm4+IT4Ifir+Kj5Cvcd9X30T/KN8VfwiPAZ77DvlO8/7xjvK+9M75Dvru/Y7yfv5e/d7qfs+ev36u3qBej75//m5OYH5TDkX+PZ4sfhW+A5",
+  "4D/fWd163NfcZ9xT3CHbn9uz3DDddt4i3kffd+E/4lLjzOW85t7oYuoz7E7uLO/J8mL0avaR+IP4rPoq/If+cAL6BSsGOwevCO8KAQrgC+YM4w4a",
+  "D24QqRGbElMSZxOkFRUU8BZQFksVyxX9FncWoxaGFcsVahDbExYW8RZuGmEaYBtNGw4b+R2aH68gqx9zHfUbgBqrHLcekB9mH/YfLhzpFpMXPxj/",
+  "Gb8ZshiQF+MXMBYyFUAUKhNeEocRshD7EHQP+w9qDoANsQ07DMYMKgtkCx0Knwn/CYQI5whkCAIHpgdaByIHAgcrBrQGjAaRBpoGpQaSBqEGbgZd",
+  "Bc8FmgV5BT0FBwT1BOQEwQShBKAENAQ1A/QDogM3AwoCnQI/AeIBeQEzAMYAVv/y/4T/A/58/fT9kf03/Nj8c/wf+8/7dvsw+tn6m/pe+jX6FPnb",
+  "+aT5dvlz+YL5ffmR+av50vnv+jH6avqF+pf6p/q3+qz6n/qT+oD6g/ps+n/6ivqG+pr6rfrU+wf7SfuZ/AP8c/0E/af+Zv8d/9QAUf89BGMGfAco",
+  "BHcEEAR1BbUHQAgCCD4IaQeoB1IF6wTlA98CXwAQ/rv+S/2w/QX72/rB+db4yfgg99P3kfd290r2uvZn9kz1uvWw9h33BPeU+Hn5+vsu/Dv83/0z",
+  "/Yj9c/y1/OD9K/2H/fv+Iv5e/r7/TP+fAAsAqQE4AeYCmwNvBCwE2AVvBd0GTwbTByAHMgcqBxsG8gbZBqoGlAZ6BnkGqAbMBmkF+QSbBEEDrQNh",
+  "AxMCzwLRAtoDHgODBCkC6wIvAgUBbwCU/6v+ff19/QX8MvsM+k76L/oa+ej6GPsX+tv6uvn1+NP44fgN+Ev4wfcA9QvzkPKH8Vvw6PCi8GHv/++j",
+  "78jvsPAM8DzwO/DA7+vviu8K7qzuXuz76/Lq7OoB6QDoAecG5jrll+Tq4/HiaeHW4lvgk96Z3dLdhd1n3SPc5dzn3WHeKN6B3xzgVOH84tXkF+ZH",
+  "50roMOnv7BrtZ+788WvzwvVt95z5dvl9+x776P5wAvkFewdHCEQJVgpFCxgMJg1EDn0PmRCBET0SHRJyE3MTJRQXFFgVUxWEFSkVPBTlFIYTkw2m",
+  "EQQUghZ7GdUakhtiG18beRx2HSEerB/NIC8fdBwqG8gbRh1HH8UdHRegFkgV8RvTGVMYaxeDF3UXahbJFc4VNBQ2EzMSfBG1ETYQhQ/IDxkOiA3/",
+  "DVAMxQyhC+sLDQp4CiwJTQjGCEYH4Qd+B5QG/gdTBtwGxQaNBpcG1gaGBkoGNwXQBcQFkwUWBMYEjASZBKMEVwRGBBkEBwPDA2IC6AKtAkUCGgHj",
+  "AaQBWgEIAI8APwAQ/4f/DP6M/gb9iP0p/OD8g/xG+/z7rPtk+wz6t/qA+l/6TPov+g35+/ni+fH5+foM+i76Qvp6+sf65fr5+wP7HPsT+vj65vrK",
+  "+qP6m/qa+p76mvqW+pv6s/rJ+vr7MPt4++D8UPza/X/+NP7m/4///f7iA0oD3gaIB1oFkgTsBbEG8AeyCK0JCAjZCFAG7wWdBI4C/wE4AFD/Yf49",
+  "/Zb8lPuK+qr5dPh49+/3rveZ92/3EPbH9n/2CPYV9rL3KveZ+Jn6Pvtg+9r9Df11/gv95fyx/OH81v0D/Ur9d/3L/i3+pf8w/74ARwD4AZQCNQMz",
+  "A/UElAUHBXYF7AZtBtIHAQbMBqYGWgYzBjgGFwY2BosGsQaxBfIFAgRLA78DjwNlAxMC8ALlAugDJQQsBQAEVgPQA3kC4wHUATcAN/8T/iT9WvxQ",
+  "++37ofra+c/6BPu6+7L68fpa+d75n/iu+Ar3dvZr9Yz0JPK18b/xbvEQ8LjwPe8u7yfw9vDn8RXxCPC78K/wL++77yzu6O4+7QDsEOsl6iPpKegv",
+  "53XmwOYy5P7jo+OW4vzhgN/43zLeud6I3l7eLd6K3yDf3OBB4H7hZ+JP41Lkh+Z85w3oEOl966LtE+6j8Hry0fSs9uP40flr+ir7YPxZ/aYC+gfd",
+  "CHgIsgmGCcMK5wwkDRsOZQ9rD/EQvhFFEVgTIBLLEpAS/RObE6kTjhNXE1gRtBBUEgAVDxiSGjgamxtIGzQbZRw1HKMdRx3VHj4d9x6SHKMXWxbv",
+  "GVQaHBs+GrcXkxikG0kaRRhEFvAWBxbwFskVoBTFFDsTjBLWEfcROhBqD7MPGg6dDlMNvwyuDEwLmgt2CnAJ1glTCL0ISAgUB90HXAegB3gG7wZ6",
+  "BpEGgwaUBlcF3gWhBWMFIQThBIgEPwQhBCoD7APXA6sDnAMCAsQCTQIHAawBbQE7ASQBCADBADH/4f/h/6H/Iv6d/hb9mv0o/Lj8bfwz++j7rvt0",
+  "+0X67vrN+qz6hfpl+lL6RPpJ+mX6evqN+qr6wvsT+0D7Yvtz+337hPtw+1P7MvsK+uP62frI+sX6zfrB+rT6xPre+wL7Mft7+9L8SPzM/WP+BP6z",
+  "/1j/3v9EARkDaAa3B50EcwS9BlcH6AhvCRYJOQjeCKcHXAZNBRcDrwK/AbIAev9c/pn9lvxQ+zL54vja+En3+vfV96/3XPcX9sf2dvZo9rH2+fer",
+  "+M36g/uS++n8of2g/nD+Rvxl/Ej8TPxn/Lj9FP1A/cT+J/6a/xf/ygB8AUoCEAL2A7QEGQS7BQUFggXmBikGRQZpBmcGOgYHBeoGAgY1Bk0GTQZK",
+  "BRoE5wQTA8UDhQNsA1EDRANKA1UDhAQEBFoFKgUjBLUD6gLHAikBkwB//2/+qf3c/Uf88vtH+rH7kPtx+436hfqX+fb5h/or+Uj3a/ZT9Y30h/LX",
+  "8jHx1fG68UjwhPIh8GvxWPHd8ZPx1vGC8TLxAPDT8Bbvb+9e7qLte+yA62vqb+ly6LzoGOd65gflG+Te4+ziXOE64KngKd/L33LfJ9954CngaODn",
+  "4SPiD+Ld48Pkz+Zh5rjoP+lR6xXsh+6A75byNfQf9bv3Jviv+kX61vtB+2/9WAC+BNQHcgkwCeYKXwvkDPgNRw0TDdsOYA6QDs4O0RAfEOsRrhHm",
+  "EpoRzxB5EEwRxxI8E/AXCxiuGfUaQBqzGtQbRhu8HDEdAB02HR0c1B14IOcdPBpyHAUcchrZG5YbHxrsGnMbJxmTGL8YARY/Fu0WqRXhFOkUGhOp",
+  "Ev4SRRFCEFAP1Q9kDxkOjQ30DWIM7Qw6CywKkgo3CbEJNwirCEAIYAf6B+sHYAcABrcGlgZ6Bl0F1gWwBYgE1wTEBBQDvwO4A5gDmwN2A3EDPAL0",
+  "Al8B/AGPATcA2QCsAK0AeAAiARwAU/9r/1n/Av52/fD9fP0N/MP8cPwj++z7tftw+1f7LvsI+vn61fq4+sD6vfrG+sb66/sE+0L7evuo+8T75Pvw",
+  "+/778PvZ+7r7iftH+vX63frg+t/67frs+uj67fsD+yj7W/uZ+/r8WPzH/VD95/6A/z3/5v/s/0YDVgW1B7kFOASoBbUICQjmCTQKAgl5CMIH3QcD",
+  "Ba8ERQPqAywBugCE/3r+Y/0T++z6ufme+PT4jvho+Cj3f/bo9wn2/vbz9yr3gviB+a/7Gvut/CD85/2J/ez98fxG+9P72fvk/Gb82v0D/Ur9sf4m",
+  "/ov/PQAOAM4BrgKCAz8DywQ9BLsFmQXkBeYF8gXeBdAFvQXKBbcF3QXcBe0F8QWzBIgD9QPeA6wDkwOrA6oDtAPYBAUESAR4BP8GHwYTBdcE9APT",
+  "Ax4CgQGJAJ7/0P7G/c39DPw6/In8ufs5+pv62/ua+z76sPrC+Hb3qfaz9iTz1/L58vXykvJy8lDxivLe8SHyf/KR8rvyzvH38irx6vGk8Q7wUu/0",
+  "8EHus+3k7MzrtOrI6ibpYuiD547m6uZA5Tvj0+K14jLhmeEd4NLgy+Ed4X/h6OH24nbjIePD5JPlXua35sHofOlY6rLshO4k72rxZPNe9Hn2Gffw",
+  "+XD6+fwW/FX8gf22/usAZgLSBHQGEggcCXAKvQv9DZMM/w4PD4QOpA2IDJsOlhBnEFMOng1WD/8SJxQ2FfwXYRg1GTMaChn3Gl0a6RuHG+AcoR0l",
+  "HQ8dEBuwHhYgGx5cHqEeVR4fHMEcrxvSG3kaxBonGKMYVxgKFUoXSBcEFgEVvxUGFHATQxK+EaEQuBA6D+4PZw7LDggNeg0FDHULeQslCpsKBgmU",
+  "CYIJLwj1CHQH6gdeBs4GjAY6BfAF2wXGBRwEzwRgA7QE1gNlAxsDHgL+AtwC2gK7AhMBzQFcAN0AbQApAA7/5f+s/9EA7P9o/vb+w/5I/dT9avzx",
+  "/K78b/w3/AL78Puu+5H7hvuG+4D7W/s0+xf7HPsv+1b7c/uk++D8Evw5/FX8avxs/GX8WPw2/Ab70vt0+0D7NPsV+xf7D/sX+yn7PftM+1n7jvvJ",
+  "/Br8ePze/Vf93v54/yX/4QAj/x4CRQVgB2UHiAbnB4IIEwnSCbwKOQpRCYQI1QfxBsIFYgSzBEsDBAGbAF//A/3p/P777PrZ+jD56fmr+TD3+/dg",
+  "97D36/g7+J35FPnk+lf6oftC+778Vv0J/Tz9C/um+6/7u/vz/D78ofzl/TT9m/4A/pL/MP/rAOcBsQJxAxEDsAQZBJgFLgWOBXMFYAVkBXUFkQWK",
+  "BXMFgQV+BYAFZgUGBHwECQPrA90D0gPgA/4ELARnBKkFEgWYBf0Gzga7BrgGaAUgBCADRQJ5AaAAwP9h/kn99f4O/RP9gvxb+w/7cPuN+1r5dfoE",
+  "+ML3mPbX9rX1kfPf9F3zlPNX80Dy9vLE8zHzCPNQ9DXzVfM/8vjypvJf8eHxC/CV8R/wxu/G7hjs9OxF64rrEOoK6SDoOueL5p7lROQ145njFuKX",
+  "4lfiPeJW4qXiqOLc40XkMuSb5O/lX+ak5s3og+lL6uPrvO2y7z7w7PIo84P1kvb199/5wfua/aP+LPz3/W7+iv8nAFYB4QPLA/0ETQVbBlsHigqd",
+  "DjQNHwqjCoUM/gztDh4QaxI7E3MUZxWWFpMXkxfrGIQZXRkVGaEaXxsIG1ocKB0GHMYbtRsJGvsdbR6JHqQd8B0LHIocXBvSG0QaURnBGJwYsxiB",
+  "FtIXUBdeFsAWyhZuFb0VExPHE1wSWBFTEKQQNQ9cDr0OJg2zDcEM8gwyC5wLIwq2CqkKTwmTCMMIYQfEBycGvQYwBdYGDgXsBXcE6QQ/A8cDOwMe",
+  "AtoCvQKRAmwCXgIiAesBYwDtAJ4AH//J/3b/V/8w/t7/AgBH/zH+ef4e/aT9XP0T/ND8jPxk/Ef8GPwQ+/v77/vS+9v7zPvI+7H7s/uz+9H7/vxC",
+  "/IH8rPzC/Nv88fzi/M/8s/yI/Ff8BPuj+4j7aPtU+1P7X/to+4H7n/uo+7v70vwA/Fj8sf0U/Xn97f50/w3/wgBLACf/sQOYB+IJdwsRClsJFgpL",
+  "CkcKpwq0CkQJsAkoCFsHOQY3BaYEWQLTAUz/r/5w/nb9PfwA+3/7JvsF+j34ovhs+KL4xflH+cD6Nvly+Yv6cPtd+y373vx2/Fb7ffuJ+577yPwG",
+  "/EX8g/zL/Rf9VP2u/kj++f+yAJ0BgwITAq4DIgOaBBcErwUtBQME/ATyBRIFGgUcBTgFOgU4BPoE7wTkBFUEMQQgBBcEGQQuBGkEqgUABUgFqAXz",
+  "BoIHHwc6B8IHnQZABPAEDANGAmcBlwCD/5D/u/8B/lv90vxl/BP7r/s6+oj6Uflu+Of3PvZn9oT2nvVx9Yj0zvSV9CrzzvQc89H0GvQm9AT0HvPK",
+  "84TzafMQ8rDyE/Fq8RXx3vE2723ueO2q7W/sk+uk6pDp0uk25+fmk+XD5TfkmeQU49zj0ePh5Arj3ePz5J/kw+TP5W/l9edy5sbotemd6o7r2e1V",
+  "7u/wqfGr8vn00vXf9yb4r/qe/Lz84f0k/fD/DP/wAQ0B8gHNAbAC0gQ5BTsGJgbfCOsKkwtTC7UMMQ5gEDwR3xK9Ex8UUBVQFkgXBhbqF4AYVBhy",
+  "GO8ZmBnpGhEbGBxDHA0bXxttGxIathr0G/MdMRzkHMwb9RtlGY8a9hqPGUcZFBayGEcVvRWVFH0VORadFugWdBXmFGcTvBM1EicRoxCnD+wPvw8x",
+  "D1QOxA0oDMAMCQt4Cu0KtApJCWMIkgf5Bz8GlAaBBbQFxQXaBbwEyQQ0A5sDIwMUArMCTAI8AeYB1wGqAVsBBgCnAEn/zv9m/w7+zv6q/pj+gP6N",
+  "/m/+Lf3S/Wz9Gfzs/MX8ofx8/GD8T/xB/DL8Mfwr/Dv8Pvw0/CP8J/xM/G38nPzT/Qz9LP0//U/9W/1P/Tf9Gfzu/Kz8T/wO++j73/vS+777u/u8",
+  "+9j73/wJ/A/8KvxZ/Jn89v1O/aX+Ev6L/xz/xwCFAOT/+wDgBdoKbAxgDBgLNgrfCj8KjwsXCtEKmwpbCYwIKgeUBvwFwwRSAqYA5P9B/kb8f/wP",
+  "++37yftN+ej4xvlR+dr5jvmr+VL5WvmQ+dP7Dfto+sP7e/v4+/D7d/uh+9j8CPwr/Gn8lfza/Pf9PP2p/ib+uf9vADYA+QGwAj4CxgNJA9AEKgSj",
+  "BHgEbARcBHkEugTkBO8E9wT1BLsEhgSpBFsEVARWBGEEcwSSBL8FCwVlBcIGLQZ+BrwHkwgoCHUIWQeFBbcErgPWAs4B/QETAGf/4v9V/vX96f0t",
+  "/Jz7//rU+s/5rvim+KD3Kfaa9sX22PXM9ZD13/a79X/1CvTX9kX2m/W59Nz0yvRz9Ef0TfP184/y7vJr8bryjvHH8J7v9u9v7ujuIu0b7DDra+qI",
+  "6UfoMOd75tHmIOWR5VflS+Vi5UDlJOVg5ZHlAeVR5cDmquf0537pA+kx6jfrku1H7t7ws/E18fDy8PT29pn3w/lH+pz7B/xe/XX+3QAmAUkCNgLJ",
+  "Aw8ECgUqBdUGtwgKCSMJwwuHDaoOQw8DD/4Q6BF4EfMTLxRtFOoWCxYsFwAXoBeyGCIYNRhkGMsZ/hsVGpAaJxqEGkEZ/hmGGX0ZnBm2GfUaCxk4",
+  "GjoaoxojGMgaGBkaGB4XzRdYFcsSEhbAF70XnxdCFp4WGBSFFCkTbxMwEhgR8hCCELoP9Q9ODasNRwwuC+4KswpaCZ4I/QgBBysGmgYFBcYFpAWG",
+  "BaQE8AQHA6IDIQLbApkCPgHeAaMBQAEFAPIAbAAw//n/XP8U/p3+Z/4l/jH+GP4c/d/9jP1D/QL8yvyu/J/8l/yC/GX8YfxT/E38W/xk/F38d/yL",
+  "/JL8qPy9/Oz9LP1d/YT9nv20/cb9xv2z/Z/9gP1S/Qf8rfxs/Ff8Q/wz/CL8G/wi/DX8OPxY/Gn8ivyx/OT9QP2M/dz+Qf6k/xz/rgCAAVUBfgDB",
+  "A/8JYwxWDLcMGwxIDBcK4wq7C0ILdAunCowI+QgjB5UHLQX1BD0DkgMtAMr+M/0P/ET8UPvU+oj5nfqD+f35Y/np+df5vvnf+t77Uvt7+2b71vsw",
+  "+xz7R/vd/FT8nvxn/Hb8nfzZ/Pv9L/2Y/hL+mv8l/9sAmAE8AdQCYwLjA2QDwwPaBAIECgQbBFIElQTDBKMFEAT5BM0EnARkBKoEnASfBKAEswTY",
+  "BQQFQwWMBeIGMwaDBygIlggWCLYIcwc3BfgFGwRMAxICAgFfANcAdgAR/xf+MP4t/Z/8B/pm+yj5//if+Un3uPd696f3kfYP9Wr1KPVl9131VPV/",
+  "9/H42ff49gr1xPVg9Rz1TvU/9K/0N/Oh8rDzyPK18gTxaPD78Jzvvu7R7fDs6evy6sTp1OkR6F7ntech5vnm/Oby5qXmfObF5jTl7eZv5mTne+hp",
+  "6Cvo2+mv6j/rZe1t7zLvjfBu8SXxt/O/9an2tfdl+HX5h/sB/Ej90f5K/v4APgEnAe0C5QQeBMkFqwccCP4KBgtXDKsNzg4pDo0PSBBlETIR3RMy",
+  "FB8VCBVoFa8WOBZ/FsQW4hdTF9MY6hoRGXIZIRmnGV4ZVxlBGSsZIRkXGQkZShooGrYabRmzGaQY3Bl8GO0YeRgyFzsSvhcKGEgYWBgUF5wXFhZe",
+  "FcsU8BRgE6USyhHvEBMRGBAsDjoOLQ0rDHULZArVCdYJfAhiB44GqAYKBVkFNAViBSUEkgO5A3EDIQLQApwCJwG4AYUBNACpAFQAC//P/3T/A/65",
+  "/m3+Tf4Z/fX9s/2k/Vr9Cvy9/JH8bfxy/Hb8ZPxn/GX8Wvxd/Fj8cfyM/Kn8v/zZ/Ov9CP0p/V79pf3S/fX+CP4Y/iX+Jv4Y/gD94v2l/XL9HPzf",
+  "/Kz8m/yH/Iz8j/yS/IX8o/yv/M789v0h/Un9iP3P/hn+XP6g/xH/mQB+AWMCOgJyApgGlQx9DfgNaQ43EDQOTwwgC8kL7wwpC2cKewlWCA0HTQao",
+  "BTsEgARTAdX/F/4N/N/8sfy++6j7Qftq+c/4/fqF+v76bvnh+wn7UPvD+6f7qvsw+xv7ePwF/JP80fzK/Lz8uPzo/Rv9Pf2D/fT+a/7v/5AAQgDr",
+  "AZMCIgKsA2MDowOyA9AD6gQQBDgEjATPBZIFOQUxBTUE3wS8BPQE7wTgBOYE/gUNBS4FeQW0BdgGFAa8B2kIVAhsCMIIGAcEBjoFcASrA5ECWwIf",
+  "AYcBEABu//j/EP41/Tz7kvuF+3z7zvns+Vb4nvgr+AH3Yvaf9v72O/Wx9Z72DPaG+ND53/mg93L2ufZx9jP2MfYe9fr1fvSp9KD1fPQP82Tyz/Jx",
+  "8gzxZvBo73Hufu127EnrZeq06gbpZej16L7ojOg25+znxee25wjm++eA6C7owuiU6MLo/uny6pfrbuyo7gDva+/N8C7xM/J/9Ev0//V69l/38/k1",
+  "+l38U/xB/QD+Rv/NAGUBOgItAwMEDwWZB5AIdQqHC3cMow1JDfYOtg80EFwQmBF4EqUTnhQVFFYU+BWIFXMVkxY3Fu4YDhjlGewZQRj4GVQY2xhX",
+  "GE0YdRiZGMIY0xk5GdMZRxkXGS8ZSBkxGNsYfBgMGBwUYBYsGT0ZAhjeGHIX3Bc9Fo8V4hU/FIMT+hNYEooR/RFgENYO8w34DJ8MTAz+C6YLeAk0",
+  "B5sGpgYcBY0FAQTqBJQEEAOSAzAC5wK0AnwCOwHsAZUBTgDGAQkAaf+o/0b/Bf7R/nX9/v3Q/bz9Vv02/QL8rPx6/Fr8N/w7/D/8SvxK/FH8Xvxd",
+  "/HP8kvyg/MT86f0M/TP9ZP2k/dn+Df45/lr+av54/nP+bf5e/k/+Lf4E/c39gP09/RH9Afz6/Qj9APz4/PP8/f0D/RT9Pv1w/af9y/4A/i7+Xf6j",
+  "/xb/uwB/AV4CeANTA20EjgmODrYOfg+/EYETMBFADSwMKgtDC3cLFgmxCEEHWQbkBdMEzAP5AZn/Zv5c/Y39CPyQ/Ef8RPvY+kz5dfqC+wz64Prf",
+  "+rT7Vfv9/Gb7cvr3+yH7nPwW/Kv87f0h/Rv9LP0z/UX9bP2m/f/+af7u/4kAJQDJAWEB6wJyAwkDcwOlA78D+wQkBGwEsATsBR8FMQUXBQoFFwUD",
+  "BT4FPQU+BTsFTQVRBWoFoAW4BdsGUwcCCDEIvwmJCMUH7wcMBmkFwgUYBD8DbAK1AhUBvQEgAJf/8f7K/OL8dvw4+8H8EPs4+qX5sfkE+J/4IPbl",
+  "97T25vZy9c/3A/hE+PT6o/o8+Gr3iPdJ9y73bPdU9wb2fvVk9rX2ufU89Kr0RfPq86HzEfIS8RrwFO8L7dvsw+ww66/rMurL6mfqBOmg6UTo/OiA",
+  "6BvoHekp6e/p9ejM6W/pi+pV6u7rb+0G7Tfu0e8X78zwifGU8rDzbfPi9Ov2X/eJ+NP6CfqB+0n83v34/vj/fACDAWEChQPRBggIVAoDCv4Lzwxw",
+  "DZQOTg6jDmMPRA/TEJ8RfBJYEuwT0RSTFGYUcxT+FdUWuBftGP8ZehiLGL8ZHRkHGMcYNRf8GCEYVRh6GLYYrBj3GLEY2RggF+AYUBidFw4VNhhG",
+  "GNQZYRleGQsYcxfKFzsWqRXzFVAUhxPxEzESsRIbEZoRFBBUDtYKdwqECzYKKAjMB8UGuwYIBV8FCQSeBBsD0QOEAzcC2wLEAm8CWQI7AcQBWADy",
+  "AH0AaQDdABH/T/7r/o7+Gv33/cP9YPzk/HD8Qfwe/Az8Dfwb/CT8Q/w9/Ev8Wvxr/Ij8p/zG/Ov9E/1E/W/9of3U/h3+Tv58/p7+sP63/rb+sv6t",
+  "/pr+df4+/gX9zf2k/Xf9Wf1t/V/9WP1a/Vv9R/1G/VP9X/2S/c39+f4n/lL+hP7f/1P/+QCmAZsCtwPZBI0EUAYJC90PBhEMEecSLRIyEWQM3Qqq",
+  "ClsKLAnkCMEHzgd4BmgE7wMeAT3/8f88/kz+DP2u/S38Zft/+rb6Ifqs+wT61fsB+9j8Hfu+/Lb60/qk+1b72fxT/MX9Av0+/T79Nf0r/Sj9Q/2S",
+  "/ez+Wf7b/2T/+ACRATEBzgJXAtYDZgO6A80EEARKBH8EsATXBPwFGQU/BTIFRwU6BX4FhQWLBYcFlgWfBbcFwgXQBfYGXAevCOQJUgleCHQH4Qcy",
+  "BqoGFgV6BK4D8gNCAtsCnAHSATAApv73/fj8VPzK+/X7Yfvi+/z6qPny+dv59/eV+E/3ofhr+QT5Gvl++vT7/PqE+SH4cfhM+Dn4bfg29+r3c/gC",
+  "+HL3svZl9fb1oPVv9Pj0e/OV8sXxkfCR73nuhu3h7VPsp+xv6/frk+sJ6pfp4elP6Qro5OlB6drq1umL6gbqIerh61jr3+yc7PPt7+6F7y3wLvB4",
+  "8W7yKvMF8/70/vYj92n4aPkp+jf7jvyD/PH9y/62/58A1gMoBW8HwAjECbMKjwtlDOgNWA2GDTYNrw5gD0EP5RC5EbwSgxMhE3IT3hR+FPoV2hb8",
+  "GCcYhhg9F9gYkBi3GRIY9hipF7UX/hfxGAcYgxhLGDIX5heoF5sXeBblF9wXWBhHGSoZtxnIGXMY5xhoF8cXOxaKFd4VFRSPFCcTNBKPEhQRnxE+",
+  "EIENaAizCxsKOAjjB8QGpwYkBVUE1wSGBCsD+wOWA0UC2AKdApkCdQJAAeMB/QFiAMYAOv+BAFD/9f9P/lv+I/3+/en9ivzp/Ir8LPvn+9n71/vh",
+  "+/j8Ivw8/ED8Uvxx/I38t/zi/RD9Sf10/aj92f4Y/ln+if60/tb+5/7y/uv+4/7O/sD+s/6b/jb+Dv3+/eP90P2z/aP9mv2M/Xr9gP19/YX9lv3M",
+  "/ff+Pv5w/qz+5f8w/58AJgDvAcUCngPPBQ8FxAT0BfQL4w8JEIwRmRHCEdAQBAxgCbkIqAi3CVYIwgg7BqcFLgNgAesAvf/u/yP+VP4S/aD8yPvZ",
+  "+xH61vqT+oL6+vtU+8j8T/xN/LD8W/qK+5X8bvy1/NP9Cv0w/VL9S/0x/R79G/1l/dn+Wv7i/2P/+gCXAUwB6wJrAtsDRwOUA74EFQRBBGsEoAT4",
+  "BW4FGQUiBTUFVwVsBb8FzQXcBeMF5QXtBiYGNAZJBoEG5QhQCIgJIgk0CLQIFQd1BvcGcgX5BPoEWQPnA2oCxwK+AqD//P/MAGkANf62/Ib70fvL",
+  "+4f7avr5+wP6MPjL+YD5y/py+0H64PuY/LX8bvsD+Vr5LPko+Qn5N/kq+Kz4d/lp+TD4LPfl92b2/va09nX15PUv9CjzGPI48TXwVe+G7svube4C",
+  "7YXs2exY68nq9uqM6iHp4uos6r7sFeqQ6rrq6Otl66rsu+vy7OjtX+4v7r3vi++p8HTxXvJj8zf0EPUh9jf3N/gm+UL6Zvv5/Jv9xv2l/p//zgLO",
+  "BMkGKQePCJEJfQoSCzwMSAzXDBENDQ19Dj8O1g9JEKMRbhG8EpETmxQfFG8VEBYzFt0X3xgnFy0XnxfiGIQYchiXF/MX7RfoGAQXixd/F0MXNhbV",
+  "F3AW7xdfF4QXfRacGDgZ9BnxGbwZShjCGDMXqBcEFokVmxUwFBcTtBL1EqgSYxIaEbAOOAk4CxQKtglTB+EGywYiBYQEuASQBGwD4wOnAyYC0wKc",
+  "Am4CPwIbAbgCGAIjAS4Ai//I/uD/Df7F/rj+WP2x/UP9JPz8/Ij8IPvL+6v7svu8+7X70/v1/Bf8Mfxd/Ib8uvz2/SP9Vv2S/c3+Bv4+/nv+rf7f",
+  "/v//GP8e/xz/D/7+/vP+yv6o/qf+X/5B/hj92/3I/bH9qP2y/bj9u/3L/dr98v4l/kr+j/7M/wH/Qv+T//QAhwEuAfUC3APwBRYF9AYqBYUEoAdq",
+  "C+QPYBFiEWgRVhCwDhwJuQg8CNQIswh0B3YFnwQRAskBjgBS/3/+tf4//XX8cftm+x76+vpK+k37LPs5+4z8Afxi/MT7T/wO/CL8ffy8/QX9Qv1k",
+  "/Xj9WP00/Qr9Cf04/aj+Xf8W/4wADADDAXMB9gJxAuYDZwOcA/UEIwRMBIoEzAT0BPwFGQUWBTYFfAWrBg4GGwYdBicGKQZbBq8G3AbUBtUHLwf+",
+  "CLAJngn+CUgIOge5B34HOQa/BYsE0wRWA+UDkgL3AZYBRQDIATUBkwDF/nz86PxB/Ar8Y/vU+sn6Yvol+of6qvux/En9Nf4j/gf9QfrG+gb50vni",
+  "+db56vm3+Wf5c/mh+Y/5j/k++Nj4ePha9/v3bfa+9cL0r/PX8vPyCfEU8IfwFe907u7uPe2q7QrsZOvL61TriusI67TtNOtN61rrnOui7EPseOwp",
+  "7LvtP+3P7k3u5e9f79rw1vHQ8q/ziPRk9VX2Mvdo+G75Uvp8+3P8Fv0e/goAHQI5A08EggWKBtQHuwiHCWgKpgsKC0IMdAyJDOANsA5rD0wQBxD+",
+  "EcESmRNlE4EUGRUHFikXQRdOFxEWjRbyF3MXdhdVFywXMxeGF2oXAxZaFxgW2RaaFuEX7hdUF18XhRZ0FocZgxoTGdYZfBkIGIAXzBcvFlkWAxSF",
+  "E4sTwRNhEy4THxLkEkUNEAogC38KoAm7CEQG5gYgBZAFMgU9BH4EDgN5AxAC5wKoAjsBvgHIAVkBEgEpAVsBWP/y/vn+h/4//dL9cv1+/Sr8tfyZ",
+  "/Hf8O/v6+8P7ofue+6f7wPvU+9378/wb/En8g/zT/Rj9YP2X/dj+GP5W/pT+yf71/xX/Mf8z/zP/JP8U/vb+4P6//qX+jf5e/jj+Cf36/e794f3k",
+  "/fL+D/4f/kD+V/6J/rT+4f8d/03/k//jAFMA3AFzAiADDgQHBLUFmwY0BqIGzAVABxAKvA72EVgRTxGYEC4OqQvhCHEIcAiKCBIGNQUvA+ECUwDL",
+  "/5H+rf2d/Ob8dvrS+tv7hPt3+0b7t/vi/Av8C/x6/Qz9svvL/WT8h/zv/Ub9gv2v/cj9mP1c/Sn9H/1H/Z7+Lf77/3H/7gChAVUB5AJlAs8DNwO5",
+  "BAEEQASIBMoE+QT1BPYE/QUZBVEFuwXlBmUGWwZbBnQGkgbhB0EHhQeFB3AHqQi2CY4JhQoGCaII5gisCJUIKAeiBn0FcgUKBL4EXwO+AwcCQAI5",
+  "AlQCLwCw/17+GP2E/WD9K/uv+0j68vtC+5L8APxE/Mr+4f+a/0H9Uvr4+s36s/rE+sr6ovol+zD8PPsF+ub6gPo8+e/6Hfno+YX44Pgw92D2bfVj",
+  "9I7zxPLf8hzxe/DD8BLvlO7s7lvtfu0H7O/sc+wG7RTtq+w+7EHsMuyC7PLseOzM7PDtY+2G7eDuRu7/76jwhPFp8lHzEvPV9KL1jPa/91f4AfmG",
+  "+lP6mP0l/p3/4gFtAwcEBgR2BT8GMwb2B7IIpgkuCnALJAsUC0sMQw1lDfAOmg9+EGMRjBJ5EqcTChR8FbMWuhbcFssWkRatFq0WvRcOFmkWNhZq",
+  "FnYWYxXmFtEWlxZDFm4XDBcWF78XbBaVFNUY+RnNGbkZihkYGJEX4hcnFkwVrRP6E7sTphPEE8QTxRNsEksJ9wtmC1sLSwmrCDEG+gYuBUsE2wSM",
+  "BFEEFgQUA6IC9wJoAf0BrgFRANsA6wCqADj/1P8q/qT+M/2r/Yv9Tfzf/Lr8cvxj/BH8Cfv4+9j7uPuO+5P7ovut+9z77fwV/Fn8lfzM/RP9Wv2f",
+  "/eX+Hf5X/pX+zP7v/w3/K/83/zX/Jv8Q/v7+7f7X/rb+mf50/mL+Rf48/iP+Iv40/jn+Z/6E/qP+tv7k/xf/Ov9w/5n/+AAzAJsBIAG7AmcDDAPc",
+  "BJgFOgX+BroHWwgLBWsH9w3XEP8Q3RE2EOkPSwvRCJcJAghnB2IGxQYlBOEDJgFq/2r+Ef1v/Lf8v/vL+6v8b/xn++v8OPuV+8T8oP0C/Wv9APu7",
+  "/Fz8wf0r/aT92/3k/eL9x/2B/Uv9M/1C/ZD+Ff6s/0X/7wCIAT4B5AJbAskDMAPPBFwEegS+BNoE1gTcBPQFBAU3BYkF9QY+BmIGjgaiBt0HLQeX",
+  "CAAIHwhICN4JAwkvCcwJqAnyChsKPApNCc4JKQhtBz0GZwX4BWcE4wRZBCYEDgPkAtUB2QBkAHT/iv5s/m38Wvuw/Fb76Pw//FP88P1i/X//IwB0",
+  "/4j9aPuf+5v7lfuj+9L7zPtv+yb9UPsx++r7ufuf+8T7Yfsh+tD6QvmQ+NT39Pbz9hz1WPSC86jy7PIp8Y3w2/A776Xu0u5v7hjtv+3w7n/ue+1I",
+  "7TDtOO1j7Rzs+e0f7U/taO1Z7Y/uAe7U74XwaPF58knyyPNi9EP1MvXv9qv3Vfiv+VP7J/0u/ZL+5gBBAbkDUQOxA8oEXQVLBhEG7AgJCPsJhgl3",
+  "CZsKvwwhDOwNaA52D0QQ4RH3Ea4RxBLaFGIVlRYBFh0WEhZnFmwWZhZ4FgQVMBVwFZkVeRXFFoMWIhaIFdUVxBd5FwcX3BazFAsVYBj8GVkZUxkJ",
+  "GH4X3xcWFjAUaxPlE24T4xQUFBwUWRRNENIJawtSC0sKPQkUCD0G+AYtBa8FIQTPBGcD/wOlA3ADwwKqAgkBrwEXALsAT//1/6n/Pf6x/lj9t/2/",
+  "/Rb86fy//Hb8fvwn/Bj76Puv+4n7i/t0+3/7c/uM+7f71Pv4/Cb8Yvyz/Pb9SP2Q/df+Gv5c/o/+vv7Y/vL/EP8g/yD/Gf8D/u7+3f7P/sD+qv6Y",
+  "/nr+eP5v/nL+c/5+/o/+vf7g/v7/Cf80/23/mv/YAAgAQACDAOoBWgILArADMAOpBEIE4gW4BnEHJAfkB1YGKA0eEFIQ4BDdEQgQUQugCQwJNgik",
+  "B7MG6gZxBW4DggF//5T95P1x/N781fzb/HP87fzU/Un9jPw4/Yj9zf1k/Av9LfyF/TL8wf0m/bT95/3F/ab9wf1k/Vn9Y/2E/cv+JP6j/y3/wQBh",
+  "AQIBpQIzArEDOQPWBIUEtATCBNUE7gUPBSIFRAV2Bb0GBQZNBpEGyQcWB24H9AiVCLQI4QkTCPgIwAkFCZMKGwnqCosLRQsNCzAKvwllCAMG5wbk",
+  "BlcFuQWDBTcEyAQFAwsB0gGpAT4AHP9Q/j793/4c/ZL9TP2I/Yr+G/6T/tEADAED/6j9n/x0/Gj8k/yB/NL/lP8z/Dv8SvzK/Rf9CPy3/J/8dvws",
+  "+9D7c/rn+jj5YPh195L26vXu9TX0T/OT8uXyJvGR8PXwPO/M74nvde9H717vLe4M7fXt8e2h7WHtc+2f7cztlO1S7Y3uMO6x74jwlPGv8jHyYfMg",
+  "88r0cPUB9X32pvdw+P37ffyp/Pr9lv63AG0BcwKBArsC+gOZBHwFbAY5BtUH5wiyCVIKHgruDAcMcg03DisPtxEmEQ0Q9RFUEj0TeRSHFRIVgBWa",
+  "FbwVlRXjFbYUnBReFQoU8xUeFlwVEBZNFjUVMxUwGE4XgxeIFlMTXRgIGOoY6BiAGB4XexcLFRQU2BPGE5oUOhRQFIsUqBRpDbwKhQuRCwcKGgj2",
+  "B+0G1gYTBYMFSATMBJMEQwRQA2oCqgJ2AesBgADmAGkAK//W/yj+1P5l/ez9lP1F/PT84PyH/Fb8G/wU/AP76/uh+4j7hftn+2n7bPtz+4D7n/vU",
+  "/A38RvyY/PD9Q/2T/cr+Bf5A/nX+mf67/tT+5/70/vr+9f7r/ub+z/7M/sj+vP6w/qn+uP6u/rj+w/7Z/ur/Gf9E/1//cf+c/7wAAAAnAF4AigDY",
+  "AS4BvQJ1AwADOAOLBBkEtgVsBioHAwelB9QGEwxaDs0QthCPEMQPfgt7CMEI6ggwCCoHHQY0BWoDkgGo/7j+cv28/VD9OP04/T790/3g/lP+hP32",
+  "/bz9qvzn+4r8ivwq/Nb9yP3s/YH+GP2n/ZL90f1q/Yf9kv21/g3+ZP7Q/1b/5AB6ARUBogIvAsUDRwPaBJAE1gTgBPAFAgUdBSoFTwWJBcUGGgZL",
+  "BsYHFgeACAQIbAjNCYMJlAlFCMsIvwj9CYMKdgrfC3ALpgv5C0AKgwm/CE4HigeGBu0GYAYTBZwE5wRJBA8D+AL0AWoBQwCx/87/af8G/xj/LP7g",
+  "/tH/WQAJAAgBbQFO/+f97f1i/Wb9c/2+/gX+f/5u/an9tv3q/d79p/2g/YT9XP0i/Nb8cvv4+3H6pPnJ+QP4P/de9pD1q/Tv9BnzkPLr8kbxpvEj",
+  "8Ofwo/BM8Gbwb+8B7pnuYe4E7eLt7O4U7h3tze2R7dPuZe7877HwjvJZ8rjyCvMe89nz5fQD9Lv1ofde+hD7XPyn/RT9PP2s/xgAAwFHAekBwgIf",
+  "Ap4D8QTlBY8FyAYXBz0IVwnPCqULnAxEDR4Ojw/MEAMP7BBGEOwR5BMwFBQUWxTwFOAUrRUAFMYURxPTE/QURRQHFOYUZhTwFRQVEhSGFI4XLReR",
+  "FrcVPxQQF4QXxRd3FsUWIRUrFMsUAhOVE7cUWRRfFKwUehEjCf4LqgvSCvsJ/QjxCAcG/QYIBVQE5wTABGYEPQPjA1gC9AHmAZQBZQDOAGP/2P+J",
+  "/vr+jP39/Zj9gv09/Pn8pfx8/Fn8CvxJ++r7vvvR+7r7pPuG+4/7lfuf+6n7sfvM+/r8Mfxt/Lz9FP1c/aX96P4h/lb+ff6b/rj+vP69/sj+y/7Q",
+  "/sD+uf7C/sv+x/7D/sr+y/7c/vP/AP8b/zj/Y/+O/7P/x//oABMARQB7AKkA4QE3AZMCPgKGAsADSQNtA9QEbAU+BiIGvAd/B54FtA0DDmMQ5hEF",
+  "EGgPMQq9CRIIXQgEB+IG7wYSBYMDnQGy/8j+5P5I/cf9lP11/Yr+AP7l/u/+e/4x/fb9pP0D+/D8Fvw8/Ej8mvzh/TT9ff2i/Y79hP1+/Y39rf30",
+  "/jb+o/8l/6oAMwC4ATgBvwJfAvUDjwQWBHUEwQTNBOUE7wUFBTIFYQWlBfkGNgaXBxcHewf+CHkI7AmmChkJtQlLCJQIwgj7CYgK3At3C7oMagyo",
+  "C6MKWgnACQUIhggtB5cHKQbTBjUF5AXGBX8EgAO6Ak4CLAIqASAAjwAqAEX/4//y/87/cgFNAYUChAEdAGb+3/5a/jD+bv7c/v/++v72/uX+hP6J",
+  "/nL+iP6D/n/+W/4C/af9V/z//I373vsP+l35bPjS9+/3IvZC9Xb06PQ184rzBfJ68f/xjPFS8ULxK/AN72PvCu657oLugu567nDuGO4M7kzuz+9Q",
+  "7+PwpfFh8Y3x1PLO85Lzs/Nq8/31nvet+Zr64/vz/Jb9K/32/gD/Nf/PAHsAoQEiAWQCawMyA5EEdAUKBg0Hewh+CV4KWArxC98M8Q4IDqEOjA6T",
+  "D0YQhRICExITcBOpFBsT0RPlE6ATrhLAEu4TIBLOE3wTuhQfFFMUZBQ/FFoU4xY8Fq4WFxQpExAThxNXFCAU1hTvFFET3ROdE7gUYxQ9FF8T7wtv",
+  "CtcMMQvZCuIJxQjYB8YG4gYiBYYE7gScBGoD4gOBAvECWwHPAVwA+gCoAFT/jP+v/s7+fP3k/Wj9Lv0F/NL8lfx5/Df78vu7+5T7qvta+9f7Qftm",
+  "+4n7jPuj+7v7yfv0/An8M/xu/Lz88v02/X39uv34/iX+Sv5v/oT+ff6H/ov+kv6d/pf+mv6i/rj+wP7J/tn+5v8N/yn/MP9V/3n/qP/C//YAFQAi",
+  "AEoAfACxAOoBHAFoAb0CMwK+AsYDIgNoA/YEkAWCBjMG4ge/BzEF3w0ADi8PvBEZEPcOjQmoCTII0gg8B5sG9gY3BRYDjQHb//r/Tf72/kf+C/4f",
+  "/fj+cf8m/sL+a/3M/bb9hPvc+8j8NPxM/K386/0P/SP9dP2C/Yb9k/2q/cD9+P5W/rP/JP+QAAcAkwEfAaICHAKhAyoDuQRQBLcE3gToBO4E+AUb",
+  "BVAFjAXeBkAGjQbVB2gH3ghJCLsJVwotCpMJyQjtCPMI9AkjCdgK6QtoC/sMswyIC2sKmApACgYJZAj1CKsIDwdIBoUHQwc0Be8EUwTdA4oDPANx",
+  "AlABwAFxASgA5gCfAIL/+AHtAtcC/gJJAOn/tf9L/0r/eP+O/7X/uv/5/7f/Xf9X/13/bP92/0X/Hv7z/qv+VP3y/Z/9C/xP+5D67Pog+Ur4hveT",
+  "9uL2MfVq9Nn0WfPL8x3yh/I68kvxzfEH8CTvyO9e7yvvHu7f7rTupO6U7tHvOO+s8BnwjfDm8Y/xgvJY81rzW/MP9CD2PffW+J/5r/r7+4z7/P0Q",
+  "/gv+UP6b/oH+z//CAB0AxQFRAXEBTwHDAsQD3AUKBqQIiAl9Cj0LFgxBDKcMdgzTDY8O9hBjEcYSghKgEz4TKhMDErIRaBFeEeYSNhH9ElYSqhM6",
+  "E8QTjRNuE48UHRTvFZ0VjRVCFMQUxhTxFQIU2hR8FAUTnxNjE7YUQxQlE/IRZwl1DHYMxwwFCtUJqAirB60GugYLBYoE0wRZBEMDywM5ApwCMQG6",
+  "AVMAzgCUABH/nP8b/o7+bP6E/e39f/0L/Ln8ivxU/Bv74vup+4D7UPtI+wH7JPsw+zr7YvuI+7j72/v1/Aj8Lfxn/KH83v0h/Vr9kf3I/fj+H/40",
+  "/j/+S/5e/lr+Zv5p/nn+fv6W/r3+zf7h/vj/Ev9C/2j/d/+f/7r/5wANAC8ASgBoAJMAwADlARoBRwG0AcACLAJvAxsDKQOyBB4E2wWKBigHIQdm",
+  "BrIGnwyPDVoPiBDdEN8MBQpgCVYJWgjxB+sHMgZOBPQDbQIiAPUAUv+c////8/+a/sb/Cf6u/j/9mPzm/JX79vt5++H8O/xo/Kj86f0g/Vr9gP2Q",
+  "/av9yP36/i/+ev7Z/07/uQApAJkBDAGVAh0CnQMfA58ESASYBLkE6gUDBRAFLAVUBXcFvQYZBkwGhwbtB8EIDwiGCOEJWAoQCxEKAAk6CVgJWAlM",
+  "Ce8KzgveDFoNAAzMC3IKzArICo4J+wmICX8JSgi+CE4IQAeYCDEF5wXeBKUEPwQvA0MCnAI3AbABVgE4ASwAxwHaAyMDiAKtASIAfwBNAD0ASQA7",
+  "ADsAbwBuAFgAJgArADEAMAAcAAP/6f/b/5r/Rv7W/pL+Lf16/Nr8H/tW+qX5wfjn+Cv3TvbE9iP1evTx9FvzkvM/823zDvHR8Qvwk/Aq79Dvju9a",
+  "7zXvHe8t72Dvt/AI8Gbwt/Ey8TnxhPGA8jDyufLk9ED2Q/do97/42/nE+aT6Cfs+/JD9I/2H/UT9iP5+/t7+/wAVAPUBNgFdAdoCmwO4BTsGZweZ",
+  "CEsJVwoVCmMK4ws8DFwNdg7IECURUBHQEgoSWhJEEkoQwRDZEDIQ+BFDEWESvRJdEtwS9xK1EpUTORPNFJgU7xTQFHUUvhSuFHoUTBP9E6cTSxM5",
+  "E3AUDhQDE2gPWAsBDTINJQwuCsgJpgiBB5YGoAXyBWUEsQQSA98DiQMXApMB/gFnAQsAugBgAAT/kv8i/v3+Z/59/fL+Cf1a/PT8ofxN/Af7w/uK",
+  "+2r7RPsr+wf7FPsD+wX7MvuE+6X7tPvQ++v8GvxN/H38v/z6/Sr9Yf2R/cf94f33/fb+Df4z/i/+NP5D/lj+ff6j/sb+3P75/xf/MP9h/4b/ov+4",
+  "/9r/9gAgADkAfgCQALYAzQEUARsBWQGxAcwCAQMHAxIDSQO3BE4EuQWDBnkHGgdeBm8HKA33DwIQFhDSDzkLcwppCgUJ4QkVCDoHdAadBTMDxQJh",
+  "AaEBGQD1AS4BmwCe/3L/Y/6w/cr8Bft2+5j7ZvuW++T8Zfyl/Pz9Mv1b/aH9wv3T/hP+NP55/sj/Jf+ZABQAdwDfAUcBrAIaApEDDQOKBAIEggTR",
+  "BOkFEgUyBUkFXgWOBckGHAZuBsYHHAd1B9oIQgijCR4JuwqBCy8JggmpCa4JnAmfChgK4wv1DKENIw0iC5gLFAtYCxkKawpsCgIKQApAChsKAwpv",
+  "CjIH0AdtBhcFGQSxA+wD5gJsAh0BngHEAfQBuwIOAx8DdAKtAdwBTwD4AMoAxAC5AOoBBgENAQYA5gDNALwArQCyAQIA3QCdAHMAfQAc/4n/Mf6d",
+  "/gD9S/yY+8X63/oi+Uf4kvgC9zf2pfYU9W70ufRL9JLzy/Kl8f3xRvDk8IvwNe/n75fvlu/D7+TwwfBv8Ibw0vEt8WHxjPF98Ufxs/Js87X1k/ax",
+  "9zr4Zfkr+YP5gfqY+3T7t/vc/A38zv0s/ZX/RQAXATgBaQB4ALgBtwMeA8MEyQWnBqEHmwgrCOcJXwpJCwwMLg2ADt8PSw+6EHcRdBGVEWoQVw+F",
+  "D3UPtA/6EC8Q6RGEEgMSPBITEegSVBM0E6cUFhQYFBIUTBQ1FAgTyBOQEzUS9BL8EyoTvBOFEoENJQxsDT0NGQxDCtUJowhqB6YGwAXvBUwEoQPy",
+  "A4MDPwLbAl0BwQE2AMAAfAAy/+H/pP9e/yH+w/5m/rT+M/3H/Vv8//yJ/CH7z/uL+1j7M/r2+uP69vr3+vv7CPsd+1v7lvuz+8v7//wj/F38gvy+",
+  "/Pb9GP0+/X39qv23/cr92f36/g/+HP4p/jj+Zf6M/rH+2f70/zP/Rv86/1b/gf+v/9D/+gANAEYAaAB7AJUAxgD5AV8BggHAAg8CgQKDAwgDswOo",
+  "BFcFFwWtBioG0AckBhwH5Q1iD+IQuRAlDhwLdwphCfUJoQjyCEwHdwaRBZYEIQLAAegBoQHlAesBgQDJ//X/Cv3B/EH7vPvk/AD7rfvA+7b8K/yf",
+  "/Sf9pv3p/iv+Xf5n/o/+yf8d/2//zgBHAKoBBwFsAc0CLQKeAw0DfgPnBFUEzQUQBSYFSAVdBXUFowXfBiAGYgatBwAHPgd/CAgIcQjCCXQKNAnu",
+  "CaUJrQnlCdcJ4QnkClILBQwvDFgNBwz8DBcMdwuhC3kLGwsyCxwLOQtCC04LbgthCxIJbgi+BxIGBgWTBQUEdALeAmICZQK9AugCqgI/A6AD+gOi",
+  "AyQCeQHrAaQBcwFrAaIB6gIHAesBlwFwAYIBqQIOAkwCOwI4AdYBBQEHAHgAAP+M/xP+dP26/O38GPtD+ov52/j3+Gz3tvcR9nT12/Vs9U30rvNw",
+  "8tPyBfGY8U3w4vCU8GvwZPBg8G/wdvC98MfxDvEp8TXxJ/E98TPxGvF28o30P/XZ9wP4Efj9+R34+vlD+gr6tPsX+yb7xPwA+/78x/01/fb/TAAB",
+  "AB8AMwGvAqMDcQSNBU0GPwbpB9kIkQl7ClkLgQxgDUINwQ4lDtgQGhDdEKgPKg6CDmEOgw79D9kP0xBwEPYRThEwEMERlRIeEr8TOhNrE6ETmBOh",
+  "E5ITYBMdEsoSkRKAEsYTfRMsEYoLXAvsDSEMtQvzCusJnwhoB3YG0wXuBToEsAP+A3AC6wKkAh4BmgDtAJwAI//z/63/kv+B/yD+uv6X/mX+b/51",
+  "/fb9iv0c/H/8G/vG+2z7MPry+tD6x/rP+tH65vsH+zP7XPt7+5f7wPv0/Cf8VvyC/Kb8x/zj/QX9K/1Q/YH9n/2//eL99P4O/iP+O/5y/pf+qv68",
+  "/tX++v8Y/yv/Uv9y/6z/6AAEAEsATwBwAKwA0QESAVMBeAGyAhMCZQKoAwMDYQPnBJMFLQWNBlQG7Qc+BTgI2w2DEBwQCQ5tDggKTAmqCXAJSQi1",
+  "CAMHZAafBbUEawL3AlECEwKLAk0BlQBOACj+9P0//NL74PwB/Ar7s/t//E38bPzp/Wj97/5w/rT+4/8U/0f/eP+zAB4AhQDmAT4BmQHwAkwCrgMK",
+  "A2cDyAQ8BJ4FFwVPBVgFfgWXBbMF1gYFBjMGdwbPBxMHYAexCCUIoQkVCasJYglhCZYJoAmuCdcJ+goBCmkLIgvADFIMsQx0DIcMdwvLDBAMKAzY",
+  "DB4LqgvUC+QMpQxoCwAKCQlYB1IG3AaCBfIE0APZA08DWAPEA+EDjwNPBK4E0ASuBLcEJgMfAs4CtgKsAu8DBgL5AsECrwKqAtIDKgN3AzADLwK+",
+  "AqACSAGgAU0AxQBZ/+H/ZP7I/gD9Ofxs+7j61/oz+Yr4uvgx94X28/Zv9ef1NvRR8+Xy0fJ58jjxw/F58UbxAvGM8UjwnfDF8P3xS/Ei8PHwzvDT",
+  "8JfwuPEe8Z/y2fS29pT3nvgN+D74YPiS+PH5q/n6+nv6s/qp+tT7Kvso+1L7/vyl/bwABAFhAgIC7wOGBDIFKQXfBtcHxgi6CasKsAtUC8cMkQz7",
+  "DcIO3g/JD48O0A3QDgsNnQ4+DkEOsg9eD+AQMRAVD7gQSxEDEdsSTBKOEtgS3BMAExQS4RKtEo0SZxJ5EqwTFRKsD/oJtQu7DcoMZwukCq8JjAiF",
+  "B38GuAXsBTwEwwQPA2oC6AJzAeMBaQDaAGsAGP/Z/5j/df+b/0z+1f6L/l/+Kv3u/kr+A/2B/Nv8b/vk+5f7UvsW+uL6xPqx+rX6y/rv+xL7N/te",
+  "+4T7pvvF++v8GPwq/E38YPxx/Jn8xvzn/Rf9Vf1c/Xz9pv2w/dT97f4S/jb+Rf5v/nP+rP7E/uH/Cv8//3T/qf/UAAoARQCBAKIA3AESAR4BVgGX",
+  "AcIB8wJhApoDIwOuBD4E1AVSBfYGigarBQ8KEw21DvMNqQskC1sKYAloCVMJEghVB8EHIAZwBXUETQNdAxkDEAK3AoACTgCiAHz/Yf2L/O776/v3",
+  "+8v7sPvL/Cb8gP1J/df+aP7d/1//nf/u//AAPwBzAKsA7gFLAbQCEAJvAskDFQN5A84EJwSGBNsFNQWGBZAFjwWdBbYF3wYHBkUGhwbCBwcHdQfQ",
+  "CE0ItAlqCXMI/wk+CW4JhAmjCeQKEAozCnsLIguyDFoMNQyfDLEMjAw3C/8MkgyLDAgMKww3DDQNag3TC0kKcQmeB4oHKAcTBt8FJASUBGYETASK",
+  "BKcEbwUqBbEF0QXNBa8FOgRZA/oECgRjBG8EQAP5A8QD2gQyBHkEGQQ8BD4DzANwAxgC2AKCAhABmgEpAKUAJf+w/yL+XP2q/Mz8Ffte+n759/ky",
+  "+JP4Ffdw9wj2a/V19Nvz7vNK8xjy7vKm8iDxm/H78bDxDvDp8P3xFPEF8MvwxPC78Jzwg/Cq8Trxw/Lf9Qb1vPbY9y33offo+AP4Mfjz+Vb5cvm/",
+  "+ab5lPm0+kD7Rfxo/mT/nQCtAX4CGwL1A8wEgQVQBl0HXQgACOoJlAo/CtsLwQv3DNMNlw6VDnoNagwrDNQMjQ03DdcN3A51DwQPJg71DuEPhBAz",
+  "EgIRaBHkEjcSShJzEkISJxI/EjISJRIhEo8SfRHJDYIJBgvpDEwMMgsiCkcJHghYB30GrQXlBVAElQP7A2ACzgJEAb4BOADbAHAAGv/U/4n/XP9i",
+  "/1X+9f5t/jD+Av3n/aL9bf08/Q78zPwm+9H7ePst+vH6z/q8+rn6vfrd+vT7GvtF+2H7kfu1+9f77/wP/B38LPxH/GP8fvyZ/Lr84Pz4/SD9Sv1i",
+  "/Xz9mv2z/cf96v4H/jH+W/58/qX+wv70/yb/Vv+i/+MAKgBwAIkApwC2AOgBEwE8AYUB8QJJAo4DEAOeBFsEsgVQBfwGiQYsBYIMBQ6tDbwMKgr5",
+  "CgMKFgmKCTcIqAffB0oGxQYhBWEEZQPIA4sDQQK5Am0BrgDIAH/+0/2I/N78nPxz/Gb8Tvyg/QL85v2W/kT+wP9wAA4ASwD2ANoA2QDhAQkBVAG/",
+  "Ah8CiALlAzkDhAPgBDYEkQTaBScFZgWuBagFtQXHBdAF4wYEBj0GeQbZBy8HeQfwCF0I/Aj2Cd0IyAkrCTQJdgm7CgMKHgoiCl0K7wt/DGMMBAxR",
+  "DTkNmg0pDOgM3wzcDLUMnQ1mDPkOFQ2BC80LAwlXCEcIOgf3B6UGEwVwBT8FTwVuBcAF9QcPB3sHZQbnBmcF1QWkBU8FUgWsBc4FwAV2BV0FdgYA",
+  "BdQFVwULBIQELwQQA+oDmwM/AtICXwHnAXsBAAB7AA//gv7N/gL9Mfxe+8/7Cvo8+b35DfiE+Bf32/cn9ij1TfRc9BTztfN18uvyT/Ic8b7xSfEV",
+  "8RrwyvDV8K7wjPCX8GjwaPCN8OrxefHb8zv0m/VC9nj2s/c49yz3QfeT9/L4CfkY+PH5OvjU+YD6X/v8/Zv+oP+NACsBQAJJAx0ElwTrBfsG4gd+",
+  "CCYIuglrCisKzgsGDGENQA3iDYgLmAttC3wLsgyiDNANEA2oDhAOMQ30Dg4Oog9XEJYQrBEhEX0RvxHzEY8RkBGgEa0RwxHUEpESEg+RCj8JogwC",
+  "C+wL1gpnCZ0IzggFB0cGbQXSBUgEmgP4A1cCvAIvAagBNADMAIAANv/m/6v/Zf9V/3D/J/6S/if9y/2M/UP9Gv0B/Mr8kvxd/BT7wPuL+0r7E/rf",
+  "+s/6xvrc+vz7MftQ+237h/uf+8b7zvva++v8Cfwa/DH8R/xj/Hz8lfy8/Nr87v0M/Sf9Pv1g/Yb9pf3P/fX+E/5D/mP+h/6x/t3/CP9d/6UADgAx",
+  "AFYAYQBzAKEA1gEFAWEB0gIcAo4DIAOHA/kEgQVABboGJgVbBe0Muw5TDGsKjwmwCUwJWgoACM8ISgd5BvMGsgX9BXgE/ARiA7kDWgJlAagBFQFC",
+  "AFL+ev2E/ST8+PzH/HD8Qfyb/TD9o/5q/3v/8gAwADIAkwEHAV0BlQGeAdEB6wJAAq8DEANiA7AEAQRRBKEE7wU6BYoF3gX2BeUF2gXOBd0F9gYS",
+  "BjsGgQbWBzAHdwf3CC4IRgiPCXcI2AjkCPoJTwmPCdMKEAoECmQK0QsoC1YMKAwRDI4M3A26DaIN1A2FDX0NOw2rDeoN3wyDC9EJyQi2CLIIvgi7",
+  "CHQGxQY0BjAGSAZkBuUH5AjFCMgIlwgqB1UG2Qa0BpoGfAaLBuAHEwcOBu8HWwcNBu8F7AWDBS4FGQTpBKMEVQP8A48DJAK1AjMBwAFSAO4AdP/T",
+  "/yT+RP2A/L/8Dvtu+tr6IPl0+S35Effh9wf2K/WA9Pn1BvR081Ly0/KS8hzxlfGF8PDwqPCh8IvwQvA/8E3wVvB28KrxBfFc8hvzuvQq9cb2MvZW",
+  "9n72xPb69p33qvf/+DX4p/gY+O75qPrq/I/9Jv3H/yEAfAF6ApcESgP9BU0GIAZNBn0HKwhsCZEJ5wqkC44MnwzfC/MJ4Ao3Cz8K0gs1C/cMcwzK",
+  "DPYNOg0ZDRkNhg5VD2wPrRAhEGwQzxFqEOkQ9hDyERoRUBGKEgkRmgzDB3UK1wwaC30K9ApRCOsIYQeTBtQGIAVsBL4EdgPpA0YCswI9AZ4BMACz",
+  "AHwAN//6/7n/fv9d/0P+8P6q/iD9rP1G/Pz8zfyq/KL8Z/xL/BH7y/uU+1v7OfsX+v37APsO+yf7Tftr+4z7nPul+8T7yPvT+9f73Pvp/AL8GPwm",
+  "/Ez8afyI/KH8tPzK/OT9Cf0u/VD9bf2Q/a/9zf3z/hL+Of5V/ov+v/8Y/2T/p//i/+UAFgA8AFkAkQDSATUBlwHuAn4C2gNQA+EEawT2BaMGMwUy",
+  "BpAMRwz9CogJRAngCcgKYgoHCHsHpwcCBqwGkQZKBdgFrQVTBPkEWgM4Aj8BtwBd/sf9+v2a/Ov83fzm/Nf8gPzc/T/94/6K/7oAegEPAR4A7gEY",
+  "AY8CGwHxAikCewLoA0gDpAQBBEwElQTeBS4FaQWkBd8GLAY2BgAF/QXzBeUF7AYLBj8GfwbcBygHaAflB9QH7wj0CEII9QjWCOQJJAlpCX4JwQnp",
+  "Cl0KlgrPCzAL6gvlDJUM5Q2kDoAOAg18DVINPQ0RDOoMHgwBCp4JegkHCQgJcAnlCXQHzAcMBxYHPwfLCEAJRwpJChsJwQknCNYIYQggB+gHqQfH",
+  "B/kIOQiLCBMIMAgcBz4GagZLBgUF4gWgBWIFCwSzBE4D2QNhAwAChQITAbQBRQDFABT/Tf6Q/c39M/x4++L7GPpv+kj5u/iY97/27PY99cP1AvRj",
+  "9Hz0B/No8tDyefIC8XnwTfA07/fwOfAh8B3wVfCm8LvwufEM8ebyhPO79Wz1pfXh9g714/W99rP2j/d6+AX4c/gi+Gn5FPo2+zf7NvyB/pAAFgDa",
+  "AbIDWAPJBKgE8gTHBSMGcgfSCHYJQwonCwcLmwtkCpkIowkmCUEJswoXCxgLaAvYDBMMTwwhDFwMsg4yDlcOcQ8kD5AP/xCDEEkQUBCKEK4Q2BFD",
+  "EUQQKwkcB+4LEwvMCykJ8AmPCDgHzAdNBogF3wUaBI4EOgO/AzsCuQJGAbsBJwDWAGwAQAAV/87/Zv8f/uH+tP6e/g39nP03/Mr8kPxg/Ej8MfwW",
+  "+/r71/uy+4D7Ufsy+y/7L/tB+1b7XfuF+5/7t/vL+8/7xPvC+8X7yvvW+9r76/wF/Bf8Ofxk/ID8h/yY/LP82/zy/RX9Of1W/Xn9lP25/dH94/4S",
+  "/j7+cf7J/xf/af+W/6P/yP/sABQARgCoAQgBbQHmAmECxQNcA+sEpAUsBbEGHwTdBbYLgQycCgIITglPCeIKbAmUCHEHogb6BpMGqAarBmUGCwWl",
+  "BP0ENQMzAkcBxf+c/vX+hP4U/ZH9DP0J/R783v0U/Tf9gv44/0f/tAAuAIAA5AE4AaICKwI7ApwDCQNtA9oEUgSVBOcFMgV3BbQF6QYlBlYGawZX",
+  "BjwGHgYTBgYF/gYEBjYGlwckBzwHhAeVB9MHuAj4CC0IcgiFCKwI8gj+CT4JfQm2CgEKYgpvCp0K2QwjDC4M0w0bDVkMmQwnC04KywszC4MLjQss",
+  "CeUJlwm9CgEKrgtDCiAIdgf9CAsINgiiCRcKMwwZC9ILCAo+Cd4JowloCTgI+QkuCUQJvAnqCTUIpAheB40HPwcFBvwGvwZ1BhYFwQVfBP8EjQQi",
+  "A6YDMwLBAnACBQGSAPwAR/+N/t7+GP1u/L37/vum+yf6RPlX+Iv3u/cT9mv1ovUR9GDziPL08rHyUPG68Nnwn/BX8AvwOPBc8CHwavFB8S3w8PER",
+  "8gXzE/Qe9Wn1fPUx9Pn07vT39Z32A/bl9133rPe/9+34hvmJ+lD6Wfuz/V3/FABWAQcCxQLOAzADQgOLBH4FegaKB18IlwmzCoIKKgnNB+MHlwgE",
+  "CYQIlgkyCUoKZwrMCyQLmwt4C94Lrg1ADToNgw43DpsPCA+lD6YPsRAAED8QbBDrEJsNjwciCUEK7AsgCqEJfAjfB+YHZAbgBjcFmwTZBFwD5wN2",
+  "Av8CpAIxAcQBMADHAHIANf/m/8D/Yv8m/tb+nv55/jz9vP09/Nj8h/xZ/Df8Hvv9+9r7w/uf+3v7TvtI+0z7X/t2+337hPui+7D7pPuZ+5X7qPun",
+  "+6X7qfu0+8H7z/vb+/j8Ffw6/EH8Wvx1/JL8vfzh/Q39JP1G/Wv9iv2e/bf90P4F/h/+S/6k/t7/GP9E/2P/jP+3/+oAKACWAPsBaQHPAikCfgL5",
+  "A20EMwSOBUoF7wQJBdIKPAxtCOQIEAjoCfMJ1QkfB+8HXAbXBqEG2gbUBqIGMQXQBScETAMPAtoBv//j/vf+Z/4I/Z39Rf0H/QX89/0N/Tr9fP3+",
+  "/sT/Pf/HAGEAswFXAawCSAKUAuUDSAOfBDQErQUPBVYFqQX3BjYGYwZ6BsAGygaIBlIGLAYeBhUGIwY3BmoGvQbHB00HWgd8By0HwAe4B9UICAgY",
+  "CE0IiAjRCSwJYwmgCfIKGwofChwKbwsvDC8MWgzHDLMMZwvsC40K4gqgC18K1wo2CgsKHwqGC18LfAtLClYJHAjzCP0JEgl3CcoK8AxCDOMMRwuI",
+  "CvUKyQrBCp4KcwqOCtoLJgqUCbwJRwiYCCsH8wfRB9MHnwdKBukGewYOBasFRgTIBFID7gNpAxMCtAJLAdkBOACU/8b/Dv5D/ZP9Afx2++T68Poo",
+  "+Wf4oPf19z32kfXQ9Qn0b/Pc83LzIfJh8bLxUPBq8AfwAvAv8HvwkfGb8c7xf/Eb8hXzTPQK9QP1F/RU9CL0XfRM9KX1YPW49WT1L/Ux9Xz2pfeB",
+  "+OX6gvuN/N/+YP9aAD0BHwFzAZICOAMRA84EmQWIBnoHeQimCYMItwb5Bf8GrQbzB1AHfAfFB90JGgmBCgAKnQqlCqALFAvADGcMoQ0VDfQPKQ8j",
+  "DxYPVA+GD6sP5w/YDmkJaQbqCaYKrgqmCgMJHQgfB6wGugZWBhAFUQS7BCMDnwMdArYCcgIQAZABEACxAGsALP/R/2X/G/7o/sT+fP5E/f/9oP0o",
+  "/OD8ivxb/DL8HPvt++D7yPuZ+3n7Xfth+2r7lvuw+6j7rfu8+6v7s/t9+2r7V/tG+4X7evuX+5D7lvuo+7778/wI/BD8Sfxv/IX8pfzE/O39Fv0+",
+  "/V79h/2l/bz91/30/iT+UP6P/rz+7v8e/yj/Vf+B/8UACABsAOEBSQHoApQC6APtA8AEIATbBXoFMwNMB3wJxAx8CYsIiAi8COsIhAhIB5QHFga+",
+  "Bq8GmwZzBl8GFAW3BP4DwANLAlEA1v+P/qr+Gv3P/an9YP0w/Qj9Hv0Z/Tv9rP31/nz+9f+sAEcBGgEjAdoCbwLKA1gDtQQsBIEE/QVYBboGIAZq",
+  "BrUG2AbpBxUG+wbFBowGagZKBkYGTQZQBm4Gjgb4BrgHDQdVBvEHIQdyB6kHyAflCB0IYgitCQwJaAm/CfEKEQn9CfYKSAr0C5EMIAxSDAoLtwth",
+  "CykKKgq2Cr8KjQpJCkkKkgsOC5YLnwtMClwJuAnOCdIKAAovCpYL1Qy0DPYM1wxzDCcMKAwSC/0L4wwMC9kL3AsvCj4JqgkLCLMIoQigCJcIfAgm",
+  "B70HQQbHBlMF4AV7BPsEgwQbA70DYAMWArMCJwFrALH/yf8Q/m/9vv09/GP7r/rq+jz5hfjX+BL3b/an9dX1K/SR9B/zrfM18q/xgPEl8HrwL/Au",
+  "8FbwYfDP8RLw5/BY8R3yZ/MS827zivLZ8nfygfLD8xnzHPMK8xbzSfOu9Av06fY491T4kvop++P9Zv6A/zH/1QBxANYBmAJbAy8DyASYBUwGlQeg",
+  "B/oGpQRnBTEFpQXwBlsGkwbABrcHlggxCMQJbAm/CjQKKQqXCwYMBgxuDGANZg64DywO5w6rDsAO1w5ZCxwHJQfICakKMAnwCSgIZgerB0UGtwYc",
+  "BaYFDASFBAsDhAMCAngCHwHfAVcA3ACSACX/4f+I/zP+5/66/oP+Nf3R/aL9Yv0G/ND8qPx9/FD8O/wc+//72fux+6j7kPu7+677s/uu+577ofui",
+  "+8f7q/uY+3L7Oftt+137gPtW+3L7dvuj+7H7xvvs/An8K/xB/FD8YvyR/NH9Gf1F/Xv9l/2i/b392v4a/kb+g/6x/tj+4v8B/xr/KP9U/6P/8wBd",
+  "ANwBYwHXAlUC3gNDA8oEagToBQEDuASVCBcJtAu+ChQIoAgrB+YHrwddBxcG8AbEBsQGhwY4Be8FRwTlBAkDcwMBAT3/5/7O/gj9uP2h/Yz9SP0l",
+  "/Qb9Iv0z/UH9hv37/mv+8f+IADEArQHtApECdQMbA54EVATKBVgFvAYwBm4GrQb1BxcHIgdGB0wHMAb9BtoGvAaWBpYGfQaCBoMG9wbLBqMGswb0",
+  "BqEG3wcfB0YHgAfcCDEIkAjwCTkJcgm5CeMJ+gn+Ch4KaAqiCxgLcAwNDCoL1wq+CtAK2grtCvAK/gsACtwK9wuIC7sL5guACpsKYgqMCrYK9AsR",
+  "C5kMcw0xDX0NjQ1ODWANeg19DV0NRA0KDNcL+gtFCn0J1glICTUJNAk4CT8JEwjLCGkH8gdoBvIGewYABZYFKgSyBGMEJQPhA5QDHwJcAYMAff/8",
+  "/0r+qP3f/T38hvvT+yv6bPm/+Pv4S/d39rj2C/Vg9OH0YfPV80by6vIh8YbxGvDX8J/wb/Bj8G7wJPAi8FPwk/D68TPxIPD38PXxCvGE8cXyGfJg",
+  "8uLzOvPN9Db0l/UL9dr2h/ej+Mf7zv1d/hz+rv+XAF4BLwHNAn8DFwO3BJ4GIgdDBoADxgOSBBoElgUYBWUFegW0BcIGJgb6B04H9gioCYQJ0Qnf",
+  "CmgK5AtMC34L9gzJDd8OXw48DXYM2AsMCQwGpAhrCWUJagjvCB0HnAb8BloGWAWKBVcEwwQ2A6wDUwK2AlkB+gGGAToArABn//T/lf9l/v7+uP6L",
+  "/lL98/2M/V79Lfzu/KH8b/xR/En8Mvwb+/77y/um+3z7ivuZ+5v7lvuI+377hPuY+5P7tft3+3H7aftE+zn7UvtP+0P7dvul+8j7x/vl/Ar8JPwz",
+  "/ED8bPyC/MD85P0L/S/9aP2W/cX9+v4c/kP+cv60/tD+2v7j/vr/IP9X/4z/1ABDANQBUwHmAlgC1QNMA9QETgSqBFsDiQc+CBcJrwqICjsI7Qe4",
+  "B04HDAbsBugG2QajBpQGuwaoBfkE+gRrA5UCygGdAJb/bv6t/jz98v3K/ar9eP1V/S79JP1Q/V39hv3e/mL+5P9/AEEAxgF6AiwC3wOQBA8EnQUw",
+  "BZcGEgZ+BuAHIwdpB6kHswegB6MHiAdkBzoHCQcOBwIG7Qa6BrUG1gbZBrUGhAakBokGqQbgBwMHewfvCE8IwQkHCSIJRQmKCbwJ9Ao7Cj8KOgqE",
+  "CqYKmgtJCy8LeQtGCwsLnQvTC6MLgAuSC3ALrQvPC/QMHgulCykLGAtdC70MFww+DJgNUA41DmwOWA5zDrAPHg8MDrsOKA3qDOcMQQuOCs0KDQnM",
+  "CZkJdgmACXUJbwknCM0IfAgTB5cHGQaeBigFwQVcBQoExwSbBHMEBQMgAfIBawC5ACL/eP7U/jP9afy7/AD7Rvqi+eL5Mvhq96j28PY89a/1H/SM",
+  "9APzffL38pryZPIg8bHxZfFK8Ozw5PDE8NDw9vEM8Mrw8vEA8UjxkPHP8ifyfPLP80jzk/Qk9IL08/Vj9dT2Xvce99f44fq8/KX9h/6Z/6gAzwF7",
+  "AiUCnANvBNcFSAWCBJ4CLgKPAyADkAQFBMYEbgSkBKwE7wV5BiEGtQeFCEYIuQlmCcoKCwpoCrgKwgtVDFYNEwzbC8AI7whfB6wIXAkGCQkIvgfm",
+  "BzMGmQYLBdAFowT/BI8EYwPlAzAC6wJiAiYB6gGSATMAuwBN/+v/g/8z/tf+fv4Y/dX9o/11/S/87vy0/HH8PPwa/BL8Bfvk+8z7y/uc+3D7WPtV",
+  "+2v7Z/tj+1b7Z/uC+3D7ZPto+0/7J/tB+x37Kvsy+z37V/uA+6D70vvz/Bj8Jfwo/Cb8Rvxx/JP8tPzl/TL9Yf2W/dn+Ef5J/nf+rv7g/uL+8v8H",
+  "/xb/Mf9b/7gABABhAM4BRwHFAjsCpQMjA5gEKwRcA7QE2QgRCCQJ4gnmCPQH2wb8Bs8GtQaVBngGWgZ8BpgGYwX6BZ4ExgPWAyYBogDo/9v/JP64",
+  "/mP+I/3s/cP9kv1f/TP9PP1R/W79nP3t/lz/C/+rADMA9QGbAlMC3wN9BCwEwgVDBc8GPwaLBvoHXAe2CA8IKQgSCBoIBwgKB+8HoQebB4sHhQdG",
+  "BzUHCQbrBpoGaQZSBnwGnwbcBz8HlgfhCDIIdAjLCN8JHAlrCdIJ+QopCrAKYgqRCq4KfgrcC3kLXQswC20MAAxIDD8MOAweDEQMIAw1DEUMlwwm",
+  "C8EL0QwtDJwNMA2aDfoOiA8CDysPSg/7D+gP/A/XD2oOlg4CDSwMoQv2Cy0KkwpOCfkJzAm2CaQJnAl7CU8JDgi2CEkH0QdFBsYGUwXeBZkFegVA",
+  "BW4ExwOEAuECLwGxAQUAXf/S/xb+W/2l/P78RPud+tD6Lvlc+J336fc+9o/1+vVi9Nf0RPPJ81rzBvLH8qzyk/Jf8ifx4fHW8cHxr/HS8ZjxzvHX",
+  "8iLyOfJ+8q/y6/M485Dz6/RZ9LT1JfWN9gT2ifc79934eflG+fj7a/zn/oT/uQCWASgBggKcAowCiQLEAoAA+QGeAh8ChgLnAzsDaAOUA5ID/QRO",
+  "BMsFPwaGBzUHWghGCVMJzAm5CW4JuwoxCw4LvAtoChsIpAgdCCEI4gj8CH4H/AcSBi0FjgUwBQIEUwSlBL8DewMoAs8CewIGAbQBsAGFATgAugBF",
+  "/+b/f/8W/sv+Zv36/Y39N/0c/QD8t/xV/DP8AfvP+8v7wPut+5/7lPtv+1r7UPtX+1b7avtU+0D7MPs7+zX7TPtL+0X7H/sJ+wf7A/sZ+yb7S/tn",
+  "+5D7wvvp/BX8Gfwn/Cf8OPxP/HT8m/zG/Pb9Jv1P/av98f4//oP+wP7t/xD/Gf8x/0z/a/+Q/8QACwBjAMgBMAGjAhwChwLyA4gEBARGA3QFmQfF",
+  "CCoJkAlYCEoHSwbkBkYGEwXyBioF6gWdBbYF1wXTBSoETgNbAaoAzgBT/5L/CP6u/nv+OP3+/cP9gP1V/Tv9Tv1l/XH9o/4C/mX+0/+mAD4A7QGg",
+  "AoEDHwOzBEYE5QV6BfMGagb2B1sHtQf9CGAIlgiOCI4Iigh0CFgIRgg1CCUH6AfVB5gHTgbEBmMGNQZnBpAGxwcKB2YHmAe9B/QIOAieCPEJUQm3",
+  "CiEKTAsLCmkKxAqjCsELRQtrC3ILqAuZC9EMqA0WDPIMqAzEDH4MbAyaDJoMkAySDH8MmAzQDVcOGA6mDxMPiA/JD/MQFxClEGIQHA+6D5QOqw5K",
+  "DbIM7wxHC7YLSwrZCpAKQgodCgQKCAnvCb8JlglICOUIZwfeB2cG6AZ/BkMGJAXbBf0FCgRbA7IDGwKAAesBVwC/AAP/Uf6k/f79T/yg+9b7I/pc",
+  "+Z748Pgx94D24PZE9aD1I/Sq9C3zxfNy8yry8vLQ8pLyXfI/8jDyM/I28i/yNfJi8obyrPLO8xzzTPOS89v0KvSC9ND1KfV89gT2nvb794j4Pvjv",
+  "+bz6Qfrn/AL9jf73/5kAUADDAKMBDQBP/6cACgC2ASEBogHPAhICYwKPAqUC3AM4A68ETQUWBhMGEQcgCDgIwQijCJIIvAlACRoJzwmYB7UIUgfk",
+  "CHMIoAgmB5QGuwYTBRMEjQRLA+EDZgMJA8ADQAJOAkQB8QGkAVIBJgEGAO4AhwBCAAX/of9B/tD+VP3G/WP9B/zS/KP8gfxN/AT74fvA+577hvtu",
+  "+137Rfs3+zT7JPsN+xb7Ivsw+y37Kvs0+zr7O/s8+yz7Efrx+vX69/sJ+yf7RPth+4P7p/vS+/P7/PwN/BX8NvxK/Hb8r/zq/QH9Gv1K/YL9yv4u",
+  "/nD+p/7l/xL/Rf9X/33/nv/N//MAMwBRAMYBPAG2AjUCngMZA54EBwQkA6YFEwahCAAJhAjaB/EHOAa8BjIFoQVsBWUFfwU+BM8E8QUcBO0EMQL/",
+  "AVwAhf/u/2T+8v6e/kz+GP3m/aP9Yv06/Sr9Mv1o/Yj9tv4a/oX+8f+CADgA9wGhAoEDMQPGBGEE8gWMBh8GpAcXB3UHzwghCH0IzgkWCQUI7gjd",
+  "CNUIsAisCIEIhwf5B74HbgdCBtoGpwaUBtMG5AcmB1gHjgepB9MIIwigCTsJrQoDClIKaAoxCuUK2Qs9C3gLbgt+C3cLqAvQDHkNUg2vDXsNVA0E",
+  "DOIM3g1dDS0M9QzsDSMNdA3EDksO7w92D/cQahClELQQzRCFED8QAQ/RD6gPKA6/DhsNjg0NDH8L9guUCzIK4QqsCpgKcQoxCg4KBAnmCXsJEgiX",
+  "CAoHoQc1BvYGpQaiBmQFwAUcBI8D6QNuAtkCSQGcAPEAYf/G/wj+T/2U/Nn8GPtS+qD54vkm+Hv3yPcr9oj2EPWU9Q/0mvQ289zzg/NJ8wvy2fK/",
+  "8qfyrfKk8qPyrvLL8uPzA/Mm81TzkfPd9CH0Z/Sz9PD1Q/W39gr2jPcq98L4Yvjz+Xb5/vod+rf7b/0b/zv/U/+c//0AUAAR/xb/Mv+9ADoAjgDK",
+  "ARUBRgF/AZsB5QJLAtgDRgPyBJcEyAX8BuEHPwd6B5EHtAdjBgcFCAY/ByQHbwdXCAYH4gdFBpgF6wUABCADpgMzArECaQJUAiUB3gJTAQ0BNQEI",
+  "ALwAdwBeAE4AD//l/7T/V/8b/sr+WP3Q/Uz8yfyJ/EL8G/v1+/j7vPuQ+3v7Tfsy+y77IPsQ+v/6+vr4+vX7AfsG+w/7JPs/+zv7R/tC+yH7DPry",
+  "+vb7C/sV+zr7Tvtr+5H7tfvP++j7+Pv9/BT8MPxX/IH8vPzi/Pz9GP04/Xn9wf4w/oP+xv78/zX/X/+G/5D/t//bAAgAKABnAN8BSAG/AisCrgMo",
+  "A6oEMARJA70FPAbECGYJGQjjCNsIPAdDBmMFvQWBBS0FGQVIBUwFLQUPBMUDvgH+ALIAJv/Y/1z++f6d/kb+Av29/X39R/0Z/RH9Hf1U/aX9+f5J",
+  "/sP/I/+RAAkA1AGhAncDJwO+BGEFCwWiBiMGrwdMB6gIKAiICM8JGQlUCVIJPwkSCRMJEQkNCLMIpwiMCIkHzQdmBzMHAAbYBqcHCgclB3QHnAfE",
+  "CAsIewkNCaAKCgpsCokKlQtJCzULPgtWC34LeAuMC68LzgwwDL0NnA3hDdINiAz+DP0M9Qz5DMcNBA2HDhAOaw76D2wPvxBGEKwQqxDwERQQqBCj",
+  "EHQQQRAED/gPnA9KDocOOg25DR8MsQxGC8oLeAsjCwsK2wqmCpIKewpUChYJuAkvCLwIVgftB4YHcQc4BuoGawXnBVwE6ARZA7oDGwKLAh8BdAC6",
+  "AAb/V/6V/d79F/xX+5L61vor+Wv4wPge93f2/fZz9gL1d/T49JT0IfPg85nzYfM78znzH/Mx8zbzMvNE81DzY/OF87Dz5fQq9Gv0qvTh9SD1gfXZ",
+  "9lb21vdK98n4UPjL+Uv5rfnX+gn6hftz/bL/F/92/5j/5v8D/jP+Wf6//0f/bP+9AAgAUwBpAKEA/gFtAdICMgLHAzMDrATmBZ4GCAYvBlgG8gZd",
+  "BQQFMgaVBjoGBAbAB2IHJAZ8BdkFFwSIA/kC2wJ2AiEBnQGwAT8A9QDrAYcAvwAlACH/xP+h/47/bf9u/xj+x/6Y/nj+Av20/Rr8wfxF+/T7v/uy",
+  "+7D7ovtq+0D7IfsA+uL6x/rA+sf61Pq/+r/62frg+u77B/sS+y/7QPtJ+0j7H/sI+wH7Dvsw+077bPuC+6f7w/vf+/37+/wL/Cf8QPxp/JT8sPzg",
+  "/PL9Af0Y/Wn+EP5P/oH+uf7z/yb/Tv+A/6L/1P/5ACsAaQCzARIBgQH9AnwDAgOIBAgEWgRYBGwGIwc7CGEIpgjPCV4JGge8BlkFhgVOBPUE9QVC",
+  "BO4E1wRbA7ACBADSAEH/5v+d/1T+9f61/n3+N/3j/Zb9O/0G/PD9A/06/Zb99/5O/rD/F/+QABsA1QGhAmoDHAO4BFoE8wWLBj8G1gdlB/EIYAip",
+  "CQQJeQmSCYcJigl6CWMJQQkoCPsI8Qi9CLYH+wfdB7EHUgbvCTUIWAhoB58H4ggTCHMI9AlgCb0KEApKCrULCAsTCysLOQttC3sLlgvBC/MMRAyx",
+  "DVUNsg3GDZgNeA0gDNYM7w0QDTQN2g50Du0PlhAOEE0QnREKETQQ6BEFEQEQsxC8ELYQsxBwEEAPzw+3DzYOmQ42DdENjA0QDIsMHAuzC5ELawsf",
+  "Cw4K9wrSCpUKRgnVCXEJAQifCHYILQfbB34HFQajBj4FvgU2BJwD4AN9Au0CRwGiAPUAOf+D/sz+Cf1X/Iz7xvsK+lf5tfjy+Gn34fdY9sz2OfXT",
+  "9Uz05vSW9EH0B/Pj883zsfOj87vzxPPP89Xz6PPx9Bv0U/SL9Lv08/Ui9Wf1vfYo9pP25vdJ98/4RPi5+Rz5e/mw+fz6CvpY+3b90/8//3r/Uv4C",
+  "/U39YP2v/h/+d/65/wb/Of+B/8f/9gBWAM0BVgG1AjUC3QNpBDAElwTzBYwF6wXYBDEDgwPKBGwFfwY2BfoFuwVdBPcEagP9A1YCzQISAagBBACi",
+  "ADoAJwAG/6IADP/y/1b/J/8K/vn+mP6a/mH+KP3q/br9dv03/OH8jfwc+9f7iftt+3T7Xfst+vL6yPrL+rT6r/qb+pr6nPqY+qP6sfq1+tf69/sN",
+  "+yr7PvtN+1L7Ovst+y77PvtP+2P7fvuZ+7/73vv2/Av8Evwe/Cv8U/xq/IP8pfyv/M/9Bf0d/Rz9kv4E/hT+V/6c/ub/Nf9p/6P/3AAyAIoA2wEz",
+  "AYgB6wJOAsIDLQObBAsEcQQwBJcGJgarB9cISgh6CQII4AeMBiUFgwUxBPAEzgTbBMUEiQPNAkMA6QBaAAX/w/96/zX+7/7V/r7+k/5C/eL9ev0u",
+  "/P39B/00/YD97/5P/r3/P/+/AEIBCQHYAnwDIAPOBHUFAgWhBkQG5wdzB/cIgQjfCTcJmwnSCbkJvgmuCY0JeglPCUQJHwkICLoIlQhdB+QHuQet",
+  "B1cH9ghMCEEIRgiICO8JUQmUCb8KUAq/CtoK7wrNCxoLVAt7C6kL1gwbDFcMugz+DQ8NLA1ODRQNKg0bDOQNAQ0+DdMOng9xD9oQwBDoERERgxG+",
+  "ERoQ/REKEQ0Q7hD0EQYRDhDoEKQQghBiD9cPPw7MDmgOKg2hDQcMnAxPC/4L0wuYC4cLYAs5CwUKuQpsCgAJrgl8CTUIzQh1CBkHuAdRBuwGcAXK",
+  "BRAErwQjA44C9wJXAbcBEQBV/5z+6P4t/XT8tfvh+0P6j/nI+WH4yvgs96D3IfaY9ib1s/VI9Pr0ufSI9Fz0QvQl9DT0Q/RI9En0WPR19IP0wfTv",
+  "9R/1U/Vt9an2APZe9rP2/fdo99v4UPi4+QP5gvms+dj6JPot+n/8f/31/mv+B/zK/Jb81f0S/U79fv3c/iX+Rf50/rb+4P9m/9gAQADKAQEBswIC",
+  "AtgDQwOzBFsFBASQBBEE0gVHBaYFywWYBVoFKATcBJwEBwNqApkBsAEGAMIALP+5/yj/CP7+/vL+vf60/uH+fv4+/k/+H/3q/bL9pP1e/Rr8yfyF",
+  "/Gz8HPvb+5L7Zfs++xz7BvrM+qb6ivpp+nb6afpx+nL6Yvps+nX6kPqY+rD6zfrx+w77LftP+1X7Yvtr+3b7fPuE+5b7qfvE+9n79fwM/Bv8Hvws",
+  "/Er8XvyA/Jr8tvzl/QL9Ef05/Yr92/3m/hb+XP6h/tn/GP9U/5j/6wBQALIA9AFIAa4CBwJuAtEDLwOMA/4EYAPvBJIFsAaQB8IH0gfsB/EHZQZM",
+  "BZEFGAT4BKgEfgSVBH4DhAIvAV4AiQAyAAH/qP9Q/yf/GP76/un+yf6b/kz94f2J/Ur9MP1N/Yn92f4+/rP/M/+yAFkBQQIAAqwDRQPRBF8E5wWI",
+  "Bj0G3geAB/kIcgjiCU0JsgnoCdYJ3wnUCa4JiglbCS8JIgjsCMoIrghICJYIJQdrCB0IQQhFCDsIUgigCPkJawl5CeMKUAqaCq8KwAr1CvsLeQuZ",
+  "C+cMSAx1DI4MwQzdDQoNIw0jDPsNBAz4DSUNYA26DsgPcxBGESgRvxHcEdkSCxHSEWERWxFgEWMRQxE/ETsRKBECENwQvRC7EFwP4g9hDwoOhA30",
+  "DVkM4gypDGIMKAvyC8sLrQuoC5cLVAsnCtcKgQoqCdcJdgkSCLsIXAfwB2sG3AZhBeYFQQS8BCYDiQL6Al8BuQEMAFr/qP7r/jv9ffzP/C/7bvre",
+  "+lz5svkV+ID38fdm9uT2cvYN9cD1YPUu9P/0zPTD9Lj0zPTB9Nf00/To9P71KfVE9W31lvWq9eH2MPaQ9ub3LfeE9/j4Xviz+RD5W/ly+af50voY",
+  "+if66/wx/Nj8VvvT/Hv8ivxh/Ij8zP0d/Sz9gP3J/bn+Bf5j/tv/bP+pABAAiv/dAMcB/wMLA5IDtgQrBBAEUgSIBFEEIAP+BAED0wOeA9IDmwJ9",
+  "AUUAgP/p/zD+of5Z/jH98/3V/c/90/3e/dH+Zf3Y/WX9Rf1g/Tn9L/zM/K78Yfwx+/X7uvuJ+237Ovsm+tn6q/qE+mb6Vvo4+iX6RPpn+k36V/pu",
+  "+n/6dfqH+qj6u/rf+wX7L/tX+3f7iPuY+5j7ofuq+7L7x/vU+/X8Cvwd/CP8L/w1/FT8cPx6/I78wPzh/RX9VP2F/b794P4L/lD+cP6a/tH/C/9H",
+  "/4b/5wBTAK8BBwFMAaQCEQJ5As4DPgOYA+oELwQIBNMFcQaDBxAHDAdVBtoGQQWrBU8EvAR0BHMEUwRWA9oCewIuAPEAWwA6//f/m/8z/x7/Fv8A",
+  "/uz+xv6x/oP+Lf3o/av9g/2P/cb98f5H/sT/Sv/RAGIBIQHwArADSwPnBI0FJQXABl8G9Ad2CAkIkAj6CUwJswoJCfIJ/goPCfYJugmmCZQJbAlO",
+  "CR0JEwi3CIcI3QipCEwIRAhfCG8IugiQCO0JOwmjCgwKLgpICnYKsgsECx4LfQu7DCoMgwyuDMwM/A0RDQUNAgz+DPkM/g0JDWUNyA7XD00QiREl",
+  "Eg4SJRI3EiESGxHzEc8RrhG4EdQSChHgEYIRYRGJEWkRGBDgELMQYBAZD68PIQ6CDegNVwznDJcMaQxkDEcMJQwfDCAMEAvZC48LKgrZCngKNAnc",
+  "CV0I8AheB+IHcAb1BmoF3wVbBK8EIwOGAvcCXAG0AQwAV/+3/v3+Of2Y/OP8UvvA+xb6fPne+WD4w/g898n3OvbT9oP2J/Xb9aL1Z/VV9Uv1UvVE",
+  "9VH1SvVL9VD1dfWX9bT12PXy9i/2dPbG9wb3UPet+Af4c/jE+Rv5T/lI+W/5rvnV+gf6S/qj+t360/sp+2T7Z/up+9f8Nvxh/IL8wPzN/QX9Z/23",
+  "/kz+pf8E/uX9vv+7AaECCAMBAqwCJwHxAg8COgIeAesByQF/AUQBLQELAQEAkP/1/2/+0/5o/f/9of1W/Qb83PzA/Kn8tPzC/Mv83/zX/QP9S/zs",
+  "/Ln8sfxq/EL7/PvC+377WPtI+wj66/rB+on6Wvo0+i/6Ivoa+ff50vna+hH6E/op+lD6YPps+pz6x/rm+xX7PPti+3X7jfud+7v7w/vV+9b77vwE",
+  "/Bb8LPww/DH8N/w5/FT8dPyJ/Kv8u/zk/Rn9SP1o/Zj92v4u/mz+kP6n/tf/Ff9Q/5r/5QArAHsA3AExAYUB5gJFAoQC0QN2BBEEWQQ3BTsGTAeP",
+  "B18G8AadBjEFvQVLBM8EqQSnBGUETwQ4A2gB8QEkAKQAHgAL/9n/bf8P/ur+yP6z/o3+hv6V/qT+lP5K/hr+Cf4c/kb+c/6x/un/Xv/xAIwBJAHi",
+  "AqgDXgQBBJ0FOAXaBncG7geDCCMImwkHCVkJuQodCkkKPQovCiUKGgoGCeYJ3gm+CbMJewk9CMoIgghkCMgIZghUCEsIfgi1CQAJYQlwCcQJ6Qoq",
+  "CmwKrgq8CyILXwvlDEMMgQymDMsM5wzrDNUM2wzmDRINBA1pDd4OuQ+cEE4RZxHBEesR1xHXEaMRzBGTEicR6xEnEhgScRJBEXEShhRIE5kSehFb",
+  "EOEQqRB9EBQPjw8GDl8Nyg11DSkMtAy8DO8NRQ1HDO0MxAyBDCwLxgt1CzUK3ApgCe0JXgjcCHAH7QeCBwEGigXrBVMEsQQdA4EC5QJBAZYA9ABG",
+  "/6n++v5M/a79Ffxq+7n7IfqQ+hX5l/kZ+JH3/vej90D25/aV9kL2CfXk9df1x/W89bH1sfWo9bb1zvXk9fz2IvZA9nr2tPb19zj3hvfY+Df4ifjX",
+  "+SH5Pvkh+Vr5mvm9+fH6B/qL+qL6ofqz+rn62fsR+1z7gfuy+8776PwN/F38xP0M/Xb+I/44/e3/CgFoAWACCgJBAQMATwA5ADQAVwA+AAj/3f+R",
+  "/0D+6P6Q/of+bv47/ev9iv0Z/M/8nfxY/D77//v5++j71/vq+/P8Cvwh/Cj8Mfwx/Gn8H/wv+6/7hPto+zb7C/r7+rL6q/qp+k/6Efn7+dz53/nc",
+  "+a/5qvmx+eP6Afoq+ir6LPpj+p76v/rt+xL7NPtq+4r7uPvH+9P75vvv/AL8Evwq/DP8R/xE/Dz8RPxI/E38YPx7/Iv8oPzD/O39JP17/cT9yv3k",
+  "/iD+dP6Y/rv++f8p/3z/zwAPAFMApgDtAWkBwwIdApYC+ANVA9AENgRmBdYG3gjzCSgHUwZIBekFnQUWBJUEjQSoBIQEUAQDA2gCHgG2AOEAKP/o",
+  "/7r/W/77/rP+kv5k/mr+jP6c/rX+nf5Y/jf+I/5e/ov+u/7u/y3/fQAUALgBRwH5Ar8DeQQMBKMFLwWxBjUGxQdfB+wIaQjjCVQJuQoKCmcKjQp/",
+  "ClgKZgoxCeYJqQmZCWcJKwkUCRsI3QjjCOUIqgiFCIoIowjmCTYJxQoxCbEKFAoiCigKbwqOCwILVgvQDAwMQQx4DJsMugy1DLgM5Qz8DRwNVg3V",
+  "DqUPvxABEOcRdhG9EYwRXhISEO8RfREjEM4Q0hErEaUSHhIHEW8RbBIKErMSmBG8EQEQ0xCLEDAPwg9TDrYORQ3fDcMNTg1yDjMOpg6hDkEN8A1+",
+  "DPwMXAv5C58LMQrICkcJ4glzCOwIeAf+B28G7gZnBdcFQwSkBAkDXwLBAioBcQDeAFX/sf8L/m39x/0h/IL75/tR+s76RfnD+TT4u/hT9/L3m/dE",
+  "9t72rvZk9lr2M/YW9g/2APXz9gD2FfYh9kb2W/Zy9rj26vcw93D3rfgD+FL4mvjs+TD5Tfka+Vf5gfmM+cv5s/oq+sn7Nfr0+mn6aPp7+rr66frs",
+  "+wj7Q/t++7T70/yL/TT9Y/1D/Pv+kv9qAG0AWP+m/zT/DP8J/w7++/7t/sb+tP6f/ib9c/zJ/Lr8dvxO/DH8Kfv3+8f7hvtu+1j7SPs2+1T7Tvs8",
+  "+zn7Lvs8+1D7XPtY+377Yvtp+1D7Nfrv+sn6ofqL+n/6a/o2+hn5+fm/+ZP5gPmA+Xf5kvmt+a75vPnu+hj6QfpW+oj6rvrf+w37Tft7+5L7oPuu",
+  "+8n76fwG/B78Kfw9/E78VPxN/Ef8QvxF/Dr8UPxc/G38gvyo/NX9E/0s/VX9ov2p/cv+C/48/n7+1f8x/4f/0wAGADoAdwDQATABnwHiAjwCqQMG",
+  "A1gDfwPVBUIHAwfeB88G1AYqBacFGAS7BIkEgwRtBIQEdQRxA7MCpwIrAXoAoAAM/7P/a/8g/tv+mP56/nT+dv6G/sb/AP7q/rT+rv7s/wn/Hv9K",
+  "/5QACACcASUBuQJFAuMDjQQdBK8FVQXJBj4GzgdkB+sIZgjLCSwJmwoLClIKtArKCqYKmwqlCo0KZgnlCbQJfQluCTsJDgjuCRwI8QjUCMcI1wkT",
+  "CU8JdAokCbsKVAopCj8KmAr4Cy8LhwuwC/kMeQyeDK4MqgzXDPkM+g07DWANyA6ID2QPoxAqEQMRDBE1EPsQ7xCvENkRFRE5ERIQ5hEmETQRjxG4",
+  "EXkRZxGLEYgRZBE4ESEQ5hCjEEYP4w9+DwYOrQ5rDi4N3w4EDxcPbQ+bD4gPEA6NDZQM0QxuDA4LlQspCsIKXgnpCWwI9AhmB9AHRwbJBjYFqwUW",
+  "BHEDzwM1ApkB9wFmAOQATP+o/vz+WP3P/SP8j/wA+2f64/pY+ej5Yvj2+Ir4L/fU94L3QvcF9s/2nvaA9nL2WPZH9kv2TvZo9nf2l/ay9uj3Jfdd",
+  "95n32/gY+GD4rPjo+Sf5UvkB+TL5Wvl3+bn5ovnb+jv6mPq6+mz6IPop+jv6J/ou+lT6lvq2+wD7i/v1/Ir8xPvd/EH9m/6+/n/+MP4D/b395/3t",
+  "/fj9/f3P/fn+Bf5V/hb88fub+1j7HPr2+uT6u/q1+qT6lPqF+oX6ffp2+nn6iPqd+pD6ZPpj+ln6bPqP+qn6xfq6+r76pPp8+pT6s/qD+iz6B/nr",
+  "+df5svmV+Xv5bvlV+UD5Sflb+XT5l/nF+f/6I/o3+m/6rvrz+yH7SPtk+4P7sPvN++78Dfwi/DD8Lvw6/FH8VfxE/ED8Mfwd/CX8Lvw8/Ez8WPxs",
+  "/I/8yPz8/ST9U/1b/X39x/4J/lP+sP8b/2j/jv+2//oAUwCcAOUBRAGMAd4CTgKiAtcCsgRBBdwGFAbMBu8GIQXyBWoEiAR6BH4EeARyBGkEVARM",
+  "A+cDTAKWAfEBdwDaAFb//f+h/1z/PP8Z/uz+3/7n/y3/e/+P/4//uf/g/+sAEABMAJcA7QFMAb0CRwLNA00D5gRdBOkFeAYBBlYG2AdTB8sIOAid",
+  "COsJZwm2Cf4KPgqYCtQK+Ar5CqEKaAo4Cd4JoAmBCV8JPwkwCUgJNwkeCUUJaQmeCZEJeQnPCRAJ8ApCCn0KzwsbC0wLkQvUDCMMmgzCDOoNAw0Y",
+  "DW0NWQ2kDdkOYQ7sDzMPcxCFEEAQfxCOEKUQzhB9EO4RMhFVEWoRRhEZESoRfhGcEZARlBGREYYRahFEEQ4QzhCTECoP1g+DDxYOxg7oDq4Oag6K",
+  "DrEPVRAGD/QPpw60DeANUA0DDI8MMQuxC0UK5QpUCcwJQgiyCCEHowcQBooF8QVdBMcENQOpAwoCcgHmAUsAuQAT/2T+4P49/an9EfyL/AT7a/r5",
+  "+nv5/PmC+Rr4tvhn+BH3u/eT90n3Gvb09t72q/ai9pH2jPac9qb2vPbf9xL3QPd697H35fgT+FP4k/jM+Q75Nfjl+SD5TPmA+Y35gvlG+VL5p/nX",
+  "+of6Gvmx+bH5xfnO+dX59Po0+pL7I/ty+9D7+/u0/O38jP2S/Rf84fzk/Pz9Kv1C/TX9O/y+/Hv8avyM/D/7avqG+iL5yPmU+ZX5kPmH+Zb5n/mT",
+  "+Zj5tvmq+bX50Pm0+bH5t/ma+ZP5i/mg+cT58/oW+i/6TvpJ+f35wPnE+fr5rvmS+Y35a/k8+Vf5XPlJ+Uf5Qfk6+T35Uflu+ZH5z/oN+kr6jvrS",
+  "+xv7V/uG+7D7yvvh+/D7+vwP/Cz8MvxI/FP8TPw+/Cz8HvwT/A77/vwD/A38M/xP/GT8j/zT/SD9UP1t/Wv9jv3A/gT+Xv7I/wX/Uv+D/7oAGABx",
+  "ALEBCQFbAb0CJAJfAjECRAP/Bb8GYQacBkUFsgULBKYEgwRzBEIEQwRnBIUEeARqBDkEAwO8A2EC0AIpATUAQf/h/7n/wP+6/6j/o//EAAIARACJ",
+  "ALMAlgCEAIYAtgEKATYBngG+Ai8CdwKoAvEDrASRBOkFSAXBBkAG1QdWB6QIAghXCM0JJwloCbcKFgpfCoYKswrHCrYKYApSCg0J8QnNCa4JjQlq",
+  "CcYJrwm7CY8JmAmwCY8J0Ak2CaIJzgpZCkoKjAsTC5kMAQxKDIAMtgz7DS8NVw2DDbMNuA3vDlkOgQ7aDrAPzg+sD7AP3g/qEFUQtBDjEVARkRGT",
+  "EZIRhhFlEYURqhGuEacRiBFmEV8RUhEtEPcQuxBtEAEPvQ9WDu4Oow52DikPPg/KDyEObA8lD98PmA6ZDlEOMg2pDOEMewwIC4sLOwqiCg4Jfwju",
+  "CHEH4QdMBroGKgWHBPYEdAPrA1sCzAI1AaEA9QBk/8j/Jf6W/gj9hvz7/GL78Ptq+uf6efoL+Zn5MvjY+H34KPfi97D3gvdn9yX3Bfbl9sb2u/bE",
+  "9r721fb69xb3P/dd9473zff/+Dj4afie+Nn5APjE+PD5IvlO+U35VfkD+Pj5LPlq+VX5Zvlt+XP5Vfll+Xn5jfnV+i36iPrm+wP7t/xD+zD8Mvyb",
+  "/D78A/wR/Cb8JfwJ+9L7Z/sS+tb6ifoP+YX5bPlm+gb5PPhk+Ej4gvia+LD4sfia+Kf4vvjB+NT41fjL+PP47PjL+O345fjY+On4+fk8+Xb5kvmf",
+  "+bH5v/mX+Vb5dfmO+Vb5D/kM+Qn5MflY+S75IvkE+Qn5Fvkt+V35ifnR+iH6Zvqz+vX7I/tX+337t/vg/AD8Hfws/ED8M/wa/Bj8Cfvv++D72vvT",
+  "+8772/vs+/T8Afwr/Fj8bvym/Nv9D/1A/Vj9ZP2O/bv99f5U/q7+9/8z/5X/2AAnAHIA1gE/AZcB7wIrAgcCMQPpBUYGLQZLBVgFCAR5BA8EEwQb",
+  "BB4EbwS3BRAFCQT3BNYEpgRfBBoDmAMOAmkBtgFYATwA9wDfAO4A4ADjAT8BxQJaAn4CPAFWARkBRgGLAgsCNgKkAvADZwPpBFYEXQTbBWwF2QYv",
+  "BpUG+wdmB8UH+gg9CIUI0wkuCaAJ8wopCkQKcgqCCqMKpwqeCoEKYwpRCioKDwnhClEKCAnnCdMJ2AmlCdMJ9AoKCf0KdQqACqULgwwQDDAMfQyr",
+  "DMANKQ1ODVwNiQ3NDecOCg56DpEOpw4PDwEPdg+GD2gPmA/5EHIQ7xFXEckR/xIdEjMSJhIwEikSBxHHEZ8RbBFTEVIRMxEnENgQuxAvD/YPrA9U",
+  "DwIO1w6gDmkOEw4uDmkORw4qDZEOvQ8UDtMOtQ5RDhINDAwoC8oLPQrbCmgJygk0CJQH+wdmBtgGRQWzBS8EqQQcA5cDAgJnAccBMACdAAr/ev70",
+  "/nf96P1X/N78U/vQ+1P68fp9+gb5nfky+NT4avgq9/n30vea92r3Lfb/9tz2yfa/9p/20/cN9zX3Wvdz95/3wPfw+A/4Mfhi+JD4rvil+K/44fkQ",
+  "+Q75N/ji+NT45/kf+PD43PkC+RL5Hvkb+R35KPl9+cn6B/qk+1b7Q/qZ+n77ivt6+2D7QvsD+ub6r/qd+kj51vjn+FP3//fY98z3tPe/96T3X/ct",
+  "9yP3VfeQ97j3zve397H3vffA98P30/f7+BL4PfhL+AP33/gj+FP4WPh4+Jn4vPj2+Rn5Kvkw+VD5NfkG+Rf5cvkz+M34wvkJ+OX40vjX+OX44/j0",
+  "+SP5XPmh+fb6NPqD+sT7C/tF+3r7p/vO++z7/fwA/AD79vvr++778PvQ+7v7wvvI+8D7s/up+8H72fv6/A38Lvx//Mz9AP0M/Rv9IP1I/Xj9ov36",
+  "/kz+mP7d/zn/jP/gADkAnQDxAVUBxQIXAfgBzQOXBVoF1gXMBO0EOwQOA9UD4wPlBDkEzwU1BS8EmQTEBQUE6ATyBLAENAPUA8ADVgLEAlgCKgJE",
+  "AlICHAJOAnQC9gNtAxECiwJcAnMCjALoAvcDKQPgA+IEPgSUBMEFBwU1BfgGZwavBsAHDAdKB6cH5AgzCIkI1wkpCXoJswnmChwKRApXCnkKqQrG",
+  "CuMKsgqQCnwKYwpdCk8KQAo7CksKKAn/CgQKEwokClQKlAstC6sMGQxHDMMM8Q0wDYkNsg3eDgAOOg4/DkcOgg5zDvAOVA4hDz4PIw8FDz0PhhAW",
+  "EJwRLhGdEggSYBM6EwcSjhJZElwSdBJPEc4RkxFcEVEQ6BD4EM4QjxA9D+kPjg8iDskOew5cDjwOFw30DdwN1w2ZDXgNfA5XDvIOxw7oDmEOIQ0R",
+  "C+ILQQr0CoEJyQkoCJYICAdsBt4GRwXXBWYExARAA6oDHgKHAfIBagDSAFH/x/8+/rn+Ov2x/UH8svwu+7L7Q/rM+lz57fls+Qn4pvht+C/37fe6",
+  "95X3W/cq9wH2x/ay9p322fcA9yP3O/db93L3i/em98734vgC+C/4O/iI+Gv4pPjQ+OD4//in+G74jvi1+I74g/ik+ML4iPiF+Kr46Pjm+Qv6BPnf",
+  "+Un5bfkJ+Qf59/nJ+ez6EPnA+a35jfkt+Kj34Pb69rv2ivaJ9l/2RfYb9gf1+vXo9fT2HfZb9or2r/bF9rD2sPbT9vL2+/cP9zv3bfec98n3zPdq",
+  "91z3sPgN+BT4H/hF+Gv4kfit+LX4u/jh+OL4zvjH+Or47/ij+GD4gPi0+MD4xPje+Qb5N/mI+cH5//pQ+o76v/r2+yv7XPuX+7771Pvi+9j71PvJ",
+  "+7X7pvuR+3/7bvt3+377i/ul+5P7tfvb/BT8KPxI/HP8qvzR/N/8/P0W/S/9Z/2n/e3+H/5y/tX/Mf+O//cAVwCyARkBmwH+AhgBwwLHBP8FHAT1",
+  "BDADuwOiA9oEBQQKBFoE1wUlBVoFagVJBKIEjgSXBLgEdwP1A40C/wKYAmwCPgItAgIBuwGZAdgB9QIRAgYB8QJFApwDHwQGBDEEGATxBd4FrwXt",
+  "BhIFzwWtBf0G6QbMBykHVQeUB84H+gg2CHUIwQjzCTMJfQmsCdMKBwpICosKqwqzCu0K5QrICrIKiAp4Cp0KkgqTCmkKYQo1CkwKUAqOCnAKjQr/",
+  "Cy4LrAwcDFIMpQznDT8Nfg3KDgYOQA58Dr8OyQ7TDpMN5A6UDncOdg6+DyAPhg/6EIMRABGjEhkSdxLeErQS8RPhE5ASLxHkElwRohFFEYYQzhDR",
+  "EGQQMRAKD+gPZw7HDpMOkQ4vDdYNpg2oDZINkQ2WDXcNbQ2gDmIPdA9GDn0N0A1ODK4LiAsTCi4JXAjnCIgH1wddBsAGOAXJBUIEuwQiA58DJQKd",
+  "AhUBjwEWAJD//P91/v3+Yv37/Xz89fx4+/77gvsM+qD6Ffmm+S/4zPiA+Df39/es96H3WPct9vj2wvaf9ob2sfbN9uD3BPcF9xr3L/c/91n3cfeI",
+  "98n3x/gf+Cv4cPiY+KH4tviB+BP4S/hR+Fj4IPg8+Bn4Qvgz+Bz4Hvgt+F35MPiX+Jn4Hvfh+An4wPh7+Jb42PjM+GL4F/e+9wr19fWl9Wz1QPUq",
+  "9RD08PTb9OD01/TK9PH0/vUW9T31efWV9bX1yfXc9gX2KfZG9mz2mfbI9vv3Evc392D3MfcL92D3tffM99f3//gi+DX4Uvh8+J34qvjZ+QD44fjX",
+  "+M/4fvgY+An4Vfi0+Ov5M/lp+Zr52/om+mL6o/rf+x77S/tz+4r7ofu0+6D7pPuc+5H7hftv+3D7Z/tY+0b7SPte+2f7ePuk+8T8CPwq/E38dfy7",
+  "/MH8zfzl/PX9L/13/a/96v45/nj+v/8e/4wABAB8AOgBUwG/AfQB0AHWA4wEaAP3BBYDfAOlBDgEswTHBNEE7gT/BNkEuQRpBCAEGwQYA88DMgKA",
+  "AfcB+gI/AqkCKQFpAiwDCAKJAa8BmgI+AlwBiAEXASICGgPSBE8ExgVFBfsF8wY6BkEGFAYRBjAGQwbPB4IHlAe5B9wIJwhbCIUIyQjnCRkJVAmH",
+  "CbUJ8govCk0KXQqGCrMK3AsHCtsKxAqrCqQKpApvCqUK0wrDCrIKYAovCiIKaQqPCtQKyArtCzwLggwEDE4MoQ0FDW0NvQ4EDiQN/Q5DDW0N2w4Q",
+  "DeUOHQ5uDuEPUQ+xECIQohErEboSLBKFEmUSLhHTEa4RmhFMEYEQ7BDJEUMRdxCiECwP1g/AD2AO8w7ODrsOfQ4jDe4Njw15DY0NsQ22DZcNjQ2W",
+  "DcgNrQ2rDcsNcAy6C/QKpwmLCRsJLwigB+kHqgcaBpsGKgWoBSoElwQdA5oDIAKlAjABuAEcAH8ABv+w/x3+nv4d/Z/9K/ym/Cj7pvtA+rX6Nvm/",
+  "+Uj46PiS+FP4FPfG94P3Xfck9uz2sPaF9mP2efaP9pX2tfbD9sP22Pbc9uX29vcS90T3WPeV99z4EPg6+Eb4XPh09+b3s/fm9/D3mvfH9873n/eW",
+  "90T3cvd3+GT3Ivda9x328fa692H3R/dd90j3B/a69nT13/Uz9J30YfRF9Av0DPP289Xzr/Or87rzvPO/89jz+vQJ9Cn0ZvSC9KL0uvTq9Qz1MPVj",
+  "9Zj10fYC9iz2UPaC9rf23PcE9vz25PcD9zX3ffeq99j3/Pgi+EL4YviB+K347Pjw+QD5Ffk1+VT47Pim+MT45/kW+VD5uvoS+kb6dfqg+s77Bfs0",
+  "+0v7Zvtz+2T7UftK+zf7Mvs9+yr7KPsl+xj7F/sn+1T7WPtg+3L7rvv6/C/8d/yM/IT8afx3/MD9Kv1//cP98v4c/k7+i/7E/zv/swAnAKkBAQFw",
+  "AdoB4QGkAXADcQSFBAkDngPJBJAEwwTQBKgESwPmA6oEAwRGA/8D8wQHA4UC7AKxA20EmwVABJkEeQRCBLUFXAV5BVYFRQV+BjkGMQX7BroHOAck",
+  "Bn4EnwSwBSkFKwVABX4FUAUfBUkFxAamB30ILggKCDEINwg8CGcIiQi8CNkJCgkmCVcJmQnhCfUKAwo/CoIKkQqxCtEK0grHCpYKFgn+ChQKQQop",
+  "Ch8KGAniCZQJeAl1CY0J5wofCoUK2wsoC6IL/AxXDIQMyAzxDQENLQzUDNcNHA1LDYUN1Q42DpgO6w88D5wQERCkEP8RYRFtEW0RYBE+ESgRMhEe",
+  "EO0QXQ/xD+4P+A/dD4YPUw8yDvQO0g6ODlgOJA3yDbINmg2YDXoNdg2GDYMNkA2QDVINUQ1PDQEMxQxxC5UKxwmqCNYIMQf0B0sHXQbiBnoF+wWM",
+  "BQsEigQGA4EDEgKbAiEBpgD2AJ8AHf/F/yP+p/4Q/aL9N/yt/Cz7u/tI+sT6QPnR+Vr4/fia+Ff4CPfF9433RfcM9sz2k/Zc9j32RvZL9kb2TPZa",
+  "9l/2b/Zs9nD2dfaD9rT21Pb091D3k/ex98n37Pf997r3Yfd/95j3a/c+9zn3Qfb69vn28veT9uz1rfXI9XT1YPU29X/2BPYS9bj1C/RR83rzGfLp",
+  "8tvy8PMC8uvy4vK38q/ygPJ18nbygfKV8sDy6PMN8zPzX/OQ873z4fPx9Bb0S/R59Lb1CfVU9Xv1r/Xh9hb2RPaD9p/2tPbX9vP3AvcH9wn3NPdi",
+  "96D34vgJ+DL4YfiO+L74yfja+NL40/jc+Nf44fkK+T35k/nP+g36Lfpl+rH63vsH+xH7GPsI+vL65vrp+ub6yvq/+sX6vPq/+sH6yvrN+uf7Efs+",
+  "+2P7hvuo/C38G/w1/Cr76Pvx/Dr8yf0v/ZT92v4D/hj+Uv61/vX/aP+iAEYAmQE0AYUB4gHCAVABWQKvA8QEQAT6BVMFYwWIBUoEyQRoBIAFGAXx",
+  "BpIGmgcEByoGgAXUBVAFiAWzBbsFywYXBjEGHQYXBiUGGwYPBjQGdgZfBnUHZAhXCOMIZAZ5BD0EjwQEA08CnAGZATUDNgXUBysH/AhIB+oIAQgi",
+  "CDwIZQiWCLkIxQjsCQ8JWAmNCc0J3goICjYKWwppCpIKuwqMCYsJYQlRCXIJewk5CMoIdQhpCIMIogihCMMI/glrCcMKPQqbCusLYQuAC8QL+Awu",
+  "DCwMAwxaDEsMfgzQDSQNfw3bDhwOWg6iDvEPOg+ID98QGBAtEDgQIhAfECkQLRAtEAMPxA+BD1MPHw8MDukOvw6hDowOZQ4uDe8N3g26DaENrQ4G",
+  "DfgNlg1hDTANEw0PDQ8M2AyaDDAL7wutCy8KZgmICKkHzweVB0EG4gauBjsF2wVxBRAEkAQUA5kDDQKOAhIBpgEWAIAAAP+Q/yD+hP4L/Zb9G/yU",
+  "/DP7yPtB+rv6PvnI+Vr48Pif+FD39ve092n3H/bf9qT2avYy9gr18/Xj9eT12/Xn9fT1/vX99f71/vX69h/2NfZI9q728/cT9xv3VPdO92b3Dfbk",
+  "9wL29/az9qj2mfZx9mv2JvXG9ZP1PPTo9Hvz8/OC86jz9POG8xfysvJD8ezxqvGf8YDxnPGs8bLxjPGI8XvxZvFY8XLxfvGM8aPx4PIU8kbyZ/KL",
+  "8rXzCPNB82fze/PF9Bv0SvRx9Kz0/vVO9YH1o/W99e/2JfZT9oH2ovas9sz28fcR9v73IPdq96D30/gJ+C/4Pfg/+D74R/hS+FT4bfiO+Lj4yvjF",
+  "+O/5Pvlk+ZP6B/pV+mj6evp8+nn6cvpt+l/6Vfpa+mL6WPpU+lv6ZPpj+nn6qvrt+y77RvtV+4X7mfvg+977rfu6/B/8bfyR/OH9J/1i/aD+Dv6D",
+  "/tb/C/9Y/8UASgCwASUBdQHOAf8B8AHDAa4CYgR4BaQFxgYbBZcFJwVjBboGMgaNBvIHKQdfBzQG1AcpBxQGsQa7BsMHAAb+BucG1gapBrEGwQa9",
+  "BskG8gcoBz0HYQeCB5UH4ggICD4IVghiCFIIEQhDBncB2AIcBckHQge4B9YIBQfjB+QH9gg8CFUIfgiHCJoIzwj9CTAJfwm6CfkJ1gn1CbMJkwmc",
+  "CNcIowiPCKsIdAgtB/wHwweZB6cH0QfjB/8IVgifCSQJoAnuClQKkQrZCv0LSQtaC2ILgwuMC7EMCQxXDK0NEw1IDVsNow3uDj8Ojg7sDx0PMw9D",
+  "DzsPSw9KD1cPVg8/DyQO9g7ADpkObA4lDioOMA4iDe4N5g3aDbYNiA18DYUNgA27DcENjw16DYsNQQ1kDTEMowxHDAoL5AtkCyYKygotCQgH+gdI",
+  "Bw4GqgZSBiwFrAVEBN4EaQPwA4IDBwJyAe8BawDfAET/tv9d/uT+W/3c/W39BvyI/CL7pPsl+qv6Lfm6+Vf45/iQ+C/32/eL90L2+va49n32NvYA",
+  "9cn1p/WK9Xr1YvVb9Vn1YvVr9Wn1bPVo9Yb1lvWW9ej2L/Zb9mL2lvaY9rH2ufZw9oL2gfY39hr2EvXY9cb0HPRw9XT0cvR889fzMvK68l7yGPHD",
+  "8XnxO/EN8L/wnPCA8HXwb/B58HbwZvBL8EzwVfBj8IXwl/CY8KnwwvD28TLxcvGs8cnx7vI18nbywvMC80Tzg/O69AH0SPRv9Kz07/Ut9Vf1dPWb",
+  "9bz14vYF9if2N/Y19kr2RvZM9nv23fcl91b3bvd494D3lfes98336/gN+B74M/hU+IT4ufjN+NX4vPio+MX44PkK+VX5a/lD+TP5aPl7+Zj5s/m8",
+  "+dP56fnr+gr6S/qa+sb67vsV+zX7TPt1+5b7pfvN/Bf8Yfxp/KL89P0+/W39qf4H/pH+7/8y/5f/3gA9AKABCQFmAcgCSwKFAuoDNAMoA4YEwgVl",
+  "BSwFlQX2BlMGigb1B10HsQerB8AHxgdYBx4HfQdoBxAHDAcUB0wHYwc1B0EHNAcLBwoHOwdwB6oHqgflCAMIKQhbCJQI1QkFCQYI+gi5CAEGTgM4",
+  "A2IGUQddB6wHvgfTB8QH8wgsCDsIQwhVCHAIjQjSCQUJawlzCYQJmglzCSwJAwj4CBwIDgf1B7YHgAdwB1sHaweeB3kHgQedB88IBwhzCOkJFQln",
+  "CeAKCgpFCnMKywqgCvgLDwtKC1MLywwFDGIMnQy8DOwNLA1fDYINzw4kDlwOgQ6iDpwOmA6lDq8OsA6lDoQOSw4sDfINxw29DbUNsQ2nDX8NgA1w",
+  "DU4NRA0tDRcM5wxhDEoMUgv4DBAL3guuC6ILsgu3C70L1gt5CwUKyQorCbkJJggVBvEGQwXdBdIFRwTjBIYEFwOmA0UCwAI6AbcBIABn/+//gv8Z",
+  "/p3+Hf20/Ur82fxp/Af7g/sL+pv6J/mv+UH41fiA+BX3v/dm9xr2vPZ89jz19/W49XD1SPUo9Pr04fTU9Mz0x/TF9MT0xPTP9Nb09PTl9Rr1XvV9",
+  "9Zn1sfXd9dz2APYJ9e32BvXG9YD1ffU79TnzcvOr9PLz7POS8sHyWPHy8avxLPDo8JjwKO/l77rvj+9674Tvcu9s71vvVe9R71DvTu9k73rvlu+x",
+  "783v6PAJ8DLwd/DA8P7xNfFj8Z7x6vI/8obyxPL980LzdvO08+70LvRj9JT0wfT69Rr1MPVL9VT1XPVs9Y31nvWx9cT1yvXN9en2C/Y49mv2wPb9",
+  "9xH3JfdI93H3offX9/D36ff0+BH4OPha+Fn4W/hl+GH4MPhK+JD4h/hy+Hr4sPjK+Pn5N/lb+Wf5tfnx+jP6Uvp7+qf6z/sA+0j7tvvN+8z8Hfxz",
+  "/K/8zf0N/Vj9k/3M/if+nf8F/zn/g//vADUAkwEKAXMB7wKkA0oD2gRTBOMFOQW0BeUGPAZUBqkHMgdxB6MHwgfqB/MH0Qe7B7wHsgeJB3MHgAeB",
+  "B6sH1wflB8IHuAekB40HfAefB8cHxAfoCDQIWwhzCLwI6wk8CT4JYwjqCL4HoQXxA8AFrwckB6EHvQe7B5wHjgeXB5EHSAdsB3QHjQeMB+oIPQhB",
+  "CFIITAgaCD8INAgcBvcG+gbWBtAGxgbOBucG8QcfB0IHbQe1CBMIaQi5CPsJOglnCaYJ3QoMCjYKVAqPCtQKzgr4C1ULhgulC9EL4wwXDGIMsQza",
+  "DPgNIA1ZDZQN0A39DgUOCg4LDhgOFA38DckNkg1aDVANWg1VDVcNSQ0iDSENGw0gDQUM7wy9DI8MQwxaDHMMhQx2DCQLtguJC1ULcAu8C8sLsAt8",
+  "CyMKtAouCb8JewjPB5UGXAWeBSwE3QSGBAcDnAM6ArsCMwHPAVIAtQAl/6r/Qf7V/lP90/1X/Qj8uvxV+9b7Wfrs+nr6BPmP+ST4rfhJ9+L3gvcp",
+  "9sn2ffYp9eH1o/VV9Rn01vSf9Hb0TPQt9Bn0GfQL9AP0CPP78/70GPQj9DT0bfSU9LT0yPTr9Q31E/VO9V31ZPVX9OT0tvS69Jz0SPK+8t7y+vKI",
+  "8hDxmvE08M7wePAj79/vdu8u7t/uou6S7obua+5S7lfuau6I7pPuou6h7rnvAe8n7znvVu9x76Lvzu/08CbwdvCk8NfxDvFb8abx9PJB8n/ys/L2",
+  "8yrzXvOU88z0A/Qu9Er0XfRr9IP0jvSr9ML02fTq9PL1BvUn9VD1ZvWL9ab1nfWe9db2IvZk9p72x/bt9w/3L/cp9zj3Vfd896T3xve898L3yfeT",
+  "92T3S/db96T4A/ha+G74XfiW+Ov5RfmC+an5zPnl+hn6XfqM+tr7MPst+2j7pvvM/B78YfyO/Nb9TP2o/dX+Hf5u/s3/KP9m/8AAPQCwASoBswJI",
+  "AuADngRkBOAFQQXVBkIGjwazBvQHRAeoB4QHdQfNCBMIEQf9B/YIAAfkB+0HxgflB/sIFwgxCCIHzwesB4wHpQfYCAMH9wghCF8IkwiYCOQJEwlJ",
+  "CWoJSwkNCMAH0AWzA64FwwcvB7MICggtCCgITggmCFQIEAf4B8sHyAeuB4kHVgciBwwHCAcIBwkHAAb8BekGDwYTBhMGNQZ0BpoG1QcgB3QHyQgt",
+  "CJcI6gkVCTwJggm6Cd0J5gnxCgEKMgpFCkMKnQrXCwsLLwtSC0sLVQt/C9AMGAxbDIMMrAzCDQQNLQ1bDXgNfA10DXQNcA1DDRQM7AzdDMwMygzW",
+  "DM0MugyiDKcMtQzEDLcMkgxRDBwMBQwHDBEMJwwEC7oLdws1CtEKpgq4CrcKwwqnClQJ/AnCCcIJTQjJCEAGywWKBNkEVgPgA3gDGwKVAf4BmQEn",
+  "AJsAIf+g/yL+pP5J/dz9Xv0f/Of8iPwS+6T7Lvqy+kL5xflT+NT4Vffq9333Ifa/9mH2BfXC9YD1OPTv9L/0evQm8+bzvPOH813zPfMl8yjzIfMb",
+  "8yTzK/Me8z3za/OY87/z4vPt9Bb0F/Qx9Gv0ofSd9Gnz9vQM8//z2fPM8xfyWPH98ZTxKfDZ8FPv5++071Lu9u6h7l7uGu3s7drtte2k7avtw+3a",
+  "7ent/O4f7kbud+6W7qfutO707yXvQu9h74/vz/AL8DjwdfCx8OnxM/Fr8ajx8PIz8mfyoPLS8wjzM/NG81jzbfOE86TzuvPM89Tz6PQO9CP0MfQ5",
+  "9E70d/SS9Kr00/UH9Tz1afWR9ZX1j/Wx9fL2R/Zj9nr2jvae9sP25vb/9wr3AvcC9vD3A/cb9yb3MPdN95r37vgi+Dv4X/id+NP5H/lj+Z75yvn/",
+  "+l/6j/q0+vv7OPt/+6j8APxP/JT84/0v/W/9wf4M/lb+of8J/4MAAwCDAOEBkgI0ApcDJgOvBI0FOAXFBi4GfgbMBvEHMAdvB+QINQgSB/sH4gf5",
+  "CA4ITwhTB9IHqQeHBwoHWgbEBkgGNwbrB+EITgiKCEYH9QgOCIkI2wjTCQ8JRglDCTIJBQiABvMFCgQGBTYHOAeqB+cIJAg9CDcIDgexB3wHMgcS",
+  "BuEGtQaGBm4GVwYjBhEGCwXxBgkGFQX3BZkFrwXCBeEGCQZSBrAHBwdgB7cIHQiMCO0JPQlRCWIJcgmJCaYJuwnVCeEJwQnWCi4KMQo8CpMKyAra",
+  "CtkK9gsXCzwLawusC/cMIwxbDJwMtwzhDPMM8QzlDOEMqAyZDJMMcgxbDEwMPQxBDE0MSwxHDEoMXAx2DHIMQwwdC+wL0gu/C7cLlwtqCycLDwrb",
+  "CoAKWwokCgMJ8QmsCWcJTgkkCPMIvgg9B28GjwWmBN0ELwOqAx0CdwHXATQAyACIAB7/tv81/or9+v2m/VD9Avzg/Ir8EvuI+xL6tPpB+cD5Pviy",
+  "+Db3u/dQ9u72iPYf9cD1VPUD9Lj0bfQ19ADzxfOB80Ly//LL8qLye/JV8lTySfJI8lDyVvJX8ljyefKL8qDyy/LL8wPzHPMP8zvzkfPE87HzavMt",
+  "8zLzI/Lv8q7yUvH88ZvxI/C98H7v9u8L7oTuau447eHtr+127UjtUe1M7ULtKO097WLtf+2U7aLt1e377iDuRO5a7oLuz+8L7zfvSu9v75jv0PAW",
+  "8FbwhvDB8PTxJfFm8Zvxx/H48iXyPfJU8nnylfKl8rDywfLU8t/y+vML8y3zRfNd82jzdvOY87Dz5vQm9EX0bfSs9Nj1CfUQ9Pb0y/Tu9U/1oPXf",
+  "9e72D/Ys9kD2TPZh9nT2gPaM9p32xPcG90r3gvef96v34Pgj+Fz4pfjT+Pf5OfmD+cn6BvpJ+n36svr7+z/7gPvH/Bf8aPy3/QL9W/2o/gX+Y/7N",
+  "/0X/0ABCALoBTwH3ApUDKgOoBCUEuAVGBgcGnga/BwEHLgb9Bn4GHAYEBm0IAgkNCToJLwi2CFYIHwgjCCUJJwnsCiAKDAmLCDsHGgefB80IRAhs",
+  "CBEIhAiqCLQIyAiyCKwIdggNB1QGgQaABpEGcQa5BvMHCwcBBtIGkAZSBjYGOAYyBgoF7wXVBb4FuQWmBXcFagV+BYYFfwWHBVoFgQWiBdoGHgZ6",
+  "Bt8HPQefB84ICgiGCPIJHAkyCU8JQglGCVUJeAlmCT0JZwmLCXcJdgmTCbAJ6woRCjYKVgpXCmYKpgr3C0cLjQvNDBwMVAx8DIYMgwx3DF8MSgxH",
+  "DD4MGAv7C/AL3QvfC+sMFAwmDCkMHAwLDAEL2gvIC5wLZwsfCvcK6wrWCroKlwpQChMJ1gmjCX0JIgjKCIUIaghhCEYH3wdNBpwFvwUWBJQEDgN4",
+  "AugCTAGKAM0AP//h/3v/Kv7D/ib9k/03/Of8rPx0/Bv7hvrX+oz6Nfmw+SX4jPft92r3AvaX9iv1yfVa9O30lvRI8+zzlPNi8zjy4/KS8nDyO/IF",
+  "8d3xv/GV8XHxVvE38P/wxPDX8THxbPGH8Z3xnvGu8cTx6/Hw8fLyMPKC8qnyavJM8mryVvIp8f3xtPFw8Snw3vCf8FDv8u+g7zDuYe2z7VbtOe07",
+  "7RXs+Ozn7Lnsu+zj7OXs7O0A7STtR+1o7Zntz+3/7jbuYO6J7qru1u8U70Tvbu+G773v2u//8D/wavCL8Lzw6/ET8TLxRvFk8YPxnfGt8cDxx/Hg",
+  "8fLyA/IJ8hzyM/JK8nnylvKq8sTy8vMk80bzXvOG863z0fPz9A/0OPRa9Hj0m/TD9RL1WvV19ZT1vvXg9fP2BPYT9iv2SfZ19rH25fcZ90/3ffex",
+  "99f3+/gx+GP4rPkK+Vf5lvnh+iD6Vvqb+vb7NftX+5777/wv/Iz88f1P/cL+OP61/yT/vABWAOMBWQG3AjsCxwNSA94EgAUGBYkF/gXqBZ8FigXj",
+  "BuwIEgiPCK8IuQjUCPoIkQgfB+IH4QftB6MIJQjBCOgIygiECBwHbAdJB4UHzwfjB/sHvwePB6sHkAewB5MHcAdXBzwHJQcBBucGogZvBmQGLgXM",
+  "BZgFdQVpBUgFGQUSBQkFKAUvBQQFFQUiBQIE/gT5BQcFHQUpBUYFcgWmBeAGQAaSBs4G9gcyB4UHyggOCE0IeQiRCKkIqgi7CLsIkgiFCKoIxAjF",
+  "CNEIzAjsCRgJMAlYCYUJoAmQCa0KEgprCrcK/QsxC3ALsAvbC/oL+wvqC+oMAAwAC8MLfQtoC2kLZAtdC2gLlgu+C9oL6wvjC8oLoAuAC2oLLgrp",
+  "CroKfwpXCi4KAwnMCaQJhglkCTgI4giVCC8HtAc3BvYG5wafBhsFfAT4BH4D3gM7ArkCPAG2ATwA0QAj/5b/ZP7b/kH9uP0t/LP8T/v++3v7FfrK",
+  "+lT5u/kH+F735Pd39x723/aK9hT1lfUf9LH0QvPM83/zUfMS8uPypfJH8eTxc/Eg8O7wqvBS8EfwSPAU7/Tv9O/+8APwLvBe8HPwkvCY8JnwsfDC",
+  "8NTw5/EA8U3xd/E58TPxY/E/8QXwzvCG8D7v+e+272zvOu8b7uDupu587i/tku0B7OPsquxl7H7sjOyE7I3so+zF7N/s7Oz/7RftQ+1/7a7tzu37",
+  "7h7uR+557pjuwe7i7vLvFO8170fvfe+p78fv7PAL8B/wQPBu8HfwhPCZ8Lbw0vDv8RbxL/E88UzxU/Fd8XnxmfG38cXx8PIa8jzyavKD8rjy7vMS",
+  "80LzdPOo8+T0KvRa9Gj0ifTF9Pv1IfU/9WD1iPW49dn19fYf9kr2iva59uf3FPc592/3m/fP+B74Yvie+Pb5N/l6+df6Dvpe+sj7BPs8+3H7pPvs",
+  "/EP8wf08/Z/+C/51/v3/mgAyAL0BHwGKAfYCbwL6A3MEBwSkBT4FpAXPBgoGpQeSCBoIcwjtCTsJWwkmCLgIbAglB9AHowd1B1kHWgdGB1UHNgcg",
+  "BywG+QcWBzEG7Aa+BsMGxQaqBpEGmQaNBoQGhAZVBjIF/wXFBZYFbwVRBSAFEwT5BKsEgwSIBGQESQRUBDoEJQRTBIAEigSFBIMEiASNBKwEzQUJ",
+  "BT0FnwY1Bp0GuwbFBs0G4wcABxoHNQdYB4YHswfhCAIIJggbB8sHuwfOB+wIEAgeCEEISwhcCHQIlwjJCOEI6QjUCOgJQQnFCi0KYQqmCt8LEQtQ",
+  "C24LWQtNC0YLTwuAC2kLPgs7C04LYws/C0ILUgtaC4ULmQuPC1sLJAsRCvYKuQqPCnMKVApPCh0J2AmHCSEI2wivCJYIaggzB9cHWwbhBlsGAwW9",
+  "BWIFCQSoBEIDzQM5ApgCGQG5AVcBEQDwAKAAKQAC/97/Uf5L/Pz8XPwK+4r7YPrb+ez5Gvh2+DL38PeA9073UPcH9l/1l/Tv9GDz0fNm8xTywPJk",
+  "8grxtPFi8RnwxfCD8E3wGe/67+/wBvAa8BrwAu/S75zvQe7t7uHvD+9U72zvcu+H75bvru/I7/HwI/Au7//v4u/67/bvzu+L71XvIO7J7pDuSu4H",
+  "7dHtlO1w7U/tTO0h7NDsqOyI7GTsQ+w77DrsQ+xW7GnsieyW7KLstuzR7PTtFe097Vvtau1y7Y7tpu2w7dHt8O4V7kDuXe5s7n3um+7J7wXvI+8x",
+  "71DveO+Z763vx+/48CzwPfA88FzwivCs8LLwqPC98OfxFvE78WPxnPHX8hTyTPKF8rzy9PMp81zzlfOz89T0CfQ99Gz0hPSj9M/0/fUz9WT1lfXH",
+  "9fX2IfZW9or2tPbx9xH3Lvdr96f38Pgu+Hb42/k6+W75rPov+on6xfsI+z/7gPvB/CL8ifz4/Xn94P5g/vr/iAAAAHcA7wFPAb4CNwKwAzwDxgRz",
+  "BWsGTQbHBwcHMweVCBQIOghVCF8IZwiGB90G+gaCBgQGBwZeBmgGdAaJBo8GkAZ1BmMGXwY/BiIGGgYIBegFyAW6BasFqgWlBXkFXQU3BOkEvATK",
+  "BM4EiwRkBGYENwQcBBYD/APwA+0D5APRA9ADzwPIA9ID9gQjBDYETARYBHUEtQT4BWEF+AZ9Br8GrQaiBqcGlwaJBp4G1QcGBykHXQeeB7cHegc/",
+  "B2IHcgdUB2EHbgeHB5YHlge6B8MH7AgcCEEITQfVCAYI6Ak4CW8JzAn+CiUKUQqPCscKzArSCwALPAuLC90L6wvDC8IL2AwHDCkL6AvOC7ULXQss",
+  "Cs8KcApiCn8KrgqBChoJ8wnwCcQJVQjUCGsIHAf5B+oHrgddBysG3AZWBeYFlQVqBWIFHwS3BFADzgNJAsMCWAIBAbEBiQFXAPwAlAAq/8f/m/9S",
+  "/mT9WfzE/GP74PtX+t76GflG+Mr4jvh1+Ez4J/fs90T2X/WK9Lj0BvOs84fzXPMq8xLy1/J78k7yJPIh8f3xcvEK8J7wH++j7y3u7u607qjure6L",
+  "7nXuXO5N7hvt7+4W7jLuQe5u7rfu5e7t7vju2+647q/uq+6n7m/uI+3r7bLtdO0h7N/sv+xy7DHsDeu/67jrz+ub647rvevc6+Dr5evo6+Lr5+vu",
+  "6/jr/uwP7CHsMexO7FnsZ+x/7JPsrOy57MXs3ez77QftGO1B7WftkO2w7cbt2e3o7hDuQu537rnu7e8U70rvgu+d75zvoO/E7/PwFPAq8CnwNvBu",
+  "8Kbw1vEX8WnxtPH/8knyevKx8u7zD/M682nzhvO18+T0CvQt9Ef0efS29PP1M/Vy9a312vYI9jP2avag9sj29PcV90z3bvet+Br4VvkG+XH5T/nr",
+  "+kv6RPqq+v/7XPu3+/j8Vfy4/S/9pv4P/oT/DP+eAB4AggDtAW8B4gJsA0YESQUCBWcFxgX9BmcG3gbnBxIHMwcSBxAHWwdeBmgFuAWtBVQFEQUs",
+  "BYYFwQWaBXUFdwWWBZkFiwWPBYoFhgV0BVAFDQTgBOMEtgSLBIEEaARMBDAEGgQIA/sD5gPWA8sDqAOMA3EDYQNhA2EDZwNcA1gDZAN0A40DoQPN",
+  "A/4EHAQ8BGcElQTeBQkFdAWtBcIFywXhBfAGCAYyBkMGeQbUByEHVgcxBvMG3AapBp8GzQbZBtoG3wbOBscG7AcLBx0HSweSB8sHhgeKCIsI+wjc",
+  "CSAJIgkbCU8Jdwm0Ce0KSwqbCrALBwuAC8oLygwRDPENYw3FDm8ODw0mDKEMIAucCxQKmQpBCfUJ0AnOCasJVAk4CT0I2Ah3CE4IAAeiB1UHBAZ8",
+  "Bf0F4wXrBhQGJgXhBYwFEASlBIIEDANaAvICkAHpATMAhQAO//f/gv7k/x3/cP83/rz90/zZ/Bb7Rfqy+mT6LfoL+aj5IfiZ9933YPc19sb2ZPZE",
+  "9dL1UPUP9Kz0SfQL86Ty9PJJ8frxx/GW8WPxHvDw8LPwWO/z75vvlO+s75TvMu647nDuTe5I7jLuFe407lTuKO1+7QLtV+2Z7ZLttu2y7YXtae1n",
+  "7XLtSO0K7OjstOxz7CXr0+uo64LrResF6r7qnOqq6o7qYepl6ojq1esa6yHrFOsJ6wfrD+sY6y7rTOtZ62TrgOuF64Xrouu368Lryuvc7ArsL+xH",
+  "7GXsguyU7KDsyOz67RztUe2E7bHt/O467mfule7F7wfvHe8M7yjvUO9s75Tvt+/V8AXwTvCk8PvxT/GZ8dHyAvI48mfykfK38t/zD/Mw81PzhfOo",
+  "8930HPRZ9Kf06PUu9Wn1jPW/9eL2C/Yz9lH2ifaw9uL3H/dm99X4G/hR+G/4pflo+dj53vo4+pj63vsv+4D73vxH/LT9FP1y/eH+X/7T/z7/1ABk",
+  "APQB5ALjA5gEFARmBL8FCAViBfsGHAXlBckFjAWhBggGVAY3BYYFEgTjBJIEbgRQBF8EnQS2BMkEvwSwBKgEhwR+BIwEgwRdBEsESwQmA/sD3gPB",
+  "A6QDhgNzA2YDVwNLA0UDQAMmAwcC+QLdAscC1ALhAvAC/wMDAw4DFwMiAz0DYgOSA7YD2wQLBDYEYgSfBEUEbwSvBQYFIgUqBWoFsgXQBeEGFgY4",
+  "BhoGHwZGBjEGDAYYBi0GNAY3BigGCQX+BhcGRAZ6BrwG8wcjBzIHFAejCKQIrwh8CNcI6gjwCVgJtgn4CikKKgoMCl4LSgwLDIAM5Q02DfEPEg/p",
+  "EA8POg3TDOgMkQw5C+ALjgtECxUKoAohCfsJhgkdCWUJnAmTCWgIugflB1UHEAcZBx0GvgY7BikGMQXTBZQFWASXBAIECQPtA3QDSwMgAkYBlwFK",
+  "AHP/t/+L/y7+8v7C/cv80/xM+7b7R/rO+hX5ifkU+Nf5Afkr+Mv3i/ZZ9fr1kPUi9TL1DvS19Jr0afQI84zyvvHJ8WzxqfHH8aLxV/DZ8IjwcfBE",
+  "8DrwQ/AP77nvPO7Z7obt1e1C7QDsuuy87Ofs9+z67N3s5e0R7PTskexK7FPsOuvt7BHsXexO7BHrretb60vrJurw6sTqgOpO6j3qGOni6bTpjOl5",
+  "6XnpSOkP6TPpeum86f3qC+oV6jbqRepe6nHqdOqX6r7qzOrZ6vTrBer76wnrMetS63frkeuk68rr4+v37BnsQex+7MHs/O1E7YLtru3g7gPuEe4r",
+  "7lPuiO7G7wHvP+9877fwAPBZ8LfxCPFG8X/xs/HW8e7yEfI48lbygPKy8trzDPNP843zw/QK9Fz0oPTN9N70+fU29WX1evWL9bX1+/Yz9mL2nfb5",
+  "92j3qPff+DD4cfjL+Uf5nvnu+mr6zvsA+1j7xPwH/Er8o/0T/Yz+B/6g/zX/xQCdAXAB3wJrA0MDoAOKA60D3AQgBJoEqQR3BHIEYwSABNUE7ASG",
+  "A9UDcgNmA2ADcgOAA3oDfwONA7MD1wPUA8EDrwOdA4oDeQNoA1sDYANiA0sDLQMdAw8C8wLWAsQCugKxAp8ChgJ7AoMCgwKKAp8CqQK5AswCygLO",
+  "As8CwALOAvoDKgNNA2YDlQPXBBEEKAQpBCoETgRiBIsEtATSBQAFQwV3BX8FtQYbBgEFnQWvBeYFyQWRBYcFvgXvBeEF3wX8BhkGSwZiBmoGoAbF",
+  "BuYHgQh3CRkJGQkSCYYJ3wnQCdcJ6AmzCY8Jxgn6ChcKkws1C6MMfg2wDjEOZQ79Dv0OFA1zDV4NGAyVDCoLyAubC68LYQrbCrUKZAnVCYII+Qgu",
+  "B6kHUwcIBrIGdwa/BxAGywZVBf4FtAV8BUQE+wSKBBQEFQQeA60DqQPsA2MCyAJlAY8A7ABn/2b+rv4U/Qz8VPvb+0n65vpt+e/5gvj3+NP5BPjy",
+  "+H/3hfar9lv16fWo9Zv1EfTE9M/0hPRA88Xy4vJZ8gzxsvGD8XTxjfFl8JXv6e/P7+bv++/R71nu1u5X7eDtY+zp7J7sQOvR677rsetn63HryOvz",
+  "7CPsQuvk62DrJ+r76qnqgeql6rHqkuqS6orqY+pK6hrp1Om06ZfpZ+lG6SPo+ekH6TTpAOiE6Djn/efS6A3oi+j36TzpYul26X3piemc6bHp3+oV",
+  "6jXqQeon6grqFuos6kPqYOp56pXqrOrM6wfrRet866/r2OwQ7FXsmuza7QvtOe1o7Zft2u4m7mjure75703vp+/+8E3wjPDH8Q/xUPF58Z7x0fH4",
+  "8hfySvKA8rTy7vMi82bzqPO289T0GfQ99Fv0hfSq9N/1DfU49Xr1rvXy9kr2d/az9xP3VveV99/4Ofi1+Sb5gPnL+gz6Xfqk+uf7SfuY+9r8Kfxt",
+  "/Mn9TP3z/t3/wABaANYBUwHuAoECvQLiAxwDUAOYA6QDWgNQA18DSwOJA9oDpQMfAqkCcAJwAosCtALNAtMC0QK9Aq4CqgKjArMCzgLSAtACzALJ",
+  "AsoCuwKaAngCVAIvAhoCEQIIAgICCgINAgkCCwIPAhgCLgJGAloCagJ1AnkCegJ1AnUChgKiAtADBgMhAzsDfwPGA+YD5wP3BB0EDAQNBDgEfQTd",
+  "BSEFOgVMBU4FigYMBhwF1AYGBmMGXwY1BgQF0wXkBiAGQwZSBngGtQbtBxQHOAeECDMI2AjuCQcJbAlXCMAIUggrCFkI4QlICX4J7wp8Ct0LCArB",
+  "ClYKpgt/DCEMtQ0ZDJoLuwuHC7ELegsLCs8KpAqTCugLUgs8CqQJ1AkiCJkH7gdEBtsGdwYjBhUGMAZkBpsGpAaFBkMF7QWjBWEFNwUSBLMEZQRB",
+  "A+oDoQOKA0gDAQKdAcUA5gAV/wb+J/2P/OT8Qfug+ur6TvnO+Wr5HvjR+Ln4qvgh91/24/aQ9jX18vW89WD1BPTF9HH0HvPV82vzCfKC8crxkfGd",
+  "8WzxifF48FXvMe8d75HvpO8x7uruyu4m7XztFuxj6+7r/OvA61zrHurM6tfrKOsb6xvrPere6nDqg+qN6i3prelX6UfpXuls6Wbpaul+6X7pZulE",
+  "6QPou+ir6LToheg26CzoU+go57XnhOeQ54Xnk+fY6AroLehy6Krotui66NDo8Oj86PPo9ekK6SPpLekj6TTpb+mY6bDp2OoD6ibqVuqa6tvrE+tM",
+  "64LruewB7ETsdOyu7PvtR+2f7fruP+6A7tLvJu9z78LwGvBd8Hjwo/Dy8UTxnvHk8fDyDfJP8nLylvLR8uXy7/Mg81fzgfOy8+L0CPQ39Hv0y/UI",
+  "9Tf1h/Xe9f32HvZP9kz2h/c/99b4aPk5+Z75n/nk+jf6V/qH+tz7TPvN/E/8x/0f/WP91/6B/wL/XQAbARMBjgHJAlAC7QOaBGoEwQROA5oDIwLZ",
+  "AowCZwKNAqQCVgHLAVMBJAE5AWYBlgG6AccBwgGzAaYBoQGfAagBvwHMAccByQHRAcMBoAF4AUwBIwEJAPsA9gD/AQ0BGAEiASwBNwFKAWYBhgGn",
+  "AcYB5AICAhMCIQJFAnUCogLTAvwDLQOCA7oDowN7A3MDlwPqBaYFoQWSBbYFxwXQBc8FswWnBZ8FfgWbBiEGkwaUBosG3gcUBqcGIgY3BroHWAfx",
+  "CEQISAhFCDQH/wf0CB4IFQf3CDcIfAhdCC0H+AeYB58IKAh/CPAJ8wqaCmoKUQqACmUKPQprCrUK8wsYCuMKbQoqCiAJ/AnfCg4KFwnUCigLCQsa",
+  "CikJSQiYB54GwAZ8BpYGtQaxBngGSQZQBj0GDAYVBiEF2gWGBVMFEQTBBHcEHgOoAzgC8QKqAiwBmwEKAFj/pf8N/mX9r/0Z/JP7/ftp+un6YvnT",
+  "+W/5KPjc+Lj4bveG9q/2hvZS9c31gvU19LD0dfRV8+vzmvNl8xXy4vKK8eLxmfGY8U/xGfDP78fuxu7G7y7vLu7b7n7uFe187MHsKOvx6/frqusA",
+  "6orqWOoP6d7qB+pG6kzqOOpW6mnqCOma6ZXpoOmN6Y/pbukW6Nro1OkA6ULpRekZ6P/ozeiE6GLoQugE59Pnn+dP5yDnFucG5wfnKudK51fnUOc1",
+  "5znne+fH5+rn6ufc59rn6+gC6CfoVuho6F7obOig6ODpKelx6Zvptunw6jfqXuqA6sPrE+tW65Lr2ewl7HDsy+0r7XTtxO4q7m7unO7172Hvs+/8",
+  "8EPwdvCK8IvwwfE+8Z/xv/Hd8gryPfJu8ovyqfLc8wzzLPM981DzhfPM9AX0RPST9Pj1fPXO9b/1mPVv9Xj2V/eY9/D3kveM9+34e/lS+j767vte",
+  "+7L7+fwZ/Bn8R/yq/SD9tv4+/oH+y/9iAB4A1wFxAfwC3APwBKgFEgUrBFkC/wJEAgoBtAF8AWAA5AA4/8z/oP+t/+kAHAA7AFwAdQCNAKwAvwDV",
+  "APUA/gD8AQwBFAEDAPcA5wDEAKsAogCXAJEAlgCiALMAwwDHAMgAygDNANcA8gEfAUsBZQF3AZoB2AItApEDBANuA7YD6AQLBBUEHwQbA/YEMAUG",
+  "BUEFBgTMBPgFPgVvBYIFUwUBBMkEngRxBFsEbwTBBTsFmQXaBh0GOgZQBu4H7QiDCKoIxgiaCAoHrQfOCCQIagh0CDoIHghhCLIIugiXCIEIcwhs",
+  "CJkI3wjnCNkJIQmNCb0J2QoLCg8JwwljCS4JLAklCO4IxAjcCNcIdQhFCMsJlQnjCZwI/AgLBuMGCAXdBhkGOwY4Bj4GOgYTBfoGEwYqBgkFugVf",
+  "BQsExAR5BAoDgwMGApcCMgHQAUoAjf/E/x3+lP4h/bb9KvyL/A77nfsO+oX6EfmB+PH4kvgr94j20fY19c/1m/Ve9Pn0jPQt8+/z2/Oy81LzAvLW",
+  "8qDyZ/I68erxafEF8OvwwvAz743vI+6p7g7toO1N7Pvs2eyZ7AXru+vg67brJOqh6jTp7unh6azpb+ms6d7pv+ow6vDqn+mU6QHoy+i46RPpa+ll",
+  "6YTpzOmv6UTo9ejT6NXoyOh+6C7oGegp6D7oLefE5zPm1+as5prmtebR5qHmZuaT5vHnCub55xTnQudT52fnlOe158Tn4OgE6BroKOhG6HzovOjy",
+  "6R3pQ+lo6ZDpxOoB6kDqi+re6yfrbuu/7AXsPeyL7OvtOe2A7dXuNu6S7uLvIO9V74nvwe//8DLwVvCA8Lnw6/EU8UrxjPHN8hryY/KH8rfzIfNx",
+  "85f0I/UD9XD1ePXR9mT2qva/9vj3Rfd795n3wPgo+Mj5RfmD+dT6Qvp1+nD6b/p8+qD66/s8+4j70fv6/Df8wP04/ZD+QP8E/3kAJwEUAX8B0QLP",
+  "A9AELgQ6A+YC/AIRAYUBFQDBAJQAQ//V/47/av9c/2//gv+I/6H/vf/E/9H/7QACABEAIAAoAC0APgBMAEwASwBVAFYARAAzADIAOABLAGUAbQBn",
+  "AG8AeQB5AHsAegBwAIUA0gFIAeECkgM7A9MERgRbBDIENwRSBDQEGAQyBEQEbQTuBN8FAwUxBY4GIgaqBuoG0AZ0Bh0GCgYWBggGDAZCBlkGQQZ0",
+  "BtkG1AasBw4HlgfLCEMJAAj1CDMH+ghgCIUIbAiNCMYJDAmTCg0KFgn4CgMKAgneCbAJPwiACCQIkQkfCTkJPQl9CXwI8QhiCDwIOwgTB+sH4QfZ",
+  "B8UHvwfFB8kH5ggkCEIH9Ac2BkMFgQUnBQgE9AUaBX8FxwXKBcgF0gW+BYcFQwTyBJoERgPqA3oC+wJ9AiAB8gHBAVkAzwBI/7L+9/45/Zn9CPxr",
+  "+8T7I/qI+ef5Pfic+Av3YPaJ9db1jPVw9Sb0wPRq9BLzrfNy827zXfMQ8rTycfIc8ZXxQfFw8anxTPCo8GPwTu/t723vDO5r7VnsXuwE7Dzsgexl",
+  "7Arr2uvA62jq6Opq6fzp0+nc6azpa+mM6bzps+oN6uLrNuqk6fTp2epJ6qfqbOob6oPrKur66hrpfelX6Tvo6+h86CPn+ufo5+Dn7Ofn56TnSOb0",
+  "5pLmOOYb5izmReZq5o7mjuaL5rPm4ebv5wDnJ+dG51rnd+eT56nnzOf26BnoQuh46KToxOjq6RnpUemc6fPqPep56rrrA+tM65Tr1ewJ7D7sjuz2",
+  "7WDtwu4b7lzuiu7A7vjvKu967/DwTvCT8RHxvfI38ozy9PM/80TzTfOA86/z1vQL9C/0SfSV9Qz1efXb9kz2ufcG9zT3Yfen98v3i/c/94r4VPj3",
+  "+TP5Tfl7+bn59/om+lH6hvrA+v37MPtQ+4P7+PyS/Sr9y/53/y7/+wCiAOUBFgGSAi0CpALDAjABEwA7//X/y/+c/5z/qv+h/6T/sf+h/5P/pv+v",
+  "/5b/eP9q/2L/Yf9e/0//Q/9I/1T/Xv9q/3j/g/+R/5z/m/+S/5H/mv+m/6b/n/+k/7X/wv/Y//8AKABmAOIBhwIoAroDFQMaAzEDrAQKA+8EBwTF",
+  "BXMFfAVFBSgFAgTZBR4FaAXMBjIGjAbmBzMHPQcEBuEG/wcmBzoHZAeRB4sHfwevB90Hywe7B8YHkgdeB+oI3wkMCGcIAwggCBsH7ggSCGgIgwht",
+  "CGEIZgiLCOAJLgkvCPMIqwhnCDgINAhQCGkIbwhYCCMH6Ae0B34HXQdqB3EHTgdgB+gIZQhSCAEH7AfwB+EH2geSBpEFTAS9BP8FcgXUBiIGFAWh",
+  "BUMFJwTzBJQEVQQwA+UDhwNAAuUCXQHzAdkBwAFVALcAL//P/2z+1f4L/VD8y/xM+5362/ot+YL40Pgv94j2o/Wg9PP0zvTf9ML0a/QU89nzmfNG",
+  "8wDyyPJs8fTxmfFA8K3wQ/CG8QPwwe/N7xvvC+8l7wPul+3j7Rjspeyw7NvszOyC7B/rs+s/6sjqV+n26bfpnOmO6XLpTukw6R3pLOl/6g3qousZ",
+  "63/r7uwv67rqfOlb6TLpo+m/6W7pPelF6S7o4eiO6FjoQug96DLoDOfF52/nJObq5qzmcOZU5lPmUeZR5mLmc+Zz5nvmlear5rTmyObn5v7nD+cs",
+  "507na+eI56zn0+f86C3oZuil6PTpRel/6ajp5uo46m/qj+rP6zTrievG7A7sXOyd7Prtk+4r7o3u+e+p8ELwZ/Bd8JjxAfFO8Yvx1/IU8izyPfJn",
+  "8p3yyfLt8xvzWvOS88D0EPSK9P71ZPXd9kL2ZfaL9vD3O/c591D3pffQ99D4LfjO+Qr44fjw+UH5Zflk+Zb54voL+jz6o/sM+0z7jvvx/Fr8uv03",
+  "/ez+rP80/5IACgCTAOgBBgEEAJj/nP6j/kT+Sv5B/jf+Y/6m/tn/Cf85/1T/Yv94/4P/b/9R/zr/Ff7a/qP+gf5h/kH+M/46/k/+df6o/tX+8/8K",
+  "/xz/L/9E/0r/PP81/1j/pAABAF0AqQEBAY8COQKgAqwCsgLfAv4C9gMMA4YEVwUuBbEFswVXBPYE0wTqBEIERQS2BT4FgwWWBbQF5wYUBjwGawaX",
+  "BrcG3AcDBxsHKAc+B1wHbAdiB0EHGQcLBx4HMwc9B1kHfQdpBx0G8AcJBysHLwcmBxQG9Ab0Bz4Hmge4B6cHpAexB6UHbwctBwcHFAc/B1MHNAb8",
+  "Bs8GsgadBpMGmAalBqwGqQapBrcGywbdBugGwQYtBUwEogSIBMgFBQUmBSAE3ARuBBMD2QOjA3ADUwM5Aw4C4AK3AnYCGAHDAYABHwCE/9P/Pf7L",
+  "/lz91/1I/Mv8VvvM+zL6o/oV+XX42PhO96z2zPXm9Ur0//TL9Ij0MfPX84LzKfLB8l7yFvHR8W3w+PCW8Dzv4++x76/vge7c7g/tt+327kXuF+10",
+  "7NfsluyQ7HvsPOvl64brIOqz6kzp+um/6Y/pZelP6UbpJujt6NjpEely6dHqY+tp7JrtMOyr61Lp9+k66R7pMukm6QLo7ujs6Oro2Oi66JzogOhV",
+  "6AnntOd15zzm7Oan5p/mueap5mjmR+Zq5pfmj+Zw5nnmqubL5sfmv+bK5uDm+uca5zrnTudg54Xnt+fg6AXoTei16QTpIek86Ybp5+o96qPrOuvk",
+  "7GvsvOzX7Mfs4e2J7oXvIO8u70vv2PBu8KTwtfD68VfxkPGp8bLxkPFG8RfxQfG/8l/y8/Np88X0CvQz9Fj0mfTm9RD1J/Vg9b32GfZ59vP3cffY",
+  "+DP4gfir+MP46/kP+RX5N/mZ+fD57Pmw+Yf5jvnW+lz62fsC+wb7Qfu6/D/8w/1F/Z/90f4h/rH/Qf+M/5n/ev8N/kv9jv01/Sv9Gfz6/Qn9Rf12",
+  "/ZL9vf3z/hL+IP42/k7+XP5r/n/+hv6D/oj+i/5//n3+lP6y/tX/Ff9x/7z/3v/i/8r/mv9z/2b/Y/9v/6f/+gA0AFgAlwDpAQ4BCgEpAY0CBgJg",
+  "Ap4C1QMPA1IDuARMBOcFSAVYBTIE8gSXA54DVQOFA+4EJwQnBDQEcQS6BOcFBAUuBWUFkQWwBdIF/AYdBiwGNQZHBlwGaQZvBnoGigaYBqIGowaT",
+  "Bm8GPAYHBeYF9gYsBksGIQXMBaYF2wYzBlgGOAYWBiQGNgYOBc4F1gY3BogGewY3BgUF5QWzBX4FYgVIBQgEuASVBLEE6QUYBRwE0QRAA7oDiAOM",
+  "A3MDMwMLAxMDFwLzAssCvAKuAokCZwJkAmICOwIIAfgB9AGjAOL//P9I/tP+b/4D/Zr9Pfzh/G/73Ps6+rD6Sfnj+WX45vhy9+n3L/Zs9dH1U/TR",
+  "9FDz5/OG8xDylPI28f3x0/Gn8XDxG/Ck8Cjvye+K71LvAu6I7entWO0U7RrtIezo7IHsLOvw66jrRurs6qvqa+oY6czpoemM6XPpV+lI6UXpRelJ",
+  "6UjpLukc6WrqMeru6wHqZum+6X7phumD6WTpROkj6Pfo1+jg6QjpIukQ6NLoeegk5/fn7OfU55PnVOdH513nYudR50/nYOdf50jnP+dN50TnDubV",
+  "5tDm8+cO5wznCecb5zrnVedu54vnpeex58ToBuiI6TzqDurl65Pr++xH7LbtPe2Z7cruHu6j7vzu8e7G7tTvKO+o8DzwuPDq8O/xDvFI8WDxXvGL",
+  "8ebyDPHc8bXx9PJ+8wTzcPPR9Cb0YfSS9NH1HPVd9Yz1rfXG9dv1/PYs9mX2pvb691X3mvfD9+z4J/hd+H/4qPjn+Sj5TvlZ+Vr5a/mj+fH6GvoD",
+  "+fH6OfrT+3H77Pxe/Nf9QP2P/df+E/4I/X38mfvb+6378Pww/Cz8EfwZ/Dj8RPxE/GH8jfyh/J78rPzQ/PH9DP03/XD9nP29/er+Iv5S/nf+nf7D",
+  "/uT/BP8m/0H/Uf9Y/0//Of8w/0j/av92/3P/ff+a/7D/t//MABIAlgE3AbsCDwJmAvQDmAP8BBAEFgQ+BF8ETQQtBDgETQQWAk4CNAI4AlACeQKx",
+  "AuIC/AMOAzUDcwOlA7cDwQPrBDcEgwS5BN8FBgUrBUIFVAV6BbQF4gXwBe4F9gX1BcAFUwTqBMoE8wUmBSsFBQTbBM4E4QT/BQ4FAATjBNEEzgTM",
+  "BMQEygTsBRwFPwVHBTgFEgTYBJsEaARGBDEELgRCBF0EYAQxA9MDYwMHAs0CpgJ2AkICKAIoAh4B9QHLAccB1QHIAasBqgHBAbcBfQFbAXwBiwEO",
+  "AAv/C/54/jT98v2Y/T785fx6+/v7dvrr+lD5uPlO+Rr47vib+CT3pfcd9nT1rvT/9Ib0IfOd8wHygfIx8fHxqPFi8SPw0PBk8BPv+u/q75vvEe6L",
+  "7h3tm+z87ILsY+x27GDsAeuG6xvqxep66jzqCOnO6Y7pYulf6XLpfumM6bXp7+oH6ezp2+oZ6ozqw+pz6c/pUuk66WLpkOms6bDpjulP6SrpSemJ",
+  "6aPpg+lR6SrpAejQ6KromuiN6Hvof+io6NXo4ejS6MjozOjX6PHpE+kR6L7oOefT57LnqeeK52PnWOdj52/nkef96LHpZOnZ6h/qZeq46wPrTOu2",
+  "7Ejs3+1g7dXuT+6+7wbvNu9279PwI/A48B3wGvBu8QbxjvHP8ePx+/IO8e3xpvGG8bryCvIg8gDyBPJt8xXzl/Ox84HzWvN489H0MPR19Kj03vUZ",
+  "9Uz1efWu9e72LfZh9pP20/cZ91D3cfeU99X4MPh++KL4pfie+KD4svjY+QL5C/jm+L74zvkK+S/5I/kn+Yf6M/rR+xn7C/rJ+m76H/oU+mX63/ss",
+  "+y77EvsS+zH7TftR+0r7TPtf+3z7mPuy+9P8A/w4/GP8g/yf/Ln8yPzR/OH8+f0G/QL8/v0H/Rb9IP0v/U/9ef2o/ez+Tv6v/uz/FP9Q/6H/zv+5",
+  "/57/0wBhAP8BcwHFAhECUQJwAncCgwKaAqoCrQKyArkCrAKBAKQAgwCIALEA7QEqAV8BigGuAdgCCgI3Ak8CWAJwAq0DAwNTA5ADwQPuBBUENgRc",
+  "BJIEygTsBPcE/AT/BO4EvASBBGUEbwR9BHUEXgROBEcEQAQ+BE4EYgRaBCoD9QPpBAMEFwQMA/wEDwRCBGwEawREBAwD0wOqA6gD0AP5A+kDkAMg",
+  "AtMCrwKFAjcB3AGoAawBwAG2AYsBZgFlAXYBbAE9AQkA7gDeALMAbgA5ACkAIP/q/4P/Ff65/l395/1h/Of8ffwA+1T6gvm1+RP4rPh7+G34bfhh",
+  "+DD3zPc39or15vVX9M70OPOa8w3ymfIy8cjxZPEL8K/wSO/t78bvye+472fu8u6S7k/t9u1s7NzshOxm7ErsBOuY6ynqzeqG6krqEOnS6Zrpe+l9",
+  "6ZHprOnT6g7qS+pz6pfq3utI65Hrc+sA6o3qWupY6l7qY+pu6mjqMunh6cHp+OpT6nnqUuoP6eDpwOmW6WLpOukq6SjpLOk76VHpYulm6WDpV+lO",
+  "6UDpLOkT6P/o/ukc6VXpkOm66dLp5un+6hTqJuo66lLqbeqH6qjq3Osf62Prpevw7Ffs1+1Y7b/uBO447nPuvO8D7zXvUO9s75vv4fA48KDxG/GY",
+  "8e3x9fG58XLxWPFy8Zzxs/G88cvx6PIF8hvyM/JS8mvycPJy8o/y0/Mo82/zpfPa9Bb0U/SS9N/1QvWs9gX2UPah9wD3W/el9+r4Sfi/+Rr5IPjG",
+  "+Er4C/hH+OX5gfmr+Tz4ePfZ97X4A/hy+Lb4x/jX+Q35WvmH+Xn5WPln+bj6GvpT+l36Yvp9+pz6o/qV+oz6kvqV+oX6dfqA+qr63fsC+xr7Lvs8",
+  "+z77O/s++0T7Q/s/+077efut+9z8IPyd/Ub93/47/m/+pP7i/w//Kf9M/3n/i/9w/1z/kgAOAIIArwCoAKYAtwC+AKwAmAChAMIA4wD3AP8A9gDU",
+  "/zb/Av8P/1n/rf/lAAgANAB1ALYA4AD2AQ0BNAFmAZUBwQH0AjICbQKWAq4CyQL6AzkDagN4A24DaQN2A4gDiANwA08DOQMzAzcDPQNEA0oDUgNg",
+  "A3gDkgOdA44DcANaA1sDZwNvA3UDiQO4A/UEHAQVA+UDpwN6A2cDXANAAwoCyAKTAnMCWQItAe8BtAGWAZgBogGeAY8BiAGSAZcBdwEwAN8AowB5",
+  "AED/5v99/zL/Hf8p/yn+/v6h/iP9lP0D/Hj79ft2+vv6g/oI+Xr40Pgd95D3UfdU91v3J/ay9in1tvVT9N30RfOq8y/y0vJw8fnxffEX8MXwcPAU",
+  "78jvou+S73TvN+7t7qruZO4E7YTtBOym7G7sQOwA66vrUer+6q7qY+oi6fnp5+nk6erp++oc6kTqa+qa6ufrVeuz68DrZurh6ozql+rh6yXrOusn",
+  "6wfq7OrY6s3q0Orh6vXq++rp6rzqgepH6hjp9enY6b/psum76dfp8+n76e7p2OnO6dnp9OoR6h/qG+oT6h3qROqA6rzq7usV6zDrN+sg6vnq5esB",
+  "60jrlOvE69Xr5ewM7DzsTuwv6/vr8Ow67MrtZO3O7gHuHe5K7pfu++9q79vwQPCD8JnwjvCH8Jzwz/EP8VPxnPHk8hjyKvIp8jXyYvKc8sTyyPK2",
+  "8qbyp/LA8vnzSvOZ88nz4fQE9FL0vfUg9Xb15/aO90X3x/gP+HH5O/o6+sL6Qvjg92j2pvbL92v39fgj+AX3zfel96P30Pgf+G74nPio+LD40fkL",
+  "+UX5Zfln+V75Xvl0+Zf5tfm9+bX5s/nI+ej59vnm+dL54voe+mT6iPqA+l/6Pfom+h76LPpM+m36hPqn+v77lPw3/J78rfyM/Hz8k/y1/L/8svyw",
+  "/NP9Ef1Q/X39nf29/eP+Cf4l/jr+UP5q/n3+gv6D/pD+sP7R/uj+/P8n/2T/jP95/hv+Ef4v/nH+uf7x/xr/Q/90/6j/1P/4ABsARABxAJwAxQDt",
+  "ARcBPQFbAXUBkgG7AeoCEwIrAjQCNgI4AjkCMwIiAgoB8QHhAd4B5gH5AhICMgJXAoECrALMAtsC2ALMAsICwQLMAucDFQNUA5oD1gP2A/IDzgOU",
+  "A1IDEgLaAqoCfAJMAhwB9QHeAdkB2gHZAdUB1gHiAfUB/wHyAcwBlwFjATgBEADjAKkAZAAa/9T/mf9p/z3/Bf6r/iP9dfzA/Cr7wft4+yz6x/pI",
+  "+cL5Sfjj+Ib4J/e990z22vZu9gj1o/U49MT0T/Pj84PzKPLI8l/x8PGC8RzwvfBs8CzwAu/k78Pvke9O7v7uqu5T7fTti+0d7LjsaOwu7ADrzeuP",
+  "61PrLOsm6zrrUutb61XrSetC60brWet966Trquto6tjqLOm06a7qEeqg6xTrVOtv633rheuB63Trbet5647rketw6zTq+urU6r3qqOqR6oPqiuqc",
+  "6qXqmeqF6oDqj+qh6qDqiOp16oLqt+r76y/rQ+tA6zvrQ+tV62LrXOtI6zfrP+ts67Tr/uw07E/sWOxY7FTsSOw37C/sROyA7NjtM+197bPt4u4d",
+  "7nDu1u8975Lvxu/a7+Lv8/AY8EzwgvCy8OHxG/Fh8ajx3vH68gLyCvIi8kvyefKa8qryufLe8yXzfvPR9BH0TfSc9P71W/Wn9fD2V/bl93T32fga",
+  "+HH5CPm0+f75hfhg9xz2U/Y59o725vcG9v72+fcK9yX3Pfde95j36fgz+Fj4WfhV+Gz4ofjZ+Pf48/je+M74y/jN+Mz4yPjI+M742Pjm+QD5Mvl+",
+  "+dX6IPpG+j/6FPnc+bP5qPm6+dv5/vof+j76VPpW+kD6JPom+mH6zPtF+6X71/vj+9f7xfu5+7371/wB/Cn8QPxH/Ev8Wvx0/JX8t/ze/Qr9N/1d",
+  "/X39pP3b/hX+OP40/Tz9Rv1j/ZT9zf4D/i/+VP55/qT+0f76/xv/Nv9S/3b/ov/VAAcAMgBVAHQAlAC7AOcBFQE+AWABeAGFAYMBbwFKAR8A+gDm",
+  "AOgA+wEbAUMBdAGrAd0B/gIIAgEB+QIAAhYCLAI0Ai4CMwJgAr0DMAOMA6gDgAM0AvACzAK/AqgCbwIYAcYBmAGaAbgB1gHlAe0CAAIjAkkCVQI4",
+  "AfgBrgFuAUABGADqALAAbwAu//D/sf9s/xz+vf5M/cr9Pfyz/Dj7z/tw+xD6qPo6+cz5ZPj++Jf4MPfL92v3C/ag9if1pPUn9L30ZvQZ88vzePMk",
+  "8tDyfPIg8bjxS/Ds8KfwffBh8D7wCO+/73HvKO7l7p7uSu3k7XbtEOzE7JfsheyC7ILsf+x77Hvsfex77GzsTuwt7BvsIuw57EDsF+uz6y/qv+qS",
+  "6rfrE+t268Hr6uwB7BLsH+wk7BvsC+v86/Hr5evR67brmOuB63Prbetr62zrb+ty63HrbOto62rrdOt/64Prfetz62rraets63Pre+uG65Trnuub",
+  "64zreety64LrpOvL6+rr/uwT7Dbsaeyh7NDs7u0B7RntPu1u7ZrtuO3L7ejuI+6D7vnvau/A7/PwCvAU8BzwJ/A28EvwafCU8Mfw9/EZ8SXxHfEM",
+  "8P/w//EU8T3xevHI8iPyh/Lt80zznvPl9C30gvTr9Vv1vvYF9jT2XvaV9tr3Gfc89z73LPcf9yf3Qvde92P3RPcA9qz2ZPZB9k72fPay9tX24vbn",
+  "9vj3Ifda95D3tffI99T35Pf6+A/4GPgN9+73xfef94b3ffd+94T3jvel99f4KfiP+PP5OvlW+U35MPkR+P34+PkC+Rv5PvlZ+Vr5M/jy+Lj4rvjn",
+  "+VP5xPoS+i36Jfoc+ir6UfqE+rL61frx+w/7MvtX+3j7kPuk+7r72Pv+/Cf8TPxq/Ij8rPzY/QT9Jf02/F78cPyF/KP8yfz0/Rz9O/1R/WD9bP17",
+  "/Y/9q/3Q/gH+PP59/r7++f8t/1v/iP+6//IAMQBzALEA5gEIARIBBADlAMAAoACOAIwAlACiALIAwgDRANsA3wDbANcA2QDmAPkBDAEXAR0BKgFL",
+  "AYUBzQIMAi8CMgIeAgIB6wHXAcABogGAAWUBXQFnAXwBlAGrAcUB5gIIAh0CFQHoAZ0BRQDxAKoAbQA1//7/yv+d/3L/Pf7x/ob+Bf19/QD8lvw7",
+  "++P7hPsd+rP6Ufn5+an5WvkF+Kz4Uvf695/3PfbN9lP12vVs9Q70vfRw9CDzz/OC8z/zAfK98mryBfGW8Szw1/Ca8HLwU/A08A3v2e+W70Pu4e56",
+  "7h/t4O3D7cDtxO2+7aTtgO1k7VztZe1n7UvtC+y/7JTssu0g7bnuO+5q7jLtrO0V7KXsd+yA7J/stOyz7KLsk+yQ7Jfsnuye7JbsjOyH7IjsiuyD",
+  "7HDsV+w/7DLsMOwy7DDsJuwW7AnsBewN7BzsLew67ELsRuxK7E/sVOxY7FjsVexP7EvsS+xS7GLsduyO7KbsvuzZ7PftGe077V3tfu2e7b/t4O39",
+  "7hXuK+5G7nHusO7+71DvmO/M7+zv/vAK8BbwJPA08EfwYfCE8K/w3/EQ8T3xZvGL8avxyPHl8gjyOvJ78snzFvNW84Tzp/PQ9Ar0WPSu9Pn1LPVH",
+  "9Vf1b/WU9cH15vX09ef1yPWn9Y71gfV89Xv1evV69Xn1dPVs9Wb1bPWF9bH15vYT9jH2QvZU9nT2p/bg9w73JPce9wf26/bQ9rb2mfZ59lz2R/Y+",
+  "9j72QvZJ9lj2dPah9tn3D/c892D3hPex9+f4G/hB+FH4TvhG+En4YviT+Nf5Ivls+an50/nm+er56/n3+hb6R/p8+qj6xPrS+t/68/sR+zH7TPta",
+  "+2D7Zvt1+437qvvF+9n76fv8/BP8LvxI+9f74/v2/A38Jfw6/En8UfxS/FH8Uvxa/G78jPyz/N39B/0u/VT9e/2o/d7+If5w/sv/K/+I/9wAHQBJ",
+  "AF4AYgBbAE4APgApAA//7v/M/6//nP+U/5P/lP+P/4T/dv9t/2//e/+O/6T/uv/P/+cABQAqAE8AbAB7AHgAaABSAEAANwA7AEkAXgB2AI0ApQC6",
+  "AMsA0gDLALIAiABTABf/3P+j/2v/Mv74/r7+hf5N/hT91f2K/TP80vxs/An7qvtP+vX6mvo/+eX5k/lH+QL4wPh++Dn38veq9173D/a69mH2BvWt",
+  "9Vj1B/S29GP0DfO5823zK/Lw8rTyavIH8Y/xDvCc8EvwKPAs8D/wR/As7+nvie8l7tnus+6x7sTu1+7e7tfuzO7I7s7u2+7m7ufu5e7s7w/vU++v",
+  "8AbwOvAx7+zve+797pDuQu4S7fbt3+3H7a7tmO2K7YLtfe137W/tZu1h7WHtY+1k7V/tVO1D7S7tGO0C7O7s2+zN7MXsxOzI7M/s1ezZ7N3s4uzr",
+  "7PftA+0N7RLtFO0Y7SPtOO1Y7X3to+3F7eDt9O4E7hXuKO497lTuae567ojulu6m7r3u3e8E7y/vV+9274zvmO+h76zvvu/b8ADwLvBi8Jzw2/Ea",
+  "8VbxjPG58d7x//Ij8kvyefKn8tPy+vMf80PzbfOd89L0BPQu9Er0WPRc9F30Y/Ry9In0p/TG9OL0+PUH9Q/1D/UD9O30z/Sw9Jv0lvSk9Lz01fTk",
+  "9Ob03vTX9Nz08fUS9Tb1VfVt9YH1mfW59eH2DPYu9kH2QPYy9iD2EfYN9hP2IfY09kv2aPaN9rj24fb89wD27fbP9r32zPcG92L3yfgf+FL4Yfhf",
+  "+GT4gfi7+QL5QPlh+WH5Tfk8+Ub5d/nN+jf6oPr0+yv7SPtW+2T7efuW+7b70fvi++n76/vs+/L7/PwE/Aj8A/v3++j72/vU+w77BPsE+w77H/sz",
+  "+0b7V/to+3z7lvu0+9P76/v3+/T75vvU+8r71fv8/ED8nf0I/Xf94P48/oj+xv72/xn/M/9C/0f/Q/83/yX/Df7w/s/+qv6C/ln+Mv4R/fr98P3x",
+  "/fv+Cv4a/ir+O/5N/mP+fP6X/q7+vP6//rj+rf6l/qb+tf7P/vH/Ef8o/zH/Kv8U/vL+xv6V/mD+LP36/c39pf2B/V79Of0O/N38pfxq/DD7+PvE",
+  "+5H7XPsj+uL6mfpK+fj5p/la+RH4zPiK+Er4C/fO95L3WPcf9uP2pfZi9hr1zvWB9TP05/Sc9FP0DPPJ84rzT/MW8tvymvJQ8f7xqvFb8Rzw8/Df",
+  "8Nrw3PDX8MXwo/B28EfwH/AG7/3wBfAX8CzwP/BK8E3wS/BJ8FHwavCY8NvxKvF68brx3vHf8b/xhfFB8P7wxvCa8HXwUfAl7+7vre9o7ybu7u7F",
+  "7qvune6U7ovufu5t7lnuRe407iXuGu4O7gLt9O3m7drt1O3U7drt4+3r7fDt8e3u7ert6O3p7ezt8O3y7fPt9u397g3uKu5R7n7uqu7O7uXu7+7y",
+  "7vPu++8L7yTvQ+9g73nvie+U75vvpO+x78Pv2O/t8ADwEPAg8DTwUPB18KLw0/EE8TDxVvF48ZnxwfHy8i7ydPK/8wvzU/OW89X0DvRA9Gr0h/SU",
+  "9JP0h/R19GT0W/Rc9Gb0dvSJ9Jr0qPSy9Lj0uPSx9KT0k/SE9Hz0g/SY9Lv04vUF9Rz1JPUg9Rr1GvUp9Un1dvWm9dH17vX59fT15/Xb9dj15PYE",
+  "9jT2cva49v/3RPeD97n35PgA+A34Cff399z3w/e097j30ff++Df4cPij+Mv46fkB+Rj5L/lC+Uv5Rvkw+Q747PjX+Nz5APlA+ZH55Pot+mP6hfqZ",
+  "+qj6vPrY+vv7H/s9+1D7VvtS+0n7Qvs/+0H7RPtF+z77Mfsf+kj6Ovo0+jT6PPpH+lT6Y/p0+on6o/rE+uj7Dfss+0L7TftN+0j7RPtK+2D7ifvE",
+  "/A38Xfyr/PD9KP1T/XD9hP2S/Z39pf2p/aj9n/2O/XX9V/04/Rz9CPz+/Pz9Av0N/Rn9JP0v/Tr9R/1W/Wb9dv2C/Yf9hP16/Wz9Xv1X/Vv9a/2E",
+  "/aD9uf3G/cP9r/2J/Vj9Ivzs/Lr8jPxk/D78GPvx+8f7nPtx+0f7Hfr0+sn6m/pq+jX5/fnG+ZH5X/kx+QX41/in+HT4PPgE98z3mfdr90P3HPb0",
+  "9sX2jvZO9gb1ufVt9ST03/Se9F/0IPPd85bzTfMF8sDyg/JQ8ibyBfHs8djxx/G48ajxmfGJ8XnxaPFZ8UrxPvE18S7xKvEn8STxIPEd8RvxHvEo",
+  "8T3xXfGG8bfx6vIa8kbybPKM8qryxPLa8uTy3PK68nfyFvGb8RXwlPAo793vtu+s77TvvO+175bvXe8T7sPuf+5Q7jzuQ+5c7n3um+6u7rTuru6j",
+  "7pjuku6U7pvup+607r3uwe6/7rjur+6k7pvulO6U7pnupO627s3u5+8E7yLvQe9i74LvpO/E7+Lv+/AO8BvwJPAs8DbwRPBY8HHwjfCn8Lzwy/DT",
+  "8Nnw4PDt8QTxJfFP8XvxpvHK8ebx+/IM8h7yOfJf8pLy0fMX81zznPPR8/r0F/Qt9EH0VvRw9I70rvTN9Ob09vT+9P70+vT19PD07PTn9OH01/TJ",
+  "9Ln0qvSi9KP0sPTK9O31GPVG9Xb1pvXX9gn2O/Zo9o72pvas9p72ffZR9iT2APXv9fj2G/ZR9pP20/cI9yn3Nfct9xv3B/b79v73FPc793D3rvfw",
+  "+DD4a/if+Mv47vkH+RX5F/kO+Pv44vjI+LP4p/in+LT4yvjn+Qb5JPlC+V75fPmd+cD55foJ+in6QfpQ+lj6W/pd+mH6afpz+n76hfqF+n36bvpb",
+  "+fP5/Pn9+ff56fnX+cX5uPm0+b350/n1+h76S/p1+pf6rvq4+rn6s/qs+qn6rvq++tn6/vso+1T7f/ul+8X74Pv3/Av8Hvwv/ED8T/xb/GH8Yvxc",
+  "/FD8Qfww/CD8E/wJ/AT8BPwG/Ar8D/wT/BX8FPwS/A78CPwC+/37+fv1+/P78Pvu++v75fve+9P7xfuz+537g/tl+0T7IPr6+tL6qvqC+lv6NvoR",
+  "+ez5xvmf+XX5SPkZ+Or4uviN+GL4O/gW9/X31Pez95H3bfdH9x/29/bP9qj2gfZa9jL2CPXb9av1dvU/9QX0yfSN9FL0GvPk87HzgPNT8yjzAPLa",
+  "8rbylvJ58mDyTPI88jHyKvIm8iHyHPIT8gbx9fHi8c/xv/G08bDxtPG98cnx1PHZ8dbxyvG18Z3xhvF38XbxhPGi8cnx9PIX8iryJ/IM8d3xo/Fp",
+  "8T7xLPE68WfxrfH+8kvyhPKc8o7yWfIG8aLxPfDk8KLwfvB08IDwlvCr8LbwsfCa8HXwRvAX7+7v0O/A77vvvu/D78bvwe+z753vgu9n71HvRu9G",
+  "71Tvbu+Q77bv3fAC8CLwP/BZ8HPwjvCt8M/w8/EW8TXxTfFa8V3xVvFJ8TzxNPE48UzxcvGn8enyL/Jx8qfyzPLc8tfyxPKo8o7yfvKA8pnyx/MI",
+  "81TzpfPy9DX0avSR9Kz0wPTR9OX0/vUf9UX1bPWR9a71vvW99av1iPVZ9SL06vS29Iz0cfRl9Gj0ePST9LX02/UF9TL1ZPWc9dr2H/Zo9rD27/cg",
+  "9zz3Pvco9v32w/aF9k32I/YN9gz2HPY39lP2afZw9mn2VPY39h72E/Yf9kn2kvb292736/hj+Mf5Efk6+UT5NPkU+Oz4yfiw+Kb4rfjB+N34+/kW",
+  "+Sr5N/k9+T/5QflG+VP5Zfl++Zr5tvnN+d355fnk+dz50PnE+bv5uPm7+cb51Pnk+On45/jl+OX45vjq+PL4/vkO+SL5OflR+Wn5gPmT+aL5rfmz",
+  "+bb5tvm2+bf5uvnB+cz52/nv+gX6Hfo2+k76Zfp5+or6l/qh+qj6rPqs+qr6pvqg+pj6jvqE+nr6b/pm+l36V/pR+k76S/pK+kn6R/pF+kL6PPo1",
+  "+iv6IPoS+gP58vnh+c/5vfmr+Zj5hvl0+WL5T/k7+Sb5EPj4+OD4xvir+JD4c/hX+Dn4HPf+9+D3w/el94j3bPdQ9zX3Gfb+9uP2yPar9o72b/ZP",
+  "9i72DPXp9cX1ofV99Vn1NfUR9O70y/Sn9IT0YvRA9B/z//Ph88TzqfOQ83nzZPNS80DzMPMh8xPzBfL38ury3PLO8sDysvKl8pfyi/KA8nfyb/Jp",
+  "8mTyYfJd8lnyU/JL8kHyNfIm8hfyB/H58e3x5PHg8eDx5vHw8f/yEvIn8j/yWfJ08pDyq/LE8tzy8fMC8w7zFfMY8xXzDvME8vjy6/Ld8tDyw/K4",
+  "8q3yovKW8oryffJw8mHyU/JE8jXyJvIX8gjx9/Hm8dTxwfGu8ZzxjfGC8X3xfvGI8Znxs/HV8f7yLfJh8pfyzvMC8zLzWvN484vzkPOI83PzU/Mt",
+  "8wXy3/LB8q/yrfK88tvzCPM+83jzrvPb8/n0B/QC8+7zzfOn84LzZPNT81TzZvOL877z/PQ99Hz0tPTg9P/1D/UT9Qz0//Tv9OD01PTM9Mn0yvTO",
+  "9NP01/TY9Nf00/TN9MX0v/S89L/0yPTb9Pb1G/VJ9X/1u/X69jr2d/av9t/3BPce9yz3Lvcm9xb3APbn9s72tvah9o32e/Zo9lT2PfYj9gb16PXL",
+  "9bL1o/Wf9av1x/Xz9i72dfbD9xT3Yvep9+b4F/g8+FX4ZPht+HH4dPh3+H74h/iU+KP4s/jD+NP44Pjq+PH49vj3+Pf49Pjx+O746/jo+Of45vjn",
+  "+Of46fjq+Ov46/jq92v3cPd494H3i/eY96b3tffF99X35vf1+AT4Efgd+Cf4L/g1+Dr4PvhB+EX4SfhP+Fb4YPhr+Hn4iPiY+Kr4u/jL+Nn45vjv",
+  "+PX49/j2+PL46vjg+NT4x/i6+Kz4oPiU+Ir4gvh6+HT4b/hq+GX4YPhZ+FH4SPg8+C/4IfgS+AH38ffg98/3wPex96P3lveL94D3dfdr92H3V/dM",
+  "90D3M/cl9xX3Bfb09uL20Pa99qr2l/aE9nD2XfZK9jf2I/YP9fv15vXQ9br1o/WL9XP1WvVB9Sj1D/T39N/0yPSx9Jz0iPR19GP0UvRC9DP0JfQX",
+  "9Avz//P08+nz3vPU88rzwPO3867zpfOc85PzivOB83jzcPNn81/zVvNO80bzPvM38zHzK/Mm8yLzH/Md8xzzHPMd8x/zIfMj8yXzJ/Mo8ynzKvMq",
+  "8ynzKPMo8yjzKPMq8y7zM/M680PzTfNZ82bzc/OA84zzlvOf86bzqvOt863zrPOq86jzp/Om86bzqPOs87HztvO988PzyPPL883zy/PH88Dzt/Or",
+  "85/zkvOH837zd/N083Xze/OE85HzofO088bz2fPq8/n0BfQO9BP0FPQT9BD0DPQJ9Ab0BvQJ9BD0GvQn9Df0SfRc9G70f/SN9Jj0n/Si9KL0n/SZ",
+  "9JP0jvSK9Ij0ifSO9Jf0o/Sy9ML00/Tj9PH0/fUF9Qn1CfUG9P709fTq9N/01PTM9Mf0xfTI9M/02/Tr9P/1FvUv9Ur1ZvWC9Z71ufXT9ez2BPYa",
+  "9i/2Q/ZV9mX2dPaA9ov2k/aY9pn2mPaS9on2fPZs9ln2RPYt9hX1//Xp9df1yPW+9br1u/XD9dH15fX+9hz2PfZg9oX2qPbL9uv3Cfci9zf3SfdX",
+  "92H3aPdu93H3c/d093X3dvd393f3ePd593n3evd693n3ePd293T3cvdv9233avdn92X3ZPdj92P3ZPdn9kb2TvZW9l32ZfZs9nP2efZ/9oX2ivaQ",
+  "9pX2mvaf9qX2qvaw9rb2vfbE9sv20vba9uL26vby9vr3AfcI9w/3Ffca9x73Ivck9yX3Jfck9yH3HvcZ9xP3DPcF9vz29Pbq9uD21vbM9sL2uPau",
+  "9qT2mvaR9on2gfZ59nL2a/Zl9l/2WvZV9lD2TPZH9kL2PvY59jT2LvYo9iL2G/YT9gv2AvX59e/15fXa9c/1w/W39av1n/WT9Yb1evVu9WL1VfVK",
+  "9T71MvUn9Rv1EPUG9Pv08PTm9Nz00fTI9L70tPSr9KL0mfSQ9If0f/R29G70ZvRf9Ff0UPRI9EH0OvQ09C30J/Qh9Bv0FfQP9Ar0BfQA8/vz9vPy",
+  "8+3z6fPl8+Hz3fPZ89bz0vPP88zzyfPG88TzwvPA877zvPO787rzuvO687vzvfO/88LzxfPJ887z1PPa8+Lz6vPy8/v0BfQP9Br0JfQw9Dv0R/RS",
+  "9F70afRz9H70iPSS9Jz0pfSt9LX0vfTE9Mr00PTV9Nn03fTf9OH04fTh9OD03vTb9Nf00vTM9Mb0v/S39K/0p/Se9Jb0jvSF9H70dvRv9Gn0Y/Rf",
+  "9Fv0WPRV9FT0VPRU9Fb0WPRb9F/0Y/Ro9G30c/R69ID0h/SN9JT0m/Sh9Kf0rfSy9Lf0vPTA9MT0x/TK9M30z/TQ9NL00/TU9NX01/TY9Nn02/Te",
+  "9OD05PTo9O308vT59QD1CPUR9Rr1JPUu9Tn1Q/VP9Vr1ZPVv9Xn1g/WN9ZX1nfWk9ar1sPW09bj1uvW89b31vfW99bv1ufW29bP1r/Wr9af1pPWg",
+  "9Z31mvWY9Zf1l/WY9Zr1nvWj9ar1sfW69cX10PXb9ej19PYB9g32GfYk9i72N/Y+9kX2SfZM9k72TvZM9kr2RvZB9jv2NfYv9in2I/Ye9hn2FfYS",
+  "9hD2EPYQ9hH2FPYY9h32IvYp9i/2N/Y+9Rz1HfUe9R71H/Uf9SD1IPUg9SD1IPUg9SD1IPUg9SD1H/Uf9R71HvUd9Rz1G/Ua9Rn1GPUX9Rb1FfUU",
+  "9RP1EfUQ9Q/1DfUM9Qr1CfUH9Qb1BPUC9QH0//T+9Pz0+/T59Pj09vT19PT08vTx9PD07/Tt9Oz06/Tq9On06PTn9Ob05vTl9OT04/Ti9OH04fTg",
+  "9N/03vTd9Nz02/Ta9Nn01/TW9NX00/TR9ND0zvTM9Mr0yPTG9MT0wfS/9Lz0ufS29LT0sfSt9Kr0p/Sk9KD0nfSa9Jb0k/SP9Iv0iPSE9ID0ffR5",
+  "9HX0cvRu9Gr0Z/Rj9GD0XPRZ9Fb0UvRP9Ez0SfRG9EP0QPQ+9Dv0OPQ29DT0MvQw9C70LPQq9Cn0J/Qm9CX0JPQj9CL0IvQh9CH0IfQg9CH0IfQh",
+  "9CH0IvQj9CP0JPQl9Cb0J/Qp9Cr0K/Qt9C70L/Qx9DL0NPQ19Df0OPQ69Dv0PfQ+9D/0QPRB9EL0Q/RE9EX0RvRH9Ef0SPRI9Ej0SPRI9Ej0SPRI",
+  "9Ej0R/RH9Eb0RfRE9EP0QvRB9ED0P/Q+9Dz0O/Q59Df0NvQ09DL0MPQv9C30K/Qp9Cf0JfQk9CL0IPQe9B30G/Qa9Bj0F/QW9BX0FPQT9BL0EvQR",
+  "9BH0EfQR9BH0EfQR9BL0E/QT9BT0FvQX9Bj0GvQc9B70IPQi9CX0J/Qq9C30MPQ09Df0O/Q/9EP0R/RL9FD0VfRZ9F/0ZPRp9G70dPR69H/0hfSL",
+  "9JD0lvSc9KL0p/St9LL0t/S99ML0xvTL9M/00/TX9Nv03vTi9OX05/Tq9Oz07vTw9PH08/T09PX09vT29Pf09/T49Pj0+PT49Pn0+fT59Pn0+fT5",
+  "9Pn0+vT69Pr0+/T79Pz0/PT99P70//T/9QD1AfUC9QP1BfUG9Qf1CPUJ9Qv1DPUN9Q/1EPUR9RL1FPUV9Rb1F/UY9Rn1GvUb9Hf0d/R39Hf0d/R3",
+  "9Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R3",
+  "9Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R3",
+  "9Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R3",
+  "9Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R3",
+  "9Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R3",
+  "9Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R3",
+  "9Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R3",
+  "9Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R3",
+  "9Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R39Hf0d/R3",
+].join("")
+
+let grid: Int16Array | null = null
+
+function undulationGrid() {
+  if (grid) return grid
+  const bytes = Uint8Array.from(atob(EGM96_GRID), (c) => c.charCodeAt(0))
+  const view = new DataView(bytes.buffer)
+  grid = new Int16Array(EGM96_ROWS * EGM96_COLUMNS)
+  for (let k = 0; k < grid.length; k++) grid[k] = view.getInt16(k * 2, false)
+  return grid
+}
+
+// Height of the EGM96 geoid above the WGS84 ellipsoid in meters, at a latitude and longitude in radians
+export function geoidUndulation(latitude: number, longitude: number) {
+  const values = undulationGrid()
+  const value = (row: number, column: number) => values[row * EGM96_COLUMNS + column] / 100
+  const y = (Math.PI / 2 - latitude) / GRID_SPACING
+  const top = Math.min(EGM96_ROWS - 2, Math.max(0, Math.floor(y)))
+  const fy = Math.min(1, Math.max(0, y - top))
+  const x = (((longitude / GRID_SPACING) % EGM96_COLUMNS) + EGM96_COLUMNS) % EGM96_COLUMNS
+  const left = Math.floor(x) % EGM96_COLUMNS
+  const right = (left + 1) % EGM96_COLUMNS
+  const fx = x - Math.floor(x)
+  const upper = value(top, left) + (value(top, right) - value(top, left)) * fx
+  const lower = value(top + 1, left) + (value(top + 1, right) - value(top + 1, left)) * fx
+  return upper + (lower - upper) * fy
+}
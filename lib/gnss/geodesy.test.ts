@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest"
+import {
+  WGS84_A,
+  ecefToEnu,
+  ecefToGeodetic,
+  ecefToNed,
+  geodeticCoordinates,
+  geodeticToEcef,
+  lookAngles,
+  toMgrs,
+  toUtm,
+} from "./geodesy"
+
+const DEG = Math.PI / 180
+
+// 33.3N 44.4E at 6000 m, the point of the GeographicLib CartConvert and GeoConvert documentation examples
+const BAGHDAD = { latitude: 33.3 * DEG, longitude: 44.4 * DEG, height: 6000 }
+const BAGHDAD_ECEF = { x: 3816209.6, y: 3737108.55, z: 3485109.57 }
+
+describe("ecefToGeodetic and geodeticToEcef", () => {
+  it("converts the CartConvert example both ways", () => {
+    const { x, y, z } = geodeticToEcef(BAGHDAD)
+    expect(x).toBeCloseTo(BAGHDAD_ECEF.x, 2)
+    expect(y).toBeCloseTo(BAGHDAD_ECEF.y, 2)
+    expect(z).toBeCloseTo(BAGHDAD_ECEF.z, 2)
+    const { latitude, longitude, height } = ecefToGeodetic({ x, y, z })
+    expect(latitude).toBeCloseTo(BAGHDAD.latitude, 12)
+    expect(longitude).toBeCloseTo(BAGHDAD.longitude, 12)
+    expect(height).toBeCloseTo(BAGHDAD.height, 6)
+  })
+
+  it("puts the poles at the semi-minor axis", () => {
+    expect(ecefToGeodetic({ x: 0, y: 0, z: 6356752.314245 })).toEqual({
+      latitude: Math.PI / 2,
+      longitude: 0,
+      height: expect.closeTo(0, 6),
+    })
+    expect(ecefToGeodetic({ x: 0, y: 0, z: -6356852.314245 })).toMatchObject({
+      latitude: -Math.PI / 2,
+      height: expect.closeTo(100, 6),
+    })
+  })
+
+  it("reports degrees and the height above the geoid", () => {
+    const coordinates = geodeticCoordinates(geodeticToEcef(BAGHDAD))
+    expect(coordinates.latitude).toBeCloseTo(33.3, 10)
+    expect(coordinates.longitude).toBeCloseTo(44.4, 10)
+    // The EGM96 geoid lies about 7 m below the ellipsoid here
+    expect(coordinates.orthometricHeight - coordinates.height).toBeGreaterThan(0)
+    expect(coordinates.orthometricHeight - coordinates.height).toBeLessThan(15)
+  })
+})
+
+describe("ecefToEnu and ecefToNed", () => {
+  // CartConvert -l 33 44 20: the example point in the local frame of 33N 44E at 20 m
+  const origin = { latitude: 33 * DEG, longitude: 44 * DEG, height: 20 }
+
+  it("matches the local cartesian example", () => {
+    const { east, north, up } = ecefToEnu(geodeticToEcef(BAGHDAD), geodeticToEcef(origin))
+    expect(east).toBeCloseTo(37288.97, 2)
+    expect(north).toBeCloseTo(33374.29, 2)
+    expect(up).toBeCloseTo(5783.65, 2)
+  })
+
+  it("swaps the horizontal axes and flips up for NED", () => {
+    const enu = ecefToEnu(geodeticToEcef(BAGHDAD), geodeticToEcef(origin))
+    const ned = ecefToNed(geodeticToEcef(BAGHDAD), geodeticToEcef(origin))
+    expect(ned.north).toBeCloseTo(enu.north, 9)
+    expect(ned.east).toBeCloseTo(enu.east, 9)
+    expect(ned.down).toBeCloseTo(-enu.up, 9)
+  })
+})
+
+describe("lookAngles", () => {
+  const receiver = { x: WGS84_A, y: 0, z: 0 }
+
+  it("measures elevation from the horizon and azimuth clockwise from north", () => {
+    const zenith = lookAngles(receiver, { x: WGS84_A + 20000000, y: 0, z: 0 })
+    expect(zenith.elevation).toBeCloseTo(Math.PI / 2, 12)
+    const west = lookAngles(receiver, { x: WGS84_A + 1000, y: -1000, z: 0 })
+    expect(west.elevation).toBeCloseTo(45 * DEG, 12)
+    expect(west.azimuth).toBeCloseTo(270 * DEG, 12)
+  })
+})
+
+describe("toUtm and toMgrs", () => {
+  it("projects the GeoConvert example", () => {
+    const utm = toUtm(BAGHDAD)!
+    expect(utm).toMatchObject({ zone: 38, band: "S" })
+    expect(utm.easting).toBeCloseTo(444140.54, 2)
+    expect(utm.northing).toBeCloseTo(3684706.36, 2)
+    expect(toMgrs(utm)).toBe("38S MB 44140 84706")
+  })
+
+  it("projects the origin of latitude and longitude onto the edge of zone 31", () => {
+    const utm = toUtm({ latitude: 0, longitude: 0, height: 0 })!
+    expect(utm).toMatchObject({ zone: 31, band: "N", northing: 0 })
+    expect(utm.easting).toBeCloseTo(166021.443, 3)
+    expect(toMgrs(utm)).toBe("31N AA 66021 00000")
+  })
+
+  it("adds the false northing south of the equator", () => {
+    const utm = toUtm({ latitude: -33.3 * DEG, longitude: 44.4 * DEG, height: 0 })!
+    expect(utm).toMatchObject({ zone: 38, band: "H" })
+    expect(utm.easting).toBeCloseTo(444140.54, 2)
+    expect(utm.northing).toBeCloseTo(10000000 - 3684706.36, 2)
+  })
+
+  it("applies the Norway and Svalbard zone exceptions", () => {
+    expect(toUtm({ latitude: 60 * DEG, longitude: 5 * DEG, height: 0 })!.zone).toBe(32)
+    expect(toUtm({ latitude: 78 * DEG, longitude: 15 * DEG, height: 0 })!.zone).toBe(33)
+  })
+
+  it("leaves the polar caps to the polar stereographic grid", () => {
+    expect(toUtm({ latitude: 85 * DEG, longitude: 0, height: 0 })).toBeNull()
+    expect(toUtm({ latitude: -81 * DEG, longitude: 0, height: 0 })).toBeNull()
+  })
+})
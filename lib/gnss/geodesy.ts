@@ -0,0 +1,214 @@
+import { geoidUndulation } from "./egm96"
+import type { EcefPosition, UtmCoordinate } from "./types"
+
+// WGS84 ellipsoid
+export const WGS84_A = 6378137.0
+export const WGS84_F = 1 / 298.257223563
+export const WGS84_E2 = WGS84_F * (2 - WGS84_F)
+
+const DEGREES = 180 / Math.PI
+
+// UTM grid (NGA.SIG.0012): central scale factor and false origin
+const UTM_SCALE = 0.9996
+const UTM_FALSE_EASTING = 500000
+const UTM_FALSE_NORTHING_SOUTH = 10000000
+// MGRS latitude bands of 8 degrees from 80S, X stretched to 84N, and the 100 km square letters: column letter sets
+// repeat every three zones, row letters are offset by five in even zones
+const MGRS_BANDS = "CDEFGHJKLMNPQRSTUVWX"
+const MGRS_COLUMN_LETTERS = ["ABCDEFGH", "JKLMNPQR", "STUVWXYZ"]
+const MGRS_ROW_LETTERS = "ABCDEFGHJKLMNPQRSTUV"
+
+export interface GeodeticPosition {
+  latitude: number // radians
+  longitude: number // radians
+  height: number // meters above the ellipsoid
+}
+
+// Iterative ECEF to geodetic conversion, accurate to well below a millimetre
+export function ecefToGeodetic({ x, y, z }: EcefPosition): GeodeticPosition {
+  const p = Math.sqrt(x * x + y * y)
+  const longitude = Math.atan2(y, x)
+
+  if (p < 1e-9) {
+    const b = WGS84_A * (1 - WGS84_F)
+    return { latitude: z >= 0 ? Math.PI / 2 : -Math.PI / 2, longitude: 0, height: Math.abs(z) - b }
+  }
+
+  let latitude = Math.atan2(z, p * (1 - WGS84_E2))
+  let height = 0
+  for (let i = 0; i < 10; i++) {
+    const sinLat = Math.sin(latitude)
+    const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat)
+    height = p / Math.cos(latitude) - n
+    const next = Math.atan2(z, p * (1 - (WGS84_E2 * n) / (n + height)))
+    if (Math.abs(next - latitude) < 1e-12) {
+      latitude = next
+      break
+    }
+    latitude = next
+  }
+
+  return { latitude, longitude, height }
+}
+
+// Closed-form inverse of ecefToGeodetic
+export function geodeticToEcef({ latitude, longitude, height }: GeodeticPosition): EcefPosition {
+  const sinLat = Math.sin(latitude)
+  const n = WGS84_A / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat)
+  return {
+    x: (n + height) * Math.cos(latitude) * Math.cos(longitude),
+    y: (n + height) * Math.cos(latitude) * Math.sin(longitude),
+    z: (n * (1 - WGS84_E2) + height) * sinLat,
+  }
+}
+
+// Rows are the local east, north and up unit vectors expressed in ECEF
+export function enuRotation(latitude: number, longitude: number): number[][] {
+  const sinLat = Math.sin(latitude)
+  const cosLat = Math.cos(latitude)
+  const sinLon = Math.sin(longitude)
+  const cosLon = Math.cos(longitude)
+  return [
+    [-sinLon, cosLon, 0],
+    [-sinLat * cosLon, -sinLat * sinLon, cosLat],
+    [cosLat * cosLon, cosLat * sinLon, sinLat],
+  ]
+}
+
+// Rows are the local north, east and down unit vectors expressed in ECEF
+export function nedRotation(latitude: number, longitude: number): number[][] {
+  const [east, north, up] = enuRotation(latitude, longitude)
+  return [north, east, up.map((value) => -value)]
+}
+
+export interface EnuOffset {
+  east: number
+  north: number
+  up: number
+}
+
+export interface NedOffset {
+  north: number
+  east: number
+  down: number
+}
+
+function rotate(rotation: number[][], position: EcefPosition, reference: EcefPosition) {
+  const d = [position.x - reference.x, position.y - reference.y, position.z - reference.z]
+  return rotation.map((row) => row[0] * d[0] + row[1] * d[1] + row[2] * d[2])
+}
+
+// Offset of a position from a reference point along the reference's local east, north and up directions, meters
+export function ecefToEnu(
+  position: EcefPosition,
+  reference: EcefPosition,
+  { latitude, longitude }: GeodeticPosition = ecefToGeodetic(reference),
+): EnuOffset {
+  const [east, north, up] = rotate(enuRotation(latitude, longitude), position, reference)
+  return { east, north, up }
+}
+
+// Same offset in the north, east and down frame of navigation systems
+export function ecefToNed(
+  position: EcefPosition,
+  reference: EcefPosition,
+  { latitude, longitude }: GeodeticPosition = ecefToGeodetic(reference),
+): NedOffset {
+  const [north, east, down] = rotate(nedRotation(latitude, longitude), position, reference)
+  return { north, east, down }
+}
+
+export interface GeodeticCoordinates {
+  latitude: number // degrees
+  longitude: number // degrees
+  height: number // meters above the ellipsoid
+  orthometricHeight: number // meters above the EGM96 geoid
+}
+
+// Position as reported to the dashboard: degrees, with ellipsoidal height and height above mean sea level
+export function geodeticCoordinates(position: EcefPosition): GeodeticCoordinates {
+  const { latitude, longitude, height } = ecefToGeodetic(position)
+  return {
+    latitude: latitude * DEGREES,
+    longitude: longitude * DEGREES,
+    height,
+    orthometricHeight: height - geoidUndulation(latitude, longitude),
+  }
+}
+
+// UTM zone of a position in degrees, with the exceptions for south-west Norway and Svalbard
+function utmZone(latitude: number, longitude: number) {
+  if (latitude >= 56 && latitude < 64 && longitude >= 3 && longitude < 12) return 32
+  if (latitude >= 72 && longitude >= 0 && longitude < 42) {
+    return longitude < 9 ? 31 : longitude < 21 ? 33 : longitude < 33 ? 35 : 37
+  }
+  return (Math.floor((longitude + 180) / 6) % 60) + 1
+}
+
+// Transverse Mercator by Krüger's series to fourth order in n, accurate to a millimetre within a zone (Karney 2011).
+// Null outside 80S to 84N, where the polar stereographic grid takes over.
+export function toUtm({ latitude, longitude }: GeodeticPosition): UtmCoordinate | null {
+  const latitudeDegrees = latitude * DEGREES
+  if (latitudeDegrees < -80 || latitudeDegrees > 84) return null
+  const longitudeDegrees = ((((longitude * DEGREES + 180) % 360) + 360) % 360) - 180
+  const zone = utmZone(latitudeDegrees, longitudeDegrees)
+  const centralMeridian = ((zone - 1) * 6 - 177) / DEGREES
+  const dl = Math.atan2(Math.sin(longitude - centralMeridian), Math.cos(longitude - centralMeridian))
+
+  const n = WGS84_F / (2 - WGS84_F)
+  const radius = (WGS84_A / (1 + n)) * (1 + n ** 2 / 4 + n ** 4 / 64)
+  const alpha = [
+    n / 2 - (2 * n ** 2) / 3 + (5 * n ** 3) / 16 + (41 * n ** 4) / 180,
+    (13 * n ** 2) / 48 - (3 * n ** 3) / 5 + (557 * n ** 4) / 1440,
+    (61 * n ** 3) / 240 - (103 * n ** 4) / 140,
+    (49561 * n ** 4) / 161280,
+  ]
+  // Conformal latitude, then the Gauss-Schreiber coordinates and their series correction
+  const e = Math.sqrt(WGS84_E2)
+  const sinLat = Math.sin(latitude)
+  const t = Math.sinh(Math.atanh(sinLat) - e * Math.atanh(e * sinLat))
+  const xi = Math.atan2(t, Math.cos(dl))
+  const eta = Math.atanh(Math.sin(dl) / Math.sqrt(1 + t * t))
+  let x = eta
+  let y = xi
+  alpha.forEach((a, k) => {
+    const j = 2 * (k + 1)
+    x += a * Math.cos(j * xi) * Math.sinh(j * eta)
+    y += a * Math.sin(j * xi) * Math.cosh(j * eta)
+  })
+
+  return {
+    zone,
+    band: MGRS_BANDS[Math.min(MGRS_BANDS.length - 1, Math.floor((latitudeDegrees + 80) / 8))],
+    easting: UTM_FALSE_EASTING + UTM_SCALE * radius * x,
+    northing: (latitude < 0 ? UTM_FALSE_NORTHING_SOUTH : 0) + UTM_SCALE * radius * y,
+  }
+}
+
+// MGRS reference to 1 m, e.g. "31U DQ 48251 11932"; digits are truncated, as the grid square convention requires
+export function toMgrs({ zone, band, easting, northing }: UtmCoordinate) {
+  const column = MGRS_COLUMN_LETTERS[(zone - 1) % 3][Math.floor(easting / 100000) - 1]
+  const row = MGRS_ROW_LETTERS[(Math.floor(northing / 100000) + (zone % 2 === 0 ? 5 : 0)) % MGRS_ROW_LETTERS.length]
+  const digits = (value: number) => String(Math.floor(value % 100000)).padStart(5, "0")
+  return `${zone}${band} ${column}${row} ${digits(easting)} ${digits(northing)}`
+}
+
+export interface LookAngles {
+  elevation: number // radians above the local horizon
+  azimuth: number // radians clockwise from north, 0 to 2 pi
+}
+
+// Direction from a receiver to a satellite in the receiver's local horizon frame
+export function lookAngles(
+  receiver: EcefPosition,
+  satellite: EcefPosition,
+  { latitude, longitude }: GeodeticPosition = ecefToGeodetic(receiver),
+): LookAngles {
+  const d = [satellite.x - receiver.x, satellite.y - receiver.y, satellite.z - receiver.z]
+  const [east, north, up] = enuRotation(latitude, longitude).map((row) => row[0] * d[0] + row[1] * d[1] + row[2] * d[2])
+  const azimuth = Math.atan2(east, north)
+  return {
+    elevation: Math.atan2(up, Math.hypot(east, north)),
+    azimuth: azimuth < 0 ? azimuth + 2 * Math.PI : azimuth,
+  }
+}
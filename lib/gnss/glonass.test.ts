@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest"
+import { glonassCarrierFrequency, glonassSatellitePosition } from "./glonass"
+
+// Worked example of GLONASS ICD Edition 5.1, Appendix A.3.1.2: the state vector at tb = 11700 s (03:15 Moscow time)
+// and the position the ICD integrates it to at 12300 s
+const EXAMPLE = {
+  toe: 11700,
+  position: { x: 7003008.789, y: -12206626.953, z: 21280765.625 },
+  velocity: { x: 783.5417, y: 2804.253, z: 1352.515 },
+  acceleration: { x: 0, y: 1.7e-6, z: -5.41e-6 },
+}
+const EXAMPLE_AT_12300 = { x: 7523174.853, y: -10506962.176, z: 21999239.866 }
+
+describe("glonassSatellitePosition", () => {
+  it("returns the broadcast position at tb", () => {
+    expect(glonassSatellitePosition(EXAMPLE, EXAMPLE.toe)).toEqual(EXAMPLE.position)
+  })
+
+  it("integrates the ICD example to within 1.5 m of its published position", () => {
+    const { x, y, z } = glonassSatellitePosition(EXAMPLE, 12300)
+    const error = Math.hypot(x - EXAMPLE_AT_12300.x, y - EXAMPLE_AT_12300.y, z - EXAMPLE_AT_12300.z)
+    expect(error).toBeLessThan(1.5)
+  })
+
+  it("integrates across the end of the week", () => {
+    const nearEnd = { ...EXAMPLE, toe: 604800 - 300 }
+    const { x, y, z } = glonassSatellitePosition(nearEnd, 300)
+    const error = Math.hypot(x - EXAMPLE_AT_12300.x, y - EXAMPLE_AT_12300.y, z - EXAMPLE_AT_12300.z)
+    expect(error).toBeLessThan(1.5)
+  })
+})
+
+describe("glonassCarrierFrequency", () => {
+  // GLONASS ICD Edition 5.1, Table 3.1: 1602 MHz + k 562.5 kHz on L1, 1246 MHz + k 437.5 kHz on L2
+  it.each([
+    [-7, 1, 1598.0625e6],
+    [0, 1, 1602e6],
+    [6, 1, 1605.375e6],
+    [-7, 2, 1242.9375e6],
+    [0, 2, 1246e6],
+    [6, 2, 1248.625e6],
+  ] as const)("puts channel %i of L%i at %d Hz", (channel, band, frequency) => {
+    expect(glonassCarrierFrequency(channel, band)).toBeCloseTo(frequency, 3)
+  })
+})
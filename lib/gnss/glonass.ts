@@ -0,0 +1,77 @@
+import {
+  GLONASS_EARTH_RADIUS,
+  GLONASS_GM,
+  GLONASS_J2,
+  GLONASS_L1_CHANNEL_SPACING,
+  GLONASS_L1_FREQUENCY,
+  GLONASS_L2_CHANNEL_SPACING,
+  GLONASS_L2_FREQUENCY,
+  GLONASS_OMEGA_E,
+} from "./constants"
+import { timeFromEphemeris } from "./orbit"
+import type { EcefPosition } from "./types"
+
+// GLONASS broadcasts a PZ-90 state vector every 30 minutes instead of Keplerian elements.
+// Positions are integrated from it with the J2 and earth rotation terms of GLONASS ICD Appendix A.3.1.2.
+// Since 2014 the broadcast frame is PZ-90.11, which agrees with WGS 84 at the centimeter level, so no
+// datum transformation is applied.
+
+export interface GlonassStateVector {
+  toe: number // reference time tb, GPS seconds of week
+  position: EcefPosition // meters
+  velocity: EcefPosition // m/s
+  acceleration: EcefPosition // lunisolar acceleration, m/s^2, held constant over the fit interval
+}
+
+// Integration step; the ICD recommends no more than a few minutes for meter-level accuracy
+const RK4_STEP = 60 // seconds
+
+type State = [number, number, number, number, number, number]
+
+// Time derivative of position and velocity in the rotating PZ-90 frame
+function derivative([x, y, z, vx, vy, vz]: State, acceleration: EcefPosition): State {
+  const r2 = x * x + y * y + z * z
+  const r3 = r2 * Math.sqrt(r2)
+  const omega2 = GLONASS_OMEGA_E * GLONASS_OMEGA_E
+  const a = (1.5 * GLONASS_J2 * GLONASS_GM * GLONASS_EARTH_RADIUS * GLONASS_EARTH_RADIUS) / (r2 * r3)
+  const b = (5 * z * z) / r2
+  const c = -GLONASS_GM / r3 - a * (1 - b)
+  return [
+    vx,
+    vy,
+    vz,
+    (c + omega2) * x + 2 * GLONASS_OMEGA_E * vy + acceleration.x,
+    (c + omega2) * y - 2 * GLONASS_OMEGA_E * vx + acceleration.y,
+    (c - 2 * a) * z + acceleration.z,
+  ]
+}
+
+function step(state: State, h: number, acceleration: EcefPosition): State {
+  const advance = (k: State, scale: number) => state.map((value, i) => value + k[i] * scale) as State
+  const k1 = derivative(state, acceleration)
+  const k2 = derivative(advance(k1, h / 2), acceleration)
+  const k3 = derivative(advance(k2, h / 2), acceleration)
+  const k4 = derivative(advance(k3, h), acceleration)
+  return state.map((value, i) => value + (h / 6) * (k1[i] + 2 * k2[i] + 2 * k3[i] + k4[i])) as State
+}
+
+// Integrates the broadcast state vector with fourth-order Runge-Kutta to GPS seconds of week t
+export function glonassSatellitePosition(eph: GlonassStateVector, t: number): EcefPosition {
+  let remaining = timeFromEphemeris(t, eph.toe)
+  let state: State = [eph.position.x, eph.position.y, eph.position.z, eph.velocity.x, eph.velocity.y, eph.velocity.z]
+
+  while (Math.abs(remaining) > 1e-9) {
+    const h = Math.sign(remaining) * Math.min(RK4_STEP, Math.abs(remaining))
+    state = step(state, h, eph.acceleration)
+    remaining -= h
+  }
+
+  return { x: state[0], y: state[1], z: state[2] }
+}
+
+// Carrier frequency of a GLONASS FDMA channel (-7 to +6 since 2005) on L1 or L2, Hz
+export function glonassCarrierFrequency(channel: number, band: 1 | 2) {
+  return band === 1
+    ? GLONASS_L1_FREQUENCY + channel * GLONASS_L1_CHANNEL_SPACING
+    : GLONASS_L2_FREQUENCY + channel * GLONASS_L2_CHANNEL_SPACING
+}
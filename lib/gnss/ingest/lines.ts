@@ -0,0 +1,61 @@
+import { iterateLines } from "../rinex/fields"
+
+// Line-by-line reading of uploads that may be far larger than is reasonable to hold as one string.
+// Lines are handed on in chunks, one per block read from the stream, which keeps the per-line cost of
+// async iteration off the hot path.
+
+export type LineChunks = AsyncIterable<string[]>
+
+// Lines per chunk when the text is already in memory
+const TEXT_CHUNK_LINES = 4096
+
+function stripCarriageReturn(line: string) {
+  return line.endsWith("\r") ? line.substring(0, line.length - 1) : line
+}
+
+// Decodes a byte stream as UTF-8 and splits it into lines; a line cut by a block boundary is carried over
+export async function* readLineChunks(blocks: AsyncIterable<Uint8Array>): AsyncGenerator<string[]> {
+  const decoder = new TextDecoder()
+  let pending = ""
+
+  const split = () => {
+    const lines: string[] = []
+    let start = 0
+    for (let end = pending.indexOf("\n"); end !== -1; end = pending.indexOf("\n", start)) {
+      lines.push(stripCarriageReturn(pending.substring(start, end)))
+      start = end + 1
+    }
+    pending = pending.substring(start)
+    return lines
+  }
+
+  for await (const block of blocks) {
+    pending += decoder.decode(block, { stream: true })
+    const lines = split()
+    if (lines.length > 0) yield lines
+  }
+  pending += decoder.decode()
+  const lines = split()
+  if (pending) lines.push(stripCarriageReturn(pending))
+  if (lines.length > 0) yield lines
+}
+
+// Same chunked interface over text already in memory
+export async function* textLineChunks(text: string): AsyncGenerator<string[]> {
+  let lines: string[] = []
+  for (const line of iterateLines(text)) {
+    lines.push(line)
+    if (lines.length === TEXT_CHUNK_LINES) {
+      yield lines
+      lines = []
+    }
+  }
+  if (lines.length > 0) yield lines
+}
+
+// Joins chunked lines back into one text, for files small enough to parse whole
+export async function collectLines(chunks: LineChunks) {
+  const lines: string[] = []
+  for await (const chunk of chunks) lines.push(...chunk)
+  return lines.join("\n")
+}
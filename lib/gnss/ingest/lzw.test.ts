@@ -0,0 +1,23 @@
+import { readFileSync } from "node:fs"
+import { describe, expect, it } from "vitest"
+import { decompressLzw, isUnixCompress } from "./lzw"
+
+const station = readFileSync(new URL("../__fixtures__/station.24o", import.meta.url))
+// Written by compress -b 10, so the code width grows to its maximum and the table is cleared along the way
+const compressed = new Uint8Array(readFileSync(new URL("../__fixtures__/station.24o.Z", import.meta.url)))
+
+describe("decompressLzw", () => {
+  it("recognizes a .Z stream by its magic bytes", () => {
+    expect(isUnixCompress(compressed)).toBe(true)
+    expect(isUnixCompress(new Uint8Array(station))).toBe(false)
+  })
+
+  it("restores the original bytes", () => {
+    expect(Buffer.from(decompressLzw(compressed)).equals(station)).toBe(true)
+  })
+
+  it("stops at the expansion limit", () => {
+    expect(() => decompressLzw(compressed, 1000)).toThrow(".Z stream expands beyond the 1000 byte limit")
+    expect(decompressLzw(compressed, station.length)).toHaveLength(station.length)
+  })
+})
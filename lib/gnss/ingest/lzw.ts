@@ -0,0 +1,115 @@
+// Decoder for Unix compress (.Z) streams: LZW with 9 to 16 bit codes, optional block mode clear codes
+
+const MAGIC = [0x1f, 0x9d]
+const BLOCK_MODE = 0x80
+const MAX_BITS_MASK = 0x1f
+const CLEAR_CODE = 256
+
+export function isUnixCompress(bytes: Uint8Array) {
+  return bytes.length >= 3 && bytes[0] === MAGIC[0] && bytes[1] === MAGIC[1]
+}
+
+// Expands a .Z stream to at most maxBytes, so a crafted stream cannot fill memory
+export function decompressLzw(bytes: Uint8Array, maxBytes = Number.POSITIVE_INFINITY) {
+  if (!isUnixCompress(bytes)) throw new Error("Not a Unix compress (.Z) stream")
+  const flags = bytes[2]
+  const maxBits = flags & MAX_BITS_MASK
+  const blockMode = (flags & BLOCK_MODE) !== 0
+  if (maxBits < 9 || maxBits > 16) throw new Error(`Unsupported .Z code size of ${maxBits} bits`)
+
+  const prefix = new Uint16Array(1 << maxBits)
+  const suffix = new Uint8Array(1 << maxBits)
+  const stack = new Uint8Array(1 << maxBits)
+  let output = new Uint8Array(Math.min(Math.max(1024, bytes.length * 4), maxBytes))
+  let length = 0
+
+  const emit = (value: number) => {
+    if (length === maxBytes) throw new Error(`.Z stream expands beyond the ${maxBytes} byte limit`)
+    if (length === output.length) {
+      const grown = new Uint8Array(Math.min(output.length * 2, maxBytes))
+      grown.set(output)
+      output = grown
+    }
+    output[length++] = value
+  }
+
+  let position = 3
+  let mark = 3 // start of the current run of equal-width codes
+  let buffer = 0
+  let available = 0
+  let bits = 9
+  let mask = (1 << bits) - 1
+  let end = blockMode ? CLEAR_CODE : 255 // highest code in the table
+
+  const readCode = () => {
+    while (available < bits) {
+      if (position >= bytes.length) return -1
+      buffer |= bytes[position++] << available
+      available += 8
+    }
+    const code = buffer & mask
+    buffer >>>= bits
+    available -= bits
+    return code
+  }
+
+  // compress writes codes in groups of eight, so a width change discards the rest of the current group
+  const skipToGroupBoundary = () => {
+    const remainder = (position - mark) % bits
+    if (remainder) position += bits - remainder
+    buffer = 0
+    available = 0
+    mark = position
+  }
+
+  let prev = readCode()
+  if (prev === -1) return output.subarray(0, 0)
+  if (prev > 255) throw new Error("Corrupt .Z stream: first code is not a literal")
+  let final = prev
+  emit(prev)
+
+  for (;;) {
+    if (end >= mask && bits < maxBits) {
+      skipToGroupBoundary()
+      bits++
+      mask = (1 << bits) - 1
+    }
+
+    let code = readCode()
+    if (code === -1) break
+
+    if (code === CLEAR_CODE && blockMode) {
+      skipToGroupBoundary()
+      bits = 9
+      mask = (1 << bits) - 1
+      end = 255
+      continue
+    }
+
+    // A code one past the table end repeats the previous string followed by its own first byte
+    const current = code
+    let depth = 0
+    if (code > end) {
+      if (code !== end + 1 || prev > end) throw new Error("Corrupt .Z stream: invalid code")
+      stack[depth++] = final
+      code = prev
+    }
+    while (code >= 256) {
+      stack[depth++] = suffix[code]
+      code = prefix[code]
+    }
+    stack[depth++] = code
+    final = code
+
+    if (end < mask) {
+      end++
+      prefix[end] = prev
+      suffix[end] = final
+    }
+    prev = current
+
+    while (depth > 0) emit(stack[--depth])
+  }
+
+  return output.subarray(0, length)
+}
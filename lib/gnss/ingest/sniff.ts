@@ -0,0 +1,51 @@
+import { column, headerLabel } from "../rinex/fields"
+import type { FileKind } from "../types"
+
+// File kind detection from content, so uploads work whatever their names or year suffixes
+
+const UBX_SYNC = [0xb5, 0x62]
+// Header lines searched for the RINEX VERSION / TYPE record, tolerating a short preamble
+const RINEX_VERSION_SEARCH_LINES = 10
+const NMEA_SENTENCE = /^[$!][A-Z]{2}[A-Z]{3},.*\*[0-9A-F]{2}\s*$/
+
+// RINEX VERSION / TYPE: file type at column 21, satellite system at column 41
+function rinexKind(line: string): FileKind {
+  const version = Number.parseFloat(column(line, 0, 9))
+  const fileType = column(line, 20, 21)
+  const system = column(line, 40, 41)
+
+  if (fileType === "O") return "observation"
+  if (fileType === "M") return "meteorological"
+  // RINEX 2 uses a file type per system (G for GLONASS), RINEX 3 a single N with the system in column 41
+  if (fileType === "G" || (version >= 3 && fileType === "N" && system === "R")) return "glonass-navigation"
+  if (fileType === "N" || fileType === "H" || fileType === "E" || fileType === "L") return "navigation"
+  return "unknown"
+}
+
+// First lines of a file, without splitting a possibly large content
+function leadingLines(text: string, count: number) {
+  const lines: string[] = []
+  let start = 0
+  while (lines.length < count && start < text.length) {
+    const end = text.indexOf("\n", start)
+    lines.push(text.substring(start, end === -1 ? text.length : end))
+    start = end === -1 ? text.length : end + 1
+  }
+  return lines
+}
+
+export function detectFileKind(bytes: Uint8Array, text: string): FileKind {
+  if (bytes.length >= 2 && bytes[0] === UBX_SYNC[0] && bytes[1] === UBX_SYNC[1]) return "ubx"
+
+  const lines = leadingLines(text, RINEX_VERSION_SEARCH_LINES)
+  const versionLine = lines.find((line) => headerLabel(line) === "RINEX VERSION / TYPE")
+  if (versionLine) return rinexKind(versionLine)
+
+  // SP3 starts with "#" and a version letter, followed by a "##" line
+  if (/^#[a-d]/.test(lines[0] ?? "") && (lines[1] ?? "").startsWith("##")) return "sp3"
+
+  const firstSentence = lines.find((line) => line.trim())
+  if (firstSentence && NMEA_SENTENCE.test(firstSentence)) return "nmea"
+
+  return "unknown"
+}
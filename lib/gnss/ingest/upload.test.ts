@@ -0,0 +1,63 @@
+import { readFileSync } from "node:fs"
+import { gzipSync } from "node:zlib"
+import { describe, expect, it } from "vitest"
+import { collectLines } from "./lines"
+import { type UploadedFile, readUpload } from "./upload"
+
+const fixture = (name: string) => readFileSync(new URL(`../__fixtures__/${name}`, import.meta.url))
+const observation = fixture("station.24o")
+const navigation = fixture("station.24n")
+
+// Lines of an upload joined back together; the newline ending the last line is not kept
+const readText = (file: UploadedFile) => collectLines(file.lines())
+const withoutFinalNewline = (bytes: Buffer) => bytes.toString().replace(/\n$/, "")
+
+describe("readUpload", () => {
+  it("streams a gzip upload", async () => {
+    const [file] = await readUpload(new File([gzipSync(observation)], "station.24o.gz"))
+    expect(file).toMatchObject({ name: "station.24o", kind: "observation" })
+    expect(await readText(file)).toBe(withoutFinalNewline(observation))
+  })
+
+  it("unpacks a .Z upload", async () => {
+    const [file] = await readUpload(new File([fixture("station.24o.Z")], "STATION.24O.Z"))
+    expect(file).toMatchObject({ name: "STATION.24O", kind: "observation" })
+    expect(await readText(file)).toBe(withoutFinalNewline(observation))
+  })
+
+  it("expands a gzipped Hatanaka file to plain RINEX", async () => {
+    const [file] = await readUpload(new File([gzipSync(fixture("station.24d"))], "station.24d.gz"))
+    expect(file.kind).toBe("observation")
+    // CRINEX drops trailing blanks
+    const trimLines = (text: string) => text.split("\n").map((line) => line.trimEnd())
+    expect(trimLines(await readText(file))).toEqual(trimLines(withoutFinalNewline(observation)))
+  })
+
+  it("lists the observation and navigation files of a zip archive", async () => {
+    const files = await readUpload(new File([fixture("station.zip")], "station.zip"))
+    expect(files.map(({ name, kind }) => ({ name, kind }))).toEqual([
+      { name: "station.24o", kind: "observation" },
+      { name: "station.24n", kind: "navigation" },
+    ])
+    expect(await readText(files[1])).toBe(withoutFinalNewline(navigation))
+  })
+
+  it("rejects an archive that expands beyond the limit", async () => {
+    // 600 gzip members of 1 MB of zeros each, gzipped again so the inner layer is unpacked in memory
+    const member = gzipSync(Buffer.alloc(1024 * 1024))
+    const bomb = gzipSync(Buffer.concat(Array.from({ length: 600 }, () => member)))
+    await expect(readUpload(new File([bomb], "bomb.24o.gz.gz"))).rejects.toThrow(
+      /^bomb\.24o\.gz\.gz could not be unpacked: bomb\.24o\.gz expands beyond the \d+ byte limit$/,
+    )
+  })
+
+  it("stops reading a streamed gzip upload past the streamed limit", async () => {
+    // 8 MiB of observation lines, read line by line rather than unpacked in memory
+    const line = Buffer.from(`${" 23348128.779".padEnd(79)}\n`)
+    const bomb = gzipSync(Buffer.concat([observation, Buffer.alloc(8 * 1024 * 1024 - observation.length, line)]))
+    const limits = { inMemory: 1024 * 1024, streamed: 4 * 1024 * 1024 }
+    const [file] = await readUpload(new File([bomb], "bomb.24o.gz"), limits)
+    expect(file.kind).toBe("observation")
+    await expect(readText(file)).rejects.toThrow(/^bomb\.24o\.gz expands beyond the 4194304 byte limit$/)
+  })
+})
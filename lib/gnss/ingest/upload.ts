@@ -0,0 +1,190 @@
+import { Readable, Transform, pipeline } from "node:stream"
+import { createGunzip, gunzipSync } from "node:zlib"
+import { expandHatanakaChunks, isCompactRinex } from "../rinex/hatanaka"
+import type { FileKind } from "../types"
+import { type LineChunks, readLineChunks, textLineChunks } from "./lines"
+import { decompressLzw, isUnixCompress } from "./lzw"
+import { detectFileKind } from "./sniff"
+import { isZipArchive, readZipEntries } from "./zip"
+
+// Turns an uploaded file into plain RINEX text, whatever archive or compression layers it arrived in.
+// Compression is recognized by magic bytes, since archive names from reference networks vary.
+// Plain and gzip uploads are expanded while they are read, so a large observation file is never held as one string;
+// .Z and zip need the whole archive and are unpacked in memory.
+
+export interface UploadedFile {
+  name: string
+  kind: FileKind
+  // Start of the text, enough to identify the file
+  preview: string
+  // Reads the expanded text from the beginning, in chunks of lines
+  lines(): LineChunks
+}
+
+// Bounds nesting such as a zip of gzipped files, and keeps a crafted archive from recursing forever
+const MAX_ARCHIVE_DEPTH = 4
+// Bytes of expanded text read up front to identify a streamed upload
+const PREVIEW_BYTES = 65536
+// Expanded bytes an upload may unpack to in memory over all its layers, so a small crafted archive cannot expand
+// to gigabytes
+const MAX_EXPANDED_BYTES = 512 * 1024 * 1024
+// Expanded bytes a streamed gzip upload may inflate to. It is never held whole, but every epoch read from it is
+// analyzed, so a gzip bomb would otherwise keep the analysis busy without end; a day of 1 Hz multi-GNSS
+// observations is well under a gigabyte.
+const MAX_STREAMED_BYTES = 2 * 1024 * 1024 * 1024
+
+// Expansion limits of an upload, bytes
+export interface ExpansionLimits {
+  inMemory: number
+  streamed: number
+}
+
+const DEFAULT_EXPANSION_LIMITS: ExpansionLimits = { inMemory: MAX_EXPANDED_BYTES, streamed: MAX_STREAMED_BYTES }
+
+function isGzip(bytes: Uint8Array) {
+  return bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b
+}
+
+// Drops the compression suffix so nested names still read like the RINEX file they contain
+function stripCompressionExtension(name: string) {
+  return name.replace(/\.(gz|z)$/i, "")
+}
+
+// Bytes still allowed to be expanded for one upload
+interface ExpansionBudget {
+  remaining: number
+}
+
+function gunzipLayer(name: string, bytes: Uint8Array, maxBytes: number) {
+  try {
+    return new Uint8Array(gunzipSync(bytes, { maxOutputLength: Math.max(1, maxBytes) }))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ERR_BUFFER_TOO_LARGE") throw error
+    throw new Error(`${name} expands beyond the ${maxBytes} byte limit`)
+  }
+}
+
+// Charges a layer's expanded size to the upload's budget
+function spend(budget: ExpansionBudget, bytes: Uint8Array) {
+  budget.remaining -= bytes.length
+  return bytes
+}
+
+function expandBytes(name: string, bytes: Uint8Array, depth: number, budget: ExpansionBudget): UploadedFile[] {
+  if (depth > MAX_ARCHIVE_DEPTH) throw new Error(`${name}: archives are nested too deeply`)
+
+  if (isGzip(bytes)) {
+    const expanded = spend(budget, gunzipLayer(name, bytes, budget.remaining))
+    return expandBytes(stripCompressionExtension(name), expanded, depth + 1, budget)
+  }
+  if (isUnixCompress(bytes)) {
+    const expanded = spend(budget, decompressLzw(bytes, budget.remaining))
+    return expandBytes(stripCompressionExtension(name), expanded, depth + 1, budget)
+  }
+  if (isZipArchive(bytes)) {
+    return readZipEntries(bytes, budget.remaining)
+      .map((entry) => ({ ...entry, data: spend(budget, entry.data) }))
+      .flatMap((entry) => expandBytes(entry.name, entry.data, depth + 1, budget))
+  }
+
+  const text = new TextDecoder().decode(bytes)
+  const compact = isCompactRinex(text)
+  return [
+    {
+      name,
+      kind: detectFileKind(bytes, text),
+      preview: text.substring(0, PREVIEW_BYTES),
+      lines: () => (compact ? expandHatanakaChunks(textLineChunks(text)) : textLineChunks(text)),
+    },
+  ]
+}
+
+function isArchive(bytes: Uint8Array) {
+  return isGzip(bytes) || isUnixCompress(bytes) || isZipArchive(bytes)
+}
+
+// Blocks of a web stream; stopping early cancels the rest
+async function* readBlocks(stream: ReadableStream<Uint8Array>) {
+  const reader = stream.getReader()
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) return
+      yield value
+    }
+  } finally {
+    await reader.cancel()
+  }
+}
+
+// Up to limit bytes from the start of a byte stream
+async function readPrefix(blocks: AsyncIterable<Uint8Array>, limit: number) {
+  const prefix = new Uint8Array(limit)
+  let length = 0
+  for await (const block of blocks) {
+    const part = block.subarray(0, limit - length)
+    prefix.set(part, length)
+    length += part.length
+    if (length === limit) break
+  }
+  return prefix.subarray(0, length)
+}
+
+// Passes bytes on until more than limit have gone through, then fails the stream
+function byteLimit(name: string, limit: number) {
+  let total = 0
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      total += chunk.length
+      callback(total > limit ? new Error(`${name} expands beyond the ${limit} byte limit`) : null, chunk)
+    },
+  })
+}
+
+// Unpacks an archive upload as a whole, within the in-memory limit over all its layers
+async function expandInMemory(file: File, limit: number) {
+  return expandBytes(file.name, new Uint8Array(await file.arrayBuffer()), 0, { remaining: limit })
+}
+
+async function streamUpload(file: File, limits: ExpansionLimits): Promise<UploadedFile[]> {
+  const magic = new Uint8Array(await file.slice(0, 4).arrayBuffer())
+  const gzip = isGzip(magic)
+  if (!gzip && isArchive(magic)) return expandInMemory(file, limits.inMemory)
+
+  // A gunzip error, or inflating past the streamed limit, ends the pipeline and surfaces where the lines are read
+  const open = (): AsyncIterable<Uint8Array> =>
+    gzip
+      ? pipeline(
+          Readable.from(readBlocks(file.stream())),
+          createGunzip(),
+          byteLimit(file.name, limits.streamed),
+          () => {},
+        )
+      : readBlocks(file.stream())
+  const prefix = await readPrefix(open(), PREVIEW_BYTES)
+  // Layers nested inside the gzip one are unpacked in memory
+  if (gzip && isArchive(prefix)) return expandInMemory(file, limits.inMemory)
+
+  // Hatanaka-compressed observation files are expanded to plain RINEX as the innermost layer
+  const preview = new TextDecoder().decode(prefix)
+  const compact = isCompactRinex(preview)
+  return [
+    {
+      name: gzip ? stripCompressionExtension(file.name) : file.name,
+      kind: detectFileKind(prefix, preview),
+      preview,
+      lines: () => {
+        const chunks = readLineChunks(open())
+        return compact ? expandHatanakaChunks(chunks) : chunks
+      },
+    },
+  ]
+}
+
+export async function readUpload(file: File, limits: ExpansionLimits = DEFAULT_EXPANSION_LIMITS) {
+  try {
+    return await streamUpload(file, limits)
+  } catch (error) {
+    throw new Error(`${file.name} could not be unpacked: ${error instanceof Error ? error.message : error}`)
+  }
+}
@@ -0,0 +1,32 @@
+import { readFileSync } from "node:fs"
+import { describe, expect, it } from "vitest"
+import { isZipArchive, readZipEntries } from "./zip"
+
+const fixture = (name: string) => readFileSync(new URL(`../__fixtures__/${name}`, import.meta.url))
+const observation = fixture("station.24o")
+const navigation = fixture("station.24n")
+// The observation file deflated and the navigation file stored
+const archive = new Uint8Array(fixture("station.zip"))
+
+describe("readZipEntries", () => {
+  it("recognizes an archive by its magic bytes", () => {
+    expect(isZipArchive(archive)).toBe(true)
+    expect(isZipArchive(new Uint8Array(observation))).toBe(false)
+  })
+
+  it("extracts every entry in archive order", () => {
+    const entries = readZipEntries(archive, 1024 * 1024)
+    expect(entries.map((entry) => entry.name)).toEqual(["station.24o", "station.24n"])
+    expect(Buffer.from(entries[0].data).equals(observation)).toBe(true)
+    expect(Buffer.from(entries[1].data).equals(navigation)).toBe(true)
+  })
+
+  it("counts all entries against the expansion limit", () => {
+    const limit = observation.length + navigation.length
+    expect(readZipEntries(archive, limit)).toHaveLength(2)
+    expect(() => readZipEntries(archive, limit - 1)).toThrow(
+      `Zip entry station.24n expands beyond the ${navigation.length - 1} byte limit`,
+    )
+    expect(() => readZipEntries(archive, 1000)).toThrow("Zip entry station.24o expands beyond the 1000 byte limit")
+  })
+})
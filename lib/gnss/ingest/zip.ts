@@ -0,0 +1,84 @@
+import { inflateRawSync } from "node:zlib"
+
+// Minimal zip reader: walks the central directory and extracts stored or deflated entries
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50
+const END_OF_DIRECTORY_SIGNATURE = 0x06054b50
+const END_OF_DIRECTORY_SIZE = 22
+const MAX_COMMENT_LENGTH = 0xffff
+const METHOD_STORED = 0
+const METHOD_DEFLATE = 8
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+}
+
+// Inflates an entry to at most maxBytes; zlib stops at the limit rather than filling memory
+function inflateEntry(name: string, compressed: Uint8Array, maxBytes: number) {
+  try {
+    return new Uint8Array(inflateRawSync(compressed, { maxOutputLength: Math.max(1, maxBytes) }))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ERR_BUFFER_TOO_LARGE") throw error
+    throw new Error(`Zip entry ${name} expands beyond the ${maxBytes} byte limit`)
+  }
+}
+
+export function isZipArchive(bytes: Uint8Array) {
+  return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && (bytes[2] === 0x03 || bytes[2] === 0x05)
+}
+
+function findEndOfDirectory(view: DataView) {
+  const last = view.byteLength - END_OF_DIRECTORY_SIZE
+  for (let offset = last; offset >= Math.max(0, last - MAX_COMMENT_LENGTH); offset--) {
+    if (view.getUint32(offset, true) === END_OF_DIRECTORY_SIGNATURE) return offset
+  }
+  throw new Error("Corrupt zip archive: end of central directory not found")
+}
+
+// Entries of an archive whose expanded sizes add up to at most maxBytes
+export function readZipEntries(bytes: Uint8Array, maxBytes: number) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const decoder = new TextDecoder()
+  const endOfDirectory = findEndOfDirectory(view)
+  const entryCount = view.getUint16(endOfDirectory + 10, true)
+  let offset = view.getUint32(endOfDirectory + 16, true)
+  const entries: ZipEntry[] = []
+  let remaining = maxBytes
+
+  for (let k = 0; k < entryCount; k++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error("Corrupt zip archive: bad central directory entry")
+    }
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith("/")) continue
+    if (compressedSize === 0xffffffff || localOffset === 0xffffffff) {
+      throw new Error(`Zip64 entry ${name} is not supported`)
+    }
+    if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt zip archive: bad local header for ${name}`)
+    }
+
+    // The local header repeats the name but may carry a different extra field
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    const compressed = bytes.subarray(dataStart, dataStart + compressedSize)
+    let data: Uint8Array
+    if (method === METHOD_STORED) data = compressed
+    else if (method === METHOD_DEFLATE) data = inflateEntry(name, compressed, remaining)
+    else throw new Error(`Zip entry ${name} uses unsupported compression method ${method}`)
+    if (data.length > remaining) throw new Error(`Zip entry ${name} expands beyond the ${remaining} byte limit`)
+    remaining -= data.length
+    entries.push({ name, data })
+  }
+
+  return entries
+}
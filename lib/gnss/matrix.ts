@@ -0,0 +1,42 @@
+// Small dense linear algebra helpers for least-squares estimation
+
+export type Matrix = number[][]
+
+export function transpose(a: Matrix): Matrix {
+  return a[0].map((_, j) => a.map((row) => row[j]))
+}
+
+export function multiply(a: Matrix, b: Matrix): Matrix {
+  return a.map((row) => b[0].map((_, j) => row.reduce((sum, value, k) => sum + value * b[k][j], 0)))
+}
+
+export function multiplyVector(a: Matrix, v: number[]): number[] {
+  return a.map((row) => row.reduce((sum, value, k) => sum + value * v[k], 0))
+}
+
+// Gauss-Jordan inversion with partial pivoting, returns null for singular matrices
+export function invert(a: Matrix): Matrix | null {
+  const n = a.length
+  const m = a.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))])
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null
+    ;[m[col], m[pivot]] = [m[pivot], m[col]]
+
+    const scale = m[col][col]
+    for (let j = 0; j < 2 * n; j++) m[col][j] /= scale
+
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue
+      const factor = m[r][col]
+      if (factor === 0) continue
+      for (let j = 0; j < 2 * n; j++) m[r][j] -= factor * m[col][j]
+    }
+  }
+
+  return m.map((row) => row.slice(n))
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest"
+import { GPS_GM } from "./constants"
+import {
+  isBeidouGeo,
+  relativisticClockCorrection,
+  satellitePosition,
+  selectEphemeris,
+  solveKepler,
+  timeFromEphemeris,
+} from "./orbit"
+
+// PRN 6 of 1999-09-02 from the GPS navigation example in the RINEX 2.11 specification (Table A4)
+const G06 = {
+  satellite: "G06",
+  toe: 409904,
+  sqrtA: 5153.65489006,
+  e: 6.26740418375e-3,
+  deltaN: 1.1604054784e-9,
+  m0: 0.162092304801,
+  omega: 2.06958726335,
+  omega0: 0.32923700346,
+  omegaDot: -6.38312302555e-9,
+  i0: 1.11541663136,
+  idot: 3.07155651409e-10,
+  cuc: 4.84101474285e-6,
+  cus: 6.52112066746e-6,
+  crc: 326.59375,
+  crs: 93.40625,
+  cic: -2.421438694e-8,
+  cis: -5.96046447754e-8,
+}
+
+// Elements in the shape of a BeiDou GEO record, whose orbit is broadcast in a frame tilted by -5 degrees
+const C01 = {
+  satellite: "C01",
+  toe: 345600,
+  sqrtA: 6493.4317,
+  e: 2.9e-4,
+  deltaN: 1.1e-10,
+  m0: 1.2,
+  omega: 2.5,
+  omega0: -2.9,
+  omegaDot: 1.0e-9,
+  i0: 0.0753,
+  idot: 1.0e-10,
+  cuc: 2.0e-6,
+  cus: -3.0e-6,
+  crc: -150.5,
+  crs: 80.25,
+  cic: 4.0e-8,
+  cis: -2.0e-8,
+}
+
+// ECEF positions of the records above from an independent implementation of IS-GPS-200 Table 20-IV and
+// BDS-SIS-ICD 5.2.4.12 (gnss-js 1.0.0 keplerPosition, run with the BeiDou earth rotation rate for C01), meters
+const G06_POSITIONS: Array<[number, [number, number, number]]> = [
+  [409904, [-4237540.536, -18156232.315, 18685002.295]],
+  [409904 + 3600, [-3756775.024, -24662480.45, 8735169.47]],
+  [409904 - 5400, [-11189003.885, -4466425.32, 23519203.824]],
+]
+const C01_POSITIONS: Array<[number, [number, number, number]]> = [
+  [345600, [31378915.16, 28146929.007, 774199.967]],
+  [345600 + 1800, [31378856.49, 28149367.166, 773647.959]],
+]
+// The G06 elements on Galileo and BeiDou MEO orbits an hour after toe, from the same implementation with the
+// Galileo and CGCS2000 constants; the BeiDou earth rotation rate alone moves C19 by 15 m
+const E06 = { ...G06, satellite: "E06", sqrtA: 5440.6 }
+const C19 = { ...G06, satellite: "C19", sqrtA: 5282.6 }
+const E06_POSITION: [number, number, number] = [-5147435.229, -26549097.607, 11655820.105]
+const C19_POSITION: [number, number, number] = [-4381921.575, -25511712.79, 10048176.592]
+
+function expectPosition(actual: { x: number; y: number; z: number }, [x, y, z]: number[], tolerance: number) {
+  expect(Math.abs(actual.x - x)).toBeLessThan(tolerance)
+  expect(Math.abs(actual.y - y)).toBeLessThan(tolerance)
+  expect(Math.abs(actual.z - z)).toBeLessThan(tolerance)
+}
+
+describe("satellitePosition", () => {
+  it.each(G06_POSITIONS)("places the RINEX 2.11 example satellite at %i s of week", (t, expected) => {
+    expectPosition(satellitePosition(G06, t), expected, 0.001)
+  })
+
+  it("keeps a GPS satellite at the radius of its orbit", () => {
+    const a = G06.sqrtA ** 2
+    for (const [t] of G06_POSITIONS) {
+      const { x, y, z, eccentricAnomaly } = satellitePosition(G06, t)
+      // The harmonic corrections move the radius by at most crs and crc
+      expect(Math.abs(Math.hypot(x, y, z) - a * (1 - G06.e * Math.cos(eccentricAnomaly)))).toBeLessThan(500)
+    }
+  })
+
+  it.each(C01_POSITIONS)("rotates a BeiDou GEO orbit out of its tilted frame at %i s of week", (t, expected) => {
+    expectPosition(satellitePosition(C01, t), expected, 0.001)
+  })
+
+  it("propagates Galileo and BeiDou MEO orbits with their own earth models", () => {
+    expectPosition(satellitePosition(E06, G06.toe + 3600), E06_POSITION, 0.001)
+    expectPosition(satellitePosition(C19, G06.toe + 3600), C19_POSITION, 0.001)
+  })
+
+  it("treats only BeiDou C01 to C05 and C59 to C63 as GEO", () => {
+    expect(["C01", "C05", "C06", "C58", "C59", "C63", "G01", "E05"].filter(isBeidouGeo)).toEqual([
+      "C01",
+      "C05",
+      "C59",
+      "C63",
+    ])
+  })
+})
+
+describe("solveKepler", () => {
+  it("solves Kepler's equation M = E - e sin E", () => {
+    for (const e of [0, G06.e, 0.02, 0.7]) {
+      for (const m of [-3, -0.5, 0, 0.162092304801, 1, 3]) {
+        const eccentricAnomaly = solveKepler(m, e)
+        expect(eccentricAnomaly - e * Math.sin(eccentricAnomaly)).toBeCloseTo(m, 12)
+      }
+    }
+  })
+})
+
+describe("relativisticClockCorrection", () => {
+  it("uses F = -4.442807633e-10 s/m^1/2 for GPS (IS-GPS-200 20.3.3.3.3.1)", () => {
+    const eccentricAnomaly = Math.PI / 3
+    const expected = -4.442807633e-10 * G06.e * G06.sqrtA * Math.sin(eccentricAnomaly)
+    expect(relativisticClockCorrection(G06, eccentricAnomaly) / expected).toBeCloseTo(1, 9)
+  })
+
+  it("is about -14 ns at E = 90 degrees for the example orbit", () => {
+    expect(relativisticClockCorrection(G06, Math.PI / 2)).toBeCloseTo(-1.435e-8, 10)
+    expect(relativisticClockCorrection(G06, 0)).toBeCloseTo(0, 20)
+  })
+
+  it("takes mu of the satellite's earth model", () => {
+    const galileo = relativisticClockCorrection({ ...G06, satellite: "E11" }, 1)
+    const gps = relativisticClockCorrection(G06, 1)
+    expect(galileo / gps).toBeCloseTo(Math.sqrt(3.986004418e14 / GPS_GM), 12)
+  })
+})
+
+describe("timeFromEphemeris", () => {
+  it("wraps across the start and end of the week", () => {
+    expect(timeFromEphemeris(409904 + 60, 409904)).toBe(60)
+    expect(timeFromEphemeris(30, 604770)).toBe(60)
+    expect(timeFromEphemeris(604770, 30)).toBe(-60)
+  })
+})
+
+describe("selectEphemeris", () => {
+  const records = [
+    { satellite: "G06", toe: 403200 },
+    { satellite: "G06", toe: 410400 },
+    { satellite: "G07", toe: 409904 },
+  ]
+
+  it("picks the satellite's record closest to the time", () => {
+    expect(selectEphemeris(records, "G06", 408000)).toBe(records[1])
+    expect(selectEphemeris(records, "G06", 405000)).toBe(records[0])
+  })
+
+  it("rejects records older than the maximum age", () => {
+    expect(selectEphemeris(records, "G06", 420000)).toBeNull()
+    expect(selectEphemeris(records, "G06", 420000, 14400)).toBe(records[1])
+  })
+})
@@ -0,0 +1,202 @@
+import {
+  BEIDOU_GM,
+  BEIDOU_OMEGA_E,
+  GALILEO_GM,
+  GALILEO_OMEGA_E,
+  GPS_GM,
+  GPS_OMEGA_E,
+  HALF_WEEK,
+  SECONDS_PER_WEEK,
+  SPEED_OF_LIGHT,
+} from "./constants"
+import type { EcefPosition } from "./types"
+
+// Broadcast Keplerian elements needed for orbit propagation (IS-GPS-200 Table 20-III)
+export interface KeplerianEphemeris {
+  toe: number // time of ephemeris, seconds of week in the constellation's own time scale
+  sqrtA: number
+  e: number
+  deltaN: number
+  m0: number
+  omega: number
+  omega0: number
+  omegaDot: number
+  i0: number
+  idot: number
+  cuc: number
+  cus: number
+  crc: number
+  crs: number
+  cic: number
+  cis: number
+  aDot?: number // CNAV rate of change of the semi-major axis, m/s
+  deltaNDot?: number // CNAV rate of change of the mean motion difference, rad/s^2
+}
+
+export interface SatelliteState extends EcefPosition {
+  eccentricAnomaly: number
+}
+
+const KEPLER_TOLERANCE = 1e-12
+const KEPLER_MAX_ITERATIONS = 20
+
+interface EarthModel {
+  gm: number
+  omegaE: number
+}
+
+// Constants each constellation's broadcast orbits are fitted with; QZSS follows GPS
+const EARTH_MODELS: Record<string, EarthModel> = {
+  G: { gm: GPS_GM, omegaE: GPS_OMEGA_E },
+  J: { gm: GPS_GM, omegaE: GPS_OMEGA_E },
+  E: { gm: GALILEO_GM, omegaE: GALILEO_OMEGA_E },
+  C: { gm: BEIDOU_GM, omegaE: BEIDOU_OMEGA_E },
+}
+
+// BeiDou GEO orbits are broadcast in a frame tilted by -5 degrees (BDS-SIS-ICD 5.2.4.12)
+const BEIDOU_GEO_INCLINATION = (-5 * Math.PI) / 180
+
+const KEPLERIAN_FIELDS: Array<keyof KeplerianEphemeris> = [
+  "toe",
+  "sqrtA",
+  "e",
+  "deltaN",
+  "m0",
+  "omega",
+  "omega0",
+  "omegaDot",
+  "i0",
+  "idot",
+  "cuc",
+  "cus",
+  "crc",
+  "crs",
+  "cic",
+  "cis",
+]
+
+export function hasOrbitModel(system: string) {
+  return system in EARTH_MODELS
+}
+
+// BeiDou GEO satellites: C01 to C05 for BDS-2, C59 to C63 for BDS-3
+export function isBeidouGeo(satellite: string) {
+  const prn = Number(satellite.substring(1))
+  return satellite.startsWith("C") && (prn <= 5 || prn >= 59)
+}
+
+export function hasKeplerianElements<T extends object>(record: T): record is T & KeplerianEphemeris {
+  const values = record as Record<string, unknown>
+  return KEPLERIAN_FIELDS.every((field) => typeof values[field] === "number" && Number.isFinite(values[field]))
+}
+
+// Time from ephemeris reference epoch, accounting for beginning or end of week crossovers
+export function timeFromEphemeris(t: number, toe: number) {
+  let tk = t - toe
+  if (tk > HALF_WEEK) tk -= SECONDS_PER_WEEK
+  else if (tk < -HALF_WEEK) tk += SECONDS_PER_WEEK
+  return tk
+}
+
+export function solveKepler(meanAnomaly: number, e: number) {
+  let eccentricAnomaly = meanAnomaly
+  for (let i = 0; i < KEPLER_MAX_ITERATIONS; i++) {
+    const delta =
+      (eccentricAnomaly - e * Math.sin(eccentricAnomaly) - meanAnomaly) / (1 - e * Math.cos(eccentricAnomaly))
+    eccentricAnomaly -= delta
+    if (Math.abs(delta) < KEPLER_TOLERANCE) break
+  }
+  return eccentricAnomaly
+}
+
+// Computes the ECEF satellite position at seconds of week t in the constellation's time scale.
+// The satellite ID selects the earth model; records without one are treated as GPS.
+export function satellitePosition(eph: KeplerianEphemeris & { satellite?: string }, t: number): SatelliteState {
+  const satellite = eph.satellite ?? "G"
+  const { gm, omegaE } = EARTH_MODELS[satellite.charAt(0)] ?? EARTH_MODELS.G
+  const geo = isBeidouGeo(satellite)
+  const a0 = eph.sqrtA * eph.sqrtA
+  const tk = timeFromEphemeris(t, eph.toe)
+  // CNAV lets the semi-major axis and mean motion correction drift (IS-GPS-200 Table 30-II)
+  const a = a0 + (eph.aDot ?? 0) * tk
+
+  // Corrected mean motion and mean anomaly
+  const n0 = Math.sqrt(gm / (a0 * a0 * a0))
+  const n = n0 + eph.deltaN + 0.5 * (eph.deltaNDot ?? 0) * tk
+  const mk = eph.m0 + n * tk
+
+  const ek = solveKepler(mk, eph.e)
+
+  // True anomaly and argument of latitude
+  const vk = Math.atan2(Math.sqrt(1 - eph.e * eph.e) * Math.sin(ek), Math.cos(ek) - eph.e)
+  const phik = vk + eph.omega
+
+  // Second harmonic perturbations
+  const sin2phi = Math.sin(2 * phik)
+  const cos2phi = Math.cos(2 * phik)
+  const uk = phik + eph.cus * sin2phi + eph.cuc * cos2phi
+  const rk = a * (1 - eph.e * Math.cos(ek)) + eph.crs * sin2phi + eph.crc * cos2phi
+  const ik = eph.i0 + eph.idot * tk + eph.cis * sin2phi + eph.cic * cos2phi
+
+  // Position in the orbital plane
+  const xp = rk * Math.cos(uk)
+  const yp = rk * Math.sin(uk)
+
+  // Corrected longitude of ascending node, including Earth rotation since toe; GEO orbits leave the rotation
+  // since toe to the final frame rotation below
+  const omegak = eph.omega0 + (eph.omegaDot - (geo ? 0 : omegaE)) * tk - omegaE * eph.toe
+
+  const cosOmega = Math.cos(omegak)
+  const sinOmega = Math.sin(omegak)
+  const cosI = Math.cos(ik)
+
+  const x = xp * cosOmega - yp * cosI * sinOmega
+  const y = xp * sinOmega + yp * cosI * cosOmega
+  const z = yp * Math.sin(ik)
+  if (!geo) return { x, y, z, eccentricAnomaly: ek }
+
+  // GEO: rotate out of the tilted frame about X, then by the earth rotation since toe about Z
+  const cosTilt = Math.cos(BEIDOU_GEO_INCLINATION)
+  const sinTilt = Math.sin(BEIDOU_GEO_INCLINATION)
+  const yTilted = y * cosTilt + z * sinTilt
+  const zTilted = -y * sinTilt + z * cosTilt
+  const cosRotation = Math.cos(omegaE * tk)
+  const sinRotation = Math.sin(omegaE * tk)
+  return {
+    x: x * cosRotation + yTilted * sinRotation,
+    y: -x * sinRotation + yTilted * cosRotation,
+    z: zTilted,
+    eccentricAnomaly: ek,
+  }
+}
+
+// Relativistic clock term of an eccentric orbit, F e sqrt(A) sin(Ek) with F = -2 sqrt(mu) / c^2, seconds
+// (IS-GPS-200 20.3.3.3.3.1); mu is that of the satellite's earth model
+export function relativisticClockCorrection(
+  eph: KeplerianEphemeris & { satellite?: string },
+  eccentricAnomaly: number,
+) {
+  const { gm } = EARTH_MODELS[(eph.satellite ?? "G").charAt(0)] ?? EARTH_MODELS.G
+  const f = (-2 * Math.sqrt(gm)) / (SPEED_OF_LIGHT * SPEED_OF_LIGHT)
+  return f * eph.e * eph.sqrtA * Math.sin(eccentricAnomaly)
+}
+
+// Picks the record for a satellite whose toe is closest to t
+export function selectEphemeris<T extends { satellite: string; toe: number }>(
+  records: T[],
+  satellite: string,
+  t: number,
+  maxAge = 7200,
+): T | null {
+  let best: T | null = null
+  let bestAge = Infinity
+  for (const record of records) {
+    if (record.satellite !== satellite) continue
+    const age = Math.abs(timeFromEphemeris(t, record.toe))
+    if (age < bestAge) {
+      best = record
+      bestAge = age
+    }
+  }
+  return bestAge <= maxAge ? best : null
+}
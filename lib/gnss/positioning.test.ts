@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest"
+import { GPS_OMEGA_E, SPEED_OF_LIGHT } from "./constants"
+import { type RangeMeasurement, solvePosition } from "./positioning"
+import type { EcefPosition } from "./types"
+
+const DEG = Math.PI / 180
+
+// Receiver on the equator at the prime meridian, where east is +y, north is +z and up is +x
+const RECEIVER = { x: 6378137, y: 0, z: 0 }
+const SATELLITE_DISTANCE = 20200000
+const CLOCK_BIAS = 1e-4 // seconds
+
+function satelliteAt(elevation: number, azimuth: number): EcefPosition {
+  const up = Math.sin(elevation * DEG)
+  const east = Math.cos(elevation * DEG) * Math.sin(azimuth * DEG)
+  const north = Math.cos(elevation * DEG) * Math.cos(azimuth * DEG)
+  return {
+    x: RECEIVER.x + SATELLITE_DISTANCE * up,
+    y: RECEIVER.y + SATELLITE_DISTANCE * east,
+    z: RECEIVER.z + SATELLITE_DISTANCE * north,
+  }
+}
+
+// Pseudorange with the earth rotation correction in its first-order form (omegaE / c) (xs yr - ys xr)
+// (IS-GPS-200 20.3.3.4.3.3.2), plus the receiver clock bias
+function measurement(satellite: string, position: EcefPosition, clockBias = CLOCK_BIAS): RangeMeasurement {
+  const range = Math.hypot(position.x - RECEIVER.x, position.y - RECEIVER.y, position.z - RECEIVER.z)
+  const sagnac = (GPS_OMEGA_E / SPEED_OF_LIGHT) * (position.x * RECEIVER.y - position.y * RECEIVER.x)
+  return {
+    satellite,
+    position,
+    clockOffset: 0,
+    pseudorange: range + sagnac + SPEED_OF_LIGHT * clockBias,
+    frequency: null,
+    cn0: null,
+  }
+}
+
+// One satellite at the zenith and three on the horizon 120 degrees apart: the textbook geometry whose cofactor
+// matrix gives HDOP = VDOP = sqrt(4/3), TDOP = sqrt(1/3) and GDOP = sqrt(3)
+const ZENITH_AND_HORIZON = [
+  measurement("G01", satelliteAt(90, 0)),
+  measurement("G02", satelliteAt(0, 0)),
+  measurement("G03", satelliteAt(0, 120)),
+  measurement("G04", satelliteAt(0, 240)),
+]
+
+describe("solvePosition", () => {
+  it("recovers the receiver position and clock bias from the earth centre", () => {
+    const solution = solvePosition(ZENITH_AND_HORIZON)!
+    expect(solution.converged).toBe(true)
+    expect(Math.hypot(solution.x - RECEIVER.x, solution.y - RECEIVER.y, solution.z - RECEIVER.z)).toBeLessThan(0.01)
+    expect(solution.clockBias).toBeCloseTo(CLOCK_BIAS, 11)
+    expect(solution.residualRms).toBeLessThan(0.01)
+    expect(solution.numSats).toBe(4)
+  })
+
+  it("reports the DOP of the geometry in the local frame", () => {
+    const { dop } = solvePosition(ZENITH_AND_HORIZON)!
+    expect(dop.hdop).toBeCloseTo(Math.sqrt(4 / 3), 4)
+    expect(dop.vdop).toBeCloseTo(Math.sqrt(4 / 3), 4)
+    expect(dop.pdop).toBeCloseTo(Math.sqrt(8 / 3), 4)
+    expect(dop.tdop).toBeCloseTo(Math.sqrt(1 / 3), 4)
+    expect(dop.gdop).toBeCloseTo(Math.sqrt(3), 4)
+  })
+
+  it("estimates a clock bias per time system, relative to GPS", () => {
+    const galileoBias = CLOCK_BIAS + 50e-9
+    const solution = solvePosition([
+      ...ZENITH_AND_HORIZON,
+      measurement("E11", satelliteAt(45, 60), galileoBias),
+      measurement("E12", satelliteAt(45, 180), galileoBias),
+      measurement("E24", satelliteAt(45, 300), galileoBias),
+    ])!
+    expect(solution.converged).toBe(true)
+    expect(solution.clockBias).toBeCloseTo(CLOCK_BIAS, 11)
+    expect(solution.interSystemBiases.E).toBeCloseTo(50e-9, 11)
+    expect(Math.hypot(solution.x - RECEIVER.x, solution.y - RECEIVER.y, solution.z - RECEIVER.z)).toBeLessThan(0.01)
+  })
+
+  it("subtracts the modelled delays from the ranges", () => {
+    const delayed = ZENITH_AND_HORIZON.map((m) => ({ ...m, pseudorange: m.pseudorange + 2.5 }))
+    const solution = solvePosition(delayed, undefined, () => () => 2.5)!
+    expect(Math.hypot(solution.x - RECEIVER.x, solution.y - RECEIVER.y, solution.z - RECEIVER.z)).toBeLessThan(0.01)
+  })
+
+  it("needs one more satellite than unknowns", () => {
+    expect(solvePosition(ZENITH_AND_HORIZON.slice(0, 3))).toBeNull()
+    expect(solvePosition([...ZENITH_AND_HORIZON.slice(0, 3), measurement("E11", satelliteAt(45, 60))])).toBeNull()
+  })
+})
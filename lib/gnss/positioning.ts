@@ -0,0 +1,145 @@
+import { GPS_OMEGA_E, SPEED_OF_LIGHT } from "./constants"
+import { ecefToGeodetic, enuRotation } from "./geodesy"
+import { invert, multiply, multiplyVector, transpose, type Matrix } from "./matrix"
+import type { DilutionOfPrecision, EcefPosition, PositionSolution } from "./types"
+
+export interface RangeMeasurement {
+  satellite: string
+  position: EcefPosition // satellite ECEF position at transmission, in the earth-fixed frame of that instant
+  clockOffset: number // satellite clock offset with relativistic and group delay terms, seconds
+  pseudorange: number // meters
+  frequency: number | null // carrier of the pseudorange, Hz; null when its band is unknown
+  cn0: number | null // carrier-to-noise density of the satellite, dB-Hz; null when not observed
+  sigma?: number // range standard deviation, meters; measurements without one are weighted equally
+}
+
+// Signal delays along each line of sight, in meters: set up for a receiver position, then asked per measurement
+// with the satellite as rotated for transit
+export type DelayModel = (receiver: EcefPosition) => (m: RangeMeasurement, satellite: EcefPosition) => number
+
+const MAX_ITERATIONS = 10
+const CONVERGENCE_THRESHOLD = 1e-4 // meters
+
+// Receiver clock group of a satellite: QZSS is steered to GPS time, other systems keep their own time scale
+function timeSystem(satellite: string) {
+  const system = satellite.charAt(0)
+  return system === "J" ? "G" : system
+}
+
+// Satellite position in the earth-fixed frame at reception: the earth turns by omegaE times the travel time while
+// the signal is in flight (Sagnac effect)
+function rotateForTransit(satellite: EcefPosition, receiver: EcefPosition): EcefPosition {
+  const travelTime =
+    Math.hypot(satellite.x - receiver.x, satellite.y - receiver.y, satellite.z - receiver.z) / SPEED_OF_LIGHT
+  const cos = Math.cos(GPS_OMEGA_E * travelTime)
+  const sin = Math.sin(GPS_OMEGA_E * travelTime)
+  return { x: satellite.x * cos + satellite.y * sin, y: -satellite.x * sin + satellite.y * cos, z: satellite.z }
+}
+
+// Pseudorange corrected for the satellite clock, meters
+function correctedRange(m: RangeMeasurement) {
+  return m.pseudorange + SPEED_OF_LIGHT * m.clockOffset
+}
+
+// Iterative weighted least-squares single point positioning for receiver position and one clock bias per time system.
+// GPS time is the reference when present; other systems add an inter-system bias and need one more satellite each.
+// Rows are scaled by 1/sigma, while DOP stays a property of the geometry alone.
+export function solvePosition(
+  measurements: RangeMeasurement[],
+  initial: EcefPosition = { x: 0, y: 0, z: 0 },
+  delayModel: DelayModel = () => () => 0,
+): PositionSolution | null {
+  const systems = [...new Set(measurements.map((m) => timeSystem(m.satellite)))].sort((a, b) =>
+    a === "G" ? -1 : b === "G" ? 1 : a.localeCompare(b),
+  )
+  if (measurements.length < 3 + systems.length) return null
+  const clockIndex = (m: RangeMeasurement) => 3 + systems.indexOf(timeSystem(m.satellite))
+
+  // State: x, y, z, then each time system's receiver clock bias in meters
+  const state = [initial.x, initial.y, initial.z, ...systems.map(() => 0)]
+  let converged = false
+  let iterations = 0
+  let design: Matrix = []
+  const weight = measurements.map((m) => 1 / (m.sigma ?? 1))
+
+  for (iterations = 1; iterations <= MAX_ITERATIONS; iterations++) {
+    design = []
+    const misclosure: number[] = []
+    const receiver = { x: state[0], y: state[1], z: state[2] }
+    const delay = delayModel(receiver)
+
+    for (const m of measurements) {
+      const satellite = rotateForTransit(m.position, receiver)
+      const dx = satellite.x - state[0]
+      const dy = satellite.y - state[1]
+      const dz = satellite.z - state[2]
+      const range = Math.sqrt(dx * dx + dy * dy + dz * dz)
+      const clocks = systems.map((_, k) => (3 + k === clockIndex(m) ? 1 : 0))
+      design.push([-dx / range, -dy / range, -dz / range, ...clocks])
+      misclosure.push(correctedRange(m) - (range + state[clockIndex(m)] + delay(m, satellite)))
+    }
+
+    const weightedT = transpose(design.map((row, k) => row.map((value) => value * weight[k])))
+    const normalInverse = invert(multiply(weightedT, transpose(weightedT)))
+    if (!normalInverse) return null
+
+    const weightedMisclosure = misclosure.map((value, k) => value * weight[k])
+    const correction = multiplyVector(normalInverse, multiplyVector(weightedT, weightedMisclosure))
+    correction.forEach((value, k) => (state[k] += value))
+
+    if (Math.hypot(correction[0], correction[1], correction[2]) < CONVERGENCE_THRESHOLD) {
+      converged = true
+      break
+    }
+  }
+  const cofactor = invert(multiply(transpose(design), design))
+  if (!cofactor) return null
+
+  // Post-fit residuals with the final state
+  const position = { x: state[0], y: state[1], z: state[2] }
+  const delay = delayModel(position)
+  const residuals: Record<string, number> = {}
+  let sumSquares = 0
+  measurements.forEach((m) => {
+    const satellite = rotateForTransit(m.position, position)
+    const range = Math.hypot(satellite.x - position.x, satellite.y - position.y, satellite.z - position.z)
+    const residual = correctedRange(m) - (range + state[clockIndex(m)] + delay(m, satellite))
+    residuals[m.satellite] = residual
+    sumSquares += residual * residual
+  })
+
+  return {
+    ...position,
+    clockBias: state[3] / SPEED_OF_LIGHT,
+    residuals,
+    residualRms: Math.sqrt(sumSquares / measurements.length),
+    interSystemBiases: Object.fromEntries(
+      systems.slice(1).map((system, k) => [system, (state[4 + k] - state[3]) / SPEED_OF_LIGHT]),
+    ),
+    dop: computeDop(cofactor, position),
+    numSats: measurements.length,
+    iterations: Math.min(iterations, MAX_ITERATIONS),
+    converged,
+  }
+}
+
+// DOP values from the unweighted cofactor matrix, with the position block rotated into local ENU
+export function computeDop(cofactor: Matrix, receiver: EcefPosition): DilutionOfPrecision {
+  const { latitude, longitude } = ecefToGeodetic(receiver)
+  const r = enuRotation(latitude, longitude)
+  const qxyz = cofactor.slice(0, 3).map((row) => row.slice(0, 3))
+  const qenu = multiply(multiply(r, qxyz), transpose(r))
+
+  const east = qenu[0][0]
+  const north = qenu[1][1]
+  const up = qenu[2][2]
+  const time = cofactor[3][3]
+
+  return {
+    gdop: Math.sqrt(east + north + up + time),
+    pdop: Math.sqrt(east + north + up),
+    hdop: Math.sqrt(east + north),
+    vdop: Math.sqrt(up),
+    tdop: Math.sqrt(time),
+  }
+}
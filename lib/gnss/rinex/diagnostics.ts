@@ -0,0 +1,87 @@
+import type { ParseDiagnostic } from "../types"
+
+// Structured parse problems collected while reading a RINEX file, in place of silent defaults
+
+export type DiagnosticFile = ParseDiagnostic["file"]
+export type DiagnosticSeverity = ParseDiagnostic["severity"]
+
+export interface ParseOptions {
+  // Reject the file with a RinexParseError when any error-level diagnostic is raised
+  strict?: boolean
+}
+
+// Reports a problem on the line currently being read; column is 0-based, null for the whole line
+export type Reporter = (severity: DiagnosticSeverity, column: number | null, message: string) => void
+
+export interface DiagnosticLog {
+  file: DiagnosticFile
+  entries: ParseDiagnostic[]
+  errorCount: number
+}
+
+// Keeps a systematically broken file from producing a payload with one entry per epoch
+const MAX_DIAGNOSTICS = 200
+
+export class RinexParseError extends Error {
+  diagnostics: ParseDiagnostic[]
+
+  constructor(message: string, diagnostics: ParseDiagnostic[]) {
+    super(message)
+    this.name = "RinexParseError"
+    this.diagnostics = diagnostics
+  }
+}
+
+export function createDiagnosticLog(file: DiagnosticFile): DiagnosticLog {
+  return { file, entries: [], errorCount: 0 }
+}
+
+// lineIndex is the 0-based index into the file's lines; diagnostics carry 1-based positions
+export function report(
+  log: DiagnosticLog,
+  severity: DiagnosticSeverity,
+  lineIndex: number,
+  text: string,
+  column: number | null,
+  message: string,
+) {
+  if (severity === "error") log.errorCount++
+  if (log.entries.length > MAX_DIAGNOSTICS) return
+  if (log.entries.length === MAX_DIAGNOSTICS) {
+    log.entries.push({
+      file: log.file,
+      severity: "info",
+      line: lineIndex + 1,
+      column: null,
+      message: `More than ${MAX_DIAGNOSTICS} problems found; further diagnostics are not listed`,
+      text: "",
+    })
+    return
+  }
+  log.entries.push({
+    file: log.file,
+    severity,
+    line: lineIndex + 1,
+    column: column === null ? null : column + 1,
+    message,
+    text: text.trimEnd(),
+  })
+}
+
+export function lineReporter(log: DiagnosticLog, lineIndex: number, text: string): Reporter {
+  return (severity, column, message) => report(log, severity, lineIndex, text, column, message)
+}
+
+// Returns the diagnostics in file order, throwing in strict mode when any of them is an error
+export function finishDiagnostics(log: DiagnosticLog, options: ParseOptions) {
+  const entries = [...log.entries].sort((a, b) => a.line - b.line)
+  if (options.strict && log.errorCount > 0) {
+    const first = entries.find((entry) => entry.severity === "error")
+    const location = first ? ` (first at line ${first.line}: ${first.message})` : ""
+    throw new RinexParseError(
+      `${log.errorCount} error${log.errorCount === 1 ? "" : "s"} in ${log.file} file${location}`,
+      entries,
+    )
+  }
+  return entries
+}
@@ -0,0 +1,54 @@
+// Fixed-column field helpers shared by the RINEX parsers
+
+// Returns the raw text between columns start (inclusive) and end (exclusive)
+export function column(line: string, start: number, end: number) {
+  return line.substring(start, end)
+}
+
+// Parses a Fortran-formatted real (D, E or no exponent), NaN when the field is blank or not a number
+export function parseFortranFloat(text: string) {
+  const trimmed = text.trim()
+  if (!trimmed) return Number.NaN
+  return Number(trimmed.replace(/[dD]/, "E"))
+}
+
+// Parses an integer field, NaN when the field is blank or not an integer
+export function parseFortranInt(text: string) {
+  const trimmed = text.trim()
+  if (!/^[+-]?\d+$/.test(trimmed)) return Number.NaN
+  return Number.parseInt(trimmed, 10)
+}
+
+// RINEX 2 two-digit years: 80-99 -> 1980-1999, 00-79 -> 2000-2079
+export function expandTwoDigitYear(year: number) {
+  if (year < 80) return year + 2000
+  if (year < 100) return year + 1900
+  return year
+}
+
+// Header label occupies columns 61-80
+export function headerLabel(line: string) {
+  return line.substring(60).trim()
+}
+
+// True when a numeric field holds text that could not be read as a number
+export function isMalformedNumber(text: string, value: number) {
+  return Number.isNaN(value) && text.trim() !== ""
+}
+
+// First line of a file, found without splitting the whole content
+export function firstLine(content: string) {
+  const end = content.indexOf("\n")
+  return end === -1 ? content : content.substring(0, end)
+}
+
+// Lines of a text without carriage returns, one at a time; a final newline does not add an empty line
+export function* iterateLines(content: string) {
+  let start = 0
+  while (start < content.length) {
+    const newline = content.indexOf("\n", start)
+    const end = newline === -1 ? content.length : newline
+    yield content.substring(start, content.charCodeAt(end - 1) === 13 && end > start ? end - 1 : end)
+    start = end + 1
+  }
+}
@@ -0,0 +1,33 @@
+import { readFileSync } from "node:fs"
+import { describe, expect, it } from "vitest"
+import { decompressHatanaka, expandHatanakaChunks, isCompactRinex } from "./hatanaka"
+
+const fixture = (name: string) => readFileSync(new URL(`../__fixtures__/${name}`, import.meta.url), "utf8")
+// station.24d is station.24o in Compact RINEX, which drops trailing blanks
+const compact = fixture("station.24d")
+const expected = fixture("station.24o")
+  .replace(/\n$/, "")
+  .split("\n")
+  .map((line) => line.trimEnd())
+
+describe("Hatanaka decompression", () => {
+  it("recognizes Compact RINEX", () => {
+    expect(isCompactRinex(compact)).toBe(true)
+    expect(isCompactRinex(fixture("station.24o"))).toBe(false)
+  })
+
+  it("restores the RINEX observation file", () => {
+    const lines = decompressHatanaka(compact).split("\n")
+    expect(lines.map((line) => line.trimEnd())).toEqual(expected)
+  })
+
+  it("expands chunks split inside epoch records", async () => {
+    const compactLines = compact.replace(/\n$/, "").split("\n")
+    async function* chunks() {
+      for (let start = 0; start < compactLines.length; start += 5) yield compactLines.slice(start, start + 5)
+    }
+    const lines: string[] = []
+    for await (const chunk of expandHatanakaChunks(chunks())) lines.push(...chunk)
+    expect(lines.map((line) => line.trimEnd())).toEqual(expected)
+  })
+})
@@ -0,0 +1,267 @@
+import { column, firstLine, headerLabel, iterateLines, parseFortranFloat, parseFortranInt } from "./fields"
+
+// Compact RINEX (Hatanaka) 1.0 and 3.0 decompression, restoring the RINEX 2 or 3 observation text.
+// Observations are stored as integer differences of up to a given order, epoch lines and flags as text differences.
+
+const CRINEX_LABEL = "CRINEX VERS   / TYPE"
+
+// Differencing state of one observable: dy[0] is the last restored value, dy[k] its k-th difference
+interface DifferenceArc {
+  order: number
+  count: number
+  dy: number[]
+}
+
+interface SatelliteState {
+  arcs: Array<DifferenceArc | null>
+  flags: string
+}
+
+// True when the content starts with a CRINEX VERS / TYPE record
+export function isCompactRinex(content: string) {
+  return headerLabel(firstLine(content)) === CRINEX_LABEL
+}
+
+function fail(lineIndex: number, message: string): never {
+  throw new Error(`CRINEX line ${lineIndex + 1}: ${message}`)
+}
+
+// Restores a text line from its difference: blank keeps the previous character, "&" stands for a blank
+function repairText(previous: string, diff: string) {
+  const length = Math.max(previous.length, diff.length)
+  let restored = ""
+  for (let k = 0; k < length; k++) {
+    const c = diff.charAt(k)
+    if (c === "" || c === " ") restored += previous.charAt(k) || " "
+    else if (c === "&") restored += " "
+    else restored += c
+  }
+  return restored
+}
+
+// Applies one compressed field: "n&value" starts an arc of order n, anything else is the highest-order difference
+function restoreValue(arc: DifferenceArc | null, field: string, lineIndex: number): DifferenceArc {
+  const separator = field.indexOf("&")
+  if (separator !== -1) {
+    const order = parseFortranInt(field.substring(0, separator))
+    const value = parseFortranInt(field.substring(separator + 1))
+    if (Number.isNaN(order) || Number.isNaN(value)) fail(lineIndex, `Unreadable arc initialization "${field}"`)
+    return { order, count: 0, dy: [value] }
+  }
+
+  const difference = parseFortranInt(field)
+  if (Number.isNaN(difference)) fail(lineIndex, `Unreadable difference "${field}"`)
+  if (!arc) fail(lineIndex, `Difference "${field}" without a preceding arc initialization`)
+  if (arc.count < arc.order) arc.count++
+  arc.dy[arc.count] = difference
+  for (let k = arc.count; k > 0; k--) arc.dy[k - 1] += arc.dy[k]
+  return arc
+}
+
+// Formats an integer count of 10^-decimals units as a right-aligned fixed-point number
+function formatScaled(value: number, decimals: number, width: number) {
+  const scale = 10 ** decimals
+  const magnitude = Math.abs(value)
+  const fraction = String(magnitude % scale).padStart(decimals, "0")
+  return `${value < 0 ? "-" : ""}${Math.floor(magnitude / scale)}.${fraction}`.padStart(width)
+}
+
+// Splits a data line into observation fields (empty when missing) and the trailing flag difference text
+function splitDataLine(line: string, fieldCount: number) {
+  const fields: string[] = []
+  let position = 0
+  for (let k = 0; k < fieldCount; k++) {
+    if (position >= line.length) {
+      fields.push("")
+      continue
+    }
+    const end = line.indexOf(" ", position)
+    const stop = end === -1 ? line.length : end
+    fields.push(line.substring(position, stop))
+    position = stop + 1
+  }
+  return { fields, flags: position < line.length ? line.substring(position) : "" }
+}
+
+// Decoder that takes CRINEX lines one at a time and appends the restored RINEX lines to an output list,
+// so a file can be expanded while it is still being read
+export function createHatanakaDecoder() {
+  const typesBySystem: Record<string, string[]> = {}
+  const states: Record<string, SatelliteState> = {}
+  let version3 = false
+  let rinex2TypeCount = 0
+  let currentSystem = ""
+  let clockArc: DifferenceArc | null = null
+  let epochLine = ""
+  let lineIndex = -1
+  let inHeader = true
+  // Epoch being restored: event lines still to copy, or satellites whose data lines are still to come
+  let eventLines = 0
+  let satellites: string[] = []
+  let expectClock = false
+  let present = new Set<string>()
+
+  function readHeaderLine(line: string, output: string[]) {
+    const label = headerLabel(line)
+    if (lineIndex === 0) {
+      const crinexVersion = parseFortranFloat(column(line, 0, 9))
+      if (label !== CRINEX_LABEL) fail(0, "Missing CRINEX VERS / TYPE record")
+      if (crinexVersion !== 1 && crinexVersion !== 3) fail(0, `Unsupported CRINEX version ${column(line, 0, 9).trim()}`)
+      version3 = crinexVersion === 3
+      return
+    }
+    // The RINEX header is stored verbatim after the CRINEX PROG / DATE record
+    if (lineIndex === 1 && label === "CRINEX PROG / DATE") return
+
+    output.push(line)
+    if (label === "# / TYPES OF OBSERV") {
+      const count = parseFortranInt(column(line, 0, 6))
+      if (!Number.isNaN(count)) rinex2TypeCount = count
+    } else if (label === "SYS / # / OBS TYPES") {
+      const system = column(line, 0, 1).trim()
+      if (system) {
+        currentSystem = system
+        typesBySystem[system] = []
+      }
+      for (let k = 0; k < 13; k++) {
+        const type = column(line, 7 + k * 4, 10 + k * 4).trim()
+        if (type && typesBySystem[currentSystem]) typesBySystem[currentSystem].push(type)
+      }
+    } else if (label === "END OF HEADER") {
+      inHeader = false
+    }
+  }
+
+  function readEpochLine(line: string, output: string[]) {
+    const satelliteColumn = version3 ? 41 : 32
+    const flagColumn = version3 ? 31 : 28
+    const countColumns: [number, number] = version3 ? [32, 35] : [29, 32]
+
+    // A leading "&" (CRINEX 1) or ">" (CRINEX 3) marks a full epoch line, anything else a difference
+    if (line.startsWith(version3 ? ">" : "&")) {
+      epochLine = version3 ? line : ` ${line.substring(1)}`
+    } else {
+      if (!epochLine) fail(lineIndex, "Epoch line difference before the first full epoch line")
+      epochLine = repairText(epochLine, line)
+    }
+    const flag = parseFortranInt(column(epochLine, flagColumn, flagColumn + 1))
+    const numSats = parseFortranInt(column(epochLine, ...countColumns))
+    if (Number.isNaN(flag) || Number.isNaN(numSats)) fail(lineIndex, "Unreadable epoch flag or satellite count")
+
+    // Event records carry header or comment lines verbatim, and the next epoch line is sent in full
+    if (flag >= 2 && flag <= 5) {
+      output.push(epochLine.substring(0, satelliteColumn).trimEnd())
+      eventLines = numSats
+      epochLine = ""
+      return
+    }
+
+    satellites = []
+    for (let k = 0; k < numSats; k++) {
+      const offset = satelliteColumn + k * 3
+      satellites.push(column(epochLine, offset, offset + 3))
+    }
+    expectClock = true
+    present = new Set()
+  }
+
+  // Epoch header in plain RINEX layout; RINEX 2 wraps the satellite list after 12 entries
+  function readClockLine(line: string, output: string[]) {
+    const clockText = line.trim()
+    if (clockText) clockArc = restoreValue(clockArc, clockText, lineIndex)
+    else clockArc = null
+    expectClock = false
+
+    const clock = clockArc ? formatScaled(clockArc.dy[0], version3 ? 12 : 9, version3 ? 15 : 12) : ""
+    if (version3) {
+      output.push(`${epochLine.substring(0, 35).padEnd(41)}${clock}`.trimEnd())
+    } else {
+      const header = epochLine.substring(0, 32)
+      for (let k = 0; k < Math.max(1, Math.ceil(satellites.length / 12)); k++) {
+        const list = satellites.slice(k * 12, k * 12 + 12).join("")
+        output.push(k === 0 ? `${header}${list.padEnd(36)}${clock}`.trimEnd() : `${" ".repeat(32)}${list}`)
+      }
+    }
+    if (satellites.length === 0) finishEpoch()
+  }
+
+  function readDataLine(line: string, output: string[]) {
+    const satellite = satellites[present.size]
+    const typeCount = version3 ? (typesBySystem[satellite.charAt(0)]?.length ?? 0) : rinex2TypeCount
+    const { fields, flags } = splitDataLine(line, typeCount)
+    const state = states[satellite] ?? { arcs: [], flags: "" }
+    state.flags = repairText(state.flags, flags)
+    states[satellite] = state
+    present.add(satellite)
+
+    // A blank field ends the arc, so the next value of that observable starts a new one
+    const values = fields.map((field, k) => {
+      state.arcs[k] = field ? restoreValue(state.arcs[k] ?? null, field, lineIndex) : null
+      const arc = state.arcs[k]
+      if (!arc) return "".padEnd(16)
+      const lli = state.flags.charAt(2 * k) || " "
+      const ssi = state.flags.charAt(2 * k + 1) || " "
+      return `${formatScaled(arc.dy[0], 3, 14)}${lli}${ssi}`
+    })
+
+    if (version3) {
+      output.push(`${satellite}${values.join("")}`.trimEnd())
+    } else {
+      for (let k = 0; k < Math.max(1, Math.ceil(values.length / 5)); k++) {
+        output.push(
+          values
+            .slice(k * 5, k * 5 + 5)
+            .join("")
+            .trimEnd(),
+        )
+      }
+    }
+    if (present.size === satellites.length) finishEpoch()
+  }
+
+  // Satellites that dropped out must be re-initialized by the compressor when they return
+  function finishEpoch() {
+    for (const satellite of Object.keys(states)) {
+      if (!present.has(satellite)) delete states[satellite]
+    }
+    satellites = []
+  }
+
+  return {
+    push(line: string, output: string[]) {
+      lineIndex++
+      if (inHeader) readHeaderLine(line, output)
+      // Header records of an event are copied like the header, so changed observation type lists take effect
+      else if (eventLines > 0) {
+        readHeaderLine(line, output)
+        eventLines--
+      } else if (expectClock) readClockLine(line, output)
+      else if (satellites.length > 0) readDataLine(line, output)
+      else readEpochLine(line, output)
+    },
+
+    end() {
+      if (lineIndex === -1) fail(0, "Missing CRINEX VERS / TYPE record")
+      if (satellites.length > 0) fail(lineIndex + 1, `File ends inside the epoch record of ${satellites[present.size]}`)
+    },
+  }
+}
+
+export function decompressHatanaka(content: string) {
+  const decoder = createHatanakaDecoder()
+  const output: string[] = []
+  for (const line of iterateLines(content)) decoder.push(line, output)
+  decoder.end()
+  return output.join("\n")
+}
+
+// Expands CRINEX text read in chunks of lines, chunk by chunk
+export async function* expandHatanakaChunks(chunks: AsyncIterable<string[]>): AsyncGenerator<string[]> {
+  const decoder = createHatanakaDecoder()
+  for await (const chunk of chunks) {
+    const output: string[] = []
+    for (const line of chunk) decoder.push(line, output)
+    yield output
+  }
+  decoder.end()
+}
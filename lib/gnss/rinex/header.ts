@@ -0,0 +1,298 @@
+import type { HeaderTime, NavigationHeader, ObservationHeader } from "../types"
+import type { Reporter } from "./diagnostics"
+import { column, headerLabel, isMalformedNumber, parseFortranFloat, parseFortranInt } from "./fields"
+
+// Continuation context for header records that span several lines
+export interface ObservationHeaderState {
+  currentSystem: string // system of the observation type list being read, "*" for RINEX 2
+  typeCounts: Record<string, number> // declared number of observation types per system
+  glonassSlotCount: number
+}
+
+export function createObservationHeader(): ObservationHeader {
+  return {
+    version: 2,
+    fileType: "O",
+    satelliteSystem: "G",
+    markerName: null,
+    markerNumber: null,
+    receiver: null,
+    antenna: null,
+    approxPosition: null,
+    antennaDelta: null,
+    interval: null,
+    timeOfFirstObs: null,
+    timeOfLastObs: null,
+    glonassSlots: {},
+    leapSeconds: null,
+    observationTypes: {},
+  }
+}
+
+export function createObservationHeaderState(): ObservationHeaderState {
+  return { currentSystem: "", typeCounts: {}, glonassSlotCount: 0 }
+}
+
+export function createNavigationHeader(): NavigationHeader {
+  return {
+    version: 2,
+    fileType: "N",
+    satelliteSystem: "G",
+    ionosphericCorrections: {},
+    timeSystemCorrections: [],
+    leapSeconds: null,
+  }
+}
+
+// Observation, meteorological and clock file types, none of which carry broadcast ephemeris
+const NON_NAVIGATION_FILE_TYPES = new Set(["O", "M", "C"])
+
+// Default reporter for callers that do not collect diagnostics
+function ignoreDiagnostic() {}
+
+function text(line: string, start: number, end: number) {
+  return column(line, start, end).trim()
+}
+
+function threeFloats(line: string, width: number) {
+  return [0, 1, 2].map((k) => parseFortranFloat(column(line, k * width, (k + 1) * width)))
+}
+
+// Reads the version field, falling back to RINEX 2 with an error when it is unreadable
+function parseVersion(line: string, report: Reporter) {
+  const version = parseFortranFloat(column(line, 0, 9))
+  if (Number.isFinite(version)) return version
+  report("error", 0, "Unreadable RINEX version; assuming version 2")
+  return 2
+}
+
+// Reads an optional number, warning when the field holds text that is not a number
+function optionalNumber(line: string, start: number, end: number, report: Reporter, description: string) {
+  const value = parseFortranFloat(column(line, start, end))
+  if (isMalformedNumber(column(line, start, end), value)) report("warning", start, `Unreadable ${description}`)
+  return Number.isFinite(value) ? value : null
+}
+
+// Header lines shorter than the label column usually come from a logger writing free-form text
+function checkLabel(line: string, label: string, report: Reporter) {
+  if (!label && line.trim()) report("warning", null, "Header line has no record label in columns 61-80")
+}
+
+// TIME OF FIRST/LAST OBS: 5I6, F13.7, 5X, A3; null when any date field is blank
+function parseHeaderTime(line: string, defaultSystem: string): HeaderTime | null {
+  const [year, month, day, hour, minute] = [0, 1, 2, 3, 4].map((k) => parseFortranInt(column(line, k * 6, k * 6 + 6)))
+  const second = parseFortranFloat(column(line, 30, 43))
+  if (![year, month, day, hour, minute, second].every(Number.isFinite)) return null
+  return { year, month, day, hour, minute, second, timeSystem: text(line, 48, 51) || defaultSystem }
+}
+
+// Default time system of a file when TIME OF FIRST OBS leaves it blank
+function defaultTimeSystem(satelliteSystem: string) {
+  if (satelliteSystem === "R") return "GLO"
+  if (satelliteSystem === "E") return "GAL"
+  if (satelliteSystem === "C") return "BDT"
+  return "GPS"
+}
+
+// Time system of the observation epochs: the one given with TIME OF FIRST OBS, else the default of the file's system
+export function observationTimeSystem(header: ObservationHeader) {
+  return header.timeOfFirstObs?.timeSystem ?? defaultTimeSystem(header.satelliteSystem)
+}
+
+// Applies one observation header line; returns the label so callers can detect END OF HEADER
+export function parseObservationHeaderLine(
+  header: ObservationHeader,
+  state: ObservationHeaderState,
+  line: string,
+  report: Reporter = ignoreDiagnostic,
+) {
+  const label = headerLabel(line)
+  checkLabel(line, label, report)
+
+  switch (label) {
+    case "RINEX VERSION / TYPE":
+      header.version = parseVersion(line, report)
+      header.fileType = text(line, 20, 21) || "O"
+      header.satelliteSystem = text(line, 40, 41) || "G"
+      if (header.fileType !== "O") {
+        report("error", 20, `File type "${header.fileType}" is not an observation file`)
+      }
+      break
+    case "MARKER NAME":
+      header.markerName = text(line, 0, 60) || null
+      break
+    case "MARKER NUMBER":
+      header.markerNumber = text(line, 0, 20) || null
+      break
+    case "REC # / TYPE / VERS":
+      header.receiver = { number: text(line, 0, 20), type: text(line, 20, 40), version: text(line, 40, 60) }
+      break
+    case "ANT # / TYPE":
+      header.antenna = { number: text(line, 0, 20), type: text(line, 20, 40) }
+      break
+    case "APPROX POSITION XYZ": {
+      const [x, y, z] = threeFloats(line, 14)
+      header.approxPosition = [x, y, z].every(Number.isFinite) ? { x, y, z } : null
+      if (!header.approxPosition) report("warning", 0, "Approximate position is incomplete and was ignored")
+      break
+    }
+    case "ANTENNA: DELTA H/E/N": {
+      const [height, east, north] = threeFloats(line, 14)
+      header.antennaDelta = { height: height || 0, east: east || 0, north: north || 0 }
+      break
+    }
+    case "INTERVAL":
+      header.interval = optionalNumber(line, 0, 10, report, "observation interval")
+      break
+    case "TIME OF FIRST OBS":
+      header.timeOfFirstObs = parseHeaderTime(line, defaultTimeSystem(header.satelliteSystem))
+      if (!header.timeOfFirstObs) report("warning", 0, "Time of first observation is incomplete and was ignored")
+      break
+    case "TIME OF LAST OBS":
+      header.timeOfLastObs = parseHeaderTime(line, defaultTimeSystem(header.satelliteSystem))
+      if (!header.timeOfLastObs) report("warning", 0, "Time of last observation is incomplete and was ignored")
+      break
+    case "LEAP SECONDS":
+      header.leapSeconds = optionalNumber(line, 0, 6, report, "leap second count")
+      break
+    // I3 count, then 8 entries of (A3, 1X, I2, 1X) per line; continuation lines leave the count blank
+    case "GLONASS SLOT / FRQ #": {
+      const count = parseFortranInt(column(line, 0, 3))
+      if (!Number.isNaN(count)) state.glonassSlotCount = count
+      for (let k = 0; k < 8 && Object.keys(header.glonassSlots).length < state.glonassSlotCount; k++) {
+        const satellite = column(line, 4 + k * 7, 7 + k * 7).replace(" ", "0")
+        const channel = parseFortranInt(column(line, 8 + k * 7, 10 + k * 7))
+        if (satellite.trim() && !Number.isNaN(channel)) header.glonassSlots[satellite] = channel
+      }
+      break
+    }
+    // RINEX 2.x observation types: I6 count then 9 types per line, continued on following lines
+    case "# / TYPES OF OBSERV": {
+      const count = parseFortranInt(column(line, 0, 6))
+      if (!Number.isNaN(count)) {
+        state.currentSystem = "*"
+        state.typeCounts["*"] = count
+        header.observationTypes["*"] = []
+      } else if (state.currentSystem !== "*") {
+        report("error", 0, "Observation type continuation line without a preceding type count")
+        break
+      }
+      const types = header.observationTypes["*"]
+      for (let k = 0; k < 9 && types.length < state.typeCounts["*"]; k++) {
+        const type = text(line, 10 + k * 6, 12 + k * 6)
+        if (type) types.push(type)
+      }
+      break
+    }
+    // RINEX 3.x/4.x observation types per system: 13 types per line, continuation lines leave the system blank
+    case "SYS / # / OBS TYPES": {
+      const system = text(line, 0, 1)
+      if (system) {
+        const count = parseFortranInt(column(line, 3, 6))
+        if (Number.isNaN(count)) report("error", 3, `Unreadable observation type count for system ${system}`)
+        state.currentSystem = system
+        state.typeCounts[system] = Number.isNaN(count) ? 0 : count
+        header.observationTypes[system] = []
+      }
+      const types = header.observationTypes[state.currentSystem]
+      if (!types || state.currentSystem === "*") {
+        report("error", 0, "Observation type continuation line without a preceding system")
+        break
+      }
+      for (let k = 0; k < 13 && types.length < state.typeCounts[state.currentSystem]; k++) {
+        const type = text(line, 7 + k * 4, 10 + k * 4)
+        if (type) types.push(type)
+      }
+      break
+    }
+  }
+
+  return label
+}
+
+// Checks made once the whole observation header has been read
+export function validateObservationHeader(header: ObservationHeader, state: ObservationHeaderState, report: Reporter) {
+  if (Object.keys(header.observationTypes).length === 0) {
+    report("error", null, "Header lists no observation types; observation records cannot be decoded")
+  }
+  for (const [system, types] of Object.entries(header.observationTypes)) {
+    const declared = state.typeCounts[system]
+    if (types.length < declared) {
+      const scope = system === "*" ? "" : ` for system ${system}`
+      report("error", null, `Header declares ${declared} observation types${scope} but lists ${types.length}`)
+    }
+  }
+}
+
+// Incomplete correction records are dropped rather than reported with made-up terms
+function addTimeSystemCorrection(header: NavigationHeader, type: string, values: number[], report: Reporter) {
+  if (!values.every(Number.isFinite)) {
+    report("warning", 0, `Time system correction ${type} is incomplete and was ignored`)
+    return
+  }
+  const [a0, a1, referenceTime, referenceWeek] = values
+  header.timeSystemCorrections.push({ type, a0, a1, referenceTime, referenceWeek })
+}
+
+// Applies one navigation header line; returns the label so callers can detect END OF HEADER
+export function parseNavigationHeaderLine(header: NavigationHeader, line: string, report: Reporter = ignoreDiagnostic) {
+  const label = headerLabel(line)
+  checkLabel(line, label, report)
+
+  switch (label) {
+    case "RINEX VERSION / TYPE":
+      header.version = parseVersion(line, report)
+      header.fileType = text(line, 20, 21) || "N"
+      header.satelliteSystem = text(line, 40, 41) || "G"
+      if (NON_NAVIGATION_FILE_TYPES.has(header.fileType)) {
+        report("error", 20, `File type "${header.fileType}" is not a navigation file`)
+      }
+      break
+    // RINEX 2: 2X, 4D12.4
+    case "ION ALPHA":
+    case "ION BETA":
+      header.ionosphericCorrections[label === "ION ALPHA" ? "GPSA" : "GPSB"] = [0, 1, 2, 3]
+        .map((k) => parseFortranFloat(column(line, 2 + k * 12, 14 + k * 12)))
+        .filter(Number.isFinite)
+      break
+    // RINEX 3: A4, 1X, 4D12.4 (Galileo leaves the fourth coefficient blank)
+    case "IONOSPHERIC CORR":
+      header.ionosphericCorrections[text(line, 0, 4)] = [0, 1, 2, 3]
+        .map((k) => parseFortranFloat(column(line, 5 + k * 12, 17 + k * 12)))
+        .filter(Number.isFinite)
+      break
+    // RINEX 2: 3X, 2D19.12, 2I9
+    case "DELTA-UTC: A0,A1,T,W":
+      addTimeSystemCorrection(
+        header,
+        "GPUT",
+        [
+          parseFortranFloat(column(line, 3, 22)),
+          parseFortranFloat(column(line, 22, 41)),
+          parseFortranInt(column(line, 41, 50)),
+          parseFortranInt(column(line, 50, 59)),
+        ],
+        report,
+      )
+      break
+    // RINEX 3: A4, 1X, D17.10, D16.9, I7, I5
+    case "TIME SYSTEM CORR":
+      addTimeSystemCorrection(
+        header,
+        text(line, 0, 4),
+        [
+          parseFortranFloat(column(line, 5, 22)),
+          parseFortranFloat(column(line, 22, 38)),
+          parseFortranInt(column(line, 38, 45)),
+          parseFortranInt(column(line, 45, 50)),
+        ],
+        report,
+      )
+      break
+    case "LEAP SECONDS":
+      header.leapSeconds = optionalNumber(line, 0, 6, report, "leap second count")
+      break
+  }
+
+  return label
+}
@@ -0,0 +1,146 @@
+import { readFileSync } from "node:fs"
+import { describe, expect, it } from "vitest"
+import { RinexParseError } from "./diagnostics"
+import { mergeNavigationFiles, parseRinexNavigation } from "./navigation"
+
+// The GPS navigation message example of the RINEX 2.11 specification (Table A4), PRN 6 of 1999-09-02
+const example = readFileSync(new URL("../__fixtures__/example.99n", import.meta.url), "utf8")
+const exampleLines = example.trimEnd().split("\n")
+const END_OF_HEADER = exampleLines.findIndex((line) => line.includes("END OF HEADER"))
+
+// The example record, the DELTA-UTC terms and the ION ALPHA and BETA terms as RINEX 4.00 EPH, STO and ION records,
+// followed by a CNAV record of the same orbit carrying inter-signal corrections
+const rinex4Example = readFileSync(new URL("../__fixtures__/example-v4.rnx", import.meta.url), "utf8")
+
+// The same record in the RINEX 3 layout: a system letter and four-digit year on the epoch line, 4X orbit indent
+const rinex3Example = [
+  "     3.04           N: GNSS NAV DATA    G: GPS              RINEX VERSION / TYPE",
+  "                                                            END OF HEADER",
+  "G06 1999 09 02 17 51 44" + exampleLines[END_OF_HEADER + 1].slice(22),
+  ...exampleLines.slice(END_OF_HEADER + 2).map((line) => ` ${line}`),
+].join("\n")
+
+// Broadcast values as printed in the specification example
+const G06 = {
+  satellite: "G06",
+  system: "G",
+  messageType: null,
+  toc: { year: 1999, month: 9, day: 2, hour: 17, minute: 51, second: 44 },
+  clockBias: -0.839701388031e-3,
+  clockDrift: -0.165982783074e-10,
+  clockDriftRate: 0,
+  iode: 91,
+  crs: 93.40625,
+  deltaN: 0.11604054784e-8,
+  m0: 0.162092304801,
+  cuc: 0.484101474285e-5,
+  e: 0.626740418375e-2,
+  cus: 0.652112066746e-5,
+  sqrtA: 0.515365489006e4,
+  toe: 409904,
+  cic: -0.2421438694e-7,
+  omega0: 0.32923700346,
+  cis: -0.596046447754e-7,
+  i0: 1.11541663136,
+  crc: 326.59375,
+  omega: 2.06958726335,
+  omegaDot: -0.638312302555e-8,
+  idot: 0.307155651409e-9,
+  codesOnL2: 0,
+  week: 1025,
+  l2PFlag: 0,
+  svAccuracy: 0,
+  svHealth: 0,
+  tgd: 0,
+  iodc: 91,
+  transmissionTime: 406800,
+  fitInterval: 0,
+}
+
+describe("parseRinexNavigation", () => {
+  it("reads every field of the RINEX 2.11 example record", () => {
+    const { ephemeris, glonassEphemeris, diagnostics } = parseRinexNavigation(example)
+    expect(diagnostics).toEqual([])
+    expect(glonassEphemeris).toEqual([])
+    expect(ephemeris).toHaveLength(1)
+    for (const [key, value] of Object.entries(G06)) {
+      const actual = ephemeris[0][key as keyof typeof G06]
+      if (typeof value === "number") expect(actual, key).toBeCloseTo(value, 15)
+      else expect(actual, key).toEqual(value)
+    }
+  })
+
+  it("reads the ionospheric, UTC and leap second header records", () => {
+    const { header } = parseRinexNavigation(example)
+    expect(header.version).toBe(2.1)
+    expect(header.ionosphericCorrections.GPSA).toEqual([0.1676e-7, 0.2235e-7, -0.1192e-6, -0.1192e-6])
+    expect(header.ionosphericCorrections.GPSB).toEqual([0.1208e6, 0.131e6, -0.131e6, -0.1966e6])
+    expect(header.timeSystemCorrections).toEqual([
+      { type: "GPUT", a0: 0.13317912817e-6, a1: 0.10746958878e-12, referenceTime: 552960, referenceWeek: 1025 },
+    ])
+    expect(header.leapSeconds).toBe(13)
+  })
+
+  it("reads the same record from the RINEX 3 layout", () => {
+    const rinex2 = parseRinexNavigation(example).ephemeris[0]
+    const { ephemeris, diagnostics } = parseRinexNavigation(rinex3Example)
+    expect(diagnostics).toEqual([])
+    expect(ephemeris).toEqual([rinex2])
+  })
+
+  it("reports a record cut short and keeps reading", () => {
+    const truncated = [...exampleLines.slice(0, END_OF_HEADER + 5), ...exampleLines.slice(END_OF_HEADER + 1)].join("\n")
+    const { ephemeris, diagnostics } = parseRinexNavigation(truncated)
+    expect(ephemeris).toHaveLength(1)
+    expect(diagnostics.some((d) => d.severity === "error")).toBe(true)
+    expect(() => parseRinexNavigation(truncated, { strict: true })).toThrow(RinexParseError)
+  })
+})
+
+describe("parseRinexNavigation with RINEX 4 records", () => {
+  const rinex4 = parseRinexNavigation(rinex4Example)
+  const rinex2 = parseRinexNavigation(example)
+
+  it("reads the EPH LNAV record as its RINEX 2 counterpart", () => {
+    expect(rinex4.diagnostics).toEqual([])
+    expect(rinex4.ephemeris[0]).toEqual({ ...rinex2.ephemeris[0], messageType: "LNAV" })
+  })
+
+  it("folds the ION and STO records into the header corrections", () => {
+    expect(rinex4.header.ionosphericCorrections.GPSA).toEqual(rinex2.header.ionosphericCorrections.GPSA)
+    expect(rinex4.header.ionosphericCorrections.GPSB).toEqual(rinex2.header.ionosphericCorrections.GPSB)
+    // 1999-09-04 09:36:00 is second 552960 of GPS week 1025, the DELTA-UTC reference of the RINEX 2 header
+    expect(rinex4.header.timeSystemCorrections).toEqual(rinex2.header.timeSystemCorrections)
+    expect(rinex4.timeOffsets).toMatchObject([{ satellite: "G06", type: "GPUT", transmissionTime: 406800, a2: 0 }])
+    expect(rinex4.ionosphere[0].coefficients).toHaveLength(8)
+  })
+
+  it("reads the CNAV layout with its toe from the time of clock", () => {
+    const cnav = rinex4.ephemeris[1]
+    expect(cnav).toMatchObject({ messageType: "CNAV", aDot: 0.0125, deltaNDot: -0.125e-13, week: 1025 })
+    // 1999-09-02 18:00:00 GPS is second 410400 of the week
+    expect(cnav.toe).toBe(410400)
+    expect(cnav.transmissionTime).toBe(406800)
+    expect(cnav.tgd).toBe(-0.465661287308e-8)
+    expect(cnav.iode).toBeNaN()
+    expect(cnav.civil).toEqual({
+      top: 406800,
+      uraEd: 3,
+      uraNed: [1, 2, 4],
+      isc: { L1CA: -0.232830643654e-8, L2C: -0.931322574615e-9, L5I5: 0.186264514923e-8 },
+    })
+  })
+})
+
+describe("mergeNavigationFiles", () => {
+  it("keeps the primary header and adds the corrections only the secondary file has", () => {
+    const primary = parseRinexNavigation(rinex3Example)
+    const secondary = parseRinexNavigation(example)
+    const merged = mergeNavigationFiles(primary, secondary)
+    expect(merged.header.version).toBe(3.04)
+    expect(merged.header.ionosphericCorrections.GPSA).toHaveLength(4)
+    expect(merged.header.timeSystemCorrections.map((correction) => correction.type)).toEqual(["GPUT"])
+    expect(merged.header.leapSeconds).toBe(13)
+    expect(merged.ephemeris).toHaveLength(2)
+  })
+})
@@ -0,0 +1,740 @@
+import { hasKeplerianElements } from "../orbit"
+import { type CalendarTime, gpsWeekTow, toGpsSeconds, toGpsTime } from "../time"
+import type {
+  BroadcastEphemeris,
+  EarthOrientationParameters,
+  GlonassEphemeris,
+  IonosphereParameters,
+  NavigationHeader,
+  RinexNavigationFile,
+  SystemTimeOffset,
+} from "../types"
+import {
+  type DiagnosticFile,
+  type DiagnosticLog,
+  type ParseOptions,
+  type Reporter,
+  createDiagnosticLog,
+  finishDiagnostics,
+  lineReporter,
+  report,
+} from "./diagnostics"
+import { column, expandTwoDigitYear, isMalformedNumber, parseFortranFloat, parseFortranInt } from "./fields"
+import { createNavigationHeader, parseNavigationHeaderLine } from "./header"
+
+// Systems whose records use the Keplerian seven-orbit-line layout
+const KEPLERIAN_SYSTEMS = new Set(["G", "E", "C", "J", "I"])
+
+// Number of broadcast orbit lines following the epoch line, per system; RINEX 3.05 added a fourth GLONASS line
+function orbitLineCount(system: string, version: number) {
+  if (system === "R") return version >= 3.05 ? 4 : 3
+  return system === "S" ? 3 : 7
+}
+
+// RINEX 2 navigation files carry a single system, given by the file type character
+function rinex2System(fileType: string) {
+  if (fileType === "G") return "R"
+  if (fileType === "H") return "S"
+  return "G"
+}
+
+const SYSTEM_NAMES: Record<string, string> = {
+  G: "GPS",
+  R: "GLONASS",
+  E: "Galileo",
+  C: "BeiDou",
+  J: "QZSS",
+  I: "NavIC",
+  S: "SBAS",
+}
+
+// RINEX 4 EPH message types decoded into broadcast ephemeris, keyed by system and tag, with their orbit line count
+const RINEX4_EPHEMERIS_LAYOUTS: Record<string, number> = {
+  "G LNAV": 7,
+  "G CNAV": 8,
+  "G CNV2": 9,
+  "J LNAV": 7,
+  "J CNAV": 8,
+  "J CNV2": 9,
+  "E INAV": 7,
+  "E FNAV": 7,
+  "C D1": 7,
+  "C D2": 7,
+  "I LNAV": 7,
+  "R FDMA": 4,
+}
+
+// Klobuchar ION records and the header correction types their alpha and beta terms map to
+const KLOBUCHAR_HEADER_KEYS: Record<string, [string, string]> = {
+  "G LNAV": ["GPSA", "GPSB"],
+  "J LNAV": ["QZSA", "QZSB"],
+  "C D1D2": ["BDSA", "BDSB"],
+  "I LNAV": ["IRNA", "IRNB"],
+}
+
+// Values following the time on RINEX 3 and 4 epoch lines: 4X or A3,1X, then I4,5(1X,I2.2), then 3D19.12
+const EPOCH_LINE_VALUE_COLUMNS = [23, 42, 61]
+
+interface NavigationRecords {
+  ephemeris: BroadcastEphemeris[]
+  glonassEphemeris: GlonassEphemeris[]
+  timeOffsets: SystemTimeOffset[]
+  earthOrientation: EarthOrientationParameters[]
+  ionosphere: IonosphereParameters[]
+}
+
+// A RINEX 4 record: the "> EPH G01 LNAV" style header line and the data lines up to the next one
+interface Rinex4Record {
+  recordType: string
+  satellite: string
+  messageType: string
+  headerIndex: number
+  headerLine: string
+  lines: string[]
+}
+
+// Reads 19-column D19.12 values starting at the given columns
+function fieldValues(line: string, starts: number[], report: Reporter) {
+  return starts.map((start) => {
+    const value = parseFortranFloat(column(line, start, start + 19))
+    if (isMalformedNumber(column(line, start, start + 19), value)) report("warning", start, "Unreadable orbit value")
+    return value
+  })
+}
+
+// Reads the four values of a broadcast orbit line; RINEX 2 indents by 3 columns, RINEX 3 and 4 by 4
+function orbitValues(line: string, indent: number, report: Reporter) {
+  return fieldValues(
+    line,
+    [0, 1, 2, 3].map((k) => indent + k * 19),
+    report,
+  )
+}
+
+// Time of a RINEX 3 or 4 epoch line, also used by the RINEX 4 STO, EOP and ION records
+function readRecordTime(line: string): CalendarTime {
+  return {
+    year: parseFortranInt(column(line, 4, 8)),
+    month: parseFortranInt(column(line, 9, 11)),
+    day: parseFortranInt(column(line, 12, 14)),
+    hour: parseFortranInt(column(line, 15, 17)),
+    minute: parseFortranInt(column(line, 18, 20)),
+    second: parseFortranFloat(column(line, 21, 23)),
+  }
+}
+
+// True when the epoch line of a record carries a satellite and a complete time of clock
+function isValidEpochLine(satellite: string, toc: CalendarTime) {
+  return (
+    /^[A-Z]\d{2}$/.test(satellite) &&
+    Number.isInteger(toc.year) &&
+    toc.month >= 1 &&
+    toc.month <= 12 &&
+    toc.day >= 1 &&
+    toc.day <= 31 &&
+    toc.hour >= 0 &&
+    toc.hour <= 23 &&
+    toc.minute >= 0 &&
+    toc.minute <= 59 &&
+    toc.second >= 0 &&
+    toc.second < 61
+  )
+}
+
+function parseKeplerianRecord(
+  satellite: string,
+  system: string,
+  toc: CalendarTime,
+  clock: number[],
+  orbits: number[][],
+  messageType: string | null,
+): BroadcastEphemeris {
+  const [o1, o2, o3, o4, o5, o6, o7] = orbits
+  const record: BroadcastEphemeris = {
+    satellite,
+    system,
+    messageType,
+    toc,
+    clockBias: clock[0],
+    clockDrift: clock[1],
+    clockDriftRate: clock[2],
+    iode: o1[0],
+    crs: o1[1],
+    deltaN: o1[2],
+    m0: o1[3],
+    cuc: o2[0],
+    e: o2[1],
+    cus: o2[2],
+    sqrtA: o2[3],
+    toe: o3[0],
+    cic: o3[1],
+    omega0: o3[2],
+    cis: o3[3],
+    i0: o4[0],
+    crc: o4[1],
+    omega: o4[2],
+    omegaDot: o4[3],
+    idot: o5[0],
+    codesOnL2: o5[1],
+    week: o5[2],
+    l2PFlag: o5[3],
+    svAccuracy: o6[0],
+    svHealth: o6[1],
+    tgd: o6[2],
+    iodc: o6[3],
+    transmissionTime: o7[0],
+    fitInterval: o7[1],
+  }
+
+  // Galileo and BeiDou put a second group delay where GPS has IODC; BeiDou puts AODC where GPS has the fit interval
+  if (system === "E" || system === "C") {
+    record.tgd2 = o6[3]
+    record.iodc = system === "C" ? o7[1] : Number.NaN
+    record.fitInterval = Number.NaN
+  }
+  return record
+}
+
+// GPS and QZSS CNAV and CNAV-2 layout (RINEX 4 Tables A32 and A33): no IODE or IODC, toe equals toc,
+// ISC terms on the seventh orbit line and, for CNAV-2, the L1C ones on the eighth
+function parseCivilRecord(
+  satellite: string,
+  system: string,
+  toc: CalendarTime,
+  clock: number[],
+  orbits: number[][],
+  messageType: string,
+): BroadcastEphemeris {
+  const [o1, o2, o3, o4, o5, o6, o7] = orbits
+  const last = orbits[orbits.length - 1]
+  const isc: Record<string, number> = { L1CA: o7[0], L2C: o7[1], L5I5: o7[2], L5Q5: o7[3] }
+  if (messageType === "CNV2") Object.assign(isc, { L1CD: orbits[7][0], L1CP: orbits[7][1] })
+  return {
+    satellite,
+    system,
+    messageType,
+    toc,
+    clockBias: clock[0],
+    clockDrift: clock[1],
+    clockDriftRate: clock[2],
+    iode: Number.NaN,
+    aDot: o1[0],
+    crs: o1[1],
+    deltaN: o1[2],
+    m0: o1[3],
+    cuc: o2[0],
+    e: o2[1],
+    cus: o2[2],
+    sqrtA: o2[3],
+    toe: toGpsTime(toc).tow,
+    cic: o3[1],
+    omega0: o3[2],
+    cis: o3[3],
+    i0: o4[0],
+    crc: o4[1],
+    omega: o4[2],
+    omegaDot: o4[3],
+    idot: o5[0],
+    deltaNDot: o5[1],
+    codesOnL2: Number.NaN,
+    week: last[1],
+    l2PFlag: Number.NaN,
+    svAccuracy: Number.NaN,
+    svHealth: o6[1],
+    tgd: o6[2],
+    iodc: Number.NaN,
+    transmissionTime: last[0],
+    fitInterval: Number.NaN,
+    civil: {
+      top: o3[0],
+      uraEd: o6[0],
+      uraNed: [o5[2], o5[3], o6[3]],
+      isc: Object.fromEntries(Object.entries(isc).filter(([, value]) => Number.isFinite(value))),
+    },
+  }
+}
+
+// GLONASS layout: -TauN, +GammaN and message frame time on the epoch line, then X, Y and Z lines each holding
+// position (km), velocity (km/s), lunisolar acceleration (km/s^2) and health, frequency channel or age
+function parseGlonassRecord(
+  satellite: string,
+  toc: CalendarTime,
+  clock: number[],
+  orbits: number[][],
+  leapSeconds: number | null,
+): GlonassEphemeris {
+  const [o1, o2, o3] = orbits
+  const km = (x: number, y: number, z: number) => ({ x: x * 1000, y: y * 1000, z: z * 1000 })
+  return {
+    satellite,
+    toc,
+    // tb is given in UTC(SU), while observation epochs are matched in GPS time
+    toe: gpsWeekTow(toGpsSeconds(toc, "GLO", leapSeconds)).tow,
+    clockBias: clock[0],
+    relativeFrequencyBias: clock[1],
+    messageFrameTime: clock[2],
+    position: km(o1[0], o2[0], o3[0]),
+    velocity: km(o1[1], o2[1], o3[1]),
+    acceleration: km(o1[2], o2[2], o3[2]),
+    svHealth: o1[3],
+    frequencyChannel: o2[3],
+    ageOfOperation: o3[3],
+  }
+}
+
+function hasStateVector(record: GlonassEphemeris) {
+  return [record.position, record.velocity, record.acceleration].every((vector) =>
+    [vector.x, vector.y, vector.z].every(Number.isFinite),
+  )
+}
+
+// Index of the next RINEX 4 record header line at or after from
+function nextRecordHeader(lines: string[], from: number) {
+  let i = from
+  while (i < lines.length && !lines[i].startsWith(">")) i++
+  return i
+}
+
+function recordHeaderReporter(log: DiagnosticLog, record: Rinex4Record) {
+  return lineReporter(log, record.headerIndex, record.headerLine)
+}
+
+function recordLineReporter(log: DiagnosticLog, record: Rinex4Record, k: number) {
+  return lineReporter(log, record.headerIndex + 1 + k, record.lines[k])
+}
+
+// Checks a record has the data lines its type calls for; extra lines are reported but do not stop decoding
+function hasRecordLines(log: DiagnosticLog, record: Rinex4Record, count: number, maxCount = count) {
+  const { recordType, satellite, messageType, lines } = record
+  if (lines.length < count) {
+    recordHeaderReporter(log, record)(
+      "error",
+      null,
+      `${recordType} ${messageType} record for ${satellite} ends after ${lines.length} of ${count} data lines`,
+    )
+    return false
+  }
+  if (lines.length > maxCount) {
+    recordLineReporter(log, record, maxCount)(
+      "warning",
+      null,
+      `Unexpected line after the ${recordType} record for ${satellite}`,
+    )
+  }
+  return true
+}
+
+function parseRinex4Ephemeris(
+  log: DiagnosticLog,
+  record: Rinex4Record,
+  skipped: Set<string>,
+  records: NavigationRecords,
+  leapSeconds: number | null,
+) {
+  const system = record.satellite.charAt(0)
+  const layout = `${system} ${record.messageType}`
+  const count = RINEX4_EPHEMERIS_LAYOUTS[layout]
+
+  // SBAS and the BeiDou CNAV messages are skipped until their propagators exist
+  if (!count) {
+    if (!skipped.has(layout)) {
+      skipped.add(layout)
+      recordHeaderReporter(log, record)(
+        "info",
+        null,
+        `${SYSTEM_NAMES[system] ?? system} ${record.messageType} records are not used for positioning`,
+      )
+    }
+    return
+  }
+  if (!hasRecordLines(log, record, count + 1)) return
+
+  const epochLine = record.lines[0]
+  const satellite = column(epochLine, 0, 3).replace(" ", "0")
+  const toc = readRecordTime(epochLine)
+  if (!isValidEpochLine(satellite, toc)) {
+    recordLineReporter(log, record, 0)("error", 0, "Unreadable record epoch line")
+    return
+  }
+  if (satellite !== record.satellite) {
+    recordLineReporter(log, record, 0)(
+      "error",
+      0,
+      `Epoch line is for ${satellite} but the record is for ${record.satellite}`,
+    )
+    return
+  }
+
+  const clock = EPOCH_LINE_VALUE_COLUMNS.map((start) => parseFortranFloat(column(epochLine, start, start + 19)))
+  const orbits = record.lines
+    .slice(1, count + 1)
+    .map((orbitLine, k) => orbitValues(orbitLine, 4, recordLineReporter(log, record, k + 1)))
+
+  if (system === "R") {
+    const glonass = parseGlonassRecord(satellite, toc, clock, orbits, leapSeconds)
+    if (hasStateVector(glonass)) records.glonassEphemeris.push(glonass)
+    else
+      recordLineReporter(log, record, 0)("warning", 0, `Record for ${satellite} lacks a state vector and was ignored`)
+    return
+  }
+
+  const ephemeris =
+    record.messageType === "CNAV" || record.messageType === "CNV2"
+      ? parseCivilRecord(satellite, system, toc, clock, orbits, record.messageType)
+      : parseKeplerianRecord(satellite, system, toc, clock, orbits, record.messageType)
+  if (!hasKeplerianElements(ephemeris)) {
+    recordLineReporter(log, record, 0)(
+      "warning",
+      0,
+      `Record for ${satellite} lacks orbital elements and cannot be used`,
+    )
+  }
+  records.ephemeris.push(ephemeris)
+}
+
+// STO: reference epoch with 1X,A18 identifiers for the offset type, SBAS and UTC source, then t_tot, A0, A1, A2
+function parseTimeOffset(log: DiagnosticLog, record: Rinex4Record): SystemTimeOffset | null {
+  if (!hasRecordLines(log, record, 2)) return null
+  const [timeLine, valueLine] = record.lines
+  const epoch = readRecordTime(timeLine)
+  const type = column(timeLine, 24, 42).trim()
+  const [transmissionTime, a0, a1, a2] = orbitValues(valueLine, 4, recordLineReporter(log, record, 1))
+  if (!isValidEpochLine(record.satellite, epoch) || !type || ![a0, a1, a2].every(Number.isFinite)) {
+    recordLineReporter(log, record, 0)(
+      "warning",
+      0,
+      `Time offset record for ${record.satellite} is incomplete and was ignored`,
+    )
+    return null
+  }
+  return {
+    satellite: record.satellite,
+    messageType: record.messageType,
+    type,
+    epoch,
+    sbasId: column(timeLine, 43, 61).trim() || null,
+    utcId: column(timeLine, 62, 80).trim() || null,
+    transmissionTime,
+    a0,
+    a1,
+    a2,
+  }
+}
+
+// EOP: epoch and x pole terms, y pole terms after a blank field, then t_tm and the UT1-UTC terms
+function parseEarthOrientation(log: DiagnosticLog, record: Rinex4Record): EarthOrientationParameters | null {
+  if (!hasRecordLines(log, record, 3)) return null
+  const epoch = readRecordTime(record.lines[0])
+  const xp = fieldValues(record.lines[0], EPOCH_LINE_VALUE_COLUMNS, recordLineReporter(log, record, 0))
+  const yp = orbitValues(record.lines[1], 4, recordLineReporter(log, record, 1)).slice(1)
+  const [transmissionTime, ...dut1] = orbitValues(record.lines[2], 4, recordLineReporter(log, record, 2))
+  if (!isValidEpochLine(record.satellite, epoch) || ![...xp, ...yp, ...dut1].every(Number.isFinite)) {
+    recordLineReporter(log, record, 0)(
+      "warning",
+      0,
+      `Earth orientation record for ${record.satellite} is incomplete and was ignored`,
+    )
+    return null
+  }
+  return { satellite: record.satellite, messageType: record.messageType, epoch, transmissionTime, xp, yp, dut1 }
+}
+
+// ION: transmission time and the first three coefficients, then four per line; the count depends on the model
+function parseIonosphere(log: DiagnosticLog, record: Rinex4Record): IonosphereParameters | null {
+  if (!hasRecordLines(log, record, 1, 3)) return null
+  const epoch = readRecordTime(record.lines[0])
+  const values = [
+    ...fieldValues(record.lines[0], EPOCH_LINE_VALUE_COLUMNS, recordLineReporter(log, record, 0)),
+    ...record.lines.slice(1).flatMap((line, k) => orbitValues(line, 4, recordLineReporter(log, record, k + 1))),
+  ]
+  if (!isValidEpochLine(record.satellite, epoch)) {
+    recordLineReporter(log, record, 0)(
+      "warning",
+      0,
+      `Ionosphere record for ${record.satellite} has an unreadable epoch`,
+    )
+    return null
+  }
+  return {
+    satellite: record.satellite,
+    system: record.satellite.charAt(0),
+    messageType: record.messageType,
+    epoch,
+    coefficients: values.filter(Number.isFinite),
+  }
+}
+
+// RINEX 4 moved the correction header records into the data section; the latest of each kind is folded back
+// into the header model so consumers read one place whatever the version
+function foldIntoHeader(header: NavigationHeader, records: NavigationRecords) {
+  for (const ionosphere of records.ionosphere) {
+    const { system, messageType, coefficients } = ionosphere
+    const keys = KLOBUCHAR_HEADER_KEYS[`${system} ${messageType}`]
+    if (keys && coefficients.length >= 8) {
+      header.ionosphericCorrections[keys[0]] = coefficients.slice(0, 4)
+      header.ionosphericCorrections[keys[1]] = coefficients.slice(4, 8)
+    } else if (system === "E" && messageType === "IFNV" && coefficients.length >= 3) {
+      header.ionosphericCorrections.GAL = coefficients.slice(0, 3)
+    }
+  }
+
+  // Reference time and week are counted in GPS weeks from the polynomial's calendar epoch
+  const corrections = new Map(header.timeSystemCorrections.map((correction) => [correction.type, correction]))
+  for (const offset of records.timeOffsets) {
+    const { week, tow } = toGpsTime(offset.epoch)
+    corrections.set(offset.type, {
+      type: offset.type,
+      a0: offset.a0,
+      a1: offset.a1,
+      referenceTime: tow,
+      referenceWeek: week,
+    })
+  }
+  header.timeSystemCorrections = [...corrections.values()]
+}
+
+// RINEX 4 data section: each record opens with a "> EPH", "> STO", "> EOP" or "> ION" line naming the
+// satellite and message type, so a broken record never spills into the next one
+function parseRinex4Records(
+  lines: string[],
+  start: number,
+  log: DiagnosticLog,
+  records: NavigationRecords,
+  leapSeconds: number | null,
+) {
+  const skipped = new Set<string>()
+  let i = start
+
+  while (i < lines.length) {
+    const line = lines[i]
+    if (!line.trim()) {
+      i++
+      continue
+    }
+    const end = nextRecordHeader(lines, i + 1)
+    if (!line.startsWith(">")) {
+      report(log, "error", i, line, 0, 'Expected a record header starting with ">"; skipping to the next record')
+      i = end
+      continue
+    }
+
+    // Trailing blank lines belong to no record
+    let last = end
+    while (last > i + 1 && !lines[last - 1].trim()) last--
+    const [recordType = "", satellite = "", messageType = ""] = line.substring(1).trim().split(/\s+/)
+    const record: Rinex4Record = {
+      recordType,
+      satellite,
+      messageType,
+      headerIndex: i,
+      headerLine: line,
+      lines: lines.slice(i + 1, last),
+    }
+    const reportRecord = recordHeaderReporter(log, record)
+    i = end
+
+    if (!/^[A-Z]\d{2}$/.test(satellite) || !messageType) {
+      reportRecord("error", 2, "Record header lacks a satellite or message type; record skipped")
+      continue
+    }
+
+    switch (recordType) {
+      case "EPH":
+        parseRinex4Ephemeris(log, record, skipped, records, leapSeconds)
+        break
+      case "STO": {
+        const offset = parseTimeOffset(log, record)
+        if (offset) records.timeOffsets.push(offset)
+        break
+      }
+      case "EOP": {
+        const orientation = parseEarthOrientation(log, record)
+        if (orientation) records.earthOrientation.push(orientation)
+        break
+      }
+      case "ION": {
+        const ionosphere = parseIonosphere(log, record)
+        if (ionosphere) records.ionosphere.push(ionosphere)
+        break
+      }
+      default:
+        reportRecord("warning", 2, `Unknown record type "${recordType}" was skipped`)
+    }
+  }
+}
+
+// RINEX 2 and 3 data section: an epoch line followed by a system-dependent number of orbit lines
+function parseRinex2And3Records(
+  lines: string[],
+  start: number,
+  header: NavigationHeader,
+  log: DiagnosticLog,
+  records: NavigationRecords,
+  leapSeconds: number | null,
+) {
+  const rinexVersion = header.version
+  const fileSystem = rinexVersion >= 3 ? header.satelliteSystem : rinex2System(header.fileType)
+  const skippedSystems = new Set<string>()
+  let resyncing = false
+  let i = start
+
+  while (i < lines.length) {
+    const line = lines[i]
+    if (!line.trim()) {
+      i++
+      continue
+    }
+
+    let satellite: string
+    let toc: CalendarTime
+    let clock: number[]
+    let indent: number
+
+    if (rinexVersion >= 3) {
+      satellite = column(line, 0, 3).replace(" ", "0")
+      toc = readRecordTime(line)
+      clock = EPOCH_LINE_VALUE_COLUMNS.map((start) => parseFortranFloat(column(line, start, start + 19)))
+      indent = 4
+    } else {
+      const prn = parseFortranInt(column(line, 0, 2))
+      satellite = `${fileSystem}${String(prn).padStart(2, "0")}`
+      toc = {
+        year: expandTwoDigitYear(parseFortranInt(column(line, 2, 5))),
+        month: parseFortranInt(column(line, 5, 8)),
+        day: parseFortranInt(column(line, 8, 11)),
+        hour: parseFortranInt(column(line, 11, 14)),
+        minute: parseFortranInt(column(line, 14, 17)),
+        second: parseFortranFloat(column(line, 17, 22)),
+      }
+      clock = [22, 41, 60].map((start) => parseFortranFloat(column(line, start, start + 19)))
+      indent = 3
+    }
+
+    // Orbit lines cannot be told apart from a broken epoch line, so skip ahead to the next readable one
+    if (!isValidEpochLine(satellite, toc)) {
+      if (!resyncing) report(log, "error", i, line, 0, "Unreadable record epoch line; skipping to the next record")
+      resyncing = true
+      i++
+      continue
+    }
+    resyncing = false
+
+    const epochIndex = i
+    const system = satellite.charAt(0)
+    const count = orbitLineCount(system, rinexVersion)
+    const orbits = lines
+      .slice(i + 1, i + 1 + count)
+      .map((orbitLine, k) => orbitValues(orbitLine, indent, lineReporter(log, i + 1 + k, orbitLine)))
+    i += 1 + count
+
+    if (orbits.length < count) {
+      report(
+        log,
+        "error",
+        epochIndex,
+        line,
+        0,
+        `Record for ${satellite} ends after ${orbits.length} of ${count} orbit lines`,
+      )
+      continue
+    }
+
+    if (system === "R") {
+      const glonass = parseGlonassRecord(satellite, toc, clock, orbits, leapSeconds)
+      if (hasStateVector(glonass)) records.glonassEphemeris.push(glonass)
+      else report(log, "warning", epochIndex, line, 0, `Record for ${satellite} lacks a state vector and was ignored`)
+      continue
+    }
+
+    // SBAS state-vector records are skipped until their propagator exists
+    if (!KEPLERIAN_SYSTEMS.has(system)) {
+      if (!skippedSystems.has(system)) {
+        skippedSystems.add(system)
+        report(
+          log,
+          "info",
+          epochIndex,
+          line,
+          0,
+          `${SYSTEM_NAMES[system] ?? system} records are not used for positioning`,
+        )
+      }
+      continue
+    }
+
+    const record = parseKeplerianRecord(satellite, system, toc, clock, orbits, null)
+    if (!hasKeplerianElements(record)) {
+      report(log, "warning", epochIndex, line, 0, `Record for ${satellite} lacks orbital elements and cannot be used`)
+    }
+    records.ephemeris.push(record)
+  }
+}
+
+// file names the upload in diagnostics, since RINEX 2 GLONASS ephemeris comes in a file of its own
+export function parseRinexNavigation(
+  content: string,
+  options: ParseOptions = {},
+  file: DiagnosticFile = "navigation",
+): RinexNavigationFile {
+  const lines = content.split(/\r?\n/)
+  const records: NavigationRecords = {
+    ephemeris: [],
+    glonassEphemeris: [],
+    timeOffsets: [],
+    earthOrientation: [],
+    ionosphere: [],
+  }
+  const header = createNavigationHeader()
+  const log = createDiagnosticLog(file)
+  const reportHeader = lineReporter(log, 0, lines[0])
+  let endOfHeader = false
+  let i = 0
+
+  for (; i < lines.length; i++) {
+    const label = parseNavigationHeaderLine(header, lines[i], lineReporter(log, i, lines[i]))
+    if (i === 0 && label !== "RINEX VERSION / TYPE") {
+      reportHeader("error", 60, "First line is not a RINEX VERSION / TYPE record")
+    }
+    if (label === "END OF HEADER") {
+      endOfHeader = true
+      i++
+      break
+    }
+  }
+  if (!endOfHeader) reportHeader("error", null, "No END OF HEADER record found")
+
+  if (header.version >= 4) {
+    parseRinex4Records(lines, i, log, records, header.leapSeconds)
+    foldIntoHeader(header, records)
+  } else {
+    parseRinex2And3Records(lines, i, header, log, records, header.leapSeconds)
+  }
+
+  return { header, ...records, diagnostics: finishDiagnostics(log, options) }
+}
+
+// Combines navigation files of several systems, e.g. RINEX 2 GPS and GLONASS files or per-system RINEX 3 files.
+// The first file's header is kept, with the ionospheric and time system corrections only the second one carries.
+export function mergeNavigationFiles(
+  primary: RinexNavigationFile,
+  secondary: RinexNavigationFile,
+): RinexNavigationFile {
+  const corrections = new Set(primary.header.timeSystemCorrections.map((correction) => correction.type))
+  return {
+    header: {
+      ...primary.header,
+      ionosphericCorrections: { ...secondary.header.ionosphericCorrections, ...primary.header.ionosphericCorrections },
+      timeSystemCorrections: [
+        ...primary.header.timeSystemCorrections,
+        ...secondary.header.timeSystemCorrections.filter((correction) => !corrections.has(correction.type)),
+      ],
+      leapSeconds: primary.header.leapSeconds ?? secondary.header.leapSeconds,
+    },
+    ephemeris: [...primary.ephemeris, ...secondary.ephemeris],
+    glonassEphemeris: [...primary.glonassEphemeris, ...secondary.glonassEphemeris],
+    timeOffsets: [...primary.timeOffsets, ...secondary.timeOffsets],
+    earthOrientation: [...primary.earthOrientation, ...secondary.earthOrientation],
+    ionosphere: [...primary.ionosphere, ...secondary.ionosphere],
+    diagnostics: [...primary.diagnostics, ...secondary.diagnostics],
+  }
+}
@@ -0,0 +1,181 @@
+import { readFileSync } from "node:fs"
+import { describe, expect, it } from "vitest"
+import { type ObservationStore, missingReason, satelliteOf } from "../store"
+import { RinexParseError } from "./diagnostics"
+import { createObservationParser, parseRinexObservation, streamRinexObservation } from "./observation"
+
+const fixture = (name: string) => readFileSync(new URL(`../__fixtures__/${name}`, import.meta.url), "utf8")
+const station = fixture("station.24o")
+// station.24o with an event record of every kind between its epochs and a power failure flag on the second epoch
+const events = fixture("events.24o")
+// RINEX 3.04 mixed-system epoch with blank primary band fields and bands listed ahead of the primary one
+const mixed = fixture("mixed.24o")
+// 2024-01-07 00:00:00 GPS, the start of GPS week 2296
+const WEEK_START = 2296 * 604800
+
+// Copy of what a block holds, since the parser clears its store once the block is handed over
+function snapshot(store: ObservationStore) {
+  return {
+    epochs: [...store.epochs],
+    gpsTime: [...store.gpsTime.subarray(0, store.epochs.length)],
+    satellites: [...store.satellite.subarray(0, store.rowCount)].map((index) => store.satellites[index]),
+    pseudorange: [...store.primary.pseudorange.subarray(0, store.rowCount)],
+  }
+}
+
+// Replaces the text at a 0-based line index and column
+function corrupt(text: string, lineIndex: number, column: number, replacement: string) {
+  const lines = text.split("\n")
+  const line = lines[lineIndex]
+  lines[lineIndex] = line.slice(0, column) + replacement + line.slice(column + replacement.length)
+  return lines.join("\n")
+}
+
+describe("parseRinexObservation", () => {
+  it("reads every epoch of a clean file without diagnostics", () => {
+    const { header, observations, diagnostics } = parseRinexObservation(station)
+    expect(header.version).toBe(2.11)
+    expect(observations.epochs).toHaveLength(6)
+    expect(observations.rowCount).toBe(42)
+    expect(diagnostics).toEqual([])
+  })
+
+  describe("a malformed epoch record", () => {
+    // Minutes of the second epoch line, on line 29
+    const malformed = corrupt(station, 28, 13, "x")
+
+    it("is reported with its line and the other epochs are still read", () => {
+      const { observations, diagnostics } = parseRinexObservation(malformed)
+      expect(observations.epochs).toHaveLength(5)
+      expect(diagnostics).toHaveLength(1)
+      expect(diagnostics[0]).toMatchObject({ file: "observation", severity: "error", line: 29, column: 13 })
+      expect(diagnostics[0].text).toBe(malformed.split("\n")[28])
+    })
+
+    it("fails the parse in strict mode", () => {
+      expect(() => parseRinexObservation(malformed, { strict: true })).toThrow(RinexParseError)
+      try {
+        parseRinexObservation(malformed, { strict: true })
+      } catch (error) {
+        expect((error as RinexParseError).diagnostics).toEqual([expect.objectContaining({ line: 29 })])
+      }
+    })
+  })
+})
+
+describe("streamed observation parsing", () => {
+  const whole = snapshot(parseRinexObservation(station).observations)
+  const lines = station.split("\n")
+  // Line index of the third epoch record, where the second block starts
+  const boundary = lines.findIndex((line) => line.startsWith(" 24  1  7  0  1  0.0"))
+
+  it("hands over blocks that add up to the whole file", () => {
+    const blocks: ReturnType<typeof snapshot>[] = []
+    const parser = createObservationParser((store) => blocks.push(snapshot(store)), {}, 2)
+    for (const line of lines) parser.push(line)
+    const { epochCount, diagnostics } = parser.end()
+
+    expect(epochCount).toBe(6)
+    expect(diagnostics).toEqual([])
+    expect(blocks.map((block) => block.epochs.length)).toEqual([2, 2, 2])
+    expect(blocks.flatMap((block) => block.epochs)).toEqual(whole.epochs)
+    expect(blocks.flatMap((block) => block.gpsTime)).toEqual(whole.gpsTime)
+    expect(blocks.flatMap((block) => block.satellites)).toEqual(whole.satellites)
+    expect(blocks.flatMap((block) => block.pseudorange)).toEqual(whole.pseudorange)
+  })
+
+  it("reads chunks split at an epoch record", async () => {
+    async function* chunks() {
+      yield lines.slice(0, boundary)
+      yield lines.slice(boundary)
+    }
+    const blocks: ReturnType<typeof snapshot>[] = []
+    const { header, epochCount } = await streamRinexObservation(chunks(), (store) => blocks.push(snapshot(store)))
+
+    expect(boundary).toBeGreaterThan(0)
+    expect(header.observationTypes["*"]).toEqual(["C1", "L1", "L2", "P2", "C2", "S1", "S2"])
+    expect(epochCount).toBe(6)
+    expect(blocks).toEqual([whole])
+  })
+})
+
+describe("epoch flags", () => {
+  const { header, observations, events: records, diagnostics } = parseRinexObservation(events)
+
+  it("keeps event records out of the observations", () => {
+    expect(diagnostics).toEqual([])
+    expect(observations.epochs.map((epoch) => epoch.flag)).toEqual([0, 1, 0, 0, 0, 0])
+    expect([...observations.gpsTime.subarray(0, 6)]).toEqual([0, 30, 60, 90, 120, 150].map((s) => WEEK_START + s))
+    expect(observations.rowCount).toBe(42)
+  })
+
+  it("records each event at the epoch that follows it", () => {
+    expect(records.map(({ kind, epoch, gpsTime }) => ({ kind, epoch, gpsTime }))).toEqual([
+      { kind: "antenna-moving", epoch: 1, gpsTime: WEEK_START + 15 },
+      { kind: "power-failure", epoch: 1, gpsTime: WEEK_START + 30 },
+      { kind: "new-site", epoch: 2, gpsTime: WEEK_START + 45 },
+      { kind: "header-change", epoch: 3, gpsTime: WEEK_START + 75 },
+      { kind: "external-event", epoch: 3, gpsTime: WEEK_START + 80 },
+      { kind: "cycle-slip", epoch: 4, gpsTime: WEEK_START + 90 },
+    ])
+  })
+
+  it("keeps the comments, header records and cycle slip satellites of the events", () => {
+    expect(records[0].comments).toEqual(["ANTENNA MOVED TO PILLAR 2"])
+    expect(records[2].headerRecords).toEqual(["MARKER NAME", "APPROX POSITION XYZ"])
+    expect(records[3].headerRecords).toEqual(["ANTENNA: DELTA H/E/N"])
+    expect(records[5].satellites).toEqual(["G08"])
+  })
+
+  it("applies header records in the data to the header", () => {
+    expect(header.markerName).toBe("SITE2")
+    expect(header.approxPosition).toEqual({ x: 4027900, y: 307050, z: 4919480 })
+    expect(header.antennaDelta).toEqual({ height: 0.5, east: 0, north: 0 })
+  })
+})
+
+describe("primary observables", () => {
+  const { observations } = parseRinexObservation(mixed)
+  const rows = Object.fromEntries(
+    Array.from({ length: observations.rowCount }, (_, row) => [satelliteOf(observations, row), row]),
+  )
+  const primary = (satellite: string) => ({
+    pseudorange: observations.primary.pseudorange[rows[satellite]],
+    carrierPhase: observations.primary.carrierPhase[rows[satellite]],
+    snr: observations.primary.snr[rows[satellite]],
+  })
+
+  it("takes each system's values from its clock reference band", () => {
+    expect(primary("G08")).toEqual({ pseudorange: 22000001.25, carrierPhase: 115611111.75, snr: 45.5 })
+    expect(primary("R05")).toEqual({ pseudorange: 20100000.75, carrierPhase: 107500000.5, snr: 44 })
+    expect(primary("E11")).toEqual({ pseudorange: 23500001.375, carrierPhase: 123500000.25, snr: 46.5 })
+    // BeiDou B1I is band 2; band 1 is B1C
+    expect(primary("C19")).toEqual({ pseudorange: 21800001.75, carrierPhase: 113500000.125, snr: 43.25 })
+  })
+
+  it("leaves a blank primary band field missing instead of taking another band", () => {
+    const g01 = rows.G01
+    expect(observations.primary.pseudorange[g01]).toBeNaN()
+    expect(observations.primary.snr[g01]).toBeNaN()
+    expect(observations.primary.carrierPhase[g01]).toBe(110356700.5)
+    expect(missingReason(observations, g01, "pseudorange")).toBe("blank-field")
+    expect(missingReason(observations, g01, "snr")).toBe("blank-field")
+    expect(missingReason(observations, rows.C06, "pseudorange")).toBe("blank-field")
+  })
+
+  it("tells a band the header does not list from a blank field", () => {
+    expect(missingReason(observations, rows.E11, "carrierPhase")).toBeNull()
+    expect(missingReason(observations, rows.R05, "doppler")).toBe("not-in-header")
+    expect(missingReason(observations, rows.J01, "pseudorange")).toBe("not-in-header")
+    expect(missingReason(observations, rows.J01, "snr")).toBe("not-in-header")
+  })
+
+  it("reads BeiDou B1I from band 1 before RINEX 3.02", () => {
+    const rinex301 = mixed.replace("3.04", "3.01").replace("C1P S1P C2I L2I S2I", "C6I S6I C1I L1I S1I")
+    const { observations: renamed } = parseRinexObservation(rinex301)
+    const c19 = renamed.satellites.indexOf("C19")
+    expect(satelliteOf(renamed, c19)).toBe("C19")
+    expect(renamed.primary.pseudorange[c19]).toBe(21800001.75)
+    expect(renamed.primary.snr[c19]).toBe(43.25)
+  })
+})
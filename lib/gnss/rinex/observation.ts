@@ -0,0 +1,560 @@
+import type {
+  EpochTime,
+  ObservationEventKind,
+  ObservationEventRecord,
+  ObservationHeader,
+  ObservationStreamSummary,
+  PrimaryObservable,
+  RinexObservationFile,
+  SignalObservation,
+} from "../types"
+import {
+  type DiagnosticLog,
+  type ParseOptions,
+  type Reporter,
+  createDiagnosticLog,
+  finishDiagnostics,
+  lineReporter,
+  report,
+} from "./diagnostics"
+import {
+  column,
+  expandTwoDigitYear,
+  isMalformedNumber,
+  iterateLines,
+  parseFortranFloat,
+  parseFortranInt,
+} from "./fields"
+import {
+  type ObservationStore,
+  PRIMARY_OBSERVABLES,
+  addRow,
+  beginEpoch,
+  clearStore,
+  createObservationStore,
+  endEpoch,
+  satelliteOf,
+  setSignal,
+} from "../store"
+import { isPrimaryBand } from "../signals"
+import { toGpsSeconds } from "../time"
+import {
+  createObservationHeader,
+  createObservationHeaderState,
+  observationTimeSystem,
+  parseObservationHeaderLine,
+  validateObservationHeader,
+} from "./header"
+
+// RINEX 2 epoch header: up to 12 satellites per line, continued on following lines
+const RINEX2_SATS_PER_LINE = 12
+// RINEX 2 observation records: 5 observations of 16 columns (F14.3, LLI, SSI) per line
+const RINEX2_OBS_PER_LINE = 5
+const OBS_FIELD_WIDTH = 16
+// Epochs collected before a streamed store is handed on
+const STREAM_BLOCK_EPOCHS = 256
+
+// Special records by epoch flag; flag 0 is an ordinary epoch. Flag 1 epochs still carry observations,
+// flags 2-5 are followed by header records and flag 6 by cycle slip records in the observation layout.
+const EVENT_KINDS: Record<number, ObservationEventKind> = {
+  1: "power-failure",
+  2: "antenna-moving",
+  3: "new-site",
+  4: "header-change",
+  5: "external-event",
+  6: "cycle-slip",
+}
+const POWER_FAILURE_FLAG = 1
+const CYCLE_SLIP_FLAG = 6
+
+// Normalizes RINEX 2 satellite identifiers, where a blank system letter means GPS
+function normalizeSatellite(id: string) {
+  const system = id.charAt(0) === " " ? "G" : id.charAt(0)
+  return `${system}${id.substring(1).replace(" ", "0")}`
+}
+
+const SATELLITE_ID = /^[A-Z]\d{2}$/
+
+// Reads the F14.3,I1,I1 observation field starting at offset, null when the value is blank or unreadable
+function parseObservationField(line: string, offset: number, report: Reporter): SignalObservation | null {
+  const text = column(line, offset, offset + OBS_FIELD_WIDTH)
+  const value = parseFortranFloat(column(text, 0, 14))
+  if (isMalformedNumber(column(text, 0, 14), value)) report("warning", offset, "Unreadable observation value")
+  if (Number.isNaN(value)) return null
+  const lli = parseFortranInt(column(text, 14, 15))
+  const ssi = parseFortranInt(column(text, 15, 16))
+  return {
+    value,
+    lli: Number.isNaN(lli) ? null : lli,
+    ssi: Number.isNaN(ssi) ? null : ssi,
+  }
+}
+
+function observableKind(type: string): PrimaryObservable | null {
+  const kind = type.charAt(0)
+  if (kind === "C" || kind === "P") return "pseudorange"
+  if (kind === "L") return "carrierPhase"
+  if (kind === "D") return "doppler"
+  if (kind === "S") return "snr"
+  return null
+}
+
+// Picks the first code, phase, Doppler and signal strength observable on the system's primary band in header order,
+// recording why any of them stays missing instead of substituting one from another band
+function assignPrimaryObservables(store: ObservationStore, row: number, types: string[], version: number) {
+  const system = satelliteOf(store, row).charAt(0)
+  let available = 0
+  for (const type of types) {
+    const kind = observableKind(type)
+    if (!kind || !isPrimaryBand(system, type, version)) continue
+    available |= 1 << PRIMARY_OBSERVABLES.indexOf(kind)
+    const column = store.signals.get(type)
+    if (!column || Number.isNaN(column.values[row]) || !Number.isNaN(store.primary[kind][row])) continue
+    store.primary[kind][row] = column.values[row]
+    if (kind === "pseudorange") store.pseudorangeSignal[row] = column.id
+  }
+  store.notInHeader[row] = ~available & ((1 << PRIMARY_OBSERVABLES.length) - 1)
+}
+
+// Reads one observation field into the store; a row of -1 only checks the field
+function readObservationField(
+  store: ObservationStore,
+  row: number,
+  type: string,
+  line: string,
+  offset: number,
+  report: Reporter,
+) {
+  const signal = parseObservationField(line, offset, report)
+  if (signal && row !== -1) setSignal(store, row, type, signal.value, signal.lli, signal.ssi)
+}
+
+// Returns the 0-based column of the first out-of-range epoch field, or null when the epoch line is usable.
+// Event records (flags 2-5) may leave the whole epoch time blank.
+function invalidEpochColumn(epoch: EpochTime, columns: number[]) {
+  const { year, month, day, hour, minute, second } = epoch
+  const blankEvent = epoch.flag >= 2 && epoch.flag <= 5 && [year, month, day, hour, minute, second].every(Number.isNaN)
+  const checks = [
+    blankEvent || Number.isInteger(year),
+    blankEvent || (month >= 1 && month <= 12),
+    blankEvent || (day >= 1 && day <= 31),
+    blankEvent || (hour >= 0 && hour <= 23),
+    blankEvent || (minute >= 0 && minute <= 59),
+    blankEvent || (second >= 0 && second < 61),
+    epoch.flag >= 0 && epoch.flag <= 6,
+    epoch.numSats >= 0,
+  ]
+  const index = checks.indexOf(false)
+  return index === -1 ? null : columns[index]
+}
+
+// Start columns of year, month, day, hour, minute, second, flag and satellite count
+const RINEX2_EPOCH_COLUMNS = [1, 3, 6, 9, 12, 15, 28, 29]
+const RINEX3_EPOCH_COLUMNS = [2, 7, 10, 13, 16, 18, 31, 32]
+
+function readRinex2Epoch(line: string) {
+  const epoch: EpochTime = {
+    year: expandTwoDigitYear(parseFortranInt(column(line, 1, 3))),
+    month: parseFortranInt(column(line, 3, 6)),
+    day: parseFortranInt(column(line, 6, 9)),
+    hour: parseFortranInt(column(line, 9, 12)),
+    minute: parseFortranInt(column(line, 12, 15)),
+    second: parseFortranFloat(column(line, 15, 26)),
+    flag: parseFortranInt(column(line, 28, 29)),
+    numSats: parseFortranInt(column(line, 29, 32)),
+  }
+  const clockOffset = parseFortranFloat(column(line, 68, 80))
+  if (!Number.isNaN(clockOffset)) epoch.clockOffset = clockOffset
+  return epoch
+}
+
+// Absolute GPS time of an epoch written in the file's time system
+function epochGpsTime(epoch: EpochTime, header: ObservationHeader) {
+  return toGpsSeconds(epoch, observationTimeSystem(header), header.leapSeconds)
+}
+
+function isEventRecord(epoch: EpochTime) {
+  return epoch.flag >= 2 && epoch.flag <= 5
+}
+
+function rinex2LinesPerSatellite(observationTypes: string[]) {
+  return Math.max(1, Math.ceil(observationTypes.length / RINEX2_OBS_PER_LINE))
+}
+
+// Lines spanned by a RINEX 2 record: event flags 2-5 are followed by numSats header or comment lines,
+// observation epochs by satellite list continuations and the observation records of each satellite
+function rinex2RecordLength(epoch: EpochTime, linesPerSatellite: number) {
+  if (isEventRecord(epoch)) return 1 + epoch.numSats
+  const listLines = Math.max(1, Math.ceil(epoch.numSats / RINEX2_SATS_PER_LINE))
+  return listLines + epoch.numSats * linesPerSatellite
+}
+
+// Reads the satellite list of a RINEX 2 record, continued on extra lines for more than 12 satellites;
+// returns the satellites and the index of the first line after the list
+function readRinex2Satellites(lines: string[], start: number, epoch: EpochTime, log: DiagnosticLog) {
+  const satellites: string[] = []
+  let i = 1
+  let listLine = lines[0]
+  let listIndex = 0
+  for (let k = 0; k < epoch.numSats; k++) {
+    if (k > 0 && k % RINEX2_SATS_PER_LINE === 0) {
+      listIndex = i
+      listLine = lines[i] ?? ""
+      i++
+    }
+    const offset = 32 + (k % RINEX2_SATS_PER_LINE) * 3
+    const satellite = normalizeSatellite(column(listLine, offset, offset + 3).padEnd(3))
+    if (!SATELLITE_ID.test(satellite)) {
+      report(log, "error", start + listIndex, listLine, offset, `Unreadable satellite identifier "${satellite}"`)
+    }
+    satellites.push(satellite)
+  }
+  return { satellites, next: i }
+}
+
+// Parses one RINEX 2 observation record into the store; lines holds the record starting with its epoch line at
+// line index start, and is shorter than the record length only when the file ends inside it
+function parseRinex2Record(
+  lines: string[],
+  start: number,
+  epoch: EpochTime,
+  header: ObservationHeader,
+  store: ObservationStore,
+  log: DiagnosticLog,
+) {
+  const observationTypes = header.observationTypes["*"] ?? []
+  const linesPerSatellite = rinex2LinesPerSatellite(observationTypes)
+  const { satellites, next } = readRinex2Satellites(lines, start, epoch, log)
+  let i = next
+
+  if (i + satellites.length * linesPerSatellite > lines.length) {
+    const last = lines.length - 1
+    report(log, "error", start + last, lines[last], null, "File ends inside an epoch record")
+    return false
+  }
+
+  // One observation record per satellite, in epoch header order; fields of unreadable satellites are still checked
+  beginEpoch(store, epoch, epochGpsTime(epoch, header), start)
+  for (const satellite of satellites) {
+    const row = SATELLITE_ID.test(satellite) ? addRow(store, satellite) : -1
+    for (let k = 0; k < observationTypes.length; k++) {
+      const recordIndex = i + Math.floor(k / RINEX2_OBS_PER_LINE)
+      const recordLine = lines[recordIndex]
+      const offset = (k % RINEX2_OBS_PER_LINE) * OBS_FIELD_WIDTH
+      const reportField = lineReporter(log, start + recordIndex, recordLine)
+      readObservationField(store, row, observationTypes[k], recordLine, offset, reportField)
+    }
+    i += linesPerSatellite
+    if (row !== -1) assignPrimaryObservables(store, row, observationTypes, header.version)
+  }
+
+  return endEpoch(store)
+}
+
+// State carried from one RINEX 3 block to the next
+interface Rinex3BodyState {
+  stray: boolean
+  untypedSystems: Set<string>
+}
+
+// Receives a special record: its epoch line, the header records that follow it starting at line index start,
+// and the satellites of cycle slip records
+type EventReader = (epoch: EpochTime, lines: string[], start: number, satellites?: string[]) => void
+
+// Parses one RINEX 3 block into the store: an epoch record from its ">" line up to the next one, or the lines
+// before the first. Lines left over after the records are reported as stray. Returns whether an epoch was added.
+function parseRinex3Block(
+  lines: string[],
+  start: number,
+  header: ObservationHeader,
+  state: Rinex3BodyState,
+  store: ObservationStore,
+  log: DiagnosticLog,
+  readEvent: EventReader,
+) {
+  const typesBySystem = header.observationTypes
+  let added = false
+  let i = 0
+
+  const line = lines[0]
+  if (line.startsWith(">")) {
+    state.stray = false
+    const epoch: EpochTime = {
+      year: parseFortranInt(column(line, 2, 6)),
+      month: parseFortranInt(column(line, 7, 9)),
+      day: parseFortranInt(column(line, 10, 12)),
+      hour: parseFortranInt(column(line, 13, 15)),
+      minute: parseFortranInt(column(line, 16, 18)),
+      second: parseFortranFloat(column(line, 18, 29)),
+      flag: parseFortranInt(column(line, 31, 32)),
+      numSats: parseFortranInt(column(line, 32, 35)),
+    }
+    const clockOffset = parseFortranFloat(column(line, 41, 56))
+    if (!Number.isNaN(clockOffset)) epoch.clockOffset = clockOffset
+
+    // Records of an unreadable epoch are skipped up to the next ">" marker
+    const invalidColumn = invalidEpochColumn(epoch, RINEX3_EPOCH_COLUMNS)
+    if (invalidColumn !== null) {
+      report(log, "error", start, line, invalidColumn, "Unreadable epoch line; its records were skipped")
+      return false
+    }
+    i++
+
+    if (isEventRecord(epoch) || epoch.flag === CYCLE_SLIP_FLAG) {
+      const recordLines = lines.slice(i, i + epoch.numSats)
+      if (recordLines.length < epoch.numSats) {
+        report(log, "error", start, line, 32, `Event lists ${epoch.numSats} records but ${recordLines.length} follow`)
+      }
+      // Cycle slip records repeat the observation layout and never enter the observations
+      if (epoch.flag === CYCLE_SLIP_FLAG) {
+        const satellites = recordLines.map((recordLine) => column(recordLine, 0, 3).replace(" ", "0"))
+        readEvent(
+          epoch,
+          [],
+          start + i,
+          satellites.filter((satellite) => SATELLITE_ID.test(satellite)),
+        )
+      } else {
+        readEvent(epoch, recordLines, start + i)
+      }
+      i += recordLines.length
+    } else {
+      if (epoch.flag === POWER_FAILURE_FLAG) readEvent(epoch, [], start + i)
+      // One line per satellite, decoded with the observation types of its own system
+      beginEpoch(store, epoch, epochGpsTime(epoch, header), start)
+      let records = 0
+      for (; records < epoch.numSats && i < lines.length && lines[i].trim(); records++, i++) {
+        const recordLine = lines[i]
+        const satellite = column(recordLine, 0, 3).replace(" ", "0")
+        if (!SATELLITE_ID.test(satellite)) {
+          report(log, "error", start + i, recordLine, 0, `Unreadable satellite identifier "${satellite}"`)
+          continue
+        }
+        const system = satellite.charAt(0)
+        if (!typesBySystem[system] && !state.untypedSystems.has(system)) {
+          state.untypedSystems.add(system)
+          report(log, "warning", start + i, recordLine, 0, `Header declares no observation types for system ${system}`)
+        }
+        const types = typesBySystem[system] ?? []
+        const row = addRow(store, satellite)
+        const reportField = lineReporter(log, start + i, recordLine)
+
+        types.forEach((type, j) => {
+          readObservationField(store, row, type, recordLine, 3 + j * OBS_FIELD_WIDTH, reportField)
+        })
+        assignPrimaryObservables(store, row, types, header.version)
+      }
+      if (records < epoch.numSats) {
+        report(log, "error", start, line, 32, `Epoch lists ${epoch.numSats} satellites but ${records} records follow`)
+      }
+      added = endEpoch(store)
+    }
+  }
+
+  // Report only the first line of a stray block
+  for (; i < lines.length; i++) {
+    const strayLine = lines[i]
+    if (strayLine.trim() && !state.stray) {
+      report(log, "warning", start + i, strayLine, 0, "Line outside an epoch record was skipped")
+    }
+    state.stray = strayLine.trim() !== ""
+  }
+
+  return added
+}
+
+export interface ObservationParser {
+  header: ObservationHeader
+  push(line: string): void
+  end(): ObservationStreamSummary
+}
+
+// Incremental observation parser: lines are pushed as they are read and complete epochs are collected in a store,
+// handed to onBlock every blockEpochs epochs and then cleared, so memory stays bounded however long the file is.
+// The header passed along is as amended by event records up to the block's end.
+export function createObservationParser(
+  onBlock: (store: ObservationStore, header: ObservationHeader) => void,
+  options: ParseOptions = {},
+  blockEpochs = STREAM_BLOCK_EPOCHS,
+): ObservationParser {
+  const store = createObservationStore()
+  const header = createObservationHeader()
+  const headerState = createObservationHeaderState()
+  const log = createDiagnosticLog("observation")
+  const rinex3State: Rinex3BodyState = { stray: false, untypedSystems: new Set() }
+  const events: ObservationEventRecord[] = []
+  let versionLine = ""
+  let lastLine = ""
+  let lineIndex = 0
+  let endOfHeader = false
+  let epochCount = 0
+  // Body lines not parsed yet, the first of them at line index bufferStart
+  let buffer: string[] = []
+  let bufferStart = 0
+  // Epoch line at the head of a RINEX 2 buffer, read once while the rest of its record arrives
+  let pendingEpoch: EpochTime | null = null
+  let resyncing = false
+
+  function countEpoch(added: boolean) {
+    if (!added) return
+    epochCount++
+    if (store.epochs.length < blockEpochs) return
+    onBlock(store, header)
+    clearStore(store)
+  }
+
+  function consume(count: number) {
+    buffer = buffer.slice(count)
+    bufferStart += count
+    pendingEpoch = null
+  }
+
+  function readHeaderLine(line: string, index: number) {
+    const label = parseObservationHeaderLine(header, headerState, line, lineReporter(log, index, line))
+    if (index === 0) {
+      versionLine = line
+      if (label !== "RINEX VERSION / TYPE") {
+        report(log, "error", 0, line, 60, "First line is not a RINEX VERSION / TYPE record")
+      }
+    }
+    if (label === "END OF HEADER") {
+      endOfHeader = true
+      bufferStart = index + 1
+      validateObservationHeader(header, headerState, lineReporter(log, index, line))
+    }
+  }
+
+  // Records a special event at the next observation epoch. Header records that come with it are applied to the
+  // header, so a new site or a changed list of observation types holds for the epochs that follow.
+  function readEvent(epoch: EpochTime, lines: string[], start: number, satellites: string[] = []) {
+    const gpsTime = epochGpsTime(epoch, header)
+    const event: ObservationEventRecord = {
+      kind: EVENT_KINDS[epoch.flag],
+      epoch: epochCount,
+      gpsTime: Number.isNaN(gpsTime) ? null : gpsTime,
+      headerRecords: [],
+      comments: [],
+      satellites,
+    }
+    lines.forEach((line, k) => {
+      const label = parseObservationHeaderLine(header, headerState, line, lineReporter(log, start + k, line))
+      if (label === "COMMENT") event.comments.push(column(line, 0, 60).trim())
+      else if (label && !event.headerRecords.includes(label)) event.headerRecords.push(label)
+    })
+    events.push(event)
+  }
+
+  // Parses every RINEX 2 record the buffer holds in full; at the end of the file a partial record is reported
+  function drainRinex2(final: boolean) {
+    while (buffer.length > 0) {
+      const line = buffer[0]
+      if (!line.trim()) {
+        consume(1)
+        continue
+      }
+
+      // Without a readable epoch line the record length is unknown, so skip ahead to the next valid one
+      if (!pendingEpoch) {
+        const epoch = readRinex2Epoch(line)
+        const invalidColumn = invalidEpochColumn(epoch, RINEX2_EPOCH_COLUMNS)
+        if (invalidColumn !== null) {
+          if (!resyncing) {
+            report(log, "error", bufferStart, line, invalidColumn, "Unreadable epoch line; skipping to the next epoch")
+          }
+          resyncing = true
+          consume(1)
+          continue
+        }
+        resyncing = false
+        pendingEpoch = epoch
+      }
+
+      // Event records may change the observation types, so the layout is looked up for every record
+      const epoch = pendingEpoch
+      const length = rinex2RecordLength(epoch, rinex2LinesPerSatellite(header.observationTypes["*"] ?? []))
+      if (buffer.length < length && !final) return
+      const record = buffer.slice(0, length)
+      if (isEventRecord(epoch)) {
+        if (record.length < length) {
+          const last = record.length - 1
+          report(log, "error", bufferStart + last, record[last], null, "File ends inside an event record")
+        }
+        readEvent(epoch, record.slice(1), bufferStart + 1)
+      } else if (epoch.flag === CYCLE_SLIP_FLAG) {
+        // Cycle slip records repeat the observation layout and never enter the observations
+        const { satellites } = readRinex2Satellites(record, bufferStart, epoch, log)
+        readEvent(
+          epoch,
+          [],
+          bufferStart,
+          satellites.filter((satellite) => SATELLITE_ID.test(satellite)),
+        )
+      } else {
+        if (epoch.flag === POWER_FAILURE_FLAG) readEvent(epoch, [], bufferStart)
+        countEpoch(parseRinex2Record(record, bufferStart, epoch, header, store, log))
+      }
+      consume(length)
+    }
+  }
+
+  function flushRinex3Block() {
+    if (buffer.length === 0) return
+    countEpoch(parseRinex3Block(buffer, bufferStart, header, rinex3State, store, log, readEvent))
+    consume(buffer.length)
+  }
+
+  return {
+    header,
+
+    push(line: string) {
+      const index = lineIndex++
+      lastLine = line
+      if (!endOfHeader) {
+        readHeaderLine(line, index)
+        return
+      }
+      if (header.version >= 3) {
+        if (line.startsWith(">")) flushRinex3Block()
+        buffer.push(line)
+      } else {
+        buffer.push(line)
+        drainRinex2(false)
+      }
+    },
+
+    end() {
+      if (!endOfHeader) {
+        report(log, "error", 0, versionLine, null, "No END OF HEADER record found")
+        validateObservationHeader(header, headerState, lineReporter(log, Math.max(0, lineIndex - 1), lastLine))
+      } else if (header.version >= 3) {
+        flushRinex3Block()
+      } else {
+        drainRinex2(true)
+      }
+      if (store.epochs.length > 0) onBlock(store, header)
+      return { header, epochCount, events, diagnostics: finishDiagnostics(log, options) }
+    },
+  }
+}
+
+// Parses observation text already in memory into a single store
+export function parseRinexObservation(content: string, options: ParseOptions = {}): RinexObservationFile {
+  let observations = createObservationStore(0)
+  const parser = createObservationParser((store) => (observations = store), options, Number.POSITIVE_INFINITY)
+  for (const line of iterateLines(content)) parser.push(line)
+  const { header, events, diagnostics } = parser.end()
+  return { header, observations, events, diagnostics }
+}
+
+// Parses observation lines as they are read, e.g. from a decompressing upload stream
+export async function streamRinexObservation(
+  chunks: AsyncIterable<string[]>,
+  onBlock: (store: ObservationStore, header: ObservationHeader) => void,
+  options: ParseOptions = {},
+) {
+  const parser = createObservationParser(onBlock, options)
+  for await (const chunk of chunks) {
+    for (const line of chunk) parser.push(line)
+  }
+  return parser.end()
+}
@@ -0,0 +1,302 @@
+import { z } from "zod"
+
+// Runtime schema of the /api/process-rinex payload, the single source for the result types
+// used by the route and the dashboard
+
+export const threatLevelSchema = z.enum(["LOW", "MEDIUM", "HIGH", "CRITICAL"])
+
+export const detectorFindingSchema = z.object({
+  type: z.string(),
+  severity: z.enum(["Low", "Medium", "High"]),
+  count: z.number(),
+  description: z.string(),
+})
+
+// Absolute time of an epoch: UTC in ISO 8601 alongside GPS week and seconds of week
+export const epochTimestampSchema = z.object({
+  utc: z.string(),
+  gpsWeek: z.number(),
+  tow: z.number(),
+})
+
+export const positionFixSchema = z.object({
+  epoch: z.number(),
+  time: epochTimestampSchema,
+  x: z.number(),
+  y: z.number(),
+  z: z.number(),
+  // Degrees, and meters above the WGS84 ellipsoid and above the EGM96 geoid
+  latitude: z.number(),
+  longitude: z.number(),
+  height: z.number(),
+  orthometricHeight: z.number(),
+  // Meters from processingInfo.referencePosition along its local east, north and up directions
+  east: z.number(),
+  north: z.number(),
+  up: z.number(),
+  pdop: z.number(),
+  accuracy: z.number(),
+  numSats: z.number(),
+  clockBias: z.number().optional(),
+  gdop: z.number().optional(),
+  hdop: z.number().optional(),
+  vdop: z.number().optional(),
+  tdop: z.number().optional(),
+  residuals: z.record(z.number()).optional(),
+  residualRms: z.number().optional(),
+})
+
+// An epoch of the analyzed file and its time
+export const epochInstantSchema = z.object({ epoch: z.number(), time: epochTimestampSchema })
+
+// Topocentric direction of a satellite at an epoch, degrees; azimuth clockwise from north
+export const lookAngleSampleSchema = z.object({ epoch: z.number(), elevation: z.number(), azimuth: z.number() })
+
+// Run of consecutive epochs in which a satellite was tracked and positioned
+export const satelliteArcSchema = z.object({ start: epochInstantSchema, end: epochInstantSchema })
+
+// Why a primary observable has no value: the field was blank, or the header lists no such type on the system's
+// primary band
+export const missingReasonSchema = z.enum(["blank-field", "not-in-header"])
+
+// Epochs in which a primary observable had no value, by reason
+const missingCountsSchema = z.object({ "blank-field": z.number(), "not-in-header": z.number() })
+
+export const satelliteHealthSchema = z.object({
+  sv: z.string(),
+  health: z.number(),
+  snr: z.number().nullable(),
+  // Epochs the satellite was observed in, and how many of them lacked each primary observable
+  epochs: z.number(),
+  missing: z.object({
+    pseudorange: missingCountsSchema,
+    carrierPhase: missingCountsSchema,
+    doppler: missingCountsSchema,
+    snr: missingCountsSchema,
+  }),
+  // Means over every epoch, null when the satellite was never positioned
+  elevation: z.number().nullable(),
+  azimuth: z.number().nullable(),
+  // Track thinned to one sample per 30 s of each arc, with the arc's last epoch
+  lookAngles: z.array(lookAngleSampleSchema),
+  arcs: z.array(satelliteArcSchema),
+})
+
+export const signalSampleSchema = z.object({
+  epoch: z.number(),
+  time: epochTimestampSchema,
+  avgSnr: z.number().nullable(),
+  doppler: z.number().nullable(),
+  carrierPhase: z.number().nullable(),
+})
+
+const ecefSchema = z.object({ x: z.number(), y: z.number(), z: z.number() })
+
+export const headerTimeSchema = z.object({
+  year: z.number(),
+  month: z.number(),
+  day: z.number(),
+  hour: z.number(),
+  minute: z.number(),
+  second: z.number(),
+  timeSystem: z.string(),
+})
+
+export const observationHeaderSchema = z.object({
+  version: z.number(),
+  fileType: z.string(),
+  satelliteSystem: z.string(),
+  markerName: z.string().nullable(),
+  markerNumber: z.string().nullable(),
+  receiver: z.object({ number: z.string(), type: z.string(), version: z.string() }).nullable(),
+  antenna: z.object({ number: z.string(), type: z.string() }).nullable(),
+  approxPosition: ecefSchema.nullable(),
+  antennaDelta: z.object({ height: z.number(), east: z.number(), north: z.number() }).nullable(),
+  interval: z.number().nullable(),
+  timeOfFirstObs: headerTimeSchema.nullable(),
+  timeOfLastObs: headerTimeSchema.nullable(),
+  glonassSlots: z.record(z.number()),
+  leapSeconds: z.number().nullable(),
+  // Keyed by system letter; RINEX 2 lists apply to every system and are stored under "*"
+  observationTypes: z.record(z.array(z.string())),
+})
+
+export const timeSystemCorrectionSchema = z.object({
+  type: z.string(), // GPUT, GAGP, ... (RINEX 2 DELTA-UTC is reported as GPUT)
+  a0: z.number(),
+  a1: z.number(),
+  referenceTime: z.number(),
+  referenceWeek: z.number(),
+})
+
+export const navigationHeaderSchema = z.object({
+  version: z.number(),
+  fileType: z.string(),
+  satelliteSystem: z.string(),
+  // Keyed by correction type (GPSA, GPSB, GAL, BDSA, ...); RINEX 2 ION ALPHA/BETA map to GPSA/GPSB
+  ionosphericCorrections: z.record(z.array(z.number())),
+  timeSystemCorrections: z.array(timeSystemCorrectionSchema),
+  leapSeconds: z.number().nullable(),
+})
+
+// Special record in the observation data, from its epoch flag: power failure (1), antenna moving (2),
+// new site occupation (3), header records (4), external event (5) or cycle slip records (6)
+export const observationEventKindSchema = z.enum([
+  "power-failure",
+  "antenna-moving",
+  "new-site",
+  "header-change",
+  "external-event",
+  "cycle-slip",
+])
+
+export const observationEventSchema = z.object({
+  kind: observationEventKindSchema,
+  epoch: z.number(), // index of the first observation epoch at or after the event
+  time: epochTimestampSchema.nullable(), // null when the record leaves its time blank
+  headerRecords: z.array(z.string()), // labels of the header records it changes
+  comments: z.array(z.string()),
+  satellites: z.array(z.string()), // satellites with cycle slip records
+})
+
+// Problem found while reading a RINEX file; line and column are 1-based, column is null when the whole line is affected
+export const parseDiagnosticSchema = z.object({
+  file: z.enum(["observation", "navigation", "glonass-navigation"]),
+  severity: z.enum(["error", "warning", "info"]),
+  line: z.number(),
+  column: z.number().nullable(),
+  message: z.string(),
+  text: z.string(),
+})
+
+// File kinds recognized from content when files are uploaded, independent of their names
+export const fileKindSchema = z.enum([
+  "observation",
+  "navigation",
+  "glonass-navigation",
+  "meteorological",
+  "sp3",
+  "nmea",
+  "ubx",
+  "unknown",
+])
+
+// One file found in the upload after unpacking archives, and whether the analysis used it
+export const receivedFileSchema = z.object({
+  name: z.string(),
+  kind: fileKindSchema,
+  used: z.boolean(),
+})
+
+// Atmospheric delay models selectable per analysis. "ntcm-g" takes the Galileo broadcast coefficients.
+export const ionosphereModelSchema = z.enum(["none", "klobuchar", "ntcm-g"])
+export const troposphereModelSchema = z.enum(["none", "saastamoinen"])
+
+export const atmosphereModelsSchema = z.object({
+  ionosphere: ionosphereModelSchema.default("klobuchar"),
+  troposphere: troposphereModelSchema.default("saastamoinen"),
+})
+
+// Measurement weighting of the position solution and the cut-offs that leave satellites out of it: elevation mask in
+// degrees, minimum C/N0 in dB-Hz with zero keeping every satellite. Form fields arrive as strings.
+export const weightingSchemeSchema = z.enum(["equal", "elevation", "sigma-epsilon"])
+
+export const weightingOptionsSchema = z.object({
+  weighting: weightingSchemeSchema.default("elevation"),
+  elevationMask: z.coerce.number().min(0).max(90).default(10),
+  minCn0: z.coerce.number().min(0).max(100).default(0),
+})
+
+export const analysisOptionsSchema = atmosphereModelsSchema.merge(weightingOptionsSchema)
+
+// Universal Transverse Mercator grid position, meters; band is the MGRS latitude band letter
+export const utmCoordinateSchema = z.object({
+  zone: z.number(),
+  band: z.string(),
+  easting: z.number(),
+  northing: z.number(),
+})
+
+// Origin of the local east, north and up offsets of the position fixes
+export const referencePositionSchema = z.object({
+  source: z.enum(["approximate-position", "median-solution"]),
+  x: z.number(),
+  y: z.number(),
+  z: z.number(),
+  latitude: z.number(),
+  longitude: z.number(),
+  height: z.number(),
+  orthometricHeight: z.number(),
+  utm: utmCoordinateSchema.nullable(),
+  mgrs: z.string().nullable(),
+})
+
+export const processingInfoSchema = z.object({
+  totalEpochs: z.number(),
+  totalSatellites: z.number(),
+  avgSatellitesPerEpoch: z.number(),
+  dataQuality: z.string(),
+  observationHeader: observationHeaderSchema.optional(),
+  navigationHeader: navigationHeaderSchema.optional(),
+  // Models applied, which fall back to none when the navigation file lacks their coefficients
+  atmosphere: atmosphereModelsSchema.optional(),
+  weighting: weightingOptionsSchema.optional(),
+  referencePosition: referencePositionSchema.optional(),
+  files: z.array(receivedFileSchema).optional(),
+})
+
+export const analysisResultSchema = z.object({
+  synthetic: z.boolean(),
+  threatLevel: threatLevelSchema,
+  spoofingProbability: z.number(),
+  flaggedEpochs: z.array(epochInstantSchema),
+  positionJumps: z.array(z.number()),
+  highPdop: z.array(z.number()),
+  pdopValues: z.array(z.number()),
+  satelliteHealth: z.array(satelliteHealthSchema),
+  positionData: z.array(positionFixSchema),
+  signalData: z.array(signalSampleSchema),
+  events: z.array(observationEventSchema),
+  anomalies: z.array(detectorFindingSchema),
+  recommendations: z.array(z.string()),
+  processingInfo: processingInfoSchema,
+  diagnostics: z.array(parseDiagnosticSchema),
+})
+
+export const apiErrorSchema = z.object({
+  error: z.string(),
+  code: z.string().optional(),
+  diagnostics: z.array(parseDiagnosticSchema).optional(),
+  files: z.array(receivedFileSchema).optional(),
+})
+
+export type ThreatLevel = z.infer<typeof threatLevelSchema>
+export type DetectorFinding = z.infer<typeof detectorFindingSchema>
+export type EpochTimestamp = z.infer<typeof epochTimestampSchema>
+export type PositionFix = z.infer<typeof positionFixSchema>
+export type EpochInstant = z.infer<typeof epochInstantSchema>
+export type LookAngleSample = z.infer<typeof lookAngleSampleSchema>
+export type SatelliteArc = z.infer<typeof satelliteArcSchema>
+export type MissingReason = z.infer<typeof missingReasonSchema>
+export type SatelliteHealth = z.infer<typeof satelliteHealthSchema>
+export type SignalSample = z.infer<typeof signalSampleSchema>
+export type ObservationEventKind = z.infer<typeof observationEventKindSchema>
+export type ObservationEvent = z.infer<typeof observationEventSchema>
+export type HeaderTime = z.infer<typeof headerTimeSchema>
+export type ObservationHeader = z.infer<typeof observationHeaderSchema>
+export type TimeSystemCorrection = z.infer<typeof timeSystemCorrectionSchema>
+export type NavigationHeader = z.infer<typeof navigationHeaderSchema>
+export type ParseDiagnostic = z.infer<typeof parseDiagnosticSchema>
+export type FileKind = z.infer<typeof fileKindSchema>
+export type ReceivedFile = z.infer<typeof receivedFileSchema>
+export type IonosphereModel = z.infer<typeof ionosphereModelSchema>
+export type TroposphereModel = z.infer<typeof troposphereModelSchema>
+export type AtmosphereModels = z.infer<typeof atmosphereModelsSchema>
+export type WeightingScheme = z.infer<typeof weightingSchemeSchema>
+export type WeightingOptions = z.infer<typeof weightingOptionsSchema>
+export type AnalysisOptions = z.infer<typeof analysisOptionsSchema>
+export type UtmCoordinate = z.infer<typeof utmCoordinateSchema>
+export type ReferencePosition = z.infer<typeof referencePositionSchema>
+export type ProcessingInfo = z.infer<typeof processingInfoSchema>
+export type AnalysisResult = z.infer<typeof analysisResultSchema>
+export type ApiError = z.infer<typeof apiErrorSchema>
@@ -0,0 +1,61 @@
+import {
+  BEIDOU_B1I_FREQUENCY,
+  BEIDOU_B3I_FREQUENCY,
+  GALILEO_E5B_FREQUENCY,
+  GALILEO_E5_FREQUENCY,
+  GALILEO_E6_FREQUENCY,
+  GLONASS_L3_FREQUENCY,
+  GPS_L1_FREQUENCY,
+  GPS_L2_FREQUENCY,
+  GPS_L5_FREQUENCY,
+} from "./constants"
+import { glonassCarrierFrequency } from "./glonass"
+
+// Carrier frequency of each RINEX observation band, by satellite system (RINEX 3.05, Section 5.1)
+const CARRIER_FREQUENCIES: Record<string, Record<string, number>> = {
+  G: { "1": GPS_L1_FREQUENCY, "2": GPS_L2_FREQUENCY, "5": GPS_L5_FREQUENCY },
+  J: { "1": GPS_L1_FREQUENCY, "2": GPS_L2_FREQUENCY, "5": GPS_L5_FREQUENCY, "6": GALILEO_E6_FREQUENCY },
+  S: { "1": GPS_L1_FREQUENCY, "5": GPS_L5_FREQUENCY },
+  I: { "5": GPS_L5_FREQUENCY },
+  E: {
+    "1": GPS_L1_FREQUENCY,
+    "5": GPS_L5_FREQUENCY,
+    "6": GALILEO_E6_FREQUENCY,
+    "7": GALILEO_E5B_FREQUENCY,
+    "8": GALILEO_E5_FREQUENCY,
+  },
+  // Band 1 is B1C; B1I is band 2, see currentObservationType
+  C: {
+    "1": GPS_L1_FREQUENCY,
+    "2": BEIDOU_B1I_FREQUENCY,
+    "5": GPS_L5_FREQUENCY,
+    "6": BEIDOU_B3I_FREQUENCY,
+    "7": GALILEO_E5B_FREQUENCY,
+    "8": GALILEO_E5_FREQUENCY,
+  },
+  R: { "3": GLONASS_L3_FREQUENCY },
+}
+
+// RINEX before 3.02 put BeiDou B1I in band 1, where later versions have B1C; such types are renamed to band 2
+export function currentObservationType(system: string, type: string, version: number) {
+  return system === "C" && version < 3.02 && type.charAt(1) === "1" ? `${type.charAt(0)}2${type.substring(2)}` : type
+}
+
+// Band whose signals the broadcast clock and group delay terms are applied to (see clock.ts): L1 C/A or P(Y) for
+// GPS, QZSS, SBAS and GLONASS, E1 for Galileo, B1I for BeiDou and L5 for NavIC
+const PRIMARY_BANDS: Record<string, string> = { G: "1", J: "1", S: "1", R: "1", E: "1", C: "2", I: "5" }
+
+// True when an observation type is on the band the primary observables of its system are taken from
+export function isPrimaryBand(system: string, type: string, version: number) {
+  return currentObservationType(system, type, version).charAt(1) === PRIMARY_BANDS[system]
+}
+
+// Carrier frequency of an observation type in Hz, or null when the band is unknown. GLONASS L1 and L2 are FDMA
+// and need the satellite's frequency channel from its ephemeris.
+export function carrierFrequency(system: string, type: string, glonassChannel: number | null = null) {
+  const band = type.charAt(1)
+  if (system === "R" && (band === "1" || band === "2")) {
+    return glonassChannel === null ? null : glonassCarrierFrequency(glonassChannel, band === "1" ? 1 : 2)
+  }
+  return CARRIER_FREQUENCIES[system]?.[band] ?? null
+}
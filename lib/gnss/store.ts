@@ -0,0 +1,179 @@
+import type { EpochTime, MissingReason, PrimaryObservable } from "./types"
+
+// Columnar observation storage: one row per satellite observation, each quantity in a typed array indexed by row.
+// Rows of an epoch are contiguous; epoch headers are few next to the rows and stay objects.
+
+// LLI or SSI that was left blank
+export const NO_FLAG = 0xff
+
+export const PRIMARY_OBSERVABLES: PrimaryObservable[] = ["pseudorange", "carrierPhase", "doppler", "snr"]
+
+const INITIAL_ROWS = 1024
+
+// One observation type, e.g. C1C: the value in its unit (NaN when not observed) and the LLI and SSI flags
+export interface SignalColumn {
+  id: number // index in signalTypes
+  values: Float64Array
+  lli: Uint8Array
+  ssi: Uint8Array
+}
+
+export interface ObservationStore {
+  epochs: EpochTime[]
+  gpsTime: Float64Array // seconds since the GPS epoch in GPS time, per epoch
+  epochLine: Uint32Array // 0-based line index of each epoch's record in the file
+  epochStart: Uint32Array // first row of each epoch; the entry after the last epoch is rowCount
+  rowCount: number
+  capacity: number
+  // Satellite index table, kept when the store is cleared so indexes stay valid across streamed blocks
+  satellites: string[]
+  satelliteIds: Map<string, number>
+  satellite: Uint16Array // satellite index of each row
+  signals: Map<string, SignalColumn>
+  signalTypes: string[] // observation type of each signal column, by id
+  // First code, phase, Doppler and signal strength observable of each row on its system's primary band (see
+  // isPrimaryBand) in header order, NaN when missing
+  primary: Record<PrimaryObservable, Float64Array>
+  pseudorangeSignal: Uint8Array // signal column id of the primary pseudorange, read only where one is present
+  // Bit k set when PRIMARY_OBSERVABLES[k] is missing because the header lists no such type on the primary band
+  notInHeader: Uint8Array
+}
+
+function grow<T extends Float64Array | Uint32Array | Uint16Array | Uint8Array>(
+  array: T,
+  length: number,
+  fill?: number,
+) {
+  const grown = new (array.constructor as new (length: number) => T)(length)
+  grown.set(array)
+  if (fill !== undefined) grown.fill(fill, array.length)
+  return grown
+}
+
+function createSignalColumn(id: number, capacity: number): SignalColumn {
+  return {
+    id,
+    values: new Float64Array(capacity).fill(Number.NaN),
+    lli: new Uint8Array(capacity).fill(NO_FLAG),
+    ssi: new Uint8Array(capacity).fill(NO_FLAG),
+  }
+}
+
+export function createObservationStore(capacity = INITIAL_ROWS): ObservationStore {
+  return {
+    epochs: [],
+    gpsTime: new Float64Array(INITIAL_ROWS),
+    epochLine: new Uint32Array(INITIAL_ROWS),
+    epochStart: new Uint32Array(INITIAL_ROWS),
+    rowCount: 0,
+    capacity,
+    satellites: [],
+    satelliteIds: new Map(),
+    satellite: new Uint16Array(capacity),
+    signals: new Map(),
+    signalTypes: [],
+    primary: {
+      pseudorange: new Float64Array(capacity).fill(Number.NaN),
+      carrierPhase: new Float64Array(capacity).fill(Number.NaN),
+      doppler: new Float64Array(capacity).fill(Number.NaN),
+      snr: new Float64Array(capacity).fill(Number.NaN),
+    },
+    pseudorangeSignal: new Uint8Array(capacity),
+    notInHeader: new Uint8Array(capacity),
+  }
+}
+
+// Empties the store for the next block of a stream, keeping its arrays and the satellite index table
+export function clearStore(store: ObservationStore) {
+  const rows = store.rowCount
+  store.epochs = []
+  store.rowCount = 0
+  for (const column of store.signals.values()) {
+    column.values.fill(Number.NaN, 0, rows)
+    column.lli.fill(NO_FLAG, 0, rows)
+    column.ssi.fill(NO_FLAG, 0, rows)
+  }
+  for (const kind of PRIMARY_OBSERVABLES) store.primary[kind].fill(Number.NaN, 0, rows)
+  store.notInHeader.fill(0, 0, rows)
+}
+
+function reserveRow(store: ObservationStore) {
+  if (store.rowCount < store.capacity) return
+  const capacity = Math.max(INITIAL_ROWS, store.capacity * 2)
+  store.satellite = grow(store.satellite, capacity)
+  for (const column of store.signals.values()) {
+    column.values = grow(column.values, capacity, Number.NaN)
+    column.lli = grow(column.lli, capacity, NO_FLAG)
+    column.ssi = grow(column.ssi, capacity, NO_FLAG)
+  }
+  for (const kind of PRIMARY_OBSERVABLES) store.primary[kind] = grow(store.primary[kind], capacity, Number.NaN)
+  store.pseudorangeSignal = grow(store.pseudorangeSignal, capacity)
+  store.notInHeader = grow(store.notInHeader, capacity)
+  store.capacity = capacity
+}
+
+// Starts an epoch whose record begins at line index line; rows added until the next one belong to it
+export function beginEpoch(store: ObservationStore, epoch: EpochTime, gpsTime: number, line: number) {
+  const index = store.epochs.length
+  if (index + 2 > store.epochStart.length) {
+    store.epochStart = grow(store.epochStart, store.epochStart.length * 2)
+    store.gpsTime = grow(store.gpsTime, store.epochStart.length)
+    store.epochLine = grow(store.epochLine, store.epochStart.length)
+  }
+  store.epochs.push(epoch)
+  store.gpsTime[index] = gpsTime
+  store.epochLine[index] = line
+  store.epochStart[index] = store.rowCount
+  store.epochStart[index + 1] = store.rowCount
+}
+
+// Closes the current epoch, dropping it when no satellite row was added; returns whether it was kept
+export function endEpoch(store: ObservationStore) {
+  const index = store.epochs.length - 1
+  if (store.epochStart[index] < store.rowCount) return true
+  store.epochs.pop()
+  return false
+}
+
+export function addRow(store: ObservationStore, satellite: string) {
+  reserveRow(store)
+  let id = store.satelliteIds.get(satellite)
+  if (id === undefined) {
+    id = store.satellites.length
+    store.satellites.push(satellite)
+    store.satelliteIds.set(satellite, id)
+  }
+  const row = store.rowCount++
+  store.satellite[row] = id
+  store.epochStart[store.epochs.length] = store.rowCount
+  return row
+}
+
+export function setSignal(
+  store: ObservationStore,
+  row: number,
+  type: string,
+  value: number,
+  lli: number | null,
+  ssi: number | null,
+) {
+  let column = store.signals.get(type)
+  if (!column) {
+    column = createSignalColumn(store.signalTypes.length, store.capacity)
+    store.signals.set(type, column)
+    store.signalTypes.push(type)
+  }
+  column.values[row] = value
+  column.lli[row] = lli ?? NO_FLAG
+  column.ssi[row] = ssi ?? NO_FLAG
+}
+
+export function satelliteOf(store: ObservationStore, row: number) {
+  return store.satellites[store.satellite[row]]
+}
+
+// Why a primary observable of a row has no value, or null when it has one
+export function missingReason(store: ObservationStore, row: number, kind: PrimaryObservable): MissingReason | null {
+  if (!Number.isNaN(store.primary[kind][row])) return null
+  return store.notInHeader[row] & (1 << PRIMARY_OBSERVABLES.indexOf(kind)) ? "not-in-header" : "blank-field"
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest"
+import { dayOfYear, epochTimestamp, gpsWeekTow, leapSecondsAtUtc, systemTimeOfWeek, toGpsSeconds } from "./time"
+
+const midnight = (year: number, month: number, day: number) => ({ year, month, day, hour: 0, minute: 0, second: 0 })
+
+describe("toGpsSeconds", () => {
+  it("starts BeiDou time 14 s into GPS week 1356 (BDS-SIS-ICD 4.2)", () => {
+    // BDT week 0 began at 2006-01-01 00:00:00 UTC, a Sunday, which opens GPS week 1356
+    expect(gpsWeekTow(toGpsSeconds(midnight(2006, 1, 1), "BDT"))).toEqual({ week: 1356, tow: 14 })
+  })
+
+  it("adds the leap seconds to UTC-based scales", () => {
+    // GPS-UTC has been 18 s since 2017
+    expect(gpsWeekTow(toGpsSeconds(midnight(2024, 1, 7), "GLO"))).toEqual({ week: 2296, tow: 18 })
+    expect(gpsWeekTow(toGpsSeconds(midnight(2024, 1, 7), "UTC", 17))).toEqual({ week: 2296, tow: 17 })
+  })
+
+  it("reads Galileo, QZSS and GPS calendars alike", () => {
+    for (const system of ["GPS", "GAL", "QZS"]) {
+      expect(gpsWeekTow(toGpsSeconds(midnight(1999, 8, 22), system))).toEqual({ week: 1024, tow: 0 })
+    }
+  })
+})
+
+describe("systemTimeOfWeek", () => {
+  it("keeps GPS seconds of week for Galileo and shifts BeiDou back by 14 s", () => {
+    expect(systemTimeOfWeek(345600, "E")).toBe(345600)
+    expect(systemTimeOfWeek(345614, "C")).toBe(345600)
+  })
+
+  it("wraps BeiDou time into the previous week", () => {
+    expect(systemTimeOfWeek(4, "C")).toBe(604790)
+  })
+})
+
+describe("leap seconds", () => {
+  it("steps GPS-UTC at the start of 2017", () => {
+    expect(leapSecondsAtUtc(Date.UTC(2016, 11, 31, 23, 59, 59))).toBe(17)
+    expect(leapSecondsAtUtc(Date.UTC(2017, 0, 1))).toBe(18)
+  })
+
+  it("turns GPS time back into UTC", () => {
+    const gpsSeconds = toGpsSeconds(midnight(2024, 1, 7), "UTC")
+    expect(epochTimestamp(gpsSeconds)).toEqual({ utc: "2024-01-07T00:00:00.000Z", gpsWeek: 2296, tow: 18 })
+  })
+})
+
+describe("dayOfYear", () => {
+  it("counts February 29th in a leap year", () => {
+    expect(dayOfYear(toGpsSeconds({ ...midnight(2024, 3, 1), hour: 6 }, "GPS"))).toEqual({
+      day: 61,
+      secondsOfDay: 21600,
+    })
+  })
+})
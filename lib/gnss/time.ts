@@ -0,0 +1,114 @@
+import { SECONDS_PER_WEEK } from "./constants"
+import type { EpochTimestamp } from "./schema"
+
+export interface CalendarTime {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+export interface GpsTime {
+  week: number
+  tow: number // seconds of week
+}
+
+// GPS time started at 1980-01-06 00:00:00 UTC
+const GPS_EPOCH_MS = Date.UTC(1980, 0, 6, 0, 0, 0)
+
+// GPS-UTC in seconds from each leap second on, keyed by the UTC date it took effect (IERS Bulletin C)
+const LEAP_SECONDS: Array<[number, number]> = [
+  [Date.UTC(1981, 6, 1), 1],
+  [Date.UTC(1982, 6, 1), 2],
+  [Date.UTC(1983, 6, 1), 3],
+  [Date.UTC(1985, 6, 1), 4],
+  [Date.UTC(1988, 0, 1), 5],
+  [Date.UTC(1990, 0, 1), 6],
+  [Date.UTC(1991, 0, 1), 7],
+  [Date.UTC(1992, 6, 1), 8],
+  [Date.UTC(1993, 6, 1), 9],
+  [Date.UTC(1994, 6, 1), 10],
+  [Date.UTC(1996, 0, 1), 11],
+  [Date.UTC(1997, 6, 1), 12],
+  [Date.UTC(1999, 0, 1), 13],
+  [Date.UTC(2006, 0, 1), 14],
+  [Date.UTC(2009, 0, 1), 15],
+  [Date.UTC(2012, 6, 1), 16],
+  [Date.UTC(2015, 6, 1), 17],
+  [Date.UTC(2017, 0, 1), 18],
+]
+
+// BeiDou time started at 2006-01-01 00:00:00 UTC, when GPS time was already 14 s ahead of UTC
+export const BDT_GPS_OFFSET = 14
+
+// Seconds from the GPS epoch to a calendar time, reading the calendar in the same time scale
+function calendarSeconds(time: CalendarTime) {
+  const wholeSeconds = Math.floor(time.second)
+  const ms = Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, wholeSeconds) - GPS_EPOCH_MS
+  return ms / 1000 + (time.second - wholeSeconds)
+}
+
+// GPS-UTC at a UTC instant given in milliseconds since 1970, from the built-in table
+export function leapSecondsAtUtc(utcMs: number) {
+  let leapSeconds = 0
+  for (const [since, offset] of LEAP_SECONDS) if (utcMs >= since) leapSeconds = offset
+  return leapSeconds
+}
+
+// GPS-UTC at a GPS instant in seconds since the GPS epoch; a leap second takes effect at its UTC date, which
+// GPS time reaches the new offset later
+function leapSecondsAtGps(gpsSeconds: number) {
+  const gpsMs = GPS_EPOCH_MS + gpsSeconds * 1000
+  let leapSeconds = 0
+  for (const [since, offset] of LEAP_SECONDS) if (gpsMs >= since + offset * 1000) leapSeconds = offset
+  return leapSeconds
+}
+
+// Seconds since the GPS epoch in GPS time, from a calendar time in the given RINEX time system. RINEX writes GLONASS
+// time as UTC(SU), without the three hours of Moscow time; Galileo, QZSS and NavIC system times follow GPS time.
+// leapSeconds, when a file declares it, overrides the built-in table for UTC-based scales.
+export function toGpsSeconds(time: CalendarTime, timeSystem: string, leapSeconds: number | null = null) {
+  const seconds = calendarSeconds(time)
+  if (timeSystem === "GLO" || timeSystem === "UTC") {
+    return seconds + (leapSeconds ?? leapSecondsAtUtc(GPS_EPOCH_MS + seconds * 1000))
+  }
+  if (timeSystem === "BDT") return seconds + BDT_GPS_OFFSET
+  return seconds
+}
+
+// Week and seconds of week of a time in seconds since the GPS epoch
+export function gpsWeekTow(gpsSeconds: number): GpsTime {
+  const week = Math.floor(gpsSeconds / SECONDS_PER_WEEK)
+  return { week, tow: gpsSeconds - week * SECONDS_PER_WEEK }
+}
+
+// Converts a calendar epoch expressed in the GPS time scale to week and seconds of week.
+// RINEX observation and GPS navigation epochs are already in GPS time, so no leap seconds apply.
+export function toGpsTime(time: CalendarTime): GpsTime {
+  return gpsWeekTow(calendarSeconds(time))
+}
+
+export function epochTimestamp(gpsSeconds: number, leapSeconds: number | null = null): EpochTimestamp {
+  const utcMs = GPS_EPOCH_MS + (gpsSeconds - (leapSeconds ?? leapSecondsAtGps(gpsSeconds))) * 1000
+  const { week, tow } = gpsWeekTow(gpsSeconds)
+  return { utc: new Date(Math.round(utcMs)).toISOString(), gpsWeek: week, tow }
+}
+
+// Seconds of week in a constellation's own time scale, from GPS seconds of week. Galileo system time keeps
+// GPS weeks and seconds up to a nanosecond-level offset, which the receiver clock terms absorb.
+export function systemTimeOfWeek(gpsTow: number, system: string) {
+  if (system !== "C") return gpsTow
+  return (gpsTow - BDT_GPS_OFFSET + SECONDS_PER_WEEK) % SECONDS_PER_WEEK
+}
+
+// Day of year (1 on January 1st) and seconds of day of a GPS instant, read in GPS time; the leap seconds to UTC are
+// below what the seasonal and diurnal atmosphere models resolve
+export function dayOfYear(gpsSeconds: number) {
+  const date = new Date(GPS_EPOCH_MS + gpsSeconds * 1000)
+  const yearStart = Date.UTC(date.getUTCFullYear(), 0, 1)
+  const elapsed = (date.getTime() - yearStart) / 1000
+  const day = Math.floor(elapsed / 86400)
+  return { day: day + 1, secondsOfDay: elapsed - day * 86400 }
+}
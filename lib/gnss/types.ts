@@ -0,0 +1,186 @@
+import type { GlonassStateVector } from "./glonass"
+import type { KeplerianEphemeris } from "./orbit"
+import type { NavigationHeader, ObservationEvent, ObservationHeader, ParseDiagnostic } from "./schema"
+import type { ObservationStore } from "./store"
+import type { CalendarTime } from "./time"
+
+// Domain model shared by the parsers, the positioning engine, the API route and the dashboard.
+// API payload types are inferred from the runtime schema so client and server cannot drift.
+export type {
+  AnalysisOptions,
+  AnalysisResult,
+  ApiError,
+  AtmosphereModels,
+  DetectorFinding,
+  EpochInstant,
+  EpochTimestamp,
+  FileKind,
+  HeaderTime,
+  IonosphereModel,
+  LookAngleSample,
+  MissingReason,
+  NavigationHeader,
+  ObservationEvent,
+  ObservationEventKind,
+  ObservationHeader,
+  ParseDiagnostic,
+  PositionFix,
+  ProcessingInfo,
+  ReceivedFile,
+  ReferencePosition,
+  SatelliteArc,
+  SatelliteHealth,
+  SignalSample,
+  ThreatLevel,
+  TimeSystemCorrection,
+  TroposphereModel,
+  UtmCoordinate,
+  WeightingOptions,
+  WeightingScheme,
+} from "./schema"
+
+export interface EcefPosition {
+  x: number
+  y: number
+  z: number
+}
+
+export interface EpochTime extends CalendarTime {
+  flag: number
+  numSats: number
+  clockOffset?: number // receiver clock offset reported in the epoch header, seconds
+}
+
+export interface SignalObservation {
+  value: number
+  lli: number | null // loss of lock indicator
+  ssi: number | null // signal strength indicator
+}
+
+export type PrimaryObservable = "pseudorange" | "carrierPhase" | "doppler" | "snr"
+
+// Full GPS-style broadcast record: epoch line plus seven broadcast orbit lines (eight or nine for CNAV)
+export interface BroadcastEphemeris extends KeplerianEphemeris {
+  satellite: string
+  system: string
+  messageType: string | null // RINEX 4 message tag (LNAV, CNAV, CNV2, INAV, FNAV, D1, D2); null before RINEX 4
+  toc: CalendarTime
+  clockBias: number // seconds
+  clockDrift: number // s/s
+  clockDriftRate: number // s/s^2
+  iode: number // Galileo IODnav, BeiDou AODE
+  codesOnL2: number // Galileo data sources (I/NAV or F/NAV)
+  week: number // GPS week; Galileo weeks follow GPS, BeiDou counts BDT weeks
+  l2PFlag: number
+  svAccuracy: number // meters (Galileo SISA)
+  svHealth: number
+  tgd: number // seconds; Galileo BGD E5a/E1, BeiDou TGD1 B1/B3
+  tgd2?: number // Galileo BGD E5b/E1, BeiDou TGD2 B2/B3, seconds
+  iodc: number // BeiDou AODC; NaN for Galileo
+  transmissionTime: number // seconds of week
+  fitInterval: number // hours, NaN when not given
+  civil?: CivilNavigationTerms // CNAV and CNAV-2 only; IODE, IODC, codes on L2, L2 P flag and accuracy are then NaN
+}
+
+// GLONASS broadcast record: epoch line plus three orbit lines (four from RINEX 3.05) holding the state vector
+export interface GlonassEphemeris extends GlonassStateVector {
+  satellite: string
+  toc: CalendarTime // tb in UTC, as RINEX gives it
+  clockBias: number // -TauN, seconds
+  relativeFrequencyBias: number // +GammaN
+  messageFrameTime: number // seconds of the UTC day (RINEX 2) or week (RINEX 3 and 4)
+  svHealth: number // Bn, 0 when healthy
+  frequencyChannel: number // FDMA channel number k
+  ageOfOperation: number // En, days
+}
+
+// Terms of the GPS and QZSS civil navigation messages that have no LNAV counterpart
+export interface CivilNavigationTerms {
+  top: number // time of prediction, seconds of week
+  uraEd: number // elevation-dependent user range accuracy index
+  uraNed: number[] // non-elevation-dependent accuracy indexes 0 to 2
+  isc: Record<string, number> // inter-signal corrections by signal (L1CA, L2C, L5I5, L5Q5, L1CD, L1CP), seconds
+}
+
+// RINEX 4 STO record: polynomial offset between a system time scale and UTC or another GNSS time
+export interface SystemTimeOffset {
+  satellite: string
+  messageType: string
+  type: string // GPUT, GAGP, BDUT, ...
+  epoch: CalendarTime // reference epoch of the polynomial
+  sbasId: string | null
+  utcId: string | null
+  transmissionTime: number // seconds of week
+  a0: number // seconds
+  a1: number // s/s
+  a2: number // s/s^2
+}
+
+// RINEX 4 EOP record: pole coordinates and UT1-UTC with their first and second rates
+export interface EarthOrientationParameters {
+  satellite: string
+  messageType: string
+  epoch: CalendarTime
+  transmissionTime: number // seconds of week
+  xp: number[] // arcseconds, per day, per day^2
+  yp: number[]
+  dut1: number[] // seconds, per day, per day^2
+}
+
+// RINEX 4 ION record: broadcast ionosphere model coefficients in the order the message carries them
+export interface IonosphereParameters {
+  satellite: string
+  system: string
+  messageType: string // LNAV and D1D2 carry Klobuchar, IFNV NeQuick-G, CNVX BDGIM coefficients
+  epoch: CalendarTime // transmission time
+  coefficients: number[]
+}
+
+export interface DilutionOfPrecision {
+  gdop: number
+  pdop: number
+  hdop: number
+  vdop: number
+  tdop: number
+}
+
+export interface PositionSolution extends EcefPosition {
+  clockBias: number // receiver clock offset, seconds
+  residuals: Record<string, number> // post-fit pseudorange residuals, meters
+  residualRms: number
+  interSystemBiases: Record<string, number> // receiver clock offset of each further time system from clockBias, seconds
+  dop: DilutionOfPrecision
+  numSats: number
+  iterations: number
+  converged: boolean
+}
+
+// Event record as parsed, with its time in GPS seconds; timestamps are attached by the analysis
+export interface ObservationEventRecord extends Omit<ObservationEvent, "time"> {
+  gpsTime: number | null
+}
+
+export interface RinexObservationFile {
+  header: ObservationHeader
+  observations: ObservationStore
+  events: ObservationEventRecord[]
+  diagnostics: ParseDiagnostic[]
+}
+
+// Outcome of a streamed observation file, whose epochs went to a consumer as they were parsed
+export interface ObservationStreamSummary {
+  header: ObservationHeader
+  epochCount: number
+  events: ObservationEventRecord[]
+  diagnostics: ParseDiagnostic[]
+}
+
+export interface RinexNavigationFile {
+  header: NavigationHeader
+  ephemeris: BroadcastEphemeris[]
+  glonassEphemeris: GlonassEphemeris[]
+  timeOffsets: SystemTimeOffset[]
+  earthOrientation: EarthOrientationParameters[]
+  ionosphere: IonosphereParameters[]
+  diagnostics: ParseDiagnostic[]
+}
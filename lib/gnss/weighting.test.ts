@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest"
+import type { RangeMeasurement } from "./positioning"
+import { rangeSigma, weightMeasurements } from "./weighting"
+
+const DEG = Math.PI / 180
+
+describe("rangeSigma", () => {
+  it("gives every range the same sigma when weighting is off", () => {
+    expect(rangeSigma("equal", 5 * DEG, 30)).toBe(1)
+    expect(rangeSigma("equal", 90 * DEG, null)).toBe(1)
+  })
+
+  it("follows sigma^2 = a^2 + b^2 / sin^2(E) with a = b = 0.3 m", () => {
+    expect(rangeSigma("elevation", 90 * DEG, null)).toBeCloseTo(Math.sqrt(0.18), 12)
+    // sin(30) = 1/2
+    expect(rangeSigma("elevation", 30 * DEG, null)).toBeCloseTo(Math.sqrt(0.45), 12)
+  })
+
+  it("holds the elevation sigma at its 3 degree value towards the horizon", () => {
+    const horizon = Math.sqrt(0.09 + (0.3 / Math.sin(3 * DEG)) ** 2)
+    expect(horizon).toBeCloseTo(5.74, 2)
+    expect(rangeSigma("elevation", 1 * DEG, null)).toBeCloseTo(horizon, 12)
+    expect(rangeSigma("elevation", 0, null)).toBeCloseTo(horizon, 12)
+  })
+
+  it("takes the SIGMA-epsilon C/A code model from C/N0 (Hartinger and Brunner 1999)", () => {
+    // sigma^2 = 1.61e4 m^2 Hz * 10^(-C/N0 / 10): 0.714 m at 45 dB-Hz, ten times the variance per 10 dB
+    expect(rangeSigma("sigma-epsilon", 90 * DEG, 45)).toBeCloseTo(0.71353, 5)
+    expect(rangeSigma("sigma-epsilon", 90 * DEG, 35) ** 2).toBeCloseTo(10 * rangeSigma("sigma-epsilon", 0, 45) ** 2, 9)
+  })
+
+  it("falls back to the elevation model for SIGMA-epsilon without C/N0", () => {
+    expect(rangeSigma("sigma-epsilon", 30 * DEG, null)).toBe(rangeSigma("elevation", 30 * DEG, null))
+  })
+})
+
+describe("weightMeasurements", () => {
+  // Receiver on the equator at the prime meridian, where east is +y, north is +z and up is +x
+  const receiver = { x: 6378137, y: 0, z: 0 }
+  const at = (satellite: string, elevation: number, cn0: number | null): RangeMeasurement => ({
+    satellite,
+    position: {
+      x: receiver.x + 20200000 * Math.sin(elevation * DEG),
+      y: 0,
+      z: 20200000 * Math.cos(elevation * DEG),
+    },
+    clockOffset: 0,
+    pseudorange: 20200000,
+    frequency: null,
+    cn0,
+  })
+  const measurements = [at("G01", 80, 48), at("G02", 30, 25), at("G03", 8, 44), at("G04", 45, null)]
+
+  it("drops satellites below the elevation mask", () => {
+    const selected = weightMeasurements(measurements, receiver, {
+      weighting: "elevation",
+      elevationMask: 10,
+      minCn0: 0,
+    })
+    expect(selected.map((m) => m.satellite)).toEqual(["G01", "G02", "G04"])
+    expect(selected[1].sigma).toBeCloseTo(Math.sqrt(0.45), 9)
+  })
+
+  it("drops satellites under the C/N0 cut-off but keeps those without C/N0", () => {
+    const selected = weightMeasurements(measurements, receiver, { weighting: "equal", elevationMask: 0, minCn0: 30 })
+    expect(selected.map((m) => m.satellite)).toEqual(["G01", "G03", "G04"])
+    expect(selected.every((m) => m.sigma === 1)).toBe(true)
+  })
+
+  it("weights each kept satellite by its own C/N0", () => {
+    const selected = weightMeasurements(measurements, receiver, {
+      weighting: "sigma-epsilon",
+      elevationMask: 10,
+      minCn0: 0,
+    })
+    expect(selected[0].sigma).toBeCloseTo(Math.sqrt(1.61e4 * 10 ** -4.8), 9)
+    expect(selected[2].sigma).toBeCloseTo(Math.sqrt(0.09 + (0.3 / Math.sin(45 * DEG)) ** 2), 9)
+  })
+})
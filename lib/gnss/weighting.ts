@@ -0,0 +1,47 @@
+import { ecefToGeodetic, lookAngles } from "./geodesy"
+import type { RangeMeasurement } from "./positioning"
+import type { EcefPosition, WeightingOptions, WeightingScheme } from "./types"
+
+// Code range standard deviations for the weighted position solution and the cut-offs that screen satellites out of
+// it. Only the ratios between the sigmas of an epoch change the solution.
+
+const DEG = Math.PI / 180
+
+// Elevation model sigma^2 = a^2 + b^2 / sin^2(E), meters, with sin(E) held above that of a few degrees so satellites
+// on the horizon keep a finite sigma
+const ELEVATION_SIGMA_FLOOR = 0.3
+const ELEVATION_SIGMA_SCALE = 0.3
+const MIN_SINE_ELEVATION = Math.sin(3 * DEG)
+
+// SIGMA-epsilon sigma^2 = C 10^(-C/N0 / 10) with C for C/A code, m^2 Hz (Hartinger and Brunner 1999)
+const SIGMA_EPSILON_CONSTANT = 1.61e4
+
+function elevationSigma(elevation: number) {
+  const sine = Math.max(Math.sin(elevation), MIN_SINE_ELEVATION)
+  return Math.sqrt(ELEVATION_SIGMA_FLOOR ** 2 + (ELEVATION_SIGMA_SCALE / sine) ** 2)
+}
+
+// Sigma of a range, meters. SIGMA-epsilon needs the C/N0 and takes the elevation model for satellites without one.
+export function rangeSigma(scheme: WeightingScheme, elevation: number, cn0: number | null) {
+  if (scheme === "equal") return 1
+  if (scheme === "sigma-epsilon" && cn0 !== null) return Math.sqrt(SIGMA_EPSILON_CONSTANT * 10 ** (-cn0 / 10))
+  return elevationSigma(elevation)
+}
+
+// Measurements of an epoch that pass the elevation mask and the C/N0 cut-off as seen from a receiver position, with
+// their sigmas. Satellites without a C/N0 observation cannot be judged by it and are kept.
+export function weightMeasurements(
+  measurements: RangeMeasurement[],
+  receiver: EcefPosition,
+  { weighting, elevationMask, minCn0 }: WeightingOptions,
+): RangeMeasurement[] {
+  const geodetic = ecefToGeodetic(receiver)
+  const selected: RangeMeasurement[] = []
+  for (const m of measurements) {
+    const { elevation } = lookAngles(receiver, m.position, geodetic)
+    if (elevation < elevationMask * DEG) continue
+    if (m.cn0 !== null && m.cn0 < minCn0) continue
+    selected.push({ ...m, sigma: rangeSigma(weighting, elevation, m.cn0) })
+  }
+  return selected
+}